@@ -0,0 +1,134 @@
+import { AnomalyService } from '../services/anomalyService';
+import { CostData, DailyCost, ServiceCost } from '../types';
+
+const buildDailyCosts = (values: number[]): DailyCost[] =>
+  values.map((cost, index) => ({
+    date: `2024-11-${String(index + 1).padStart(2, '0')}`,
+    cost
+  }));
+
+const buildService = (overrides: Partial<ServiceCost>): ServiceCost => ({
+  service: 'ec2',
+  displayName: 'EC2',
+  totalCost: 0,
+  currency: 'USD',
+  budgetUtilization: 0,
+  regions: [],
+  tags: [],
+  dailyCosts: [],
+  trend: 'stable',
+  ...overrides
+});
+
+describe('AnomalyService', () => {
+  let anomalyService: AnomalyService;
+
+  beforeEach(() => {
+    anomalyService = new AnomalyService();
+  });
+
+  describe('detectSeriesAnomalies', () => {
+    it('should flag a spike against the rolling median', () => {
+      const dailyCosts = buildDailyCosts([100, 102, 98, 101, 99, 100, 103, 97, 100, 400]);
+
+      const anomalies = anomalyService.detectSeriesAnomalies(dailyCosts);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0]).toMatchObject({
+        date: '2024-11-10',
+        actual: 400,
+        expected: 100,
+        deviation: 300,
+        direction: 'spike',
+        severity: 'high'
+      });
+    });
+
+    it('should flag drops as well as spikes', () => {
+      const dailyCosts = buildDailyCosts([100, 102, 98, 101, 99, 100, 103, 97, 100, 5]);
+
+      const anomalies = anomalyService.detectSeriesAnomalies(dailyCosts);
+
+      expect(anomalies[0]).toMatchObject({ direction: 'drop', actual: 5 });
+    });
+
+    it('should not flag ordinary noise', () => {
+      const dailyCosts = buildDailyCosts([100, 110, 95, 105, 98, 112, 101, 93, 107, 104]);
+
+      expect(anomalyService.detectSeriesAnomalies(dailyCosts)).toEqual([]);
+    });
+
+    it('should wait for enough history before scoring', () => {
+      const dailyCosts = buildDailyCosts([1, 1, 1, 1, 500]);
+
+      expect(anomalyService.detectSeriesAnomalies(dailyCosts)).toEqual([]);
+    });
+
+    it('should support rolling z-scores', () => {
+      const dailyCosts = buildDailyCosts([100, 102, 98, 101, 99, 100, 103, 97, 100, 160]);
+
+      const anomalies = anomalyService.detectSeriesAnomalies(dailyCosts, { method: 'zscore' });
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].expected).toBe(100);
+      expect(anomalies[0].score).toBeGreaterThan(3);
+    });
+
+    it('should ignore deviations below the minimum impact', () => {
+      const dailyCosts = buildDailyCosts([0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.9]);
+
+      expect(anomalyService.detectSeriesAnomalies(dailyCosts)).toEqual([]);
+      expect(anomalyService.detectSeriesAnomalies(dailyCosts, { minImpact: 0.5 })).toHaveLength(1);
+    });
+
+    it('should filter by minimum severity', () => {
+      const dailyCosts = buildDailyCosts([100, 102, 98, 101, 99, 100, 103, 97, 100, 105.5]);
+
+      const all = anomalyService.detectSeriesAnomalies(dailyCosts, { minImpact: 0 });
+      const severe = anomalyService.detectSeriesAnomalies(dailyCosts, { minImpact: 0, minSeverity: 'high' });
+
+      expect(all).toHaveLength(1);
+      expect(all[0].severity).toBe('low');
+      expect(severe).toEqual([]);
+    });
+  });
+
+  describe('detectCostDataAnomalies', () => {
+    it('should scan services, regions and tags', () => {
+      const spike = buildDailyCosts([10, 10, 10, 10, 10, 10, 10, 90]);
+      const flat = buildDailyCosts([10, 10, 10, 10, 10, 10, 10, 10]);
+      const costData: CostData = {
+        services: [
+          buildService({
+            dailyCosts: spike,
+            regions: [
+              { region: 'us-east-1', cost: 160, percentage: 100, dailyCosts: spike },
+              { region: 'us-west-2', cost: 80, percentage: 50, dailyCosts: flat }
+            ],
+            tags: [
+              { key: 'team', value: 'platform', cost: 160, percentage: 100, dailyCosts: spike },
+              { key: 'team', value: 'untagged', cost: 10, percentage: 5 }
+            ]
+          }),
+          buildService({ service: 's3', displayName: 'S3', dailyCosts: flat })
+        ],
+        totalCost: 240,
+        currency: 'USD',
+        lastUpdated: new Date(),
+        budgetAlerts: []
+      };
+
+      const anomalies = anomalyService.detectCostDataAnomalies(costData);
+
+      expect(anomalies.map(anomaly => anomaly.id).sort()).toEqual([
+        'region:ec2:us-east-1:2024-11-08',
+        'service:ec2:2024-11-08',
+        'tag:ec2:team=platform:2024-11-08'
+      ]);
+      const regionAnomaly = anomalies.find(anomaly => anomaly.scope === 'region');
+      expect(regionAnomaly).toMatchObject({ service: 'ec2', displayName: 'EC2', region: 'us-east-1' });
+      const tagAnomaly = anomalies.find(anomaly => anomaly.scope === 'tag');
+      expect(tagAnomaly?.tag).toEqual({ key: 'team', value: 'platform' });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAllowedAwsProfiles, isAwsProfileAllowed, listAwsProfiles } from '../services/awsProfiles';
+
+describe('awsProfiles', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aws-profiles-'));
+    process.env.AWS_SHARED_CREDENTIALS_FILE = path.join(tempDir, 'credentials');
+    process.env.AWS_CONFIG_FILE = path.join(tempDir, 'config');
+    fs.writeFileSync(process.env.AWS_SHARED_CREDENTIALS_FILE, [
+      '[default]',
+      'aws_access_key_id = AKIADEFAULT',
+      '[cost-reader]',
+      'aws_access_key_id = AKIAREADER'
+    ].join('\n'));
+    fs.writeFileSync(process.env.AWS_CONFIG_FILE, [
+      '[default]',
+      'region = us-east-1',
+      '[profile member-account]',
+      'role_arn = arn:aws:iam::210987654321:role/CostReader',
+      'source_profile = cost-reader',
+      '[sso-session corp]',
+      'sso_region = us-east-1'
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list profiles from the credentials and config files', () => {
+    expect(listAwsProfiles()).toEqual(['cost-reader', 'default', 'member-account']);
+  });
+
+  it('should allow no profiles unless configured', () => {
+    delete process.env.AWS_ALLOWED_PROFILES;
+
+    expect(getAllowedAwsProfiles()).toEqual([]);
+    expect(isAwsProfileAllowed('default')).toBe(false);
+  });
+
+  it('should only allow listed profiles that exist', () => {
+    process.env.AWS_ALLOWED_PROFILES = 'member-account, missing';
+
+    expect(getAllowedAwsProfiles()).toEqual(['member-account']);
+    expect(isAwsProfileAllowed('cost-reader')).toBe(false);
+  });
+
+  it('should allow every profile with a wildcard', () => {
+    process.env.AWS_ALLOWED_PROFILES = '*';
+
+    expect(getAllowedAwsProfiles()).toEqual(['cost-reader', 'default', 'member-account']);
+  });
+});
@@ -1,4 +1,13 @@
-import { AWSService } from '../services/awsService';
+import { GetCostAndUsageCommand, GetCostForecastCommand } from '@aws-sdk/client-cost-explorer';
+import { DescribeBudgetsCommand } from '@aws-sdk/client-budgets';
+import { STSClient, AssumeRoleCommand } from '@aws-sdk/client-sts';
+import { fromIni } from '@aws-sdk/credential-provider-ini';
+import {
+  AWSService,
+  CostExplorerRequestLimitError,
+  CostExplorerRequestTracker,
+  costExplorerRequestTracker
+} from '../services/awsService';
 import { AWSCredentials } from '../types';
 
 // Mock AWS SDK clients
@@ -9,20 +18,27 @@ jest.mock('@aws-sdk/client-cost-explorer', () => ({
     send: mockSend
   })),
   GetCostAndUsageCommand: jest.fn(),
-  GetDimensionValuesCommand: jest.fn()
+  GetDimensionValuesCommand: jest.fn(),
+  GetCostForecastCommand: jest.fn()
 }));
 
 jest.mock('@aws-sdk/client-sts', () => ({
   STSClient: jest.fn().mockImplementation(() => ({
     send: mockSend
   })),
-  GetCallerIdentityCommand: jest.fn()
+  GetCallerIdentityCommand: jest.fn(),
+  AssumeRoleCommand: jest.fn()
+}));
+
+jest.mock('@aws-sdk/credential-provider-ini', () => ({
+  fromIni: jest.fn()
 }));
 
 jest.mock('@aws-sdk/client-budgets', () => ({
   BudgetsClient: jest.fn().mockImplementation(() => ({
     send: mockSend
-  }))
+  })),
+  DescribeBudgetsCommand: jest.fn()
 }));
 
 describe('AWSService', () => {
@@ -70,6 +86,89 @@ describe('AWSService', () => {
     });
   });
 
+  describe('credential sources', () => {
+    // The credential provider the service handed to its STS client
+    const stsCredentialProvider = (call = 0) =>
+      (STSClient as unknown as jest.Mock).mock.calls[call][0].credentials as () => Promise<any>;
+
+    it('should pass a session token through for temporary credentials', async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+
+      const result = await awsService.validateCredentials({ ...validCredentials, sessionToken: 'FwoGZXIvYXdzEXAMPLE' });
+
+      expect(result).toBe(true);
+      await expect(stsCredentialProvider()()).resolves.toEqual({
+        accessKeyId: validCredentials.accessKeyId,
+        secretAccessKey: validCredentials.secretAccessKey,
+        sessionToken: 'FwoGZXIvYXdzEXAMPLE'
+      });
+    });
+
+    it('should read a named profile from the server config', async () => {
+      const profileProvider = jest.fn().mockResolvedValue({ accessKeyId: 'AKIAPROFILE', secretAccessKey: 'secret' });
+      (fromIni as jest.Mock).mockReturnValueOnce(profileProvider);
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+
+      const result = await awsService.validateCredentials({ profile: 'cost-reader', region: 'us-east-1' });
+
+      expect(result).toBe(true);
+      expect(fromIni).toHaveBeenCalledWith({ profile: 'cost-reader' });
+      expect(profileProvider).toHaveBeenCalled();
+    });
+
+    it('should fail validation when the profile cannot be loaded', async () => {
+      (fromIni as jest.Mock).mockReturnValueOnce(jest.fn().mockRejectedValue(new Error('Profile missing could not be found')));
+
+      await expect(awsService.validateCredentials({ profile: 'missing' })).resolves.toBe(false);
+    });
+
+    it('should assume a role with an external ID and report the member account', async () => {
+      const expiration = new Date(Date.now() + 60 * 60 * 1000);
+      mockSend
+        .mockResolvedValueOnce({
+          Credentials: {
+            AccessKeyId: 'ASIAASSUMED',
+            SecretAccessKey: 'assumed-secret',
+            SessionToken: 'assumed-token',
+            Expiration: expiration
+          }
+        })
+        .mockResolvedValueOnce({ Account: '210987654321' });
+
+      const result = await awsService.validateCredentials({
+        ...validCredentials,
+        roleArn: 'arn:aws:iam::210987654321:role/CostReader',
+        externalId: 'haunted-external-id'
+      });
+
+      expect(result).toBe(true);
+      expect(AssumeRoleCommand).toHaveBeenCalledWith({
+        RoleArn: 'arn:aws:iam::210987654321:role/CostReader',
+        RoleSessionName: 'haunted-cost-guard',
+        DurationSeconds: 3600,
+        ExternalId: 'haunted-external-id'
+      });
+      expect(awsService.getAccountId()).toBe('210987654321');
+
+      // Clients sign with the assumed role, reusing it until it nears expiry
+      const provider = stsCredentialProvider(1);
+      await expect(provider()).resolves.toMatchObject({ accessKeyId: 'ASIAASSUMED', sessionToken: 'assumed-token' });
+      expect(AssumeRoleCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail validation when AssumeRole is refused', async () => {
+      mockSend.mockRejectedValueOnce(Object.assign(new Error('not authorized to perform sts:AssumeRole'), { name: 'AccessDenied' }));
+
+      const result = await awsService.validateCredentials({
+        ...validCredentials,
+        roleArn: 'arn:aws:iam::210987654321:role/CostReader'
+      });
+
+      expect(result).toBe(false);
+      expect(awsService.getAccountId()).toBeNull();
+    });
+  });
+
   describe('getCostData', () => {
     beforeEach(async () => {
       // Setup valid credentials first
@@ -270,6 +369,585 @@ describe('AWSService', () => {
     });
   });
 
+  describe('cost allocation tags', () => {
+    it('should read tag keys from the environment', () => {
+      process.env.AWS_COST_ALLOCATION_TAGS = 'team, env,,team';
+      const envService = new AWSService();
+      delete process.env.AWS_COST_ALLOCATION_TAGS;
+
+      expect(envService.getCostAllocationTagKeys()).toEqual(['team', 'env']);
+    });
+
+    it('should break service costs down by tag with an untagged bucket', async () => {
+      const taggedService = new AWSService(['team']);
+
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await taggedService.validateCredentials(validCredentials);
+
+      mockSend
+        .mockResolvedValueOnce({
+          ResultsByTime: [
+            {
+              Groups: [
+                {
+                  Keys: ['Amazon Elastic Compute Cloud - Compute'],
+                  Metrics: { BlendedCost: { Amount: '200.00', Unit: 'USD' } }
+                }
+              ]
+            }
+          ]
+        })
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Regional
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Daily
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Linked accounts
+        .mockResolvedValueOnce({
+          ResultsByTime: [
+            {
+              TimePeriod: { Start: '2024-01-01', End: '2024-01-02' },
+              Groups: [
+                {
+                  Keys: ['team$platform', 'Amazon Elastic Compute Cloud - Compute'],
+                  Metrics: { BlendedCost: { Amount: '150.00', Unit: 'USD' } }
+                },
+                {
+                  Keys: ['team$', 'Amazon Elastic Compute Cloud - Compute'],
+                  Metrics: { BlendedCost: { Amount: '50.00', Unit: 'USD' } }
+                }
+              ]
+            }
+          ]
+        });
+
+      const result = await taggedService.getCostData();
+      const ec2 = result.services[0];
+
+      expect(ec2.tags).toEqual([
+        { key: 'team', value: 'platform', cost: 150, percentage: 75, dailyCosts: [{ date: '2024-01-01', cost: 150 }] },
+        { key: 'team', value: 'untagged', cost: 50, percentage: 25, dailyCosts: [{ date: '2024-01-01', cost: 50 }] }
+      ]);
+    });
+
+    it('should not query tags when no tag keys are configured', async () => {
+      const untaggedService = new AWSService([]);
+
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await untaggedService.validateCredentials(validCredentials);
+      mockSend.mockClear();
+
+      mockSend
+        .mockResolvedValueOnce({ ResultsByTime: [] })
+        .mockResolvedValueOnce({ ResultsByTime: [] })
+        .mockResolvedValueOnce({ ResultsByTime: [] })
+        .mockResolvedValueOnce({ ResultsByTime: [] });
+
+      await untaggedService.getCostData();
+
+      expect(mockSend).toHaveBeenCalledTimes(4); // service, region, daily, linked accounts
+    });
+  });
+
+  describe('cost metric', () => {
+    beforeEach(async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+    });
+
+    it('should request and read the selected metric', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ResultsByTime: [
+            {
+              Groups: [
+                {
+                  Keys: ['Amazon Elastic Compute Cloud - Compute'],
+                  Metrics: {
+                    BlendedCost: { Amount: '150.00', Unit: 'USD' },
+                    AmortizedCost: { Amount: '90.00', Unit: 'USD' }
+                  }
+                }
+              ]
+            }
+          ]
+        })
+        .mockResolvedValue({ ResultsByTime: [] });
+
+      const result = await awsService.getCostData(undefined, { metric: 'AmortizedCost' });
+      mockSend.mockReset();
+
+      expect(result.metric).toBe('AmortizedCost');
+      expect(result.totalCost).toBe(90);
+
+      const costQueries = (GetCostAndUsageCommand as unknown as jest.Mock).mock.calls
+        .map(([input]) => input)
+        .filter(input => input.GroupBy);
+      costQueries.forEach(input => {
+        expect(input.Metrics).toEqual(['AmortizedCost']);
+      });
+    });
+
+    it('should default to BlendedCost', async () => {
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      const result = await awsService.getCostData();
+      mockSend.mockReset();
+
+      expect(result.metric).toBe('BlendedCost');
+    });
+  });
+
+  describe('pagination', () => {
+    beforeEach(async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+    });
+
+    it('should follow NextPageToken and merge groups of the same period', async () => {
+      const period = { Start: '2024-01-01', End: '2024-02-01' };
+      const commandMock = GetCostAndUsageCommand as unknown as jest.Mock;
+      mockSend.mockImplementation(async (command: any) => {
+        const input = commandMock.mock.calls[commandMock.mock.instances.indexOf(command)]?.[0];
+        const isServiceQuery = input?.GroupBy?.length === 1 && input.Granularity === 'MONTHLY';
+        if (!isServiceQuery) {
+          return { ResultsByTime: [] };
+        }
+        if (!input.NextPageToken) {
+          return {
+            ResultsByTime: [{ TimePeriod: period, Groups: [
+              { Keys: ['Amazon EC2'], Metrics: { BlendedCost: { Amount: '100', Unit: 'USD' } } }
+            ] }],
+            NextPageToken: 'page-2'
+          };
+        }
+        return {
+          ResultsByTime: [{ TimePeriod: period, Groups: [
+            { Keys: ['Amazon S3'], Metrics: { BlendedCost: { Amount: '50', Unit: 'USD' } } }
+          ] }]
+        };
+      });
+
+      const result = await awsService.getCostData();
+      mockSend.mockReset();
+
+      expect(result.services.map(s => s.displayName).sort()).toEqual(['Amazon EC2', 'Amazon S3']);
+      expect(result.totalCost).toBe(150);
+      const pageTokens = commandMock.mock.calls
+        .map(([input]) => input.NextPageToken)
+        .filter(Boolean);
+      expect(pageTokens).toEqual(['page-2']);
+    });
+  });
+
+  describe('getCostForecast', () => {
+    it('should require validated credentials', async () => {
+      await expect(awsService.getCostForecast()).rejects.toThrow('AWS credentials not validated');
+    });
+
+    it('should map the forecast and add month-to-date spend', async () => {
+      jest.useFakeTimers({ now: new Date('2024-11-20T12:00:00Z'), doNotFake: ['setTimeout'] });
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+
+      mockSend
+        .mockResolvedValueOnce({
+          Total: { Amount: '110', Unit: 'USD' },
+          ForecastResultsByTime: [
+            { TimePeriod: { Start: '2024-11-20', End: '2024-11-21' }, MeanValue: '50', PredictionIntervalLowerBound: '40', PredictionIntervalUpperBound: '60' },
+            { TimePeriod: { Start: '2024-11-21', End: '2024-11-22' }, MeanValue: '60', PredictionIntervalLowerBound: '45', PredictionIntervalUpperBound: '75' }
+          ]
+        })
+        .mockResolvedValueOnce({
+          ResultsByTime: [{ Total: { UnblendedCost: { Amount: '900', Unit: 'USD' } } }]
+        });
+
+      const forecast = await awsService.getCostForecast({ service: 'Amazon EC2', metric: 'UnblendedCost', confidenceLevel: 95 });
+      jest.useRealTimers();
+
+      const forecastInput = (GetCostForecastCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(forecastInput).toMatchObject({
+        TimePeriod: { Start: '2024-11-20', End: '2024-12-01' },
+        Metric: 'UNBLENDED_COST',
+        Granularity: 'DAILY',
+        PredictionIntervalLevel: 95,
+        Filter: { Dimensions: { Key: 'SERVICE', Values: ['Amazon EC2'] } }
+      });
+      expect(forecast).toMatchObject({
+        mode: 'aws',
+        method: 'aws-cost-explorer',
+        periodStart: '2024-11-01',
+        periodEnd: '2024-12-01',
+        actualToDate: 900,
+        // Daily half-widths of 10 and 15 combine to sqrt(10² + 15²)
+        forecastTotal: { mean: 110, lower: 91.97, upper: 128.03 },
+        projectedPeriodTotal: { mean: 1010, lower: 991.97, upper: 1028.03 }
+      });
+      expect(forecast.points[1]).toEqual({ date: '2024-11-21', mean: 60, lower: 45, upper: 75 });
+    });
+  });
+
+  describe('getAwsBudgets', () => {
+    it('should require validated credentials', async () => {
+      await expect(awsService.getAwsBudgets()).rejects.toThrow('AWS credentials not validated');
+    });
+
+    it('should page through DescribeBudgets and map cost filters', async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+      mockSend.mockReset();
+
+      mockSend
+        .mockResolvedValueOnce({
+          Budgets: [{
+            BudgetName: 'EC2 monthly',
+            BudgetType: 'COST',
+            TimeUnit: 'MONTHLY',
+            BudgetLimit: { Amount: '1200.0', Unit: 'USD' },
+            CostFilters: { Service: ['Amazon Elastic Compute Cloud - Compute'], Region: ['us-east-1'] }
+          }],
+          NextToken: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          Budgets: [{
+            BudgetName: 'Planned total',
+            BudgetType: 'COST',
+            TimeUnit: 'QUARTERLY',
+            PlannedBudgetLimits: {
+              '1000000000': { Amount: '300', Unit: 'USD' },
+              '1700000000': { Amount: '500', Unit: 'USD' },
+              '9999999999': { Amount: '900', Unit: 'USD' }
+            }
+          }]
+        });
+
+      const budgets = await awsService.getAwsBudgets();
+
+      const inputs = (DescribeBudgetsCommand as unknown as jest.Mock).mock.calls.map(call => call[0]);
+      expect(inputs).toEqual([
+        { AccountId: '123456789012', MaxResults: 100 },
+        { AccountId: '123456789012', MaxResults: 100, NextToken: 'page-2' }
+      ]);
+      expect(budgets).toEqual([
+        {
+          name: 'EC2 monthly',
+          budgetType: 'COST',
+          timeUnit: 'MONTHLY',
+          limit: { amount: 1200, currency: 'USD' },
+          costFilters: { Region: ['us-east-1'] },
+          services: ['amazonelasticcomputecloudcompute']
+        },
+        {
+          name: 'Planned total',
+          budgetType: 'COST',
+          timeUnit: 'QUARTERLY',
+          limit: { amount: 500, currency: 'USD' },
+          costFilters: {},
+          services: []
+        }
+      ]);
+    });
+  });
+
+  describe('getPermissionReport', () => {
+    const accessDenied = (action: string) =>
+      Object.assign(new Error(`User is not authorized to perform: ${action}`), { name: 'AccessDeniedException' });
+
+    it('should require validated credentials', async () => {
+      await expect(awsService.getPermissionReport()).rejects.toThrow('AWS credentials not validated');
+    });
+
+    it('should report each capability and a policy for the denied ones', async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+      mockSend.mockReset();
+
+      mockSend
+        .mockResolvedValueOnce({ Account: '123456789012' })
+        .mockResolvedValueOnce({ ResultsByTime: [] })
+        .mockResolvedValueOnce({ DimensionValues: [] })
+        .mockRejectedValueOnce(accessDenied('ce:GetCostForecast'))
+        .mockRejectedValueOnce(Object.assign(new Error('Access denied'), { name: 'AccessDeniedException' }));
+      const requestsBefore = awsService.getRequestLedger().requests;
+
+      const report = await awsService.getPermissionReport();
+
+      expect(report.accountId).toBe('123456789012');
+      expect(report.allGranted).toBe(false);
+      expect(report.checks.map(check => [check.capability, check.status])).toEqual([
+        ['identity', 'granted'],
+        ['costAndUsage', 'granted'],
+        ['dimensionValues', 'granted'],
+        ['forecast', 'denied'],
+        ['budgets', 'denied']
+      ]);
+      expect(report.missingActions).toEqual(['ce:GetCostForecast', 'budgets:ViewBudget']);
+      expect(report.minimalPolicy).toEqual({
+        Version: '2012-10-17',
+        Statement: [
+          { Sid: 'HauntedCostGuardCostExplorer', Effect: 'Allow', Action: ['ce:GetCostForecast'], Resource: '*' },
+          {
+            Sid: 'HauntedCostGuardBudgets',
+            Effect: 'Allow',
+            Action: ['budgets:ViewBudget'],
+            Resource: 'arn:aws:budgets::123456789012:budget/*'
+          }
+        ]
+      });
+      expect(awsService.getRequestLedger().requests - requestsBefore).toBe(3);
+    });
+
+    it('should treat missing forecast data as granted and other failures as errors', async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+      mockSend.mockReset();
+
+      mockSend
+        .mockResolvedValueOnce({ Account: '123456789012' })
+        .mockResolvedValueOnce({ ResultsByTime: [] })
+        .mockRejectedValueOnce(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }))
+        .mockRejectedValueOnce(Object.assign(new Error('Insufficient amount of historical data'), { name: 'DataUnavailableException' }))
+        .mockResolvedValueOnce({ Budgets: [] });
+
+      const report = await awsService.getPermissionReport();
+
+      expect(report.checks.find(check => check.capability === 'dimensionValues')).toMatchObject({
+        status: 'error',
+        error: 'Rate exceeded'
+      });
+      expect(report.checks.find(check => check.capability === 'forecast')?.status).toBe('granted');
+      expect(report.allGranted).toBe(false);
+      expect(report.missingActions).toEqual([]);
+      expect(report.minimalPolicy).toBeNull();
+    });
+
+    it('should reuse the cached report unless a refresh is forced', async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+      mockSend.mockReset();
+      mockSend.mockResolvedValue({});
+
+      const first = await awsService.getPermissionReport();
+      await awsService.getPermissionReport();
+      expect(mockSend).toHaveBeenCalledTimes(5);
+      expect(first.allGranted).toBe(true);
+
+      await awsService.getPermissionReport(true);
+      expect(mockSend).toHaveBeenCalledTimes(10);
+    });
+  });
+
+  describe('request ledger', () => {
+    it('should count Cost Explorer requests and estimate their cost', async () => {
+      const trackedService = new AWSService([], new CostExplorerRequestTracker());
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await trackedService.validateCredentials(validCredentials);
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      await trackedService.getCostData();
+      mockSend.mockReset();
+
+      // 1 validation probe + service, region, daily and account queries
+      const ledger = trackedService.getRequestLedger();
+      expect(ledger.requests).toBe(5);
+      expect(ledger.estimatedCost).toBe(0.05);
+      expect(ledger.history).toEqual([
+        { date: ledger.date, requests: 5, estimatedCost: 0.05 }
+      ]);
+    });
+
+    it('should stop sending requests once the daily cap is reached', async () => {
+      const cappedService = new AWSService([], new CostExplorerRequestTracker(3));
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await cappedService.validateCredentials(validCredentials);
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      await expect(cappedService.getCostData()).rejects.toBeInstanceOf(CostExplorerRequestLimitError);
+      mockSend.mockReset();
+
+      const ledger = cappedService.getRequestLedger();
+      expect(ledger.requests).toBe(3);
+      expect(ledger.remaining).toBe(0);
+      expect(ledger.dailyLimit).toBe(3);
+    });
+
+    it('should allow unlimited requests when the cap is disabled', () => {
+      const uncappedService = new AWSService([], new CostExplorerRequestTracker(0));
+
+      expect(uncappedService.getRequestLedger()).toMatchObject({
+        requests: 0,
+        dailyLimit: null,
+        remaining: null
+      });
+    });
+
+    it('should share the daily cap across sessions', async () => {
+      const tracker = new CostExplorerRequestTracker(3);
+      const firstSession = new AWSService([], tracker);
+      const secondSession = new AWSService([], tracker);
+
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await firstSession.validateCredentials(validCredentials);
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await secondSession.validateCredentials(validCredentials);
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      await expect(firstSession.getCostData()).rejects.toBeInstanceOf(CostExplorerRequestLimitError);
+      await expect(secondSession.getCostData()).rejects.toBeInstanceOf(CostExplorerRequestLimitError);
+      mockSend.mockReset();
+
+      expect(firstSession.getRequestLedger()).toMatchObject({ requests: 3, remaining: 0 });
+      expect(secondSession.getRequestLedger()).toMatchObject({ requests: 3, remaining: 0 });
+    });
+
+    it('should use the process-wide tracker by default', () => {
+      expect(new AWSService().getRequestLedger()).toEqual(costExplorerRequestTracker.getLedger());
+    });
+  });
+
+  describe('time range', () => {
+    beforeEach(async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+    });
+
+    it('should query the requested period and granularity', async () => {
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      const result = await awsService.getCostData(
+        { start: new Date('2024-01-01'), end: new Date('2024-04-01') },
+        { granularity: 'MONTHLY' }
+      );
+      mockSend.mockReset();
+
+      const costQueries = (GetCostAndUsageCommand as unknown as jest.Mock).mock.calls
+        .map(([input]) => input)
+        .filter(input => input.GroupBy);
+      costQueries.forEach(input => {
+        expect(input.TimePeriod).toEqual({ Start: '2024-01-01', End: '2024-04-01' });
+      });
+      expect(costQueries.every(input => input.Granularity === 'MONTHLY')).toBe(true);
+      expect(result.timePeriod).toEqual({ start: '2024-01-01', end: '2024-04-01', granularity: 'MONTHLY' });
+    });
+  });
+
+  describe('linked accounts', () => {
+    beforeEach(async () => {
+      mockSend.mockResolvedValueOnce({ Account: '123456789012' });
+      await awsService.validateCredentials(validCredentials);
+    });
+
+    it('should break costs down by linked account', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ResultsByTime: [
+            {
+              Groups: [
+                { Keys: ['Amazon Simple Storage Service'], Metrics: { BlendedCost: { Amount: '100.00', Unit: 'USD' } } }
+              ]
+            }
+          ]
+        })
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Regional
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Daily
+        .mockResolvedValueOnce({
+          DimensionValueAttributes: [
+            { Value: '111111111111', Attributes: { description: 'platform-prod' } }
+          ],
+          ResultsByTime: [
+            {
+              Groups: [
+                { Keys: ['111111111111', 'Amazon Simple Storage Service'], Metrics: { BlendedCost: { Amount: '80.00', Unit: 'USD' } } },
+                { Keys: ['222222222222', 'Amazon Simple Storage Service'], Metrics: { BlendedCost: { Amount: '20.00', Unit: 'USD' } } }
+              ]
+            }
+          ]
+        });
+
+      const result = await awsService.getCostData();
+
+      expect(result.accounts).toEqual([
+        { accountId: '111111111111', accountName: 'platform-prod', cost: 80, percentage: 80 },
+        { accountId: '222222222222', cost: 20, percentage: 20 }
+      ]);
+      expect(result.services[0].accounts).toHaveLength(2);
+    });
+
+    it('should keep account names from every page', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Services
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Regional
+        .mockResolvedValueOnce({ ResultsByTime: [] }) // Daily
+        .mockResolvedValueOnce({
+          DimensionValueAttributes: [
+            { Value: '111111111111', Attributes: { description: 'platform-prod' } }
+          ],
+          ResultsByTime: [
+            {
+              TimePeriod: { Start: '2024-01-01', End: '2024-02-01' },
+              Groups: [
+                { Keys: ['111111111111', 'Amazon Simple Storage Service'], Metrics: { BlendedCost: { Amount: '80.00', Unit: 'USD' } } }
+              ]
+            }
+          ],
+          NextPageToken: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          DimensionValueAttributes: [
+            { Value: '222222222222', Attributes: { description: 'data-staging' } }
+          ],
+          ResultsByTime: [
+            {
+              TimePeriod: { Start: '2024-01-01', End: '2024-02-01' },
+              Groups: [
+                { Keys: ['222222222222', 'Amazon Simple Storage Service'], Metrics: { BlendedCost: { Amount: '20.00', Unit: 'USD' } } }
+              ]
+            }
+          ]
+        });
+
+      const result = await awsService.getCostData();
+
+      expect(result.accounts?.map(account => account.accountName)).toEqual(['platform-prod', 'data-staging']);
+    });
+
+    it('should filter every query by the selected linked account', async () => {
+      mockSend.mockResolvedValue({ ResultsByTime: [] });
+
+      const result = await awsService.getCostData(undefined, { linkedAccountId: '111111111111' });
+      mockSend.mockReset();
+
+      const costQueries = (GetCostAndUsageCommand as unknown as jest.Mock).mock.calls
+        .map(([input]) => input)
+        .filter(input => input.GroupBy);
+
+      expect(costQueries.length).toBeGreaterThanOrEqual(4);
+      costQueries.forEach(input => {
+        expect(input.Filter).toEqual({
+          Dimensions: { Key: 'LINKED_ACCOUNT', Values: ['111111111111'] }
+        });
+      });
+      expect(result.linkedAccountId).toBe('111111111111');
+    });
+
+    it('should list linked accounts with their names', async () => {
+      mockSend.mockResolvedValueOnce({
+        DimensionValues: [
+          { Value: '111111111111', Attributes: { description: 'platform-prod' } },
+          { Value: '222222222222' }
+        ]
+      });
+
+      const accounts = await awsService.getLinkedAccounts();
+
+      expect(accounts).toEqual([
+        { accountId: '111111111111', accountName: 'platform-prod' },
+        { accountId: '222222222222' }
+      ]);
+    });
+
+    it('should require validated credentials to list linked accounts', async () => {
+      await expect(new AWSService().getLinkedAccounts()).rejects.toThrow('AWS credentials not validated');
+    });
+  });
+
   describe('getAvailableServices', () => {
     beforeEach(async () => {
       mockSend.mockResolvedValueOnce({});
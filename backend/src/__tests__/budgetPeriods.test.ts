@@ -0,0 +1,36 @@
+import { getBudgetPeriod } from '../services/budgetPeriods';
+
+describe('getBudgetPeriod', () => {
+  it('should use calendar months, quarters and years by default', () => {
+    expect(getBudgetPeriod({ period: 'monthly' }, '2024-02-29')).toEqual({ start: '2024-02-01', end: '2024-03-01' });
+    expect(getBudgetPeriod({ period: 'quarterly' }, '2024-05-15')).toEqual({ start: '2024-04-01', end: '2024-07-01' });
+    expect(getBudgetPeriod({ period: 'yearly' }, '2024-12-31')).toEqual({ start: '2024-01-01', end: '2025-01-01' });
+  });
+
+  it('should start quarters and years on the fiscal year start month', () => {
+    const budget = { fiscalYearStartMonth: 4 };
+
+    expect(getBudgetPeriod({ ...budget, period: 'quarterly' }, '2024-02-10')).toEqual({ start: '2024-01-01', end: '2024-04-01' });
+    expect(getBudgetPeriod({ ...budget, period: 'yearly' }, '2024-02-10')).toEqual({ start: '2023-04-01', end: '2024-04-01' });
+    expect(getBudgetPeriod({ ...budget, period: 'yearly' }, '2024-04-01')).toEqual({ start: '2024-04-01', end: '2025-04-01' });
+    expect(getBudgetPeriod({ fiscalYearStartMonth: 11, period: 'quarterly' }, '2025-01-20')).toEqual({ start: '2024-11-01', end: '2025-02-01' });
+  });
+
+  it('should split 4-4-5 years into 4, 4 and 5 week months from the Sunday nearest the start', () => {
+    const budget = { calendar: '4-4-5' as const };
+
+    // Fiscal 2024 starts on Sunday 2023-12-31 and runs 52 weeks
+    expect(getBudgetPeriod({ ...budget, period: 'yearly' }, '2024-06-01')).toEqual({ start: '2023-12-31', end: '2024-12-29' });
+    expect(getBudgetPeriod({ ...budget, period: 'quarterly' }, '2024-01-01')).toEqual({ start: '2023-12-31', end: '2024-03-31' });
+    expect(getBudgetPeriod({ ...budget, period: 'monthly' }, '2024-01-28')).toEqual({ start: '2024-01-28', end: '2024-02-25' });
+    expect(getBudgetPeriod({ ...budget, period: 'monthly' }, '2024-03-15')).toEqual({ start: '2024-02-25', end: '2024-03-31' });
+    expect(getBudgetPeriod({ ...budget, period: 'monthly' }, '2023-12-30')).toEqual({ start: '2023-11-26', end: '2023-12-31' });
+  });
+
+  it('should give the extra week of a 53-week year to its last month', () => {
+    // Fiscal 2020 runs from 2019-12-29 to 2021-01-03
+    expect(getBudgetPeriod({ calendar: '4-4-5', period: 'monthly' }, '2020-12-25')).toEqual({ start: '2020-11-22', end: '2021-01-03' });
+    expect(getBudgetPeriod({ calendar: '4-4-5', period: 'quarterly', fiscalYearStartMonth: 1 }, '2021-01-02'))
+      .toEqual({ start: '2020-09-27', end: '2021-01-03' });
+  });
+});
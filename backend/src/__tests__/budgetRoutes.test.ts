@@ -2,6 +2,11 @@ import request from 'supertest';
 import express from 'express';
 import budgetRoutes from '../routes/budgetRoutes';
 import { budgetService } from '../services/budgetService';
+import { costDatasetService } from '../services/costDatasetService';
+import { csvImportService } from '../services/csvImportService';
+import { AWSService } from '../services/awsService';
+import { AwsSession, sessionService } from '../services/sessionService';
+import { CSVImportJob } from '../types';
 
 const app = express();
 app.use(express.json());
@@ -172,6 +177,31 @@ describe('Budget Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.alertThresholds).toEqual([50, 80, 100]);
     });
+
+    it('should save the fiscal year start month and calendar', async () => {
+      const response = await request(app)
+        .post('/api/budget')
+        .send({ accountId: 'test', service: 'ec2', amount: 1000, currency: 'USD', period: 'yearly', fiscalYearStartMonth: 7, calendar: '4-4-5' })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ fiscalYearStartMonth: 7, calendar: '4-4-5' });
+    });
+
+    it('should return 400 for an invalid fiscal year start month or calendar', async () => {
+      const budgetData = { accountId: 'test', service: 'ec2', amount: 1000, currency: 'USD', period: 'yearly' };
+
+      const month = await request(app)
+        .post('/api/budget')
+        .send({ ...budgetData, fiscalYearStartMonth: 13 })
+        .expect(400);
+      const calendar = await request(app)
+        .post('/api/budget')
+        .send({ ...budgetData, calendar: 'lunar' })
+        .expect(400);
+
+      expect(month.body.error).toBe('fiscalYearStartMonth must be a month number from 1 to 12');
+      expect(calendar.body.error).toBe('calendar must be one of: gregorian, 4-4-5');
+    });
   });
 
   describe('DELETE /api/budget/:budgetId', () => {
@@ -229,7 +259,7 @@ describe('Budget Routes', () => {
         }
       ];
 
-      budgetService.generateAlerts(utilizations);
+      budgetService.generateAlerts(utilizations, 'test');
 
       const response = await request(app)
         .get('/api/budget/test/notifications')
@@ -264,7 +294,7 @@ describe('Budget Routes', () => {
         }
       ];
 
-      const alerts = budgetService.generateAlerts(utilizations);
+      const alerts = budgetService.generateAlerts(utilizations, 'test');
       const notificationId = alerts[0].id;
 
       const response = await request(app)
@@ -289,6 +319,240 @@ describe('Budget Routes', () => {
     });
   });
 
+  describe('POST /api/budget/aws/import', () => {
+    let session: AwsSession;
+
+    beforeEach(() => {
+      session = sessionService.createSession(new AWSService());
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      sessionService.destroySession(session.token);
+    });
+
+    it('should preview an import on a dry run', async () => {
+      jest.spyOn(session.awsService, 'getAwsBudgets').mockResolvedValue([
+        { name: 'EC2 monthly', budgetType: 'COST', timeUnit: 'MONTHLY', limit: { amount: 1200, currency: 'USD' }, costFilters: {}, services: ['ec2'] },
+        { name: 'Usage', budgetType: 'USAGE', timeUnit: 'MONTHLY', costFilters: {}, services: [] }
+      ]);
+
+      const response = await request(app)
+        .post('/api/budget/aws/import')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ accountId: 'test', dryRun: true })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toMatchObject({ dryRun: true, created: 1, skipped: 1 });
+      expect(response.body.message).toBe('Dry run: 1 budgets would be created, 0 updated, 1 skipped');
+      expect(budgetService.getBudgets('test')).toHaveLength(0);
+    });
+
+    it('should save imported budgets', async () => {
+      jest.spyOn(session.awsService, 'getAwsBudgets').mockResolvedValue([
+        { name: 'EC2 monthly', budgetType: 'COST', timeUnit: 'MONTHLY', limit: { amount: 1200, currency: 'USD' }, costFilters: {}, services: ['ec2'] }
+      ]);
+
+      await request(app)
+        .post('/api/budget/aws/import')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ accountId: 'test' })
+        .expect(200);
+
+      expect(budgetService.getBudgetByService('test', 'ec2')?.source).toBe('aws-budgets');
+    });
+
+    it('should import into the session account by default', async () => {
+      jest.spyOn(session.awsService, 'getAccountId').mockReturnValue('123456789012');
+      jest.spyOn(session.awsService, 'getAwsBudgets').mockResolvedValue([
+        { name: 'EC2 monthly', budgetType: 'COST', timeUnit: 'MONTHLY', limit: { amount: 1200, currency: 'USD' }, costFilters: {}, services: ['ec2'] }
+      ]);
+
+      await request(app)
+        .post('/api/budget/aws/import')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({})
+        .expect(200);
+
+      const imported = budgetService.getBudgetByService('123456789012', 'ec2');
+      expect(imported?.source).toBe('aws-budgets');
+      expect(budgetService.getBudgetByService('aws', 'ec2')).toBeNull();
+      budgetService.deleteBudget(imported!.id);
+    });
+
+    it('should return 401 without an AWS session', async () => {
+      const response = await request(app)
+        .post('/api/budget/aws/import')
+        .send({ dryRun: true })
+        .expect(401);
+
+      expect(response.body.error).toContain('AWS session required');
+    });
+
+    it('should reject a non-boolean dryRun', async () => {
+      await request(app)
+        .post('/api/budget/aws/import')
+        .set('Authorization', `Bearer ${session.token}`)
+        .send({ dryRun: 'yes' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/budget/:accountId/utilization', () => {
+    afterEach(() => {
+      costDatasetService.deleteDataset('budget-periods');
+    });
+
+    it('should measure a dataset against each budget period', async () => {
+      costDatasetService.addImport('budget-periods', {
+        id: 'budget-periods-1',
+        fileName: 'costs.csv',
+        format: 'daily-costs',
+        rowsProcessed: 3,
+        currency: 'USD'
+      }, [
+        { date: '2024-03-30', service: 'Amazon EC2', region: '', accountId: '', cost: 400 },
+        { date: '2024-04-01', service: 'Amazon EC2', region: '', accountId: '', cost: 100 },
+        { date: '2024-04-02', service: 'Amazon EC2', region: '', accountId: '', cost: 100 }
+      ]);
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'amazonec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'quarterly',
+        fiscalYearStartMonth: 4,
+        alertThresholds: [50, 80, 100]
+      });
+
+      const response = await request(app)
+        .get('/api/budget/test/utilization?mode=csv&dataset=budget-periods')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data[0]).toMatchObject({
+        service: 'amazonec2',
+        currentCost: 200,
+        budgetAmount: 1000,
+        utilizationPercentage: 20,
+        budgetPeriod: { start: '2024-04-01', end: '2024-07-01', costStart: '2024-04-01', costEnd: '2024-04-03', prorationFactor: 1 }
+      });
+    });
+
+    it('should measure demo costs as of a given date', async () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        calendar: '4-4-5',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const response = await request(app)
+        .get('/api/budget/test/utilization?mode=demo&date=2024-03-15')
+        .expect(200);
+
+      const ec2 = response.body.data.find((utilization: any) => utilization.service === 'ec2');
+      expect(ec2.budgetPeriod).toEqual({
+        start: '2024-02-25',
+        end: '2024-03-31',
+        costStart: '2024-02-25',
+        costEnd: '2024-03-16',
+        prorationFactor: 1
+      });
+    });
+
+    it('should reject invalid queries', async () => {
+      await request(app).get('/api/budget/test/utilization?mode=csv').expect(400);
+      await request(app).get('/api/budget/test/utilization?mode=demo&dataset=prod').expect(400);
+      await request(app).get('/api/budget/test/utilization?mode=demo&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(400);
+      await request(app).get('/api/budget/test/utilization?mode=csv&dataset=prod&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(400);
+      await request(app).get('/api/budget/test/utilization?date=not-a-date').expect(400);
+      await request(app).get('/api/budget/test/utilization?mode=demo&scenario=haunted').expect(400);
+      await request(app).get('/api/budget/test/utilization?mode=csv&dataset=missing').expect(404);
+      await request(app).get('/api/budget/test/utilization?mode=csv&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(404);
+    });
+
+    it('should measure the costs of a completed import job', async () => {
+      costDatasetService.addImport('budget-periods', {
+        id: 'budget-periods-1',
+        fileName: 'costs.csv',
+        format: 'daily-costs',
+        rowsProcessed: 1,
+        currency: 'USD'
+      }, [
+        { date: '2024-04-01', service: 'Amazon EC2', region: '', accountId: '', cost: 250 }
+      ]);
+      const costData = costDatasetService.getCostData('budget-periods')!;
+      const jobId = '1b4e28ba-2fa1-11d2-883f-0016d3cca427';
+      const getJob = jest.spyOn(csvImportService, 'getJob').mockReturnValue({ id: jobId, costData } as CSVImportJob);
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'amazonec2',
+        amount: 500,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const response = await request(app)
+        .get(`/api/budget/test/utilization?mode=csv&importId=${jobId}`)
+        .expect(200);
+
+      expect(getJob).toHaveBeenCalledWith(jobId);
+      getJob.mockRestore();
+      expect(response.body.data[0]).toMatchObject({ service: 'amazonec2', currentCost: 250, utilizationPercentage: 50 });
+    });
+
+    it('should require an AWS session for AWS costs', async () => {
+      const response = await request(app)
+        .get('/api/budget/123456789012/utilization')
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should report zero spend on the first day of a monthly budget period', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-01T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'] });
+      const session = sessionService.createSession(new AWSService());
+      const getCostData = jest.spyOn(session.awsService, 'getCostData');
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+
+      try {
+        const response = await request(app)
+          .get('/api/budget/test/utilization?mode=aws')
+          .set('Authorization', `Bearer ${session.token}`)
+          .expect(200);
+
+        expect(getCostData).not.toHaveBeenCalled();
+        expect(response.body.data).toEqual([
+          expect.objectContaining({
+            service: 'ec2',
+            currentCost: 0,
+            budgetAmount: 1000,
+            utilizationPercentage: 0,
+            alertLevel: 'safe',
+            budgetPeriod: { start: '2024-03-01', end: '2024-04-01', costStart: '2024-03-01', costEnd: '2024-03-01', prorationFactor: 1 }
+          })
+        ]);
+      } finally {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+        sessionService.destroySession(session.token);
+      }
+    });
+  });
+
   describe('POST /api/budget/demo/initialize', () => {
     it('should initialize demo budgets', async () => {
       const response = await request(app)
@@ -1,5 +1,5 @@
 import { budgetService } from '../services/budgetService';
-import { Budget, ServiceCost } from '../types';
+import { AwsBudgetDefinition, Budget, ServiceCost } from '../types';
 
 describe('BudgetService', () => {
   beforeEach(() => {
@@ -225,6 +225,122 @@ describe('BudgetService', () => {
       expect(utilizations[0].utilizationPercentage).toBe(0);
       expect(utilizations[0].alertLevel).toBe('safe');
     });
+
+    const serviceCost = (service: string, dailyCosts: ServiceCost['dailyCosts'], totalCost?: number): ServiceCost => ({
+      service,
+      displayName: service.toUpperCase(),
+      totalCost: totalCost ?? dailyCosts.reduce((sum, day) => sum + day.cost, 0),
+      currency: 'USD',
+      budgetUtilization: 0,
+      regions: [],
+      tags: [],
+      dailyCosts,
+      trend: 'stable'
+    });
+
+    it('should only count costs inside the current budget period', () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const [utilization] = budgetService.calculateUtilization([
+        serviceCost('ec2', [
+          { date: '2024-10-30', cost: 400 },
+          { date: '2024-10-31', cost: 400 },
+          { date: '2024-11-01', cost: 50 },
+          { date: '2024-11-02', cost: 50 }
+        ])
+      ], 'test');
+
+      expect(utilization.currentCost).toBe(100);
+      expect(utilization.utilizationPercentage).toBe(10);
+      expect(utilization.alertLevel).toBe('safe');
+      expect(utilization.budgetPeriod).toEqual({
+        start: '2024-11-01',
+        end: '2024-12-01',
+        costStart: '2024-11-01',
+        costEnd: '2024-11-03',
+        prorationFactor: 1
+      });
+    });
+
+    it('should prorate the budget when the costs start partway through the period', () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 3650,
+        currency: 'USD',
+        period: 'yearly',
+        fiscalYearStartMonth: 4,
+        alertThresholds: [50, 80, 100]
+      });
+
+      const dailyCosts = Array.from({ length: 10 }, (_, index) => ({ date: `2024-05-${String(index + 1).padStart(2, '0')}`, cost: 10 }));
+      const [utilization] = budgetService.calculateUtilization([serviceCost('ec2', dailyCosts)], 'test', {
+        costPeriod: { start: '2024-05-01', end: '2024-05-11' }
+      });
+
+      // 10 of the fiscal year's 365 days are covered
+      expect(utilization.budgetAmount).toBe(100);
+      expect(utilization.utilizationPercentage).toBe(100);
+      expect(utilization.alertLevel).toBe('over_budget');
+      expect(utilization.budgetPeriod).toMatchObject({
+        start: '2024-04-01',
+        end: '2025-04-01',
+        costStart: '2024-05-01',
+        costEnd: '2024-05-11'
+      });
+      expect(utilization.budgetPeriod?.prorationFactor).toBeCloseTo(10 / 365);
+      // Spend still to come by the end of the fiscal year; April before the data stays unknown
+      expect(utilization.projectedCost).toBeCloseTo(3350, 0);
+    });
+
+    it('should share out a total without daily costs over the days inside the period', () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 's3',
+        amount: 500,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const [utilization] = budgetService.calculateUtilization([serviceCost('s3', [], 300)], 'test', {
+        costPeriod: { start: '2024-10-16', end: '2024-11-15' }
+      });
+
+      // 14 of the 30 days fall in November
+      expect(utilization.currentCost).toBe(140);
+      expect(utilization.utilizationPercentage).toBeCloseTo(28);
+      expect(utilization.budgetPeriod).toMatchObject({ start: '2024-11-01', costStart: '2024-11-01', costEnd: '2024-11-15', prorationFactor: 1 });
+    });
+
+    it('should measure 4-4-5 budgets over retail months', () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        calendar: '4-4-5',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const [utilization] = budgetService.calculateUtilization([
+        serviceCost('ec2', [
+          { date: '2024-02-24', cost: 300 },
+          { date: '2024-02-25', cost: 200 }
+        ])
+      ], 'test');
+
+      expect(utilization.currentCost).toBe(200);
+      expect(utilization.budgetPeriod).toMatchObject({ start: '2024-02-25', end: '2024-03-31' });
+    });
   });
 
   describe('Alert Generation', () => {
@@ -249,7 +365,7 @@ describe('BudgetService', () => {
         }
       ];
 
-      const alerts = budgetService.generateAlerts(utilizations);
+      const alerts = budgetService.generateAlerts(utilizations, 'test');
 
       expect(alerts).toHaveLength(1);
       expect(alerts[0].service).toBe('ec2');
@@ -278,7 +394,7 @@ describe('BudgetService', () => {
         }
       ];
 
-      const alerts = budgetService.generateAlerts(utilizations);
+      const alerts = budgetService.generateAlerts(utilizations, 'test');
 
       expect(alerts).toHaveLength(1);
       expect(alerts[0].severity).toBe('warning');
@@ -305,12 +421,50 @@ describe('BudgetService', () => {
         }
       ];
 
-      const alerts = budgetService.generateAlerts(utilizations);
+      const alerts = budgetService.generateAlerts(utilizations, 'test');
 
       expect(alerts).toHaveLength(0);
     });
   });
 
+  describe('Alert de-duplication', () => {
+    const utilization = (utilizationPercentage: number, start: string) => ({
+      service: 'ec2',
+      currentCost: utilizationPercentage * 10,
+      budgetAmount: 1000,
+      utilizationPercentage,
+      alertLevel: utilizationPercentage >= 100 ? 'over_budget' as const : 'warning' as const,
+      budgetPeriod: { start, end: '2024-04-01', costStart: start, costEnd: '2024-03-20', prorationFactor: 1 }
+    });
+
+    beforeEach(() => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+    });
+
+    it('should alert once per threshold in a budget period', () => {
+      expect(budgetService.generateAlerts([utilization(85, '2024-03-01')], 'test')).toHaveLength(1);
+      expect(budgetService.generateAlerts([utilization(90, '2024-03-01')], 'test')).toHaveLength(0);
+
+      const [overBudget] = budgetService.generateAlerts([utilization(110, '2024-03-01')], 'test');
+      expect(overBudget).toMatchObject({ periodStart: '2024-03-01', threshold: 100 });
+      expect(budgetService.getNotifications('test')).toHaveLength(2);
+    });
+
+    it('should alert again in the next budget period', () => {
+      budgetService.generateAlerts([utilization(85, '2024-03-01')], 'test');
+      const [nextPeriod] = budgetService.generateAlerts([utilization(85, '2024-04-01')], 'test');
+
+      expect(nextPeriod).toMatchObject({ periodStart: '2024-04-01', threshold: 80 });
+    });
+  });
+
   describe('Notification Management', () => {
     it('should acknowledge notifications', () => {
       budgetService.saveBudget({
@@ -332,7 +486,7 @@ describe('BudgetService', () => {
         }
       ];
 
-      const alerts = budgetService.generateAlerts(utilizations);
+      const alerts = budgetService.generateAlerts(utilizations, 'test');
       expect(alerts).toHaveLength(1);
       
       const notificationId = alerts[0].id;
@@ -345,6 +499,42 @@ describe('BudgetService', () => {
     });
   });
 
+  describe('Alerts across accounts', () => {
+    afterEach(() => {
+      budgetService.getBudgets('other').forEach(budget => budgetService.deleteBudget(budget.id));
+    });
+
+    it('should raise alerts against the budget of the given account', () => {
+      budgetService.saveBudget({
+        accountId: 'other',
+        service: 'ec2',
+        amount: 5000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+      const budget = budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [50, 80, 100]
+      });
+
+      const [alert] = budgetService.generateAlerts([{
+        service: 'ec2',
+        currentCost: 1200,
+        budgetAmount: 1000,
+        utilizationPercentage: 120,
+        alertLevel: 'over_budget'
+      }], 'test');
+
+      expect(alert.budgetId).toBe(budget.id);
+      expect(budgetService.getNotifications('other')).toHaveLength(0);
+    });
+  });
+
   describe('Demo Data Initialization', () => {
     it('should initialize demo budgets', () => {
       budgetService.initializeDemoBudgets();
@@ -356,4 +546,85 @@ describe('BudgetService', () => {
       expect(demoBudgets.some(b => b.service === 'rds')).toBe(true);
     });
   });
+
+  describe('AWS Budgets Import', () => {
+    const awsBudget = (overrides: Partial<AwsBudgetDefinition>): AwsBudgetDefinition => ({
+      name: 'EC2 monthly',
+      budgetType: 'COST',
+      timeUnit: 'MONTHLY',
+      limit: { amount: 1200, currency: 'USD' },
+      costFilters: {},
+      services: ['ec2'],
+      ...overrides
+    });
+
+    it('should map limits and periods', () => {
+      const result = budgetService.importAwsBudgets([
+        awsBudget({}),
+        awsBudget({ name: 'S3 yearly', timeUnit: 'ANNUALLY', services: ['s3'], limit: { amount: 50000, currency: 'USD' } })
+      ], 'test');
+
+      expect(result).toMatchObject({ accountId: 'test', dryRun: false, created: 2, updated: 0, skipped: 0 });
+      expect(budgetService.getBudgetByService('test', 'ec2')).toMatchObject({
+        amount: 1200,
+        period: 'monthly',
+        name: 'EC2 monthly',
+        source: 'aws-budgets',
+        alertThresholds: [50, 80, 100]
+      });
+      expect(budgetService.getBudgetByService('test', 's3')).toMatchObject({ amount: 50000, period: 'yearly', name: 'S3 yearly' });
+    });
+
+    it('should update existing budgets and keep their alert thresholds', () => {
+      budgetService.saveBudget({
+        accountId: 'test',
+        service: 'ec2',
+        amount: 1000,
+        currency: 'USD',
+        period: 'monthly',
+        alertThresholds: [60, 90, 100]
+      });
+
+      const result = budgetService.importAwsBudgets([awsBudget({})], 'test');
+
+      expect(result.updated).toBe(1);
+      expect(budgetService.getBudgets('test')).toHaveLength(1);
+      expect(budgetService.getBudgetByService('test', 'ec2')).toMatchObject({ amount: 1200, alertThresholds: [60, 90, 100] });
+    });
+
+    it('should skip budgets that cannot be represented', () => {
+      const result = budgetService.importAwsBudgets([
+        awsBudget({ name: 'Usage', budgetType: 'USAGE' }),
+        awsBudget({ name: 'Daily', timeUnit: 'DAILY' }),
+        awsBudget({ name: 'Auto-adjusting', limit: undefined }),
+        awsBudget({ name: 'Compute', services: ['ec2', 'lambda'] }),
+        awsBudget({ name: 'Company total', services: [] }),
+        awsBudget({ name: 'EC2 us-east-1', costFilters: { Region: ['us-east-1'] } }),
+        awsBudget({ name: 'EC2 first' }),
+        awsBudget({ name: 'EC2 second' })
+      ], 'test');
+
+      expect(result.created).toBe(1);
+      expect(result.skipped).toBe(7);
+      expect(result.items.map(item => item.reason)).toEqual([
+        'USAGE budgets are not supported, only COST budgets',
+        'DAILY budgets are not supported',
+        'Budget has no current limit',
+        'Budget covers 2 services; only single-service budgets can be imported',
+        'Account-wide budgets are not supported; only single-service budgets can be imported',
+        'Cost filters other than Service are not supported (Region)',
+        undefined,
+        'Another AWS budget already maps to ec2'
+      ]);
+    });
+
+    it('should not save anything on a dry run', () => {
+      const result = budgetService.importAwsBudgets([awsBudget({})], 'test', true);
+
+      expect(result.dryRun).toBe(true);
+      expect(result.created).toBe(1);
+      expect(result.items[0].budget).toMatchObject({ service: 'ec2', amount: 1200 });
+      expect(budgetService.getBudgets('test')).toHaveLength(0);
+    });
+  });
 });
\ No newline at end of file
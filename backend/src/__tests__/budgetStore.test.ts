@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BudgetService } from '../services/budgetService';
+import {
+  BUDGET_STORE_VERSION,
+  InMemoryBudgetStore,
+  JsonFileBudgetStore,
+  createBudgetStore
+} from '../services/budgetStore';
+
+describe('BudgetStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-store-'));
+    filePath = path.join(tempDir, 'nested', 'budgets.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should use the in-memory store under test', () => {
+    expect(createBudgetStore()).toBeInstanceOf(InMemoryBudgetStore);
+    expect(createBudgetStore()).not.toBeInstanceOf(JsonFileBudgetStore);
+  });
+
+  it('should keep budgets, timestamps and acknowledgements across restarts', () => {
+    const service = new BudgetService(new JsonFileBudgetStore(filePath));
+    const budget = service.saveBudget({
+      accountId: 'test',
+      service: 'ec2',
+      amount: 100,
+      currency: 'USD',
+      period: 'monthly',
+      alertThresholds: [50, 80, 100]
+    });
+    const [alert] = service.generateAlerts([{
+      service: 'ec2',
+      currentCost: 120,
+      budgetAmount: 100,
+      utilizationPercentage: 120,
+      alertLevel: 'over_budget'
+    }], 'test');
+    service.acknowledgeNotification(alert.id);
+
+    const restarted = new BudgetService(new JsonFileBudgetStore(filePath));
+
+    const [reloaded] = restarted.getBudgets('test');
+    expect(reloaded).toMatchObject({ id: budget.id, amount: 100, service: 'ec2' });
+    expect(reloaded.createdAt).toEqual(budget.createdAt);
+    expect(reloaded.updatedAt).toBeInstanceOf(Date);
+    const [notification] = restarted.getNotifications('test');
+    expect(notification).toMatchObject({ id: alert.id, acknowledged: true });
+    expect(notification.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should write a batch of new alerts once and skip alerts it already holds', () => {
+    const service = new BudgetService(new JsonFileBudgetStore(filePath));
+    ['ec2', 's3'].forEach(name => service.saveBudget({
+      accountId: 'test',
+      service: name,
+      amount: 100,
+      currency: 'USD',
+      period: 'monthly',
+      alertThresholds: [50, 80, 100]
+    }));
+    const utilizations = ['ec2', 's3'].map(name => ({
+      service: name,
+      currentCost: 120,
+      budgetAmount: 100,
+      utilizationPercentage: 120,
+      alertLevel: 'over_budget' as const
+    }));
+    const writeFileSync = jest.spyOn(fs, 'writeFileSync');
+
+    try {
+      expect(service.generateAlerts(utilizations, 'test')).toHaveLength(2);
+      expect(writeFileSync).toHaveBeenCalledTimes(1);
+
+      expect(service.generateAlerts(utilizations, 'test')).toHaveLength(0);
+      expect(writeFileSync).toHaveBeenCalledTimes(1);
+    } finally {
+      writeFileSync.mockRestore();
+    }
+    expect(new JsonFileBudgetStore(filePath).getNotifications()).toHaveLength(2);
+  });
+
+  it('should persist deletions', () => {
+    const store = new JsonFileBudgetStore(filePath);
+    const service = new BudgetService(store);
+    const budget = service.saveBudget({
+      accountId: 'test',
+      amount: 100,
+      currency: 'USD',
+      period: 'monthly',
+      alertThresholds: [50, 80, 100]
+    });
+
+    service.deleteBudget(budget.id);
+
+    expect(new JsonFileBudgetStore(filePath).getBudgets()).toEqual([]);
+  });
+
+  it('should migrate an unversioned file and write it back', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify([{
+      id: 'legacy',
+      accountId: 'test',
+      service: 's3',
+      amount: 50,
+      currency: 'USD',
+      period: 'monthly',
+      alertThresholds: [50, 80, 100],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z'
+    }]));
+
+    const [budget] = new JsonFileBudgetStore(filePath).getBudgets();
+
+    expect(budget).toMatchObject({ id: 'legacy', source: 'manual' });
+    expect(budget.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(saved.version).toBe(BUDGET_STORE_VERSION);
+    expect(saved.notifications).toEqual([]);
+  });
+
+  it('should refuse files written by a newer version', () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify({ version: BUDGET_STORE_VERSION + 1, budgets: [], notifications: [] }));
+
+    expect(() => new JsonFileBudgetStore(filePath)).toThrow(`has version ${BUDGET_STORE_VERSION + 1}`);
+  });
+});
@@ -0,0 +1,87 @@
+import { ComparisonService } from '../services/comparisonService';
+import { CostData, ServiceCost } from '../types';
+
+describe('ComparisonService', () => {
+  let comparisonService: ComparisonService;
+
+  const periods = {
+    base: { start: '2024-09-01', end: '2024-10-01' },
+    target: { start: '2024-10-01', end: '2024-11-01' }
+  };
+
+  const service = (key: string, regions: Array<[string, number]>, tags: Array<[string, string, number]> = []): ServiceCost => {
+    const totalCost = regions.reduce((sum, [, cost]) => sum + cost, 0);
+    return {
+      service: key,
+      displayName: key.toUpperCase(),
+      totalCost,
+      currency: 'USD',
+      budgetUtilization: 0,
+      regions: regions.map(([region, cost]) => ({ region, cost, percentage: (cost / totalCost) * 100 })),
+      tags: tags.map(([key, value, cost]) => ({ key, value, cost, percentage: (cost / totalCost) * 100 })),
+      dailyCosts: [],
+      trend: 'stable'
+    };
+  };
+
+  const costData = (services: ServiceCost[]): CostData => ({
+    services,
+    totalCost: services.reduce((sum, entry) => sum + entry.totalCost, 0),
+    currency: 'USD',
+    lastUpdated: new Date(),
+    budgetAlerts: []
+  });
+
+  beforeEach(() => {
+    comparisonService = new ComparisonService();
+  });
+
+  it('should report service changes in absolute and percentage terms, largest first', () => {
+    const comparison = comparisonService.compareCostData(
+      costData([service('ec2', [['us-east-1', 100]]), service('s3', [['us-east-1', 50]])]),
+      costData([service('ec2', [['us-east-1', 150]]), service('s3', [['us-east-1', 40]])]),
+      periods
+    );
+
+    expect(comparison.total).toEqual({ baseCost: 150, targetCost: 190, change: 40, changePercentage: 26.67 });
+    expect(comparison.services.map(entry => [entry.service, entry.change, entry.changePercentage, entry.status])).toEqual([
+      ['ec2', 50, 50, 'changed'],
+      ['s3', -10, -20, 'changed']
+    ]);
+    expect(comparison.base).toEqual(periods.base);
+  });
+
+  it('should list new and disappeared services', () => {
+    const comparison = comparisonService.compareCostData(
+      costData([service('ec2', [['us-east-1', 100]]), service('redshift', [['us-east-1', 30]])]),
+      costData([service('ec2', [['us-east-1', 100]]), service('lambda', [['us-east-1', 5]])]),
+      periods
+    );
+
+    expect(comparison.newServices).toEqual(['lambda']);
+    expect(comparison.disappearedServices).toEqual(['redshift']);
+    expect(comparison.services.find(entry => entry.service === 'lambda')).toMatchObject({ baseCost: 0, changePercentage: null });
+    expect(comparison.services.find(entry => entry.service === 'ec2')?.status).toBe('unchanged');
+  });
+
+  it('should compare regions and tags per service and across services', () => {
+    const comparison = comparisonService.compareCostData(
+      costData([
+        service('ec2', [['us-east-1', 80], ['eu-west-1', 20]], [['Environment', 'production', 100]]),
+        service('s3', [['us-east-1', 10]], [['Environment', 'production', 10]])
+      ]),
+      costData([
+        service('ec2', [['us-east-1', 80], ['eu-west-1', 60]], [['Environment', 'production', 90], ['Environment', 'staging', 50]]),
+        service('s3', [['us-east-1', 20]], [['Environment', 'production', 20]])
+      ]),
+      periods
+    );
+
+    const ec2 = comparison.services.find(entry => entry.service === 'ec2')!;
+    expect(ec2.regions.map(region => [region.region, region.change])).toEqual([['eu-west-1', 40], ['us-east-1', 0]]);
+    expect(ec2.tags[0]).toMatchObject({ key: 'Environment', value: 'staging', baseCost: 0, targetCost: 50, changePercentage: null });
+
+    expect(comparison.regions.find(region => region.region === 'us-east-1')).toMatchObject({ baseCost: 90, targetCost: 100, change: 10 });
+    expect(comparison.tags.find(tag => tag.value === 'production')).toMatchObject({ baseCost: 110, targetCost: 110, change: 0 });
+  });
+});
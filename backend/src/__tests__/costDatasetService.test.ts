@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CostDatasetService, DatasetImportDetails } from '../services/costDatasetService';
+import { InMemoryDatasetStore, JsonFileDatasetStore } from '../services/datasetStore';
+import { CostRecord } from '../types';
+
+describe('CostDatasetService', () => {
+  let costDatasetService: CostDatasetService;
+
+  const details = (id: string, overrides: Partial<DatasetImportDetails> = {}): DatasetImportDetails => ({
+    id,
+    fileName: `${id}.csv`,
+    format: 'cost-and-usage',
+    rowsProcessed: 10,
+    currency: 'USD',
+    ...overrides
+  });
+
+  const record = (date: string, service: string, cost: number, region = 'us-east-1', accountId = ''): CostRecord =>
+    ({ date, service, region, accountId, cost });
+
+  beforeEach(() => {
+    costDatasetService = new CostDatasetService(new InMemoryDatasetStore());
+  });
+
+  it('should append files covering new months', () => {
+    costDatasetService.addImport('prod', details('may'), [
+      record('2024-05-01', 'Amazon EC2', 10),
+      record('2024-05-02', 'Amazon EC2', 12)
+    ]);
+    costDatasetService.addImport('prod', details('june'), [
+      record('2024-06-01', 'Amazon EC2', 20),
+      record('2024-06-01', 'Amazon S3', 5, 'eu-west-1')
+    ]);
+
+    const costData = costDatasetService.getCostData('prod')!;
+
+    expect(costData.totalCost).toBe(47);
+    expect(costData.timePeriod).toEqual({ start: '2024-05-01', end: '2024-06-02', granularity: 'DAILY' });
+    expect(costData.services.find(service => service.displayName === 'Amazon EC2')?.dailyCosts).toHaveLength(3);
+    expect(costData.services.find(service => service.displayName === 'Amazon S3')?.regions[0].region).toBe('eu-west-1');
+  });
+
+  it('should let a later file replace overlapping cells instead of double counting', () => {
+    costDatasetService.addImport('prod', details('first'), [
+      record('2024-05-01', 'Amazon EC2', 10),
+      record('2024-05-02', 'Amazon EC2', 12)
+    ]);
+    const second = costDatasetService.addImport('prod', details('reexport'), [
+      record('2024-05-02', 'Amazon EC2', 15),
+      record('2024-05-03', 'Amazon EC2', 9)
+    ]);
+
+    expect(second.replacedRecords).toBe(1);
+    expect(second.dateRange).toEqual({ start: '2024-05-02', end: '2024-05-03' });
+    expect(costDatasetService.getCostData('prod')!.totalCost).toBe(34);
+  });
+
+  it('should replace every tagged record of a cell when a later file retags it', () => {
+    const tagged = (cost: number, team?: string): CostRecord =>
+      ({ ...record('2024-05-01', 'Amazon EC2', cost), ...(team && { tags: [['team', team]] as Array<[string, string]> }) });
+    costDatasetService.addImport('prod', details('first'), [tagged(6, 'web'), tagged(4)]);
+    const second = costDatasetService.addImport('prod', details('retagged'), [tagged(7, 'data'), tagged(3, 'web')]);
+
+    const ec2 = costDatasetService.getCostData('prod')!.services[0];
+
+    expect(second.replacedRecords).toBe(2);
+    expect(ec2.totalCost).toBe(10);
+    expect(ec2.tags.map(tag => [tag.key, tag.value, tag.cost])).toEqual([['team', 'data', 7], ['team', 'web', 3]]);
+  });
+
+  it('should keep files for different accounts apart', () => {
+    costDatasetService.addImport('org', details('a', { accountId: '111111111111' }), [record('2024-05-01', 'Amazon EC2', 10)]);
+    costDatasetService.addImport('org', details('b', { accountId: '222222222222' }), [record('2024-05-01', 'Amazon EC2', 7)]);
+
+    const costData = costDatasetService.getCostData('org')!;
+
+    expect(costData.totalCost).toBe(17);
+    expect(costData.accounts?.map(account => account.accountId)).toEqual(['111111111111', '222222222222']);
+  });
+
+  it('should roll back a file and restore the cells it replaced', () => {
+    costDatasetService.addImport('prod', details('good'), [record('2024-05-01', 'Amazon EC2', 10)]);
+    costDatasetService.addImport('prod', details('bad'), [record('2024-05-01', 'Amazon EC2', 10000)]);
+
+    const dataset = costDatasetService.rollbackImport('prod', 'bad')!;
+
+    expect(dataset.imports.map(entry => entry.status)).toEqual(['active', 'rolled-back']);
+    expect(dataset.imports[1].rolledBackAt).toBeInstanceOf(Date);
+    expect(costDatasetService.getCostData('prod')!.totalCost).toBe(10);
+    expect(costDatasetService.rollbackImport('prod', 'bad')?.imports[1].status).toBe('rolled-back');
+    expect(costDatasetService.rollbackImport('prod', 'missing')).toBeNull();
+    expect(costDatasetService.rollbackImport('missing', 'bad')).toBeNull();
+  });
+
+  it('should keep datasets and records across restarts', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dataset-store-'));
+    const filePath = path.join(tempDir, 'nested', 'datasets.json');
+    try {
+      new CostDatasetService(new JsonFileDatasetStore(filePath))
+        .addImport('prod', details('may'), [record('2024-05-01', 'Amazon EC2', 10)]);
+
+      const reloaded = new CostDatasetService(new JsonFileDatasetStore(filePath));
+
+      expect(reloaded.getDataset('prod')?.imports[0].importedAt).toBeInstanceOf(Date);
+      expect(reloaded.getCostData('prod')?.totalCost).toBe(10);
+      expect(reloaded.deleteDataset('prod')).toBe(true);
+      expect(new CostDatasetService(new JsonFileDatasetStore(filePath)).listDatasets()).toEqual([]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
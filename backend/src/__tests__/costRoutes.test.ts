@@ -1,7 +1,26 @@
 import request from 'supertest';
+import { gzipSync } from 'zlib';
 import app from '../app';
+import { AWSService } from '../services/awsService';
+import { AwsSession, sessionService } from '../services/sessionService';
+import { costSnapshotService } from '../services/costSnapshotService';
+import { costDatasetService } from '../services/costDatasetService';
+import { CostData } from '../types';
 
 describe('Cost Routes', () => {
+  // A session whose AWSService never had credentials validated
+  let session: AwsSession;
+  let authorization: string;
+
+  beforeEach(() => {
+    session = sessionService.createSession(new AWSService());
+    authorization = `Bearer ${session.token}`;
+  });
+
+  afterEach(() => {
+    sessionService.destroySession(session.token);
+  });
+
   describe('GET /api/cost/health', () => {
     it('should return health status', async () => {
       const response = await request(app)
@@ -55,6 +74,33 @@ describe('Cost Routes', () => {
         expect(service).toHaveProperty('trend');
       });
     });
+
+    it('should generate the requested scenario', async () => {
+      const url = '/api/cost/demo?scenario=cost_spike&seed=3&services=5&start=2024-05-01&end=2024-05-15';
+      const first = await request(app).get(url).expect(200);
+      const second = await request(app).get(url).expect(200);
+
+      expect(first.body.data.services).toHaveLength(5);
+      expect(first.body.data.services.filter((service: any) => service.budgetUtilization > 1)).toHaveLength(2);
+      expect(first.body.data.timePeriod).toEqual({ start: '2024-05-01', end: '2024-05-15', granularity: 'DAILY' });
+      expect(second.body.data.services).toEqual(first.body.data.services);
+    });
+
+    it('should reject an unknown scenario', async () => {
+      const response = await request(app)
+        .get('/api/cost/demo?scenario=haunted_lighthouse')
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+
+    it('should reject a period longer than a year', async () => {
+      const response = await request(app)
+        .get('/api/cost/demo?start=2022-01-01&end=2024-01-01')
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation error: the demo period can be at most 366 days');
+    });
   });
 
   describe('GET /api/cost/demo/scenarios', () => {
@@ -105,6 +151,41 @@ describe('Cost Routes', () => {
       expect(response.body.error).toContain('Validation error');
     });
 
+    it('should reject an external ID without a role to assume', async () => {
+      const response = await request(app)
+        .post('/api/cost/validate-credentials')
+        .send({
+          accessKeyId: 'AKIA123',
+          secretAccessKey: 'secret',
+          externalId: 'haunted-external-id'
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+
+    it('should reject a malformed role ARN', async () => {
+      const response = await request(app)
+        .post('/api/cost/validate-credentials')
+        .send({
+          accessKeyId: 'AKIA123',
+          secretAccessKey: 'secret',
+          roleArn: 'CostReader'
+        })
+        .expect(400);
+
+      expect(response.body.error).toContain('IAM role ARN');
+    });
+
+    it('should refuse profiles the server does not allow', async () => {
+      const response = await request(app)
+        .post('/api/cost/validate-credentials')
+        .send({ profile: 'default' })
+        .expect(403);
+
+      expect(response.body.error).toContain('not available on this server');
+    });
+
     it('should handle invalid credentials gracefully', async () => {
       const response = await request(app)
         .post('/api/cost/validate-credentials')
@@ -169,9 +250,28 @@ describe('Cost Routes', () => {
   });
 
   describe('GET /api/cost/aws', () => {
+    it('should require an AWS session', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws')
+        .expect(401);
+
+      expect(response.body).toMatchObject({
+        success: false
+      });
+      expect(response.body.error).toContain('AWS session required');
+    });
+
+    it('should reject an unknown session token', async () => {
+      await request(app)
+        .get('/api/cost/aws')
+        .set('Authorization', 'Bearer not-a-session')
+        .expect(401);
+    });
+
     it('should handle AWS data request without credentials', async () => {
       const response = await request(app)
         .get('/api/cost/aws')
+        .set('Authorization', authorization)
         .expect(500);
 
       expect(response.body).toMatchObject({
@@ -179,12 +279,148 @@ describe('Cost Routes', () => {
       });
       expect(response.body.error).toContain('AWS credentials not validated');
     });
+
+    it('should reject an invalid linked account ID', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?accountId=not-an-account')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('12-digit AWS account ID');
+    });
+
+    it('should require both start and end for a date range', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?start=2024-01-01')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+
+    it('should reject a date range that ends before it starts', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?start=2024-02-01&end=2024-01-01')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('end must be after start');
+    });
+
+    it('should accept a month-to-date range on the first of the month', async () => {
+      jest.useFakeTimers({ now: new Date('2024-03-01T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval'] });
+      try {
+        // The frontend sends tomorrow as the exclusive end so the range includes today
+        const response = await request(app)
+          .get('/api/cost/aws?start=2024-03-01&end=2024-03-02')
+          .set('Authorization', authorization)
+          .expect(500);
+
+        expect(response.body.error).toContain('AWS credentials not validated');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject a date range that ends after tomorrow', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?start=2024-01-01&end=2999-01-01')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('end must be no later than tomorrow');
+    });
+
+    it('should reject an unsupported granularity', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?start=2024-01-01&end=2024-02-01&granularity=HOURLY')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+
+    it('should reject an unsupported cost metric', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws?metric=UsageQuantity')
+        .set('Authorization', authorization)
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+  });
+
+  describe('GET /api/cost/aws/accounts', () => {
+    it('should handle linked account request without credentials', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws/accounts')
+        .set('Authorization', authorization)
+        .expect(500);
+
+      expect(response.body).toMatchObject({
+        success: false
+      });
+      expect(response.body.error).toContain('AWS credentials not validated');
+    });
+  });
+
+  describe('GET /api/cost/aws/profiles', () => {
+    it('should list no profiles unless the server allows them', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws/profiles')
+        .expect(200);
+
+      expect(response.body.data).toEqual({ profiles: [] });
+    });
+  });
+
+  describe('GET /api/cost/aws/permissions', () => {
+    it('should require an AWS session', async () => {
+      await request(app)
+        .get('/api/cost/aws/permissions')
+        .expect(401);
+    });
+
+    it('should report a missing validation', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws/permissions')
+        .set('Authorization', authorization)
+        .expect(500);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toContain('AWS credentials not validated');
+    });
+
+    it('should return the capability matrix', async () => {
+      const report = {
+        accountId: '123456789012',
+        checkedAt: new Date('2024-06-01T00:00:00Z'),
+        checks: [],
+        allGranted: true,
+        missingActions: [],
+        minimalPolicy: null
+      };
+      const reportSpy = jest.spyOn(session.awsService, 'getPermissionReport').mockResolvedValue(report);
+
+      const response = await request(app)
+        .get('/api/cost/aws/permissions?refresh=true')
+        .set('Authorization', authorization)
+        .expect(200);
+
+      expect(reportSpy).toHaveBeenCalledWith(true);
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { accountId: '123456789012', allGranted: true },
+        message: 'All AWS permissions are in place'
+      });
+    });
   });
 
   describe('GET /api/cost/aws/services', () => {
     it('should handle request for available services without credentials', async () => {
       const response = await request(app)
         .get('/api/cost/aws/services')
+        .set('Authorization', authorization)
         .expect(500);
 
       expect(response.body).toMatchObject({
@@ -194,10 +430,64 @@ describe('Cost Routes', () => {
     });
   });
 
+  describe('/api/cost/aws/tag-keys', () => {
+    it('should update and return cost allocation tag keys', async () => {
+      const response = await request(app)
+        .put('/api/cost/aws/tag-keys')
+        .set('Authorization', authorization)
+        .send({ tagKeys: ['team', 'env'] })
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { tagKeys: ['team', 'env'] }
+      });
+
+      const getResponse = await request(app)
+        .get('/api/cost/aws/tag-keys')
+        .set('Authorization', authorization)
+        .expect(200);
+
+      expect(getResponse.body.data.tagKeys).toEqual(['team', 'env']);
+    });
+
+    it('should keep tag keys separate for each session', async () => {
+      const otherSession = sessionService.createSession(new AWSService([]));
+
+      try {
+        await request(app)
+          .put('/api/cost/aws/tag-keys')
+          .set('Authorization', authorization)
+          .send({ tagKeys: ['team'] })
+          .expect(200);
+
+        const response = await request(app)
+          .get('/api/cost/aws/tag-keys')
+          .set('X-Session-Token', otherSession.token)
+          .expect(200);
+
+        expect(response.body.data.tagKeys).toEqual([]);
+      } finally {
+        sessionService.destroySession(otherSession.token);
+      }
+    });
+
+    it('should reject invalid tag keys', async () => {
+      const response = await request(app)
+        .put('/api/cost/aws/tag-keys')
+        .set('Authorization', authorization)
+        .send({ tagKeys: 'team' })
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+  });
+
   describe('POST /api/cost/aws/refresh', () => {
     it('should handle cache refresh request', async () => {
       const response = await request(app)
         .post('/api/cost/aws/refresh')
+        .set('Authorization', authorization)
         .expect(200);
 
       expect(response.body).toMatchObject({
@@ -212,6 +502,7 @@ describe('Cost Routes', () => {
     it('should return cache statistics', async () => {
       const response = await request(app)
         .get('/api/cost/aws/cache-stats')
+        .set('Authorization', authorization)
         .expect(200);
 
       expect(response.body).toMatchObject({
@@ -222,6 +513,149 @@ describe('Cost Routes', () => {
       expect(response.body.data).toHaveProperty('hits');
       expect(response.body.data).toHaveProperty('misses');
     });
+
+    it('should include the Cost Explorer request ledger', async () => {
+      const response = await request(app)
+        .get('/api/cost/aws/cache-stats')
+        .set('Authorization', authorization)
+        .expect(200);
+
+      expect(response.body.data.requestLedger).toMatchObject({
+        requests: expect.any(Number),
+        estimatedCost: expect.any(Number),
+        pricePerRequest: 0.01
+      });
+      expect(response.body.data.requestLedger.history).toBeInstanceOf(Array);
+    });
+  });
+
+  describe('GET /api/cost/forecast', () => {
+    it('should forecast demo costs with a confidence interval', async () => {
+      const response = await request(app)
+        .get('/api/cost/forecast?mode=demo&days=7&confidence=95')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toMatchObject({
+        mode: 'demo',
+        method: 'linear-regression',
+        confidenceLevel: 95
+      });
+      expect(response.body.data.points).toHaveLength(7);
+      expect(response.body.data.projectedPeriodTotal.upper)
+        .toBeGreaterThanOrEqual(response.body.data.projectedPeriodTotal.mean);
+    });
+
+    it('should forecast a single demo service', async () => {
+      const response = await request(app)
+        .get('/api/cost/forecast?service=ec2')
+        .expect(200);
+
+      expect(response.body.data.service).toBe('ec2');
+      expect(response.body.data.points.length).toBeGreaterThan(0);
+    });
+
+    it('should return 404 for an unknown service', async () => {
+      const response = await request(app)
+        .get('/api/cost/forecast?service=haunted-lighthouse')
+        .expect(404);
+
+      expect(response.body.error).toBe('Service not found: haunted-lighthouse');
+    });
+
+    it('should forecast the named dataset in csv mode', async () => {
+      costDatasetService.addImport('forecast-test', {
+        id: 'forecast-test-1',
+        fileName: 'daily.csv',
+        format: 'daily-costs',
+        rowsProcessed: 7,
+        currency: 'USD'
+      }, [10, 12, 14, 16, 18, 20, 22].map((cost, index) => ({
+        date: `2024-11-0${index + 1}`, service: 'Amazon EC2', region: '', accountId: '', cost
+      })));
+
+      try {
+        const response = await request(app)
+          .get('/api/cost/forecast?mode=csv&dataset=forecast-test&days=3')
+          .expect(200);
+
+        expect(response.body.data).toMatchObject({ mode: 'csv', actualToDate: 112 });
+        expect(response.body.data.points).toHaveLength(3);
+      } finally {
+        costDatasetService.deleteDataset('forecast-test');
+      }
+    });
+
+    it('should scope csv forecasts to a dataset or import', async () => {
+      const missingSource = await request(app).get('/api/cost/forecast?mode=csv').expect(400);
+      expect(missingSource.body.error).toContain('dataset or importId is required');
+
+      await request(app).get('/api/cost/forecast?mode=demo&dataset=prod').expect(400);
+      await request(app).get('/api/cost/forecast?mode=csv&dataset=prod&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(400);
+      await request(app).get('/api/cost/forecast?mode=csv&dataset=missing').expect(404);
+      await request(app).get('/api/cost/forecast?mode=csv&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(404);
+    });
+
+    it('should reject an unsupported confidence level', async () => {
+      const response = await request(app)
+        .get('/api/cost/forecast?confidence=50')
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
+  });
+
+  describe('GET /api/cost/anomalies', () => {
+    it('should return anomalies for demo data', async () => {
+      const response = await request(app)
+        .get('/api/cost/anomalies?mode=demo&method=zscore&threshold=1')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data).toBeInstanceOf(Array);
+      response.body.data.forEach((anomaly: any) => {
+        expect(anomaly).toHaveProperty('expected');
+        expect(anomaly).toHaveProperty('actual');
+        expect(['low', 'medium', 'high']).toContain(anomaly.severity);
+      });
+    });
+
+    it('should scan the named dataset in csv mode', async () => {
+      const costs = [10, 11, 10, 12, 11, 10, 11, 12, 10, 11, 95];
+      costDatasetService.addImport('anomaly-test', {
+        id: 'anomaly-test-1',
+        fileName: 'daily.csv',
+        format: 'daily-costs',
+        rowsProcessed: costs.length,
+        currency: 'USD'
+      }, costs.map((cost, index) => ({
+        date: `2024-11-${String(index + 1).padStart(2, '0')}`, service: 'Amazon EC2', region: '', accountId: '', cost
+      })));
+
+      try {
+        const response = await request(app)
+          .get('/api/cost/anomalies?mode=csv&dataset=anomaly-test&window=7')
+          .expect(200);
+
+        expect(response.body.data.some((anomaly: any) => anomaly.date === '2024-11-11')).toBe(true);
+      } finally {
+        costDatasetService.deleteDataset('anomaly-test');
+      }
+    });
+
+    it('should scope csv anomalies to a dataset or import', async () => {
+      await request(app).get('/api/cost/anomalies?mode=csv').expect(400);
+      await request(app).get('/api/cost/anomalies?mode=aws&importId=1b4e28ba-2fa1-11d2-883f-0016d3cca427').expect(400);
+      await request(app).get('/api/cost/anomalies?mode=csv&dataset=missing').expect(404);
+    });
+
+    it('should reject an unknown detection method', async () => {
+      const response = await request(app)
+        .get('/api/cost/anomalies?method=crystal-ball')
+        .expect(400);
+
+      expect(response.body.error).toContain('Validation error');
+    });
   });
 
   describe('POST /api/cost/upload-csv', () => {
@@ -236,19 +670,139 @@ describe('Cost Routes', () => {
       });
     });
 
+    // Poll the import job the way the frontend does
+    const waitForImport = async (jobId: string) => {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const response = await request(app).get(`/api/cost/upload-csv/jobs/${jobId}`).expect(200);
+        if (response.body.data.status !== 'processing') return response;
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      throw new Error('Import did not finish');
+    };
+
     it('should handle valid CSV upload', async () => {
       const csvContent = 'Service,BlendedCost,Region\nAmazon EC2,100.00,us-east-1';
       
       const response = await request(app)
         .post('/api/cost/upload-csv')
         .attach('csvFile', Buffer.from(csvContent), 'test.csv')
-        .expect(200);
+        .expect(202);
 
       expect(response.body).toMatchObject({
-        success: true
+        success: true,
+        data: { fileName: 'test.csv' }
       });
-      expect(response.body.data).toBeDefined();
-      expect(response.body.message).toContain('CSV processed successfully');
+      expect(response.body.data.costData).toBeUndefined();
+
+      const job = await waitForImport(response.body.data.id);
+      expect(job.body.data).toMatchObject({ status: 'completed', format: 'cost-and-usage', progress: 100 });
+      expect(job.body.data.costData.totalCost).toBe(100);
+      expect(job.body.message).toContain('CSV processed successfully');
+    });
+
+    it('should accept gzipped uploads', async () => {
+      const csvContent = 'Service,Amount\nAmazon EC2,40.00\nAmazon S3,2.00';
+
+      const response = await request(app)
+        .post('/api/cost/upload-csv')
+        .attach('csvFile', gzipSync(Buffer.from(csvContent)), 'costs.csv.gz')
+        .expect(202);
+
+      const job = await waitForImport(response.body.data.id);
+      expect(job.body.data.costData.totalCost).toBe(42);
+    });
+
+    it('should reject an unsupported format before starting an import', async () => {
+      const response = await request(app)
+        .post('/api/cost/upload-csv')
+        .attach('csvFile', Buffer.from('Invalid,Headers\nvalue1,value2'), 'test.csv')
+        .expect(400);
+
+      expect(response.body.error).toContain('Unsupported CSV format');
+    });
+
+    it('should import non-standard headers through a column mapping', async () => {
+      const csvContent = 'Product,Spend\nAmazon EC2,40.00\nAmazon S3,oops';
+
+      const response = await request(app)
+        .post('/api/cost/upload-csv')
+        .field('columnMapping', JSON.stringify({ service: 'Product', cost: 'Spend' }))
+        .attach('csvFile', Buffer.from(csvContent), 'costs.csv')
+        .expect(202);
+
+      const job = await waitForImport(response.body.data.id);
+      expect(job.body.data.costData.totalCost).toBe(40);
+      expect(job.body.data.report).toMatchObject({
+        rowsRead: 2,
+        rowsSkipped: 1,
+        skippedRows: [{ row: 2, reason: 'invalid-cost' }]
+      });
+    });
+
+    it('should reject an invalid column mapping', async () => {
+      const badJson = await request(app)
+        .post('/api/cost/upload-csv')
+        .field('columnMapping', '{service:')
+        .attach('csvFile', Buffer.from('Product,Spend\nAmazon EC2,40.00'), 'costs.csv')
+        .expect(400);
+      const missingColumn = await request(app)
+        .post('/api/cost/upload-csv')
+        .field('columnMapping', JSON.stringify({ cost: 'Total' }))
+        .attach('csvFile', Buffer.from('Product,Spend\nAmazon EC2,40.00'), 'costs.csv')
+        .expect(400);
+
+      expect(badJson.body.error).toBe('columnMapping must be a JSON object');
+      expect(missingColumn.body.error).toContain("Mapped cost column 'Total' not found");
+    });
+
+    it('should merge uploads into a named dataset and roll one back', async () => {
+      const upload = async (content: string, fileName: string) => {
+        const response = await request(app)
+          .post('/api/cost/upload-csv')
+          .field('dataset', 'route-test')
+          .attach('csvFile', Buffer.from(content), fileName)
+          .expect(202);
+        return (await waitForImport(response.body.data.id)).body.data;
+      };
+
+      await upload('Date,Cost,Service\n2024-05-01,10,Amazon EC2\n2024-05-02,10,Amazon EC2', 'may.csv');
+      const june = await upload('Date,Cost,Service\n2024-05-02,12,Amazon EC2\n2024-06-01,20,Amazon EC2', 'june.csv');
+
+      expect(june.dataset).toBe('route-test');
+      expect(june.costData.totalCost).toBe(42);
+
+      const history = await request(app).get('/api/cost/datasets/route-test').expect(200);
+      expect(history.body.data.imports.map((entry: any) => entry.fileName)).toEqual(['may.csv', 'june.csv']);
+      expect(history.body.data.imports[1].replacedRecords).toBe(1);
+
+      const rollback = await request(app)
+        .post(`/api/cost/datasets/route-test/imports/${june.datasetImportId}/rollback`)
+        .expect(200);
+      expect(rollback.body.data.imports[1].status).toBe('rolled-back');
+
+      const merged = await request(app).get('/api/cost/datasets/route-test/cost-data').expect(200);
+      expect(merged.body.data.totalCost).toBe(20);
+
+      await request(app).delete('/api/cost/datasets/route-test').expect(200);
+      await request(app).get('/api/cost/datasets/route-test').expect(404);
+    });
+
+    it('should reject an account without a dataset', async () => {
+      const response = await request(app)
+        .post('/api/cost/upload-csv')
+        .field('accountId', '123456789012')
+        .attach('csvFile', Buffer.from('Service,Amount\nAmazon EC2,1'), 'costs.csv')
+        .expect(400);
+
+      expect(response.body.error).toContain('dataset');
+    });
+
+    it('should return 404 for an unknown import job', async () => {
+      const response = await request(app)
+        .get('/api/cost/upload-csv/jobs/not-a-job')
+        .expect(404);
+
+      expect(response.body.error).toBe('Import job not found');
     });
 
     it('should reject non-CSV files', async () => {
@@ -261,6 +815,144 @@ describe('Cost Routes', () => {
     });
   });
 
+  describe('GET /api/cost/compare', () => {
+    it('should compare two demo periods', async () => {
+      const response = await request(app)
+        .get('/api/cost/compare?base=2024-09&target=2024-10-01..2024-10-15&scenario=cost_spike&seed=7')
+        .expect(200);
+
+      expect(response.body.data.base).toEqual({ start: '2024-09-01', end: '2024-10-01' });
+      expect(response.body.data.target).toEqual({ start: '2024-10-01', end: '2024-10-15' });
+      expect(response.body.data.total.change)
+        .toBeCloseTo(response.body.data.total.targetCost - response.body.data.total.baseCost, 1);
+      expect(response.body.data.services.length).toBeGreaterThan(0);
+      expect(response.body.data.services[0]).toHaveProperty('regions');
+    });
+
+    it('should compare the months of a dataset', async () => {
+      const details = (id: string) => ({ id, fileName: `${id}.csv`, format: 'daily-costs' as const, rowsProcessed: 2, currency: 'USD' });
+      costDatasetService.addImport('compare-test', details('compare-september'), [
+        { date: '2024-09-01', service: 'Amazon EC2', region: '', accountId: '', cost: 10 },
+        { date: '2024-09-02', service: 'Amazon S3', region: '', accountId: '', cost: 5 }
+      ]);
+      costDatasetService.addImport('compare-test', details('compare-october'), [
+        { date: '2024-10-01', service: 'Amazon EC2', region: '', accountId: '', cost: 25 }
+      ]);
+
+      const response = await request(app)
+        .get('/api/cost/compare?mode=csv&dataset=compare-test&base=2024-09&target=2024-10')
+        .expect(200);
+
+      expect(response.body.data.total).toMatchObject({ baseCost: 15, targetCost: 25, change: 10 });
+      expect(response.body.data.services[0]).toMatchObject({ displayName: 'Amazon EC2', change: 15, changePercentage: 150 });
+      expect(response.body.data.disappearedServices).toHaveLength(1);
+
+      costDatasetService.deleteDataset('compare-test');
+    });
+
+    it('should reject invalid periods', async () => {
+      await request(app).get('/api/cost/compare?target=2024-10').expect(400);
+      await request(app).get('/api/cost/compare?base=last-month&target=2024-10').expect(400);
+
+      const reversed = await request(app)
+        .get('/api/cost/compare?base=2024-10-15..2024-10-01&target=2024-10')
+        .expect(400);
+      expect(reversed.body.error).toContain('base must be a valid period');
+
+      await request(app).get('/api/cost/compare?base=2023-01-01..2024-06-01&target=2024-10').expect(400);
+    });
+
+    it('should need a dataset in csv mode and a session in AWS mode', async () => {
+      await request(app).get('/api/cost/compare?mode=csv&base=2024-09&target=2024-10').expect(400);
+      await request(app).get('/api/cost/compare?mode=csv&dataset=missing&base=2024-09&target=2024-10').expect(404);
+      await request(app).get('/api/cost/compare?mode=aws&base=2024-09&target=2024-10').expect(401);
+    });
+  });
+
+  describe('GET /api/cost/history', () => {
+    const costData = (cost: number, dates: string[]): CostData => ({
+      services: [{
+        service: 'ec2',
+        displayName: 'Amazon EC2',
+        totalCost: cost * dates.length,
+        currency: 'USD',
+        budgetUtilization: 0,
+        regions: [],
+        tags: [],
+        dailyCosts: dates.map(date => ({ date, cost })),
+        trend: 'stable'
+      }],
+      totalCost: cost * dates.length,
+      currency: 'USD',
+      lastUpdated: new Date(),
+      budgetAlerts: []
+    });
+
+    it('should return daily costs from stored snapshots', async () => {
+      costSnapshotService.recordSnapshot('dataset:history-test', costData(10, ['2024-05-01', '2024-05-02']), new Date('2024-05-03T06:00:00Z'));
+
+      const response = await request(app)
+        .get('/api/cost/history?source=dataset:history-test&service=Amazon EC2&from=2024-05-02&to=2024-06-01')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        source: 'dataset:history-test',
+        service: 'Amazon EC2',
+        from: '2024-05-02',
+        to: '2024-06-01',
+        points: [{ date: '2024-05-02', cost: 10 }]
+      });
+      expect(response.body.data.snapshots).toHaveLength(1);
+    });
+
+    it('should default to the session account and keep other accounts out', async () => {
+      jest.spyOn(session.awsService, 'getAccountId').mockReturnValue('123456789012');
+      costSnapshotService.recordSnapshot('aws:123456789012', costData(5, ['2024-05-01']));
+
+      const own = await request(app)
+        .get('/api/cost/history?from=2024-01-01')
+        .set('Authorization', authorization)
+        .expect(200);
+      expect(own.body.data.source).toBe('aws:123456789012');
+      expect(own.body.data.points).toEqual([{ date: '2024-05-01', cost: 5 }]);
+
+      await request(app)
+        .get('/api/cost/history?source=aws:210987654321')
+        .set('Authorization', authorization)
+        .expect(403);
+      await request(app)
+        .get('/api/cost/history?source=aws:123456789012')
+        .expect(401);
+    });
+
+    it('should need a source without an AWS account', async () => {
+      await request(app).get('/api/cost/history').expect(401);
+
+      const response = await request(app)
+        .get('/api/cost/history')
+        .set('Authorization', authorization)
+        .expect(400);
+      expect(response.body.error).toContain('source is required');
+    });
+
+    it('should reject invalid sources and ranges', async () => {
+      await request(app).get('/api/cost/history?source=gcp:project').expect(400);
+
+      const response = await request(app)
+        .get('/api/cost/history?source=dataset:history-test&from=2024-06-01&to=2024-05-01')
+        .expect(400);
+      expect(response.body.error).toContain('to must be after from');
+    });
+
+    it('should return 404 for a source without snapshots', async () => {
+      const response = await request(app)
+        .get('/api/cost/history?source=dataset:never-snapshotted')
+        .expect(404);
+
+      expect(response.body.error).toContain('No cost snapshots');
+    });
+  });
+
   describe('POST /api/cost/validate-csv', () => {
     it('should validate CSV format', async () => {
       const csvContent = 'Service,BlendedCost,Region\nAmazon EC2,100.00,us-east-1';
@@ -279,6 +971,24 @@ describe('Cost Routes', () => {
       });
     });
 
+    it('should report skipped rows, duplicates and unknown columns', async () => {
+      const csvContent = 'Date,Cost,Service,Notes\n2024-05-01,10,Amazon EC2,a\n,5,Amazon EC2,b\n2024-05-01,3,Amazon EC2,c';
+
+      const response = await request(app)
+        .post('/api/cost/validate-csv')
+        .attach('csvFile', Buffer.from(csvContent), 'test.csv')
+        .expect(200);
+
+      expect(response.body.data.format).toBe('daily-costs');
+      expect(response.body.data.report).toMatchObject({
+        rowsRead: 3,
+        rowsImported: 2,
+        skippedRows: [{ row: 2, reason: 'missing-date', message: 'Date is empty' }],
+        duplicates: [{ row: 3, firstRow: 1, date: '2024-05-01', service: 'Amazon EC2' }],
+        unknownColumns: ['Notes']
+      });
+    });
+
     it('should reject invalid CSV format', async () => {
       const csvContent = 'Invalid,Headers\nvalue1,value2';
       
@@ -297,10 +1007,32 @@ describe('Cost Routes', () => {
     });
   });
 
+  describe('DELETE /api/cost/session', () => {
+    it('should end the session', async () => {
+      await request(app)
+        .delete('/api/cost/session')
+        .set('Authorization', authorization)
+        .expect(200);
+
+      await request(app)
+        .get('/api/cost/aws/cache-stats')
+        .set('Authorization', authorization)
+        .expect(401);
+    });
+
+    it('should return 404 for an unknown session', async () => {
+      await request(app)
+        .delete('/api/cost/session')
+        .set('Authorization', 'Bearer not-a-session')
+        .expect(404);
+    });
+  });
+
   describe('GET /api/cost/aws/test-connection', () => {
     it('should test AWS connection', async () => {
       const response = await request(app)
         .get('/api/cost/aws/test-connection')
+        .set('Authorization', authorization)
         .expect(503);
 
       expect(response.body).toMatchObject({
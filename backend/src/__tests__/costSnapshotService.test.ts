@@ -0,0 +1,110 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CostSnapshotService } from '../services/costSnapshotService';
+import { InMemorySnapshotStore, JsonFileSnapshotStore } from '../services/snapshotStore';
+import { CostData, DailyCost } from '../types';
+
+describe('CostSnapshotService', () => {
+  let costSnapshotService: CostSnapshotService;
+
+  const service = (key: string, dailyCosts: DailyCost[]) => ({
+    service: key,
+    displayName: key.toUpperCase(),
+    totalCost: dailyCosts.reduce((sum, day) => sum + day.cost, 0),
+    currency: 'USD',
+    budgetUtilization: 0,
+    regions: [],
+    tags: [],
+    dailyCosts,
+    trend: 'stable' as const
+  });
+
+  const costData = (services: ReturnType<typeof service>[]): CostData => ({
+    services,
+    totalCost: services.reduce((sum, entry) => sum + entry.totalCost, 0),
+    currency: 'USD',
+    lastUpdated: new Date(),
+    budgetAlerts: []
+  });
+
+  const range = { from: '2024-01-01', to: '2025-01-01' };
+
+  beforeEach(() => {
+    costSnapshotService = new CostSnapshotService(new InMemorySnapshotStore(), [], 400);
+  });
+
+  it('should take each day from the latest snapshot that covers it', () => {
+    costSnapshotService.recordSnapshot('aws:123456789012', costData([
+      service('ec2', [{ date: '2024-05-01', cost: 10 }, { date: '2024-05-02', cost: 4 }])
+    ]), new Date('2024-05-03T06:00:00Z'));
+    // The next day's view has the final figure for 05-02 and no EC2 usage on 05-03
+    costSnapshotService.recordSnapshot('aws:123456789012', costData([
+      service('ec2', [{ date: '2024-05-02', cost: 12 }]),
+      service('s3', [{ date: '2024-05-02', cost: 1 }, { date: '2024-05-03', cost: 2 }])
+    ]), new Date('2024-05-04T06:00:00Z'));
+
+    const history = costSnapshotService.getHistory('aws:123456789012', range)!;
+    expect(history.points).toEqual([
+      { date: '2024-05-01', cost: 10 },
+      { date: '2024-05-02', cost: 13 },
+      { date: '2024-05-03', cost: 2 }
+    ]);
+    expect(history.snapshots.map(snapshot => snapshot.date)).toEqual(['2024-05-03', '2024-05-04']);
+
+    const ec2 = costSnapshotService.getHistory('aws:123456789012', { ...range, service: 'EC2' })!;
+    expect(ec2.points).toEqual([
+      { date: '2024-05-01', cost: 10 },
+      { date: '2024-05-02', cost: 12 },
+      { date: '2024-05-03', cost: 0 }
+    ]);
+  });
+
+  it('should keep one snapshot per source and day', () => {
+    const data = costData([service('ec2', [{ date: '2024-05-01', cost: 10 }])]);
+    costSnapshotService.recordSnapshot('dataset:prod', data, new Date('2024-05-02T01:00:00Z'));
+    costSnapshotService.recordSnapshot('dataset:prod', data, new Date('2024-05-02T23:00:00Z'));
+
+    expect(costSnapshotService.getHistory('dataset:prod', range)!.snapshots).toHaveLength(1);
+    expect(costSnapshotService.getHistory('dataset:other', range)).toBeNull();
+    expect(costSnapshotService.listSources()).toEqual(['dataset:prod']);
+  });
+
+  it('should drop snapshots older than the retention period', () => {
+    costSnapshotService = new CostSnapshotService(new InMemorySnapshotStore(), [], 30);
+    costSnapshotService.recordSnapshot('dataset:prod', costData([service('ec2', [{ date: '2024-01-01', cost: 1 }])]), new Date('2024-01-02T00:00:00Z'));
+    costSnapshotService.recordSnapshot('dataset:prod', costData([service('ec2', [{ date: '2024-03-01', cost: 2 }])]), new Date('2024-03-02T00:00:00Z'));
+
+    expect(costSnapshotService.getHistory('dataset:prod', range)!.points).toEqual([{ date: '2024-03-01', cost: 2 }]);
+  });
+
+  it('should skip monthly data and failing collectors', async () => {
+    const monthly = { ...costData([]), timePeriod: { start: '2024-01-01', end: '2024-02-01', granularity: 'MONTHLY' as const } };
+    expect(costSnapshotService.recordSnapshot('aws:123456789012', monthly)).toBeNull();
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    costSnapshotService.addCollector(async () => { throw new Error('expired credentials'); });
+    costSnapshotService.addCollector(async () => [{ source: 'dataset:prod', costData: costData([]) }]);
+
+    expect(await costSnapshotService.captureAll()).toBe(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should keep snapshots across restarts', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-store-'));
+    const filePath = path.join(tempDir, 'nested', 'snapshots.json');
+    try {
+      new CostSnapshotService(new JsonFileSnapshotStore(filePath), [], 0)
+        .recordSnapshot('dataset:prod', costData([service('ec2', [{ date: '2024-05-01', cost: 10 }])]), new Date('2024-05-02T00:00:00Z'));
+
+      const reloaded = new CostSnapshotService(new JsonFileSnapshotStore(filePath), [], 0);
+      const history = reloaded.getHistory('dataset:prod', range)!;
+
+      expect(history.points).toEqual([{ date: '2024-05-01', cost: 10 }]);
+      expect(history.snapshots[0].takenAt).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CSVImportService } from '../services/csvImportService';
+import { CSVImportJob } from '../types';
+
+describe('CSVImportService', () => {
+  let directory: string;
+  let csvImportService: CSVImportService;
+
+  const writeUpload = (content: string) => {
+    const filePath = path.join(directory, `upload-${Date.now()}-${Math.random()}`);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const waitForJob = async (jobId: string): Promise<CSVImportJob> => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const job = csvImportService.getJob(jobId)!;
+      if (job.status !== 'processing') return job;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Import did not finish');
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-import-test-'));
+    csvImportService = new CSVImportService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should import in the background and hand over the cost data', async () => {
+    const filePath = writeUpload('Service,Amount\nAmazon EC2,100.00\nAmazon S3,25.50');
+    const onComplete = jest.fn();
+
+    const started = csvImportService.startImport({ path: filePath, originalName: 'costs.csv' }, onComplete);
+    expect(started).toMatchObject({ fileName: 'costs.csv', status: 'processing', progress: 0 });
+
+    const job = await waitForJob(started.id);
+
+    expect(job).toMatchObject({
+      status: 'completed',
+      format: 'service-costs',
+      rowsProcessed: 2,
+      progress: 100
+    });
+    expect(job.bytesProcessed).toBe(job.bytesTotal);
+    expect(job.costData?.totalCost).toBe(125.5);
+    expect(onComplete).toHaveBeenCalledWith(job.costData);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should record failures and still remove the upload', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const filePath = writeUpload('Unknown,Headers\nvalue1,value2');
+    const onComplete = jest.fn();
+
+    const job = await waitForJob(csvImportService.startImport({ path: filePath, originalName: 'bad.csv' }, onComplete).id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toContain('Unsupported CSV format');
+    expect(job.completedAt).toBeInstanceOf(Date);
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should forget finished jobs after the retention period', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate', 'setTimeout', 'nextTick'] });
+    jest.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+    const first = await waitForJob(csvImportService.startImport({
+      path: writeUpload('Service,Amount\nAmazon EC2,1'),
+      originalName: 'first.csv'
+    }).id);
+
+    jest.setSystemTime(new Date('2024-06-01T02:00:00Z'));
+    const second = csvImportService.startImport({ path: writeUpload('Service,Amount\nAmazon EC2,1'), originalName: 'second.csv' });
+
+    expect(csvImportService.getJob(first.id)).toBeNull();
+    await waitForJob(second.id);
+    jest.useRealTimers();
+  });
+
+  it('should return null for unknown jobs', () => {
+    expect(csvImportService.getJob('missing')).toBeNull();
+  });
+});
@@ -1,4 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { deflateRawSync, gzipSync } from 'zlib';
 import { CSVUploadService } from '../services/csvUploadService';
+import { ExportService } from '../services/exportService';
+import { InMemoryShareStore } from '../services/shareStore';
+
+// Minimal deflate zip writer; the service reads sizes from the central directory and ignores CRCs
+const createZip = (files: Array<{ name: string; content: string }>): Buffer => {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const data = deflateRawSync(Buffer.from(file.content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(file.content), 22);
+    local.writeUInt16LE(name.length, 26);
+    parts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(file.content), 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    directory.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directoryBuffer = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directoryBuffer.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directoryBuffer, end]);
+};
 
 describe('CSVUploadService', () => {
   let csvUploadService: CSVUploadService;
@@ -147,6 +195,177 @@ Amazon EC2,25.00,eu-west-1`;
     });
   });
 
+  describe('Cost and Usage Reports', () => {
+    const legacyCur = `identity/LineItemId,lineItem/UsageAccountId,lineItem/LineItemType,lineItem/UsageStartDate,lineItem/ProductCode,lineItem/UsageType,lineItem/ResourceId,lineItem/UsageAmount,lineItem/CurrencyCode,lineItem/UnblendedCost,product/ProductName,product/region,pricing/unit,resourceTags/user:Team
+1,111111111111,Usage,2024-05-01T00:00:00Z,AmazonEC2,USE1-BoxUsage:t3.micro,i-0abc,24,USD,10.00,Amazon Elastic Compute Cloud,us-east-1,Hrs,data
+2,111111111111,Usage,2024-05-02T00:00:00Z,AmazonEC2,USE1-BoxUsage:t3.micro,i-0abc,24,USD,12.00,Amazon Elastic Compute Cloud,us-east-1,Hrs,data
+3,222222222222,Usage,2024-05-02T00:00:00Z,AmazonEC2,USW2-BoxUsage:m5.large,i-0def,10,USD,8.00,Amazon Elastic Compute Cloud,us-west-2,Hrs,
+4,111111111111,Usage,2024-05-01T00:00:00Z,AmazonRoute53,HostedZone,,1,USD,0.50,Amazon Route 53,,HostedZone,web`;
+
+    it('should read legacy CUR columns into resource, usage type and tag breakdowns', async () => {
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(legacyCur));
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('cur');
+      expect(result.rowsProcessed).toBe(4);
+
+      const costData = result.costData!;
+      expect(costData.totalCost).toBeCloseTo(30.5);
+      expect(costData.metric).toBe('UnblendedCost');
+      expect(costData.timePeriod).toEqual({ start: '2024-05-01', end: '2024-05-03', granularity: 'DAILY' });
+      expect(costData.accounts?.map(account => account.accountId)).toEqual(['111111111111', '222222222222']);
+
+      const ec2 = costData.services.find(service => service.displayName === 'Amazon Elastic Compute Cloud')!;
+      expect(ec2.totalCost).toBe(30);
+      expect(ec2.regions.map(region => [region.region, region.cost])).toEqual([['us-east-1', 22], ['us-west-2', 8]]);
+      expect(ec2.dailyCosts).toEqual([{ date: '2024-05-01', cost: 10 }, { date: '2024-05-02', cost: 20 }]);
+      expect(ec2.resources).toEqual([
+        { resourceId: 'i-0abc', cost: 22, percentage: expect.closeTo(73.33, 1) },
+        { resourceId: 'i-0def', cost: 8, percentage: expect.closeTo(26.67, 1) }
+      ]);
+      expect(ec2.usageTypes?.[0]).toMatchObject({ usageType: 'USE1-BoxUsage:t3.micro', cost: 22, usageAmount: 48, unit: 'Hrs' });
+      expect(ec2.tags.map(tag => [tag.key, tag.value, tag.cost])).toEqual([['Team', 'data', 22], ['Team', 'untagged', 8]]);
+
+      const route53 = costData.services.find(service => service.displayName === 'Amazon Route 53')!;
+      expect(route53.regions[0].region).toBe('global');
+      expect(route53.resources).toEqual([]);
+    });
+
+    it('should keep tags in collected records so datasets break costs down the same way', async () => {
+      const result = await csvUploadService.processStream(Readable.from(Buffer.from(legacyCur)), { collectRecords: true });
+
+      expect(result.records?.find(record => record.region === 'us-west-2')?.tags).toBeUndefined();
+      expect(result.records?.find(record => record.service === 'Amazon Route 53')?.tags).toEqual([['Team', 'web']]);
+
+      const fromRecords = csvUploadService.buildCostDataFromRecords(result.records!);
+      for (const service of result.costData!.services) {
+        expect(fromRecords.services.find(candidate => candidate.displayName === service.displayName)?.tags)
+          .toEqual(service.tags);
+      }
+    });
+
+    it('should read CUR 2.0 columns and JSON resource tags', async () => {
+      const cur2 = `line_item_usage_account_id,line_item_usage_start_date,line_item_product_code,line_item_usage_type,line_item_resource_id,line_item_usage_amount,line_item_currency_code,line_item_unblended_cost,product,product_region_code,resource_tags
+111111111111,2024-05-01T00:00:00.000Z,AmazonS3,USE1-TimedStorage-ByteHrs,arn:aws:s3:::logs,100,USD,2.30,"{""product_name"":""Amazon Simple Storage Service""}",us-east-1,"{""user_team"":""platform"",""user_env"":""prod""}"
+111111111111,2024-05-01T00:00:00.000Z,AmazonS3,USE1-Requests-Tier1,arn:aws:s3:::assets,1000,USD,0.70,"{""product_name"":""Amazon Simple Storage Service""}",us-east-1,{}`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(cur2));
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('cur');
+
+      const [s3] = result.costData!.services;
+      expect(s3.displayName).toBe('Amazon Simple Storage Service');
+      expect(s3.totalCost).toBeCloseTo(3);
+      expect(s3.resources?.map(resource => resource.resourceId)).toEqual(['arn:aws:s3:::logs', 'arn:aws:s3:::assets']);
+      expect(s3.tags.filter(tag => tag.key === 'team').map(tag => [tag.value, tag.cost])).toEqual([
+        ['platform', 2.3],
+        ['untagged', expect.closeTo(0.7, 5)]
+      ]);
+      expect(s3.tags.some(tag => tag.key === 'env' && tag.value === 'prod')).toBe(true);
+    });
+
+    it('should accept gzipped reports', async () => {
+      const gzipped = gzipSync(Buffer.from(legacyCur));
+
+      await expect(csvUploadService.validateCSVFormat(gzipped)).resolves.toEqual({ valid: true, format: 'cur' });
+
+      const result = await csvUploadService.processCostExplorerCSV(gzipped);
+      expect(result.success).toBe(true);
+      expect(result.costData?.totalCost).toBeCloseTo(30.5);
+    });
+
+    it('should report a corrupt gzip file', async () => {
+      const truncated = gzipSync(Buffer.from(legacyCur)).subarray(0, 20);
+
+      const result = await csvUploadService.processCostExplorerCSV(truncated);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Could not decompress');
+    });
+  });
+
+  describe('openCostFile', () => {
+    const serviceCosts = 'Service,Amount\nAmazon EC2,100.00\nAmazon S3,25.50';
+    let directory: string;
+
+    const writeFile = (name: string, content: Buffer) => {
+      const filePath = path.join(directory, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    const importFile = async (filePath: string) => {
+      const { stream } = await csvUploadService.openCostFile(filePath);
+      return csvUploadService.processStream(stream);
+    };
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-upload-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should stream plain, gzipped and zipped files', async () => {
+      const files = [
+        writeFile('costs.csv', Buffer.from(serviceCosts)),
+        writeFile('costs.csv.gz', gzipSync(Buffer.from(serviceCosts))),
+        writeFile('costs.zip', createZip([{ name: 'export/costs.csv', content: serviceCosts }]))
+      ];
+
+      for (const filePath of files) {
+        const result = await importFile(filePath);
+        expect(result.format).toBe('service-costs');
+        expect(result.rowsProcessed).toBe(2);
+        expect(result.costData?.totalCost).toBe(125.5);
+      }
+    });
+
+    it('should report bytes read from disk', async () => {
+      const gzipped = gzipSync(Buffer.from(serviceCosts));
+      const filePath = writeFile('costs.csv.gz', gzipped);
+      let bytesRead = 0;
+
+      const { stream, totalBytes } = await csvUploadService.openCostFile(filePath, bytes => { bytesRead += bytes; });
+      await csvUploadService.processStream(stream);
+
+      expect(totalBytes).toBe(gzipped.length);
+      expect(bytesRead).toBe(gzipped.length);
+    });
+
+    it('should require exactly one CSV in a zip archive', async () => {
+      const empty = writeFile('empty.zip', createZip([{ name: 'README.txt', content: 'hello' }]));
+      const two = writeFile('two.zip', createZip([
+        { name: 'a.csv', content: serviceCosts },
+        { name: 'b.csv', content: serviceCosts }
+      ]));
+
+      await expect(csvUploadService.openCostFile(empty)).rejects.toThrow('does not contain a CSV file');
+      await expect(csvUploadService.openCostFile(two)).rejects.toThrow('more than one CSV file');
+    });
+
+    it('should fail cleanly on a truncated gzip file', async () => {
+      const filePath = writeFile('broken.csv.gz', gzipSync(Buffer.from(serviceCosts)).subarray(0, 15));
+
+      await expect(importFile(filePath)).rejects.toThrow('Could not decompress the file');
+    });
+
+    it('should report progress while streaming rows', async () => {
+      const rows = Array.from({ length: 12000 }, (_, i) => `2024-05-01,Service ${i % 10},1.00`);
+      const filePath = writeFile('daily.csv', Buffer.from(['Date,Service,Cost', ...rows].join('\n')));
+      const progress: number[] = [];
+
+      const { stream } = await csvUploadService.openCostFile(filePath);
+      const result = await csvUploadService.processStream(stream, { onProgress: rowsProcessed => progress.push(rowsProcessed) });
+
+      expect(progress).toEqual([5000, 10000, 12000]);
+      expect(result.costData?.services).toHaveLength(10);
+      expect(result.costData?.totalCost).toBe(12000);
+    });
+  });
+
   describe('validateCSVFormat', () => {
     it('should validate cost and usage format', async () => {
       const csvContent = `Service,BlendedCost,Region
@@ -203,6 +422,242 @@ value1,value2`;
     }, 10000); // Increase timeout for this test
   });
 
+  describe('FOCUS', () => {
+    const focus = `BillingAccountId,BillingCurrency,ChargePeriodStart,ChargePeriodEnd,ChargeCategory,BilledCost,EffectiveCost,ServiceName,RegionId,SubAccountId,ResourceId,Tags,x_Discount,Comment
+payer,USD,2024-05-01T00:00:00Z,2024-05-02T00:00:00Z,Usage,10.00,8.00,Amazon EC2,us-east-1,111111111111,i-1,"{""team"":""web""}",1,a
+payer,USD,2024-05-02T00:00:00Z,2024-05-03T00:00:00Z,Usage,10.00,8.00,Amazon EC2,us-west-2,222222222222,i-2,{},1,b
+payer,USD,2024-05-01T00:00:00Z,2024-06-01T00:00:00Z,Purchase,120.00,0,Savings Plans,,111111111111,,,0,c`;
+
+    it('should import billed cost by service, region, account and tag', async () => {
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(focus));
+
+      expect(result.format).toBe('focus');
+      expect(result.costData?.metric).toBe('UnblendedCost');
+      expect(result.costData?.totalCost).toBeCloseTo(140);
+      const ec2 = result.costData?.services.find(service => service.displayName === 'Amazon EC2')!;
+      expect(ec2.regions.map(region => region.region)).toEqual(['us-east-1', 'us-west-2']);
+      expect(ec2.dailyCosts).toEqual([{ date: '2024-05-01', cost: 10 }, { date: '2024-05-02', cost: 10 }]);
+      expect(ec2.tags).toEqual(expect.arrayContaining([
+        expect.objectContaining({ key: 'team', value: 'web', cost: 10 }),
+        expect.objectContaining({ key: 'team', value: 'untagged', cost: 10 })
+      ]));
+      expect(result.costData?.services.find(service => service.displayName === 'Savings Plans')?.regions[0].region).toBe('global');
+      expect(result.costData?.accounts).toHaveLength(2);
+      expect(result.report?.unknownColumns).toEqual(['Comment']);
+    });
+
+    it('should read effective cost when asked', async () => {
+      const result = await csvUploadService.processStream(Readable.from(Buffer.from(focus)), { focusCostColumn: 'EffectiveCost' });
+
+      expect(result.costData?.metric).toBe('AmortizedCost');
+      expect(result.costData?.totalCost).toBeCloseTo(16);
+    });
+
+    it('should read its own FOCUS export back', async () => {
+      const exported = new ExportService(new InMemoryShareStore()).generateFOCUSCSV([{
+        service: 'lambda',
+        displayName: 'AWS Lambda',
+        totalCost: 12,
+        currency: 'USD',
+        regions: [{ region: 'eu-west-1', cost: 12, percentage: 100 }],
+        tags: [],
+        dailyCosts: [{ date: '2024-05-01', cost: 5 }, { date: '2024-05-02', cost: 7 }]
+      }]);
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(exported));
+
+      expect(result.format).toBe('focus');
+      expect(result.costData?.services[0]).toMatchObject({
+        displayName: 'AWS Lambda',
+        totalCost: 12,
+        dailyCosts: [{ date: '2024-05-01', cost: 5 }, { date: '2024-05-02', cost: 7 }],
+        regions: [expect.objectContaining({ region: 'eu-west-1', cost: 12 })]
+      });
+      expect(result.report?.unknownColumns).toEqual([]);
+    });
+  });
+
+  describe('GCP and Azure billing exports', () => {
+    it('should import a GCP BigQuery billing export net of credits', async () => {
+      const gcp = `billing_account_id,service.description,sku.description,usage_start_time,project.id,location.region,labels,cost,currency,credits,usage.amount,usage.unit
+0X0X0X,Compute Engine,N1 Predefined Instance Core,2024-05-01 00:00:00 UTC,web-prod,us-central1,"[{""key"":""team"",""value"":""web""}]",10.00,USD,"[{""name"":""Sustained use discount"",""amount"":-2.5}]",24,hour
+0X0X0X,Compute Engine,N1 Predefined Instance Ram,2024-05-02 00:00:00 UTC,web-prod,us-central1,[],5.00,USD,[],96,gibibyte hour
+0X0X0X,BigQuery,Analysis,2024-05-02 00:00:00 UTC,data-prod,,[],3.00,USD,[],1,tebibyte`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(gcp));
+
+      expect(result.format).toBe('gcp-billing');
+      expect(result.costData?.provider).toBe('gcp');
+      expect(result.costData?.totalCost).toBeCloseTo(15.5);
+      const compute = result.costData?.services.find(service => service.displayName === 'Compute Engine')!;
+      expect(compute).toMatchObject({ provider: 'gcp', totalCost: 12.5 });
+      expect(compute.regions[0].region).toBe('us-central1');
+      expect(compute.dailyCosts).toEqual([{ date: '2024-05-01', cost: 7.5 }, { date: '2024-05-02', cost: 5 }]);
+      expect(compute.tags).toEqual(expect.arrayContaining([expect.objectContaining({ key: 'team', value: 'web', cost: 7.5 })]));
+      expect(result.costData?.services.find(service => service.displayName === 'BigQuery')?.regions[0].region).toBe('global');
+      expect(result.costData?.accounts?.map(account => account.accountId)).toEqual(['web-prod', 'data-prod']);
+    });
+
+    it('should import a GCP console cost table', async () => {
+      const gcp = `Project ID,Service description,SKU description,Usage start date,Cost ($)
+web-prod,Cloud Storage,Standard Storage,2024-05-01,4.20`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(gcp));
+
+      expect(result.format).toBe('gcp-billing');
+      expect(result.costData?.services[0]).toMatchObject({ displayName: 'Cloud Storage', totalCost: 4.2, provider: 'gcp' });
+    });
+
+    it('should import an Azure cost management export', async () => {
+      const azure = `SubscriptionId,ResourceGroup,ResourceLocation,Date,MeterCategory,MeterName,Quantity,UnitOfMeasure,CostInBillingCurrency,BillingCurrencyCode,ResourceId,Tags
+sub-1,web,EastUS,05/01/2024,Virtual Machines,D2s v3,24,1 Hour,20.00,EUR,/subscriptions/sub-1/vm-1,"""team"": ""web"""
+sub-2,data,westeurope,05/02/2024,Storage,Hot LRS,100,1 GB/Month,2.50,EUR,/subscriptions/sub-2/sa-1,
+sub-1,web,Unassigned,05/02/2024,Bandwidth,Data Transfer Out,5,1 GB,not-a-number,EUR,,`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(azure));
+
+      expect(result.format).toBe('azure-cost');
+      expect(result.costData?.provider).toBe('azure');
+      expect(result.costData?.currency).toBe('EUR');
+      expect(result.costData?.totalCost).toBeCloseTo(22.5);
+      const vms = result.costData?.services.find(service => service.displayName === 'Virtual Machines')!;
+      expect(vms.regions[0].region).toBe('eastus');
+      expect(vms.dailyCosts).toEqual([{ date: '2024-05-01', cost: 20 }]);
+      expect(vms.tags).toEqual([expect.objectContaining({ key: 'team', value: 'web', cost: 20 })]);
+      expect(vms.usageTypes?.[0]).toMatchObject({ usageType: 'D2s v3', usageAmount: 24, unit: '1 Hour' });
+      expect(result.report?.skippedRows).toEqual([{ row: 3, reason: 'invalid-cost', message: "Cost 'not-a-number' is not a number" }]);
+    });
+
+    it('should keep each service\'s cloud when FOCUS files from several providers are merged', async () => {
+      const focus = `ProviderName,ChargePeriodStart,BilledCost,ServiceName
+AWS,2024-05-01T00:00:00Z,10,Amazon EC2
+Google Cloud,2024-05-01T00:00:00Z,5,Compute Engine`;
+
+      const result = await csvUploadService.processStream(Readable.from(Buffer.from(focus)), { collectRecords: true });
+
+      expect(result.costData?.services.map(service => service.provider)).toEqual(['aws', 'gcp']);
+      expect(result.costData?.provider).toBeUndefined();
+      expect(result.records?.map(record => record.provider)).toEqual(['aws', 'gcp']);
+      expect(csvUploadService.buildCostDataFromRecords(result.records!).services.map(service => service.provider))
+        .toEqual(['aws', 'gcp']);
+    });
+
+    it('should label Cost Explorer exports as AWS', async () => {
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from('Service,Amount\nAmazon EC2,10'));
+
+      expect(result.costData?.provider).toBe('aws');
+      expect(result.costData?.services[0].provider).toBe('aws');
+    });
+  });
+
+  describe('validation report', () => {
+    it('should list skipped rows with reasons', async () => {
+      const csvContent = `Service,BlendedCost,Region,Date
+Amazon EC2,100.00,us-east-1,2024-05-01
+,20.00,us-east-1,2024-05-01
+Amazon S3,N/A,us-east-1,2024-05-01
+Amazon S3,5.00,us-east-1,2024-05-01`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(csvContent));
+
+      expect(result.costData?.totalCost).toBeCloseTo(105);
+      expect(result.report).toMatchObject({
+        rowsRead: 4,
+        rowsImported: 2,
+        rowsSkipped: 2,
+        skippedRows: [
+          { row: 2, reason: 'missing-service', message: 'Service is empty' },
+          { row: 3, reason: 'invalid-cost', message: "Cost 'N/A' is not a number" }
+        ],
+        duplicateCount: 0,
+        unknownColumns: [],
+        truncated: false
+      });
+    });
+
+    it('should report duplicate date and service rows but still add them', async () => {
+      const csvContent = `Date,Cost,Service
+2024-05-01,10.00,Amazon EC2
+2024-05-02,10.00,Amazon EC2
+2024-05-01,4.00,Amazon EC2
+2024-05-01,3.00,Amazon S3`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(csvContent));
+
+      expect(result.costData?.totalCost).toBeCloseTo(27);
+      expect(result.report?.duplicateCount).toBe(1);
+      expect(result.report?.duplicates).toEqual([
+        { row: 3, firstRow: 1, date: '2024-05-01', service: 'Amazon EC2' }
+      ]);
+    });
+
+    it('should report columns the format does not read', async () => {
+      const csvContent = `Service,Amount,Owner
+Amazon EC2,100.00,platform`;
+      const cur = `lineItem/UnblendedCost,product/ProductName,resourceTags/user:team,notes
+1.5,Amazon S3,web,hello`;
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(csvContent));
+      const curResult = await csvUploadService.processCostExplorerCSV(Buffer.from(cur));
+
+      expect(result.report?.unknownColumns).toEqual(['Owner']);
+      expect(curResult.report?.unknownColumns).toEqual(['notes']);
+    });
+
+    it('should cap the listed rows and flag the report as truncated', async () => {
+      const rows = Array.from({ length: 150 }, () => 'Amazon EC2,oops').join('\n');
+
+      const result = await csvUploadService.processCostExplorerCSV(Buffer.from(`Service,Amount\n${rows}`));
+
+      expect(result.report?.rowsSkipped).toBe(150);
+      expect(result.report?.skippedRows).toHaveLength(100);
+      expect(result.report?.truncated).toBe(true);
+    });
+  });
+
+  describe('column mapping', () => {
+    it('should import an export with non-standard headers', async () => {
+      const csvContent = `Product,Location,Billing Day,Spend (USD),Cost
+Amazon EC2,eu-west-1,2024-05-01,100.00,999
+Amazon S3,eu-west-1,2024-05-01,20.00,999`;
+
+      const result = await csvUploadService.processStream(Readable.from(Buffer.from(csvContent)), {
+        columnMapping: { service: 'Product', cost: 'Spend (USD)', date: 'Billing Day', region: 'Location' }
+      });
+
+      expect(result.format).toBe('cost-and-usage');
+      expect(result.costData?.totalCost).toBeCloseTo(120);
+      expect(result.costData?.services[0].regions[0].region).toBe('eu-west-1');
+      expect(result.costData?.services[0].dailyCosts).toEqual([{ date: '2024-05-01', cost: 100 }]);
+      // The unmapped "Cost" column would shadow the mapped one, so it is ignored
+      expect(result.report?.unknownColumns).toEqual(['Cost']);
+      expect(result.report?.columnMapping).toEqual({
+        service: 'Product', cost: 'Spend (USD)', date: 'Billing Day', region: 'Location'
+      });
+    });
+
+    it('should pick the format from the mapped columns', async () => {
+      const csvContent = `Product,Spend
+Amazon EC2,100.00`;
+
+      const result = await csvUploadService.validateCSVFormat(Buffer.from(csvContent), { service: 'Product', cost: 'Spend' });
+
+      expect(result).toEqual({ valid: true, format: 'service-costs' });
+    });
+
+    it('should reject a mapping naming a missing column', async () => {
+      const csvContent = `Product,Spend
+Amazon EC2,100.00`;
+
+      const validation = await csvUploadService.validateCSVFormat(Buffer.from(csvContent), { cost: 'Total' });
+      const result = await csvUploadService.validateCSVRows(Readable.from(Buffer.from(csvContent)), { cost: 'Total' });
+
+      expect(validation.valid).toBe(false);
+      expect(validation.error).toBe("Mapped cost column 'Total' not found in the CSV header");
+      expect(result.valid).toBe(false);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle CSV with only headers', async () => {
       const csvContent = `Service,BlendedCost,Region`;
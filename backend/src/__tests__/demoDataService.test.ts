@@ -77,6 +77,67 @@ describe('DemoDataService', () => {
     });
   });
 
+  describe('scenarios', () => {
+    const options = { startDate: '2024-05-01', endDate: '2024-05-29' };
+
+    it('should produce the same costs for the same seed', () => {
+      const first = demoDataService.getDemoData({ ...options, seed: 7 });
+      const second = new DemoDataService().getDemoData({ ...options, seed: 7 });
+      const other = demoDataService.getDemoData({ ...options, seed: 8 });
+
+      expect(second.services).toEqual(first.services);
+      expect(other.totalCost).not.toBe(first.totalCost);
+    });
+
+    it('should cover the requested services and dates', () => {
+      const data = demoDataService.getDemoData({ ...options, serviceCount: 12 });
+
+      expect(data.services).toHaveLength(12);
+      expect(data.timePeriod).toEqual({ start: '2024-05-01', end: '2024-05-29', granularity: 'DAILY' });
+      data.services.forEach(service => {
+        expect(service.dailyCosts.map(day => day.date)[27]).toBe('2024-05-28');
+        expect(service.totalCost).toBeCloseTo(service.dailyCosts.reduce((sum, day) => sum + day.cost, 0), 2);
+      });
+    });
+
+    it('should keep every service within budget under normal usage', () => {
+      const data = demoDataService.getDemoData({ ...options, scenario: 'normal_usage' });
+
+      expect(data.services.every(service => service.budgetUtilization <= 0.8)).toBe(true);
+      expect(data.budgetAlerts).toHaveLength(0);
+    });
+
+    it('should push some services towards their budget in the warning scenario', () => {
+      const data = demoDataService.getDemoData({ ...options, scenario: 'budget_warning' });
+      const warned = data.services.filter(service => service.budgetUtilization > 0.8);
+
+      expect(warned).toHaveLength(3);
+      expect(warned.every(service => service.budgetUtilization < 1)).toBe(true);
+    });
+
+    it('should inject spikes that put services over budget', () => {
+      const data = demoDataService.getDemoData({ ...options, scenario: 'cost_spike', seasonality: 0 });
+      const spiked = data.services.filter(service => service.budgetUtilization > 1);
+
+      expect(spiked).toHaveLength(2);
+      spiked.forEach(service => {
+        const costs = service.dailyCosts.map(day => day.cost);
+        expect(costs[costs.length - 1]).toBeGreaterThan(2 * costs[0]);
+        expect(service.trend).toBe('increasing');
+      });
+      expect(demoDataService.getDemoData({ ...options, scenario: 'cost_spike', spikes: 0 })
+        .services.some(service => service.budgetUtilization > 1)).toBe(false);
+    });
+
+    it('should make weekends cheaper with seasonality', () => {
+      const data = demoDataService.getDemoData({ ...options, serviceCount: 1, seasonality: 0.5 });
+      // 2024-05-04 is a Saturday, 2024-05-06 a Monday
+      const cost = (date: string) => data.services[0].dailyCosts.find(day => day.date === date)!.cost;
+
+      expect(cost('2024-05-04')).toBeLessThan(cost('2024-05-06') * 0.5);
+    });
+  });
+
   describe('getDemoScenarios', () => {
     it('should return array of demo scenarios', () => {
       const scenarios = demoDataService.getDemoScenarios();
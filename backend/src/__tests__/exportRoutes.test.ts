@@ -5,21 +5,25 @@ import exportRoutes from '../routes/exportRoutes';
 
 // Mock the export service
 jest.mock('../services/exportService', () => ({
+  ShareLockedError: (jest.requireActual('../services/exportService') as any).ShareLockedError,
   exportService: {
     createShareableLink: jest.fn(),
     getSharedData: jest.fn(),
     getShareStatistics: jest.fn(),
+    getSharesByOwner: jest.fn(),
+    revokeShare: jest.fn(),
     getAllActiveShares: jest.fn(),
     cleanupExpiredShares: jest.fn(),
     generateCSV: jest.fn(),
     generateDetailedCSV: jest.fn(),
+    generateFOCUSCSV: jest.fn(),
     generateJSONExport: jest.fn(),
     getCacheStats: jest.fn(),
     isValidShareId: jest.fn()
   }
 }));
 
-import { exportService } from '../services/exportService';
+import { exportService, ShareLockedError } from '../services/exportService';
 const mockExportService = exportService as jest.Mocked<typeof exportService>;
 
 const app = express();
@@ -53,9 +57,9 @@ describe('Export Routes', () => {
     options: {
       expirationHours: 24,
       maxViews: 100,
-      includeData: true,
-      password: 'test123'
+      includeData: true
     },
+    passwordHash: 'scrypt$00$00',
     createdAt: new Date(),
     expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
     viewCount: 0
@@ -102,10 +106,35 @@ describe('Export Routes', () => {
         expect.objectContaining({
           expirationHours: 24,
           includeData: true
-        })
+        }),
+        undefined
       );
     });
 
+    it('should record the share owner key', async () => {
+      mockExportService.createShareableLink.mockReturnValue(mockShareData);
+
+      await request(app)
+        .post('/api/export/share')
+        .set('X-Share-Owner', 'owner-key-0123456789abcdef')
+        .send({ snapshot: mockSnapshot, options: { expirationHours: 24 } })
+        .expect(200);
+
+      expect(mockExportService.createShareableLink).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        'owner-key-0123456789abcdef'
+      );
+    });
+
+    it('should reject a malformed owner key', async () => {
+      await request(app)
+        .post('/api/export/share')
+        .set('X-Share-Owner', 'short')
+        .send({ snapshot: mockSnapshot, options: { expirationHours: 24 } })
+        .expect(400);
+    });
+
     it('should validate request data', async () => {
       const response = await request(app)
         .post('/api/export/share')
@@ -195,17 +224,27 @@ describe('Export Routes', () => {
           createdAt: expect.any(String)
         }
       });
-      expect(mockExportService.getSharedData).toHaveBeenCalledWith(shareId, undefined);
+      expect(mockExportService.getSharedData).toHaveBeenCalledWith(shareId, undefined, expect.any(String));
     });
 
-    it('should handle password parameter', async () => {
+    it('should read the password from the X-Share-Password header', async () => {
       mockExportService.getSharedData.mockReturnValue(mockShareData);
 
       const response = await request(app)
-        .get(`/api/export/share/${shareId}?password=test123`);
+        .get(`/api/export/share/${shareId}`)
+        .set('X-Share-Password', 'test123');
 
       expect(response.status).toBe(200);
-      expect(mockExportService.getSharedData).toHaveBeenCalledWith(shareId, 'test123');
+      expect(mockExportService.getSharedData).toHaveBeenCalledWith(shareId, 'test123', expect.any(String));
+    });
+
+    it('should reject passwords in the query string', async () => {
+      const response = await request(app)
+        .get(`/api/export/share/${shareId}?password=test123`);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('X-Share-Password');
+      expect(mockExportService.getSharedData).not.toHaveBeenCalled();
     });
 
     it('should return 404 for non-existent share', async () => {
@@ -227,7 +266,8 @@ describe('Export Routes', () => {
       });
 
       const response = await request(app)
-        .get(`/api/export/share/${shareId}?password=wrong`);
+        .get(`/api/export/share/${shareId}`)
+        .set('X-Share-Password', 'wrong');
 
       expect(response.status).toBe(401);
       expect(response.body).toMatchObject({
@@ -251,6 +291,23 @@ describe('Export Routes', () => {
       });
     });
 
+    it('should return 429 with Retry-After when unlocking is locked out', async () => {
+      mockExportService.getSharedData.mockImplementation(() => {
+        throw new ShareLockedError(900);
+      });
+
+      const response = await request(app)
+        .get(`/api/export/share/${shareId}`)
+        .set('X-Share-Password', 'wrong');
+
+      expect(response.status).toBe(429);
+      expect(response.headers['retry-after']).toBe('900');
+      expect(response.body).toMatchObject({
+        success: false,
+        error: 'Too many failed unlock attempts. Try again later.'
+      });
+    });
+
     it('should validate share ID format', async () => {
       const response = await request(app)
         .get('/api/export/share/invalid-id');
@@ -263,6 +320,43 @@ describe('Export Routes', () => {
     });
   });
 
+  describe('POST /api/export/share/:shareId/unlock', () => {
+    const shareId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should unlock a share with the password in the body', async () => {
+      mockExportService.getSharedData.mockReturnValue(mockShareData);
+
+      const response = await request(app)
+        .post(`/api/export/share/${shareId}/unlock`)
+        .send({ password: 'test123' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(mockExportService.getSharedData).toHaveBeenCalledWith(shareId, 'test123', expect.any(String));
+    });
+
+    it('should require a password', async () => {
+      const response = await request(app)
+        .post(`/api/export/share/${shareId}/unlock`)
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(mockExportService.getSharedData).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 for invalid password', async () => {
+      mockExportService.getSharedData.mockImplementation(() => {
+        throw new Error('Invalid password');
+      });
+
+      const response = await request(app)
+        .post(`/api/export/share/${shareId}/unlock`)
+        .send({ password: 'wrong' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('GET /api/export/share/:shareId/stats', () => {
     const shareId = '123e4567-e89b-12d3-a456-426614174000';
 
@@ -271,7 +365,10 @@ describe('Export Routes', () => {
         viewCount: 5,
         maxViews: 100,
         expiresAt: new Date(),
-        createdAt: new Date()
+        createdAt: new Date(),
+        failedUnlockCount: 0,
+        recentFailedUnlocks: [],
+        lockedUntil: null
       };
       mockExportService.getShareStatistics.mockReturnValue(mockStats);
 
@@ -304,6 +401,87 @@ describe('Export Routes', () => {
     });
   });
 
+  describe('DELETE /api/export/share/:shareId', () => {
+    const shareId = '123e4567-e89b-12d3-a456-426614174000';
+    const ownerKey = 'owner-key-0123456789abcdef';
+
+    it('should revoke a share for its owner', async () => {
+      mockExportService.revokeShare.mockReturnValue(true);
+
+      const response = await request(app)
+        .delete(`/api/export/share/${shareId}`)
+        .set('X-Share-Owner', ownerKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ success: true, message: 'Share link revoked' });
+      expect(mockExportService.revokeShare).toHaveBeenCalledWith(shareId, ownerKey);
+    });
+
+    it('should require an owner key', async () => {
+      const response = await request(app)
+        .delete(`/api/export/share/${shareId}`);
+
+      expect(response.status).toBe(401);
+      expect(mockExportService.revokeShare).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 for someone else\'s share', async () => {
+      mockExportService.revokeShare.mockImplementation(() => {
+        throw new Error('Not the share owner');
+      });
+
+      const response = await request(app)
+        .delete(`/api/export/share/${shareId}`)
+        .set('X-Share-Owner', ownerKey);
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 404 for non-existent share', async () => {
+      mockExportService.revokeShare.mockReturnValue(false);
+
+      const response = await request(app)
+        .delete(`/api/export/share/${shareId}`)
+        .set('X-Share-Owner', ownerKey);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/export/shares', () => {
+    const ownerKey = 'owner-key-0123456789abcdef';
+
+    it('should list the caller\'s shares with view counts', async () => {
+      mockExportService.getSharesByOwner.mockReturnValue([mockShareData]);
+      mockExportService.getShareStatistics.mockReturnValue({
+        viewCount: 3,
+        maxViews: 100,
+        expiresAt: mockShareData.expiresAt,
+        createdAt: mockShareData.createdAt,
+        failedUnlockCount: 0,
+        recentFailedUnlocks: [],
+        lockedUntil: null
+      });
+
+      const response = await request(app)
+        .get('/api/export/shares')
+        .set('X-Share-Owner', ownerKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ id: mockShareData.id, viewCount: 3, maxViews: 100, hasPassword: true })
+      ]);
+      expect(mockExportService.getSharesByOwner).toHaveBeenCalledWith(ownerKey);
+    });
+
+    it('should require an owner key', async () => {
+      const response = await request(app)
+        .get('/api/export/shares');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('POST /api/export/csv', () => {
     const mockServices = [
       {
@@ -362,6 +540,40 @@ describe('Export Routes', () => {
     });
   });
 
+  describe('POST /api/export/focus', () => {
+    const mockServices = [
+      {
+        service: 'ec2',
+        displayName: 'EC2 Computing',
+        totalCost: 1250,
+        currency: 'USD'
+      }
+    ];
+
+    it('should generate a FOCUS CSV', async () => {
+      const mockCSV = '"BilledCost","ServiceName"\n"1250","EC2 Computing"';
+      mockExportService.generateFOCUSCSV.mockReturnValue(mockCSV);
+
+      const response = await request(app)
+        .post('/api/export/focus')
+        .send({ services: mockServices, billingAccountId: '123456789012' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toBe('attachment; filename="cost-data-focus.csv"');
+      expect(response.text).toBe(mockCSV);
+      expect(mockExportService.generateFOCUSCSV).toHaveBeenCalledWith(mockServices, { billingAccountId: '123456789012' });
+    });
+
+    it('should validate the billing period', async () => {
+      const response = await request(app)
+        .post('/api/export/focus')
+        .send({ services: mockServices, billingPeriod: { start: 'May' } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid request data');
+    });
+  });
+
   describe('POST /api/export/json', () => {
     it('should generate JSON export successfully', async () => {
       const mockJSON = JSON.stringify({ ...mockSnapshot, exportedAt: new Date() });
@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { exportService } from '../services/exportService';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExportService, ShareLockedError, exportService } from '../services/exportService';
+import { InMemoryShareStore, JsonFileShareStore, SHARE_COUNTER_WRITE_DELAY_MS } from '../services/shareStore';
 
 describe('ExportService', () => {
   const mockSnapshot = {
@@ -47,8 +51,8 @@ describe('ExportService', () => {
   };
 
   beforeEach(() => {
-    // Clear any existing cache data
-    exportService['shareCache'].flushAll();
+    // Start every test with an empty share store
+    exportService['shareStore'] = new InMemoryShareStore();
   });
 
   afterEach(() => {
@@ -58,13 +62,17 @@ describe('ExportService', () => {
   describe('createShareableLink', () => {
     it('should create a shareable link with valid data', () => {
       const shareData = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+      const { password, ...storedOptions } = mockShareOptions;
 
       expect(shareData).toMatchObject({
         id: expect.stringMatching(/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i),
         snapshot: mockSnapshot,
-        options: mockShareOptions,
+        options: storedOptions,
         viewCount: 0
       });
+      expect(shareData.options).not.toHaveProperty('password');
+      expect(shareData.passwordHash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+      expect(shareData.passwordHash).not.toContain(password);
       expect(shareData.createdAt).toBeInstanceOf(Date);
       expect(shareData.expiresAt).toBeInstanceOf(Date);
       expect(shareData.expiresAt.getTime()).toBeGreaterThan(shareData.createdAt.getTime());
@@ -81,11 +89,11 @@ describe('ExportService', () => {
       expect(timeDiff).toBeLessThan(1000);
     });
 
-    it('should store data in cache', () => {
+    it('should store data in the share store', () => {
       const shareData = exportService.createShareableLink(mockSnapshot, mockShareOptions);
-      const cachedData = exportService['shareCache'].get(shareData.id);
+      const storedData = exportService['shareStore'].get(shareData.id);
 
-      expect(cachedData).toEqual(shareData);
+      expect(storedData).toEqual(shareData);
     });
   });
 
@@ -102,7 +110,7 @@ describe('ExportService', () => {
 
       expect(result).toMatchObject({
         snapshot: mockSnapshot,
-        options: mockShareOptions,
+        options: { expirationHours: 24, maxViews: 100, includeData: true },
         viewCount: 1 // Should increment after access
       });
     });
@@ -157,7 +165,7 @@ describe('ExportService', () => {
 
       // Wait for expiration (simulate by manually setting past date)
       shareData.expiresAt = new Date(Date.now() - 1000);
-      exportService['shareCache'].set(shareData.id, shareData);
+      exportService['shareStore'].put(shareData);
 
       const result = exportService.getSharedData(shareData.id, 'test123');
 
@@ -165,6 +173,78 @@ describe('ExportService', () => {
     });
   });
 
+  describe('unlock throttling', () => {
+    it('should lock a share out after repeated wrong passwords', () => {
+      const share = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect(() => exportService.getSharedData(share.id, 'wrong', '198.51.100.1')).toThrow('Invalid password');
+      }
+
+      // Even the right password is refused while locked out, from any address
+      expect(() => exportService.getSharedData(share.id, 'test123', '198.51.100.2')).toThrow(ShareLockedError);
+      try {
+        exportService.getSharedData(share.id, 'test123', '198.51.100.2');
+      } catch (error) {
+        expect((error as ShareLockedError).retryAfterSeconds).toBeGreaterThan(0);
+      }
+    });
+
+    it('should lock out a client address guessing across shares', () => {
+      const clientIp = '203.0.113.7';
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const share = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+        expect(() => exportService.getSharedData(share.id, 'wrong', clientIp)).toThrow('Invalid password');
+      }
+
+      const share = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+
+      expect(() => exportService.getSharedData(share.id, 'test123', clientIp)).toThrow(ShareLockedError);
+      expect(exportService.getSharedData(share.id, 'test123', '203.0.113.8')?.viewCount).toBe(1);
+    });
+
+    it('should record failed unlocks in the share statistics', () => {
+      const share = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+
+      expect(() => exportService.getSharedData(share.id, undefined, '192.0.2.44')).toThrow('Invalid password');
+      expect(() => exportService.getSharedData(share.id, 'wrong', '2001:db8:1:2:3:4:5:6')).toThrow('Invalid password');
+      exportService.getSharedData(share.id, 'test123', '192.0.2.44');
+
+      const stats = exportService.getShareStatistics(share.id);
+
+      expect(stats).toMatchObject({ viewCount: 1, failedUnlockCount: 2, lockedUntil: null });
+      expect(stats?.recentFailedUnlocks).toEqual([
+        { at: expect.any(Date), ip: '192.0.2.x', reason: 'invalid_password' },
+        { at: expect.any(Date), ip: '2001:db8:1:2:x', reason: 'invalid_password' }
+      ]);
+    });
+
+    it('should hash plain-text passwords left by older builds', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'share-store-'));
+      const filePath = path.join(tempDir, 'shares.json');
+
+      try {
+        const legacyStore = new JsonFileShareStore(filePath);
+        legacyStore.put({
+          id: 'legacy-share',
+          snapshot: mockSnapshot,
+          options: mockShareOptions,
+          createdAt: new Date(),
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+          viewCount: 0
+        });
+
+        const service = new ExportService(new JsonFileShareStore(filePath));
+
+        expect(fs.readFileSync(filePath, 'utf8')).not.toContain('test123');
+        expect(service.getSharedData('legacy-share', 'test123')?.viewCount).toBe(1);
+        expect(() => service.getSharedData('legacy-share', 'wrong')).toThrow('Invalid password');
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('getShareStatistics', () => {
     let shareId: string;
 
@@ -204,10 +284,10 @@ describe('ExportService', () => {
       const validShare = exportService.createShareableLink(mockSnapshot, mockShareOptions);
 
       // Manually expire the first share
-      const expiredData = exportService['shareCache'].get(expiredShare.id) as any;
+      const expiredData = exportService['shareStore'].get(expiredShare.id);
       if (expiredData) {
         expiredData.expiresAt = new Date(Date.now() - 1000);
-        exportService['shareCache'].set(expiredShare.id, expiredData);
+        exportService['shareStore'].put(expiredData);
       }
 
       const deletedCount = exportService.cleanupExpiredShares();
@@ -243,10 +323,10 @@ describe('ExportService', () => {
       
       // Create and expire a share
       const expiredShare = exportService.createShareableLink(mockSnapshot, mockShareOptions);
-      const expiredData = exportService['shareCache'].get(expiredShare.id) as any;
+      const expiredData = exportService['shareStore'].get(expiredShare.id);
       if (expiredData) {
         expiredData.expiresAt = new Date(Date.now() - 1000);
-        exportService['shareCache'].set(expiredShare.id, expiredData);
+        exportService['shareStore'].put(expiredData);
       }
 
       const activeShares = exportService.getAllActiveShares();
@@ -256,6 +336,84 @@ describe('ExportService', () => {
     });
   });
 
+  describe('owner-scoped shares', () => {
+    const ownerKey = 'owner-key-0123456789abcdef';
+
+    it('should list only the shares created with the owner key', () => {
+      const first = exportService.createShareableLink(mockSnapshot, mockShareOptions, ownerKey);
+      exportService.createShareableLink(mockSnapshot, mockShareOptions, 'someone-else-0123456789');
+      exportService.createShareableLink(mockSnapshot, mockShareOptions);
+
+      const shares = exportService.getSharesByOwner(ownerKey);
+
+      expect(shares.map(share => share.id)).toEqual([first.id]);
+      expect(first.ownerKeyHash).not.toContain(ownerKey);
+    });
+
+    it('should let the owner revoke a share', () => {
+      const share = exportService.createShareableLink(mockSnapshot, mockShareOptions, ownerKey);
+
+      expect(exportService.revokeShare(share.id, ownerKey)).toBe(true);
+      expect(exportService.getSharedData(share.id, 'test123')).toBeNull();
+      expect(exportService.revokeShare(share.id, ownerKey)).toBe(false);
+    });
+
+    it('should refuse revocation by anyone else', () => {
+      const owned = exportService.createShareableLink(mockSnapshot, mockShareOptions, ownerKey);
+      const unowned = exportService.createShareableLink(mockSnapshot, mockShareOptions);
+
+      expect(() => exportService.revokeShare(owned.id, 'intruder-0123456789abcdef')).toThrow('Not the share owner');
+      expect(() => exportService.revokeShare(unowned.id, ownerKey)).toThrow('Not the share owner');
+      expect(exportService.getShareStatistics(owned.id)).toBeTruthy();
+    });
+
+    it('should batch view and failed unlock counters instead of rewriting the file on every read', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'share-store-'));
+      const filePath = path.join(tempDir, 'shares.json');
+      jest.useFakeTimers();
+
+      try {
+        const service = new ExportService(new JsonFileShareStore(filePath));
+        const share = service.createShareableLink(mockSnapshot, mockShareOptions);
+        const writeFileSync = jest.spyOn(fs, 'writeFileSync');
+
+        service.getSharedData(share.id, 'test123');
+        service.getSharedData(share.id, 'test123');
+        expect(() => service.getSharedData(share.id, 'wrong')).toThrow('Invalid password');
+        expect(writeFileSync).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(SHARE_COUNTER_WRITE_DELAY_MS);
+        expect(writeFileSync).toHaveBeenCalledTimes(1);
+        writeFileSync.mockRestore();
+
+        expect(new JsonFileShareStore(filePath).get(share.id)).toMatchObject({ viewCount: 2, failedUnlockCount: 1 });
+      } finally {
+        jest.useRealTimers();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should keep shares and view counts in the JSON file store across restarts', () => {
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'share-store-'));
+      const filePath = path.join(tempDir, 'shares.json');
+
+      try {
+        exportService['shareStore'] = new JsonFileShareStore(filePath);
+        const share = exportService.createShareableLink(mockSnapshot, mockShareOptions, ownerKey);
+        exportService.getSharedData(share.id, 'test123');
+        exportService.flushShares();
+
+        exportService['shareStore'] = new JsonFileShareStore(filePath);
+
+        expect(exportService.getShareStatistics(share.id)).toMatchObject({ viewCount: 1, maxViews: 100 });
+        expect(exportService.getShareStatistics(share.id)?.expiresAt).toEqual(share.expiresAt);
+        expect(exportService.getSharesByOwner(ownerKey)).toHaveLength(1);
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
   describe('generateCSV', () => {
     const mockServices = [
       {
@@ -325,6 +483,61 @@ describe('ExportService', () => {
     });
   });
 
+  describe('generateFOCUSCSV', () => {
+    const parse = (csv: string) => {
+      const [header, ...rows] = csv.split('\n').map(line =>
+        (line.match(/"(?:[^"]|"")*"/g) || []).map(field => field.slice(1, -1).replace(/""/g, '"')));
+      return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index]])));
+    };
+
+    it('should write one row per day when the days add up to the total', () => {
+      const rows = parse(exportService.generateFOCUSCSV([{
+        service: 'ec2',
+        displayName: 'Amazon EC2',
+        totalCost: 30,
+        currency: 'USD',
+        regions: [{ region: 'us-east-1', cost: 30, percentage: 100 }],
+        tags: [{ key: 'team', value: 'web', cost: 30, percentage: 100 }],
+        accounts: [{ accountId: '111111111111', cost: 30, percentage: 100 }],
+        dailyCosts: [{ date: '2024-05-30', cost: 10 }, { date: '2024-05-31', cost: 20 }]
+      }], { billingAccountId: 'payer' }));
+
+      expect(rows).toHaveLength(2);
+      expect(rows[1]).toMatchObject({
+        BillingAccountId: 'payer',
+        BillingPeriodStart: '2024-05-01T00:00:00Z',
+        BillingPeriodEnd: '2024-06-01T00:00:00Z',
+        ChargePeriodStart: '2024-05-31T00:00:00Z',
+        ChargePeriodEnd: '2024-06-01T00:00:00Z',
+        BilledCost: '20',
+        EffectiveCost: '20',
+        ServiceName: 'Amazon EC2',
+        ProviderName: 'AWS',
+        RegionId: 'us-east-1',
+        SubAccountId: '111111111111',
+        Tags: '{"team":"web"}'
+      });
+    });
+
+    it('should fall back to regions and leave out partial tags', () => {
+      const rows = parse(exportService.generateFOCUSCSV([{
+        service: 's3',
+        displayName: 'Amazon "S3"',
+        totalCost: 100,
+        currency: 'EUR',
+        regions: [{ region: 'eu-west-1', cost: 60, percentage: 60 }, { region: 'eu-central-1', cost: 40, percentage: 40 }],
+        tags: [
+          { key: 'team', value: 'web', cost: 60, percentage: 60 },
+          { key: 'team', value: 'untagged', cost: 40, percentage: 40 }
+        ],
+        dailyCosts: [{ date: '2024-05-01', cost: 5 }]
+      }], { billingPeriod: { start: '2024-05-01', end: '2024-06-01' }, providerName: 'Acme Cloud' }));
+
+      expect(rows.map(row => [row.RegionId, row.BilledCost])).toEqual([['eu-west-1', '60'], ['eu-central-1', '40']]);
+      expect(rows[0]).toMatchObject({ ServiceName: 'Amazon "S3"', BillingCurrency: 'EUR', ProviderName: 'Acme Cloud', Tags: '{}' });
+    });
+  });
+
   describe('generateDetailedCSV', () => {
     const mockServices = [
       {
@@ -0,0 +1,160 @@
+import { ForecastService } from '../services/forecastService';
+import { CostData, DailyCost } from '../types';
+
+const buildDailyCosts = (start: string, values: number[]): DailyCost[] =>
+  values.map((cost, index) => {
+    const date = new Date(`${start}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + index);
+    return { date: date.toISOString().split('T')[0], cost };
+  });
+
+describe('ForecastService', () => {
+  let forecastService: ForecastService;
+
+  beforeEach(() => {
+    forecastService = new ForecastService();
+  });
+
+  describe('forecastDailyCosts', () => {
+    it('should extend a linear trend to the end of the month', () => {
+      const dailyCosts = buildDailyCosts('2024-11-01', [10, 12, 14, 16, 18, 20, 22]);
+
+      const forecast = forecastService.forecastDailyCosts(dailyCosts);
+
+      expect(forecast.method).toBe('linear-regression');
+      expect(forecast.periodStart).toBe('2024-11-01');
+      expect(forecast.periodEnd).toBe('2024-12-01');
+      expect(forecast.points).toHaveLength(23); // Nov 8 - Nov 30
+      expect(forecast.points[0]).toMatchObject({ date: '2024-11-08', mean: 24 });
+      expect(forecast.points[22]).toMatchObject({ date: '2024-11-30', mean: 68 });
+      expect(forecast.actualToDate).toBe(112);
+      expect(forecast.projectedPeriodTotal.mean).toBe(112 + forecast.forecastTotal.mean);
+    });
+
+    it('should widen the interval around noisy data', () => {
+      const dailyCosts = buildDailyCosts('2024-11-01', [10, 30, 12, 28, 11, 29, 10, 31]);
+
+      const forecast = forecastService.forecastDailyCosts(dailyCosts, { days: 3, confidenceLevel: 95 });
+
+      expect(forecast.points).toHaveLength(3);
+      forecast.points.forEach(point => {
+        expect(point.lower).toBeLessThan(point.mean);
+        expect(point.upper).toBeGreaterThan(point.mean);
+      });
+      expect(forecast.confidenceLevel).toBe(95);
+    });
+
+    it('should combine daily variances for the interval of the total', () => {
+      const dailyCosts = buildDailyCosts('2024-11-01', [10, 30, 12, 28, 11, 29, 10, 31]);
+
+      const forecast = forecastService.forecastDailyCosts(dailyCosts, { days: 10 });
+      const spread = Math.sqrt(forecast.points.reduce((sum, point) => sum + (point.upper - point.mean) ** 2, 0));
+      const summedUpper = forecast.points.reduce((sum, point) => sum + point.upper, 0);
+
+      expect(forecast.forecastTotal.upper).toBeCloseTo(forecast.forecastTotal.mean + spread, 1);
+      expect(forecast.forecastTotal.upper).toBeLessThan(summedUpper);
+    });
+
+    it('should learn weekly seasonality from two or more weeks', () => {
+      // Weekends (Nov 2-3, 9-10, 16-17 2024) cost far less than weekdays
+      const values = buildDailyCosts('2024-11-01', new Array(21).fill(0)).map(day => {
+        const weekday = new Date(`${day.date}T00:00:00Z`).getUTCDay();
+        return weekday === 0 || weekday === 6 ? 20 : 100;
+      });
+      const dailyCosts = buildDailyCosts('2024-11-01', values);
+
+      const forecast = forecastService.forecastDailyCosts(dailyCosts, { days: 7 });
+
+      const saturday = forecast.points.find(point => point.date === '2024-11-23')!;
+      const monday = forecast.points.find(point => point.date === '2024-11-25')!;
+      expect(saturday.mean).toBeLessThan(40);
+      expect(monday.mean).toBeGreaterThan(80);
+    });
+
+    it('should treat missing days as zero spend and never forecast below zero', () => {
+      const dailyCosts = [
+        { date: '2024-11-01', cost: 50 },
+        { date: '2024-11-03', cost: 10 }
+      ];
+
+      const forecast = forecastService.forecastDailyCosts(dailyCosts, { days: 5 });
+
+      forecast.points.forEach(point => {
+        expect(point.mean).toBeGreaterThanOrEqual(0);
+        expect(point.lower).toBeGreaterThanOrEqual(0);
+      });
+    });
+
+    it('should reject unsupported confidence levels', () => {
+      const dailyCosts = buildDailyCosts('2024-11-01', [10, 12]);
+
+      expect(() => forecastService.forecastDailyCosts(dailyCosts, { confidenceLevel: 42 }))
+        .toThrow('Unsupported confidence level: 42');
+    });
+  });
+
+  describe('forecastCostData', () => {
+    const costData: CostData = {
+      services: [
+        {
+          service: 'ec2',
+          displayName: 'EC2',
+          totalCost: 30,
+          currency: 'USD',
+          budgetUtilization: 0,
+          regions: [],
+          tags: [],
+          dailyCosts: buildDailyCosts('2024-11-01', [10, 10, 10]),
+          trend: 'stable'
+        },
+        {
+          service: 's3',
+          displayName: 'S3',
+          totalCost: 15,
+          currency: 'USD',
+          budgetUtilization: 0,
+          regions: [],
+          tags: [],
+          dailyCosts: buildDailyCosts('2024-11-01', [5, 5, 5]),
+          trend: 'stable'
+        }
+      ],
+      totalCost: 45,
+      currency: 'USD',
+      lastUpdated: new Date(),
+      budgetAlerts: []
+    };
+
+    it('should forecast the total of all services', () => {
+      const forecast = forecastService.forecastCostData(costData, 'csv', { days: 2 });
+
+      expect(forecast.mode).toBe('csv');
+      expect(forecast.service).toBeUndefined();
+      expect(forecast.points.map(point => point.mean)).toEqual([15, 15]);
+    });
+
+    it('should forecast a single service by key or display name', () => {
+      const byKey = forecastService.forecastCostData(costData, 'demo', { service: 's3', days: 1 });
+      const byName = forecastService.forecastCostData(costData, 'demo', { service: 'S3', days: 1 });
+
+      expect(byKey.points[0].mean).toBe(5);
+      expect(byName.points[0].mean).toBe(5);
+      expect(byKey.service).toBe('s3');
+    });
+  });
+
+  describe('projectEndOfMonth', () => {
+    it('should use the real month length', () => {
+      // February 2023 has 28 days, so 21 days remain after Feb 7
+      const dailyCosts = buildDailyCosts('2023-02-01', [10, 10, 10, 10, 10, 10, 10]);
+
+      expect(forecastService.projectEndOfMonth(70, dailyCosts)).toBe(280);
+    });
+
+    it('should return the current cost once the month is complete', () => {
+      const dailyCosts = buildDailyCosts('2024-11-29', [10, 10]);
+
+      expect(forecastService.projectEndOfMonth(20, dailyCosts)).toBe(20);
+    });
+  });
+});
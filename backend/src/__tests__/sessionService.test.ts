@@ -0,0 +1,68 @@
+import { AWSService } from '../services/awsService';
+import { SessionService } from '../services/sessionService';
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+
+  beforeEach(() => {
+    sessionService = new SessionService(30, 2);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hand out an opaque token per session', () => {
+    const first = sessionService.createSession(new AWSService());
+    const second = sessionService.createSession(new AWSService());
+
+    expect(first.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.token).not.toBe(second.token);
+    expect(sessionService.getSession(first.token)?.awsService).toBe(first.awsService);
+    expect(sessionService.getSession(second.token)?.awsService).not.toBe(first.awsService);
+  });
+
+  it('should return null for missing or unknown tokens', () => {
+    expect(sessionService.getSession(undefined)).toBeNull();
+    expect(sessionService.getSession('unknown')).toBeNull();
+  });
+
+  it('should expire idle sessions and extend active ones', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+    const active = sessionService.createSession(new AWSService());
+    const idle = sessionService.createSession(new AWSService());
+    const disposeSpy = jest.spyOn(idle.awsService, 'dispose');
+
+    jest.setSystemTime(new Date('2024-06-01T00:20:00Z'));
+    expect(sessionService.getSession(active.token)).not.toBeNull();
+
+    jest.setSystemTime(new Date('2024-06-01T00:40:00Z'));
+    expect(sessionService.getSession(active.token)).not.toBeNull();
+    expect(sessionService.getSession(idle.token)).toBeNull();
+    expect(disposeSpy).toHaveBeenCalled();
+  });
+
+  it('should drop the least recently used session when full', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+    const oldest = sessionService.createSession(new AWSService());
+    jest.setSystemTime(new Date('2024-06-01T00:01:00Z'));
+    const recent = sessionService.createSession(new AWSService());
+
+    jest.setSystemTime(new Date('2024-06-01T00:02:00Z'));
+    sessionService.createSession(new AWSService());
+
+    expect(sessionService.getSession(oldest.token)).toBeNull();
+    expect(sessionService.getSession(recent.token)).not.toBeNull();
+    expect(sessionService.getSessionCount()).toBe(2);
+  });
+
+  it('should destroy sessions on request', () => {
+    const session = sessionService.createSession(new AWSService());
+
+    expect(sessionService.destroySession(session.token)).toBe(true);
+    expect(sessionService.getSession(session.token)).toBeNull();
+    expect(sessionService.destroySession(session.token)).toBe(false);
+  });
+});
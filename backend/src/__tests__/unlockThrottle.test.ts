@@ -0,0 +1,35 @@
+import { UnlockThrottle } from '../services/unlockThrottle';
+
+describe('UnlockThrottle', () => {
+  const options = { maxAttempts: 3, windowMs: 60_000, lockoutMs: 300_000 };
+
+  it('should lock a key out after too many failures inside the window', () => {
+    const throttle = new UnlockThrottle(options);
+
+    expect(throttle.recordFailure('share', 0)).toBe(false);
+    expect(throttle.recordFailure('share', 1_000)).toBe(false);
+    expect(throttle.recordFailure('share', 2_000)).toBe(true);
+    expect(throttle.getRetryAfterMs('share', 2_000)).toBe(300_000);
+  });
+
+  it('should forget keys whose window passed without a lockout', () => {
+    const throttle = new UnlockThrottle(options);
+    throttle.recordFailure('192.0.2.1', 0);
+    throttle.recordFailure('192.0.2.2', 0);
+    expect(throttle.size).toBe(2);
+
+    throttle.recordFailure('192.0.2.3', 61_000);
+
+    expect(throttle.size).toBe(1);
+  });
+
+  it('should keep keys that are still locked out', () => {
+    const throttle = new UnlockThrottle(options);
+    [0, 1_000, 2_000].forEach(now => throttle.recordFailure('share', now));
+
+    throttle.recordFailure('192.0.2.3', 120_000);
+
+    expect(throttle.getRetryAfterMs('share', 120_000)).toBeGreaterThan(0);
+    expect(throttle.size).toBe(2);
+  });
+});
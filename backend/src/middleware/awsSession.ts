@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { AwsSession, sessionService } from '../services/sessionService';
+
+export const SESSION_HEADER = 'x-session-token';
+
+export const SESSION_REQUIRED_ERROR = 'AWS session required. Validate your AWS credentials to start a session.';
+
+// Session tokens arrive as "Authorization: Bearer <token>" or in the X-Session-Token header
+export const getSessionToken = (req: Request): string | undefined => {
+  const authorization = req.header('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.header(SESSION_HEADER);
+};
+
+export const getAwsSession = (req: Request): AwsSession | null =>
+  sessionService.getSession(getSessionToken(req));
+
+// Rejects the request with 401 unless it carries a live AWS session, which is left in res.locals.awsSession
+export const requireAwsSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const session = getAwsSession(req);
+
+  if (!session) {
+    res.status(401).json({
+      success: false,
+      error: SESSION_REQUIRED_ERROR
+    });
+    return;
+  }
+
+  res.locals.awsSession = session;
+  next();
+};
@@ -19,7 +19,8 @@ export const errorHandler = (
   
   if (statusCode === 404 && isCommonRequest) {
     // 일반적인 브라우저 요청은 조용히 처리
-    return res.status(404).end();
+    res.status(404).end();
+    return;
   }
   
   // 실제 에러만 로그 출력
@@ -53,7 +54,8 @@ export const notFoundHandler = (
   const commonBrowserRequests = ['/favicon.ico', '/robots.txt', '/sitemap.xml'];
   
   if (commonBrowserRequests.includes(req.originalUrl)) {
-    return res.status(404).end();
+    res.status(404).end();
+    return;
   }
 
   const error: ApiError = new Error(`Route ${req.originalUrl} not found`);
@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
+import Joi from 'joi';
 import { budgetService } from '../services/budgetService';
-import { Budget, ApiResponse } from '../types';
+import { addDays, getBudgetPeriod } from '../services/budgetPeriods';
+import { costDatasetService } from '../services/costDatasetService';
+import { csvImportService } from '../services/csvImportService';
+import { DemoDataService, DEMO_SCENARIOS } from '../services/demoDataService';
+import { CostExplorerRequestLimitError } from '../services/awsService';
+import { AwsSession } from '../services/sessionService';
+import { getAwsSession, requireAwsSession, SESSION_REQUIRED_ERROR } from '../middleware/awsSession';
+import { Budget, ApiResponse, BudgetImportResult, BudgetUtilization, CostData } from '../types';
 
 /**
  * @swagger
@@ -13,6 +21,39 @@ import { Budget, ApiResponse } from '../types';
  */
 
 const router = Router();
+const demoDataService = new DemoDataService();
+
+const BUDGET_CALENDARS = ['gregorian', '4-4-5'];
+
+const utilizationQuerySchema = Joi.object({
+  mode: Joi.string().valid('aws', 'demo', 'csv'),
+  dataset: Joi.string().trim().min(1).max(128).when('mode', { is: 'csv', otherwise: Joi.forbidden() }),
+  importId: Joi.string().guid().when('mode', { is: 'csv', otherwise: Joi.forbidden() }),
+  // Demo costs follow the scenario and seed the dashboard shows
+  scenario: Joi.string().valid(...DEMO_SCENARIOS.map(scenario => scenario.id)).optional(),
+  seed: Joi.number().integer().min(0).max(0xffffffff).optional(),
+  date: Joi.date().iso().optional()
+}).oxor('dataset', 'importId');
+
+// Zero spend against every budget, for a cost window that has no days yet
+const getNoSpendCostData = (budgets: Budget[], day: string): CostData => ({
+  services: budgets.filter(budget => budget.service).map(budget => ({
+    service: budget.service!,
+    displayName: budget.service!,
+    totalCost: 0,
+    currency: budget.currency,
+    budgetUtilization: 0,
+    regions: [],
+    tags: [],
+    dailyCosts: [],
+    trend: 'stable'
+  })),
+  totalCost: 0,
+  currency: budgets[0]?.currency || 'USD',
+  lastUpdated: new Date(),
+  budgetAlerts: [],
+  timePeriod: { start: day, end: day, granularity: 'DAILY' }
+});
 
 /**
  * @swagger
@@ -67,6 +108,199 @@ router.get('/:accountId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /budget/{accountId}/utilization:
+ *   get:
+ *     summary: 📊 Get budget utilization for the current budget periods
+ *     description: |
+ *       Measures each service budget against the costs of its own period: the calendar (or 4-4-5)
+ *       month, the quarter or the fiscal year containing `date`. Costs outside the period are left
+ *       out. When the cost data starts after the period does, the budget is prorated to the days
+ *       the data covers. Each utilization carries the period boundaries it was measured over.
+ *     tags: [💰 Budget Management]
+ *     parameters:
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: AWS account ID or 'demo' for demo mode
+ *         example: "demo"
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [demo, aws, csv]
+ *         description: Where the costs come from; defaults to demo for the demo account and aws otherwise
+ *       - in: query
+ *         name: dataset
+ *         schema:
+ *           type: string
+ *         description: Dataset to measure in csv mode (or use importId)
+ *       - in: query
+ *         name: importId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Completed CSV import job to measure in csv mode (or use dataset)
+ *       - in: query
+ *         name: scenario
+ *         schema:
+ *           type: string
+ *         description: Demo scenario to measure in demo mode
+ *       - in: query
+ *         name: seed
+ *         schema:
+ *           type: integer
+ *         description: Demo data seed in demo mode
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Day whose budget periods are measured; defaults to today, or the last day of a dataset
+ *     responses:
+ *       200:
+ *         description: Utilization calculated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BudgetUtilization'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: Missing or expired AWS session in aws mode
+ *       404:
+ *         description: Dataset or import not found
+ *       429:
+ *         description: Cost Explorer request limit reached
+ *       500:
+ *         description: Server error
+ */
+router.get('/:accountId/utilization', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = utilizationQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    const { accountId } = req.params;
+    const mode = value.mode || (accountId === 'demo' ? 'demo' : 'aws');
+    const date: string | undefined = value.date?.toISOString().slice(0, 10);
+
+    let costData: CostData | null;
+    let asOf = date;
+    if (mode === 'csv') {
+      if (!value.dataset && !value.importId) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Validation error: dataset or importId is required in csv mode'
+        };
+        return res.status(400).json(response);
+      }
+
+      costData = value.dataset
+        ? costDatasetService.getCostData(value.dataset)
+        : csvImportService.getJob(value.importId)?.costData || null;
+      if (!costData) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: value.dataset ? `Dataset ${value.dataset} not found` : `Import ${value.importId} not found or not completed`
+        };
+        return res.status(404).json(response);
+      }
+    } else {
+      // Load just enough days to cover every budget's current period
+      const today = new Date().toISOString().slice(0, 10);
+      const day = date || today;
+      const budgets = budgetService.getBudgets(accountId);
+      const periods = budgets.map(budget => getBudgetPeriod(budget, day));
+      const start = periods.reduce((earliest, period) => period.start < earliest ? period.start : earliest, day);
+      const dayAfter = addDays(day, 1);
+      // Cost Explorer has nothing past today
+      const end = mode === 'aws' && dayAfter > today ? today : dayAfter;
+
+      if (mode === 'aws') {
+        const session = getAwsSession(req);
+        if (!session) {
+          const response: ApiResponse<null> = {
+            success: false,
+            error: SESSION_REQUIRED_ERROR
+          };
+          return res.status(401).json(response);
+        }
+        if (start < end) {
+          costData = await session.awsService.getCostData(
+            { start: new Date(`${start}T00:00:00Z`), end: new Date(`${end}T00:00:00Z`) },
+            { granularity: 'DAILY' }
+          );
+        } else {
+          // Every period starts today, which Cost Explorer has no costs for yet
+          costData = getNoSpendCostData(budgets, day);
+          asOf = day;
+        }
+      } else {
+        costData = demoDataService.getDemoData({ scenario: value.scenario, seed: value.seed, startDate: start, endDate: end });
+      }
+    }
+
+    const utilizations = costData
+      ? budgetService.calculateUtilization(costData.services, accountId, {
+        asOf,
+        costPeriod: costData.timePeriod
+      })
+      : [];
+
+    const response: ApiResponse<BudgetUtilization[]> = {
+      success: true,
+      data: utilizations
+    };
+    
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
+  }
+});
+
+// Get budget notifications (registered before /:accountId/:service, which would match it)
+router.get('/:accountId/notifications', (req: Request, res: Response) => {
+  try {
+    const { accountId } = req.params;
+    const notifications = budgetService.getNotifications(accountId);
+    
+    const response: ApiResponse<any> = {
+      success: true,
+      data: notifications
+    };
+    
+    res.json(response);
+  } catch (error) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+    res.status(500).json(response);
+  }
+});
+
 // Get budget for a specific service
 router.get('/:accountId/:service', (req: Request, res: Response) => {
   try {
@@ -110,6 +344,22 @@ router.post('/', (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
+    const { fiscalYearStartMonth, calendar } = budgetData;
+    if (fiscalYearStartMonth !== undefined && !(Number.isInteger(fiscalYearStartMonth) && fiscalYearStartMonth >= 1 && fiscalYearStartMonth <= 12)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'fiscalYearStartMonth must be a month number from 1 to 12'
+      };
+      return res.status(400).json(response);
+    }
+    if (calendar !== undefined && !BUDGET_CALENDARS.includes(calendar)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `calendar must be one of: ${BUDGET_CALENDARS.join(', ')}`
+      };
+      return res.status(400).json(response);
+    }
+
     // Validate alert thresholds
     if (!budgetData.alertThresholds || !Array.isArray(budgetData.alertThresholds)) {
       budgetData.alertThresholds = [50, 80, 100];
@@ -162,38 +412,23 @@ router.delete('/:budgetId', (req: Request, res: Response) => {
   }
 });
 
-// Get budget utilization for an account
-router.get('/:accountId/utilization', (req: Request, res: Response) => {
+// Acknowledge a notification
+router.patch('/notifications/:notificationId/acknowledge', (req: Request, res: Response) => {
   try {
-    const { accountId } = req.params;
+    const { notificationId } = req.params;
+    const acknowledged = budgetService.acknowledgeNotification(notificationId);
     
-    // This would typically get services from the cost service
-    // For now, we'll return a placeholder response
-    const response: ApiResponse<any> = {
-      success: true,
-      data: [],
-      message: 'Budget utilization calculation requires cost data'
-    };
+    if (!acknowledged) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Notification not found'
+      };
+      return res.status(404).json(response);
+    }
     
-    res.json(response);
-  } catch (error) {
     const response: ApiResponse<null> = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-    res.status(500).json(response);
-  }
-});
-
-// Get budget notifications
-router.get('/:accountId/notifications', (req: Request, res: Response) => {
-  try {
-    const { accountId } = req.params;
-    const notifications = budgetService.getNotifications(accountId);
-    
-    const response: ApiResponse<any> = {
       success: true,
-      data: notifications
+      message: 'Notification acknowledged'
     };
     
     res.json(response);
@@ -206,32 +441,88 @@ router.get('/:accountId/notifications', (req: Request, res: Response) => {
   }
 });
 
-// Acknowledge a notification
-router.patch('/notifications/:notificationId/acknowledge', (req: Request, res: Response) => {
+/**
+ * @swagger
+ * /budget/aws/import:
+ *   post:
+ *     summary: 📥 Import budgets from AWS Budgets
+ *     description: |
+ *       Reads every budget in AWS Budgets (DescribeBudgets) for the validated account and maps
+ *       it onto the budget manager, keeping limits and periods. Only COST budgets with a monthly,
+ *       quarterly or yearly period that are filtered to exactly one service, and by nothing else,
+ *       are imported; everything else is reported as skipped. Use `dryRun` to preview.
+ *     tags: [💰 Budget Management]
+ *     security:
+ *       - AwsSession: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               accountId:
+ *                 type: string
+ *                 description: Budget manager account to import into; defaults to the session's AWS account ID, or 'aws' when it is unknown
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Preview the import without saving anything
+ *     responses:
+ *       200:
+ *         description: Import finished (or previewed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/BudgetImportResult'
+ *       400:
+ *         description: Invalid request body
+ *       401:
+ *         description: Missing or expired AWS session
+ *       403:
+ *         description: Credentials lack budgets:ViewBudget permission
+ *       500:
+ *         description: Server error
+ */
+router.post('/aws/import', requireAwsSession, async (req: Request, res: Response) => {
   try {
-    const { notificationId } = req.params;
-    const acknowledged = budgetService.acknowledgeNotification(notificationId);
-    
-    if (!acknowledged) {
+    const { awsService } = res.locals.awsSession as AwsSession;
+    // Budgets belong to the session's AWS account; 'aws' only when the account is unknown
+    const { accountId = awsService.getAccountId() || 'aws', dryRun = false } = req.body || {};
+
+    if (typeof accountId !== 'string' || accountId.length === 0 || typeof dryRun !== 'boolean') {
       const response: ApiResponse<null> = {
         success: false,
-        error: 'Notification not found'
+        error: 'accountId must be a non-empty string and dryRun must be a boolean'
       };
-      return res.status(404).json(response);
+      return res.status(400).json(response);
     }
-    
-    const response: ApiResponse<null> = {
+
+    const awsBudgets = await awsService.getAwsBudgets();
+    const result = budgetService.importAwsBudgets(awsBudgets, accountId, dryRun);
+
+    const response: ApiResponse<BudgetImportResult> = {
       success: true,
-      message: 'Notification acknowledged'
+      data: result,
+      message: dryRun
+        ? `Dry run: ${result.created} budgets would be created, ${result.updated} updated, ${result.skipped} skipped`
+        : `Imported ${result.created + result.updated} AWS budgets (${result.skipped} skipped)`
     };
-    
+
     res.json(response);
   } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = (error as any)?.name === 'AccessDeniedException' ? 403 : 500;
     const response: ApiResponse<null> = {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: message
     };
-    res.status(500).json(response);
+    res.status(status).json(response);
   }
 });
 
@@ -1,10 +1,22 @@
 import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import multer from 'multer';
-import { DemoDataService } from '../services/demoDataService';
-import { AWSService } from '../services/awsService';
-import { CSVUploadService } from '../services/csvUploadService';
+import { DemoDataService, DEMO_SCENARIOS, DEFAULT_DEMO_SEED, MAX_DEMO_SERVICES } from '../services/demoDataService';
+import { AWSService, COST_METRICS, CostExplorerRequestLimitError } from '../services/awsService';
+import { CSVUploadService, CSVValidationResult } from '../services/csvUploadService';
+import { csvImportService } from '../services/csvImportService';
+import { costDatasetService } from '../services/costDatasetService';
 import { budgetService } from '../services/budgetService';
-import { ModeSelectionRequest, ApiResponse, AWSCredentials } from '../types';
+import { forecastService, FORECAST_CONFIDENCE_Z, DEFAULT_FORECAST_CONFIDENCE } from '../services/forecastService';
+import { anomalyService, DEFAULT_ANOMALY_WINDOW } from '../services/anomalyService';
+import { costSnapshotService, awsSnapshotSource } from '../services/costSnapshotService';
+import { comparisonService } from '../services/comparisonService';
+import { AwsSession, sessionService } from '../services/sessionService';
+import { getAllowedAwsProfiles, isAwsProfileAllowed } from '../services/awsProfiles';
+import { getAwsSession, getSessionToken, requireAwsSession, SESSION_REQUIRED_ERROR } from '../middleware/awsSession';
+import { ModeSelectionRequest, ApiResponse, AWSCredentials, DemoDataOptions, AwsPermissionReport, CSVColumnMapping, CSVFormat, CSVImportJob, CSVValidationReport, CostData, CostDataset, CostForecast, CostAnomaly, CostHistory, CostComparison, CostPeriod } from '../types';
 import Joi from 'joi';
 
 /**
@@ -23,17 +35,26 @@ import Joi from 'joi';
 
 const router = Router();
 const demoDataService = new DemoDataService();
-const awsService = new AWSService();
 const csvUploadService = new CSVUploadService();
 
+// A month of CUR runs to hundreds of megabytes, so uploads go to disk and are streamed from there
+const MAX_UPLOAD_MB = parseInt(process.env.CSV_UPLOAD_MAX_MB || '1024', 10);
+
+const UPLOAD_DIRECTORY = path.join(os.tmpdir(), 'haunted-cost-uploads');
+
+const COMPRESSED_MIME_TYPES = ['application/gzip', 'application/x-gzip', 'application/zip', 'application/x-zip-compressed'];
+
 // Configure multer for file uploads
 const upload = multer({
-  storage: multer.memoryStorage(),
+  dest: UPLOAD_DIRECTORY,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: MAX_UPLOAD_MB * 1024 * 1024,
   },
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+    // Cost and Usage Reports are delivered as .csv.gz; zip is common for manual exports
+    const isCsv = file.mimetype === 'text/csv' || file.originalname.endsWith('.csv');
+    const isCompressed = COMPRESSED_MIME_TYPES.includes(file.mimetype) || /\.(csv\.gz|gz|zip)$/.test(file.originalname);
+    if (isCsv || isCompressed) {
       cb(null, true);
     } else {
       const error = new Error('Only CSV files are allowed') as any;
@@ -49,13 +70,13 @@ const handleMulterError = (error: any, req: any, res: any, next: any) => {
     if (error.code === 'INVALID_FILE_TYPE' || error.message === 'Only CSV files are allowed') {
       return res.status(400).json({
         success: false,
-        error: 'Only CSV files are allowed'
+        error: 'Only CSV files are allowed (plain or gzipped)'
       });
     }
     if (error.code === 'LIMIT_FILE_SIZE') {
       return res.status(400).json({
         success: false,
-        error: 'File size too large. Maximum size is 10MB.'
+        error: `File size too large. Maximum size is ${MAX_UPLOAD_MB}MB.`
       });
     }
     return res.status(400).json({
@@ -66,23 +87,212 @@ const handleMulterError = (error: any, req: any, res: any, next: any) => {
   next();
 };
 
+const removeUpload = (filePath: string): Promise<void> =>
+  fs.promises.unlink(filePath).catch(() => undefined);
+
+// Check the header row of an uploaded (possibly compressed) file without reading the rest
+const validateUploadedFile = async (filePath: string, columnMapping?: CSVColumnMapping): Promise<CSVValidationResult> => {
+  try {
+    const { stream } = await csvUploadService.openCostFile(filePath);
+    return await csvUploadService.validateCSVStream(stream, columnMapping);
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Could not read the uploaded file'
+    };
+  }
+};
+
+// Job responses leave out the cost data until the import has finished
+const toJobResponse = (job: CSVImportJob): CSVImportJob => {
+  if (job.status === 'completed') return job;
+  const { costData, ...progress } = job;
+  return progress;
+};
+
 // Validation schemas
+const columnMappingSchema = Joi.object({
+  service: Joi.string().trim().max(200),
+  cost: Joi.string().trim().max(200),
+  date: Joi.string().trim().max(200),
+  region: Joi.string().trim().max(200)
+}).min(1);
+
+const DATASET_NAME_PATTERN = /^[\w .-]{1,64}$/;
+
+// Text fields sent with an upload besides the column mapping
+const uploadFieldsSchema = Joi.object({
+  dataset: Joi.string().trim().pattern(DATASET_NAME_PATTERN).messages({
+    'string.pattern.base': 'dataset names may use letters, numbers, spaces, dots, dashes and underscores (up to 64)'
+  }),
+  accountId: Joi.string().trim().pattern(/^[\w-]{1,64}$/),
+  focusCostColumn: Joi.string().valid('BilledCost', 'EffectiveCost')
+}).with('accountId', 'dataset').unknown(true);
+
+// Multipart forms carry the column mapping as a JSON text field
+const parseColumnMapping = (field: unknown): { value?: CSVColumnMapping; error?: string } => {
+  if (field === undefined || field === '') return {};
+
+  let parsed: unknown;
+  try {
+    parsed = typeof field === 'string' ? JSON.parse(field) : field;
+  } catch (error) {
+    return { error: 'columnMapping must be a JSON object' };
+  }
+
+  const { error, value } = columnMappingSchema.validate(parsed);
+  return error ? { error: error.details[0].message } : { value };
+};
+
+// Access keys (a session token makes them temporary) or a server-side named profile,
+// plus an optional role to assume with an external ID
+const awsCredentialsSchema = Joi.object({
+  accessKeyId: Joi.string(),
+  secretAccessKey: Joi.string(),
+  sessionToken: Joi.string(),
+  profile: Joi.string().pattern(/^[\w.+@-]{1,64}$/),
+  region: Joi.string().optional(),
+  roleArn: Joi.string().pattern(/^arn:aws[\w-]*:iam::\d{12}:role\/[\w+=,.@\/-]+$/).messages({
+    'string.pattern.base': 'roleArn must be an IAM role ARN such as arn:aws:iam::123456789012:role/CostReader'
+  }),
+  externalId: Joi.string().min(2).max(1224),
+  roleSessionName: Joi.string().pattern(/^[\w+=,.@-]{2,64}$/)
+})
+  .xor('accessKeyId', 'profile')
+  .and('accessKeyId', 'secretAccessKey')
+  .with('sessionToken', 'accessKeyId')
+  .with('externalId', 'roleArn')
+  .with('roleSessionName', 'roleArn');
+
 const modeSelectionSchema = Joi.object({
   mode: Joi.string().valid('demo', 'aws').required(),
-  credentials: Joi.object({
-    accessKeyId: Joi.string().required(),
-    secretAccessKey: Joi.string().required(),
-    region: Joi.string().optional()
-  }).when('mode', {
+  credentials: awsCredentialsSchema.when('mode', {
     is: 'aws',
     then: Joi.required(),
     otherwise: Joi.optional()
   })
 });
 
-const credentialsSchema = Joi.object({
-  accessKeyId: Joi.string().required(),
-  secretAccessKey: Joi.string().required(),
+const awsCostQuerySchema = Joi.object({
+  accountId: Joi.string().pattern(/^\d{12}$/).optional()
+    .messages({ 'string.pattern.base': 'accountId must be a 12-digit AWS account ID' }),
+  metric: Joi.string().valid(...COST_METRICS).optional(),
+  // Cost Explorer treats end as exclusive
+  start: Joi.date().iso().optional(),
+  end: Joi.date().iso().greater(Joi.ref('start')).max(Joi.ref('$latestEnd')).optional()
+    .messages({ 'date.greater': 'end must be after start', 'date.max': 'end must be no later than tomorrow (UTC)' }),
+  granularity: Joi.string().valid('DAILY', 'MONTHLY').optional()
+}).and('start', 'end');
+
+// An exclusive end of tomorrow (UTC) is the latest that still means "through today"
+const getLatestCostEnd = (): Date => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+};
+
+// Longest period the demo generator will fill, in days
+const MAX_DEMO_DAYS = 366;
+
+// Scenario and seed pick the demo data; forecasts and anomalies take them too so they match the rooms
+const demoScenarioKeys = {
+  scenario: Joi.string().valid(...DEMO_SCENARIOS.map(scenario => scenario.id)).default('normal_usage'),
+  seed: Joi.number().integer().min(0).max(0xffffffff).default(DEFAULT_DEMO_SEED)
+};
+
+const demoQuerySchema = Joi.object({
+  ...demoScenarioKeys,
+  services: Joi.number().integer().min(1).max(MAX_DEMO_SERVICES).optional(),
+  // end is exclusive, as in Cost Explorer
+  start: Joi.date().iso().optional(),
+  end: Joi.date().iso().greater(Joi.ref('start')).optional()
+    .messages({ 'date.greater': 'end must be after start' }),
+  seasonality: Joi.number().min(0).max(1).optional(),
+  spikes: Joi.number().integer().min(0).max(MAX_DEMO_SERVICES).optional()
+}).and('start', 'end');
+
+// CSV-mode data comes from a named dataset or a finished import job, one of which is required
+const csvSourceKeys = {
+  dataset: Joi.string().trim().min(1).max(128).when('mode', { is: 'csv', otherwise: Joi.forbidden() }),
+  importId: Joi.string().guid().when('mode', { is: 'csv', otherwise: Joi.forbidden() })
+};
+
+const forecastQuerySchema = Joi.object({
+  mode: Joi.string().valid('aws', 'demo', 'csv').default('demo'),
+  ...csvSourceKeys,
+  service: Joi.string().trim().max(256).optional(),
+  days: Joi.number().integer().min(1).max(90).optional(),
+  confidence: Joi.number().valid(...Object.keys(FORECAST_CONFIDENCE_Z).map(Number)).default(DEFAULT_FORECAST_CONFIDENCE),
+  accountId: Joi.string().pattern(/^\d{12}$/).optional()
+    .messages({ 'string.pattern.base': 'accountId must be a 12-digit AWS account ID' }),
+  metric: Joi.string().valid(...COST_METRICS).optional(),
+  ...demoScenarioKeys
+}).oxor('dataset', 'importId');
+
+const anomalyQuerySchema = Joi.object({
+  mode: Joi.string().valid('aws', 'demo', 'csv').default('demo'),
+  ...csvSourceKeys,
+  method: Joi.string().valid('mad', 'zscore').default('mad'),
+  window: Joi.number().integer().min(5).max(90).default(DEFAULT_ANOMALY_WINDOW),
+  threshold: Joi.number().positive().max(20).optional(),
+  minSeverity: Joi.string().valid('low', 'medium', 'high').default('low'),
+  service: Joi.string().trim().max(256).optional(),
+  accountId: Joi.string().pattern(/^\d{12}$/).optional()
+    .messages({ 'string.pattern.base': 'accountId must be a 12-digit AWS account ID' }),
+  metric: Joi.string().valid(...COST_METRICS).optional(),
+  ...demoScenarioKeys
+}).oxor('dataset', 'importId');
+
+const historyQuerySchema = Joi.object({
+  source: Joi.string().pattern(/^(aws:\d{12}|dataset:.+)$/).optional()
+    .messages({ 'string.pattern.base': 'source must be aws:<accountId> or dataset:<name>' }),
+  service: Joi.string().trim().max(256).optional(),
+  // to is exclusive; the default range is the year up to and including today
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional()
+});
+
+// Longest period /compare accepts on either side, in days
+const MAX_COMPARE_DAYS = 366;
+
+// A calendar month (YYYY-MM) or an explicit range (YYYY-MM-DD..YYYY-MM-DD, end exclusive)
+const COMPARE_PERIOD_PATTERN = /^(\d{4}-\d{2}|\d{4}-\d{2}-\d{2}\.\.\d{4}-\d{2}-\d{2})$/;
+
+const compareQuerySchema = Joi.object({
+  base: Joi.string().pattern(COMPARE_PERIOD_PATTERN).required()
+    .messages({ 'string.pattern.base': 'base must be YYYY-MM or YYYY-MM-DD..YYYY-MM-DD' }),
+  target: Joi.string().pattern(COMPARE_PERIOD_PATTERN).required()
+    .messages({ 'string.pattern.base': 'target must be YYYY-MM or YYYY-MM-DD..YYYY-MM-DD' }),
+  mode: Joi.string().valid('aws', 'demo', 'csv').default('demo'),
+  dataset: Joi.string().trim().min(1).max(128).when('mode', {
+    is: 'csv',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  accountId: Joi.string().pattern(/^\d{12}$/).optional()
+    .messages({ 'string.pattern.base': 'accountId must be a 12-digit AWS account ID' }),
+  metric: Joi.string().valid(...COST_METRICS).optional(),
+  ...demoScenarioKeys
+});
+
+// Turn a compare period parameter into dates; null if the dates are invalid, reversed or too far apart
+const parseComparePeriod = (value: string): CostPeriod | null => {
+  const [start, end] = value.includes('..')
+    ? value.split('..')
+    : [`${value}-01`, new Date(Date.UTC(Number(value.slice(0, 4)), Number(value.slice(5, 7)), 1)).toISOString().slice(0, 10)];
+  const startTime = Date.parse(`${start}T00:00:00Z`);
+  const endTime = Date.parse(`${end}T00:00:00Z`);
+
+  if (Number.isNaN(startTime) || Number.isNaN(endTime) || endTime <= startTime) return null;
+  if (new Date(startTime).toISOString().slice(0, 10) !== start) return null;
+  if ((endTime - startTime) / (24 * 60 * 60 * 1000) > MAX_COMPARE_DAYS) return null;
+  return { start, end };
+};
+
+const tagKeysSchema = Joi.object({
+  tagKeys: Joi.array().items(Joi.string().trim().min(1).max(128)).max(10).required()
+});
+
+const credentialsSchema = awsCredentialsSchema.keys({
   region: Joi.string().optional().default('us-east-1')
 });
 
@@ -91,8 +301,55 @@ const credentialsSchema = Joi.object({
  * /cost/demo:
  *   get:
  *     summary: 👻 Get spooky demo cost data
- *     description: Retrieve sample AWS cost data for exploring the haunted mansion without real AWS credentials
+ *     description: |
+ *       Synthetic AWS cost data for exploring the haunted mansion without real AWS credentials.
+ *       The scenario decides how close services run to their budgets; the same scenario, seed
+ *       and options always produce the same costs.
  *     tags: [🎭 Demo Mode]
+ *     parameters:
+ *       - in: query
+ *         name: scenario
+ *         description: Scenario ID from /cost/demo/scenarios
+ *         schema:
+ *           type: string
+ *           enum: [normal_usage, budget_warning, cost_spike]
+ *           default: normal_usage
+ *       - in: query
+ *         name: seed
+ *         schema:
+ *           type: integer
+ *           default: 42
+ *       - in: query
+ *         name: services
+ *         description: Number of services to generate
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 16
+ *           default: 8
+ *       - in: query
+ *         name: start
+ *         description: First day (defaults to 14 days before end; requires end)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end
+ *         description: Day after the last day (exclusive, defaults to today; at most 366 days after start)
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: seasonality
+ *         description: How much cheaper weekends are than weekdays (0-1)
+ *         schema:
+ *           type: number
+ *           default: 0.15
+ *       - in: query
+ *         name: spikes
+ *         description: Number of services to hit with a cost spike (the scenario decides by default)
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
  *         description: Demo data retrieved successfully
@@ -109,6 +366,8 @@ const credentialsSchema = Joi.object({
  *                 message:
  *                   type: string
  *                   example: "Demo data retrieved successfully"
+ *       400:
+ *         description: Invalid query parameters
  *       500:
  *         description: Failed to retrieve demo data
  *         content:
@@ -118,13 +377,41 @@ const credentialsSchema = Joi.object({
  */
 router.get('/demo', (req: Request, res: Response) => {
   try {
+    const { error, value } = demoQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+    if (value.start && value.end.getTime() - value.start.getTime() > MAX_DEMO_DAYS * 24 * 60 * 60 * 1000) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: the demo period can be at most ${MAX_DEMO_DAYS} days`
+      };
+      return res.status(400).json(response);
+    }
+
     // Initialize demo budgets if they don't exist
     const existingBudgets = budgetService.getBudgets('demo');
     if (existingBudgets.length === 0) {
       budgetService.initializeDemoBudgets();
     }
     
-    const demoData = demoDataService.getDemoData();
+    const options: DemoDataOptions = {
+      scenario: value.scenario,
+      seed: value.seed,
+      serviceCount: value.services,
+      ...(value.start && {
+        startDate: value.start.toISOString().slice(0, 10),
+        endDate: value.end.toISOString().slice(0, 10)
+      }),
+      seasonality: value.seasonality,
+      spikes: value.spikes
+    };
+    const demoData = demoDataService.getDemoData(options);
     const response: ApiResponse<typeof demoData> = {
       success: true,
       data: demoData,
@@ -159,12 +446,70 @@ router.get('/demo/scenarios', (req: Request, res: Response) => {
   }
 });
 
+interface AwsSessionResponse {
+  valid: boolean;
+  sessionToken: string;
+  expiresAt: Date;
+  accountId: string | null;
+}
+
+// Each validated credential set gets its own AWSService, so browsers never see each other's accounts
+const startAwsSession = async (credentials: AWSCredentials): Promise<AwsSession | null> => {
+  const awsService = new AWSService();
+  const isValid = await awsService.validateCredentials(credentials);
+
+  if (!isValid) {
+    awsService.dispose();
+    return null;
+  }
+  return sessionService.createSession(awsService);
+};
+
+const toSessionResponse = (session: AwsSession): AwsSessionResponse => ({
+  valid: true,
+  sessionToken: session.token,
+  expiresAt: session.expiresAt,
+  accountId: session.awsService.getAccountId()
+});
+
+const profileNotAllowedResponse = (profile: string): ApiResponse<null> => ({
+  success: false,
+  error: `AWS profile "${profile}" is not available on this server`
+});
+
+const sessionRequiredResponse: ApiResponse<null> = {
+  success: false,
+  error: SESSION_REQUIRED_ERROR
+};
+
+// Cost data for a CSV-mode request, scoped to the dataset or import the caller names
+const getCsvCostData = (source: { dataset?: string; importId?: string }): CostData | null =>
+  source.dataset
+    ? costDatasetService.getCostData(source.dataset)
+    : csvImportService.getJob(source.importId!)?.costData || null;
+
+const csvSourceRequiredResponse: ApiResponse<null> = {
+  success: false,
+  error: 'Validation error: dataset or importId is required in csv mode'
+};
+
+const csvSourceNotFound = (res: Response, source: { dataset?: string; importId?: string }) => {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: source.dataset ? `Dataset '${source.dataset}' not found` : `Import ${source.importId} not found or not completed`
+  };
+  return res.status(404).json(response);
+};
+
 /**
  * @swagger
  * /cost/validate-credentials:
  *   post:
  *     summary: 🔐 Validate AWS credentials
- *     description: Check if provided AWS credentials are valid and have necessary permissions
+ *     description: |
+ *       Check if provided AWS credentials are valid and have necessary permissions. Accepts access keys
+ *       (with a session token for temporary credentials) or an allowed server-side named profile, and can
+ *       assume a role (optionally with an external ID) in a member account.
  *     tags: [🔐 Authentication]
  *     requestBody:
  *       required: true
@@ -174,7 +519,7 @@ router.get('/demo/scenarios', (req: Request, res: Response) => {
  *             $ref: '#/components/schemas/AWSCredentials'
  *     responses:
  *       200:
- *         description: Credentials validated successfully
+ *         description: Credentials validated; the returned session token authorizes AWS requests from this browser only
  *         content:
  *           application/json:
  *             schema:
@@ -184,11 +529,7 @@ router.get('/demo/scenarios', (req: Request, res: Response) => {
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: object
- *                   properties:
- *                     valid:
- *                       type: boolean
- *                       example: true
+ *                   $ref: '#/components/schemas/AwsSession'
  *                 message:
  *                   type: string
  *                   example: "AWS credentials validated successfully"
@@ -196,6 +537,8 @@ router.get('/demo/scenarios', (req: Request, res: Response) => {
  *         description: Validation error
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: Named profile not allowed on this server
  *       500:
  *         description: Internal server error
  */
@@ -212,12 +555,17 @@ router.post('/validate-credentials', async (req: Request, res: Response) => {
     }
 
     const credentials: AWSCredentials = value;
-    const isValid = await awsService.validateCredentials(credentials);
+
+    if (credentials.profile && !isAwsProfileAllowed(credentials.profile)) {
+      return res.status(403).json(profileNotAllowedResponse(credentials.profile));
+    }
+
+    const session = await startAwsSession(credentials);
     
-    if (isValid) {
-      const response: ApiResponse<{ valid: boolean }> = {
+    if (session) {
+      const response: ApiResponse<AwsSessionResponse> = {
         success: true,
-        data: { valid: true },
+        data: toSessionResponse(session),
         message: 'AWS credentials validated successfully'
       };
       res.json(response);
@@ -240,9 +588,37 @@ router.post('/validate-credentials', async (req: Request, res: Response) => {
 });
 
 // GET /api/cost/aws - Get real AWS cost data (requires validated credentials)
-router.get('/aws', async (req: Request, res: Response) => {
+// Optional ?accountId= restricts the data to a single linked account
+// Optional ?metric= selects the Cost Explorer metric (UnblendedCost, AmortizedCost, ...)
+// Optional ?start=&end= (YYYY-MM-DD, end exclusive) and ?granularity= select the period
+router.get('/aws', requireAwsSession, async (req: Request, res: Response) => {
   try {
-    const costData = await awsService.getCostData();
+    const { awsService } = res.locals.awsSession as AwsSession;
+    const { error, value } = awsCostQuerySchema.validate(req.query, { context: { latestEnd: getLatestCostEnd() } });
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    const timeRange = value.start && value.end
+      ? { start: value.start, end: value.end }
+      : undefined;
+
+    const costData = await awsService.getCostData(timeRange, {
+      linkedAccountId: value.accountId,
+      metric: value.metric,
+      granularity: value.granularity
+    });
+
+    // The default view is what background snapshots take, so keep it in the history too
+    const accountId = awsService.getAccountId();
+    if (accountId && !timeRange && !value.accountId && !value.metric && value.granularity !== 'MONTHLY') {
+      costSnapshotService.recordSnapshot(awsSnapshotSource(accountId), costData);
+    }
     const response: ApiResponse<typeof costData> = {
       success: true,
       data: costData,
@@ -255,7 +631,7 @@ router.get('/aws', async (req: Request, res: Response) => {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to retrieve AWS cost data'
     };
-    res.status(500).json(response);
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
   }
 });
 
@@ -273,12 +649,18 @@ router.post('/mode', async (req: Request, res: Response) => {
     }
 
     const modeRequest: ModeSelectionRequest = value;
+    let session: AwsSession | null = null;
     
     if (modeRequest.mode === 'aws' && modeRequest.credentials) {
+      const { profile } = modeRequest.credentials;
+      if (profile && !isAwsProfileAllowed(profile)) {
+        return res.status(403).json(profileNotAllowedResponse(profile));
+      }
+
       // Validate AWS credentials before setting mode
-      const isValid = await awsService.validateCredentials(modeRequest.credentials);
+      session = await startAwsSession(modeRequest.credentials);
       
-      if (!isValid) {
+      if (!session) {
         const response: ApiResponse<null> = {
           success: false,
           error: 'Invalid AWS credentials. Cannot switch to AWS mode.'
@@ -287,9 +669,9 @@ router.post('/mode', async (req: Request, res: Response) => {
       }
     }
 
-    const response: ApiResponse<{ mode: string }> = {
+    const response: ApiResponse<{ mode: string } & Partial<AwsSessionResponse>> = {
       success: true,
-      data: { mode: modeRequest.mode },
+      data: { mode: modeRequest.mode, ...(session && toSessionResponse(session)) },
       message: `Successfully switched to ${modeRequest.mode} mode`
     };
     res.json(response);
@@ -303,9 +685,148 @@ router.post('/mode', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /cost/session:
+ *   delete:
+ *     summary: 🚪 End the AWS session
+ *     description: Forget the credentials and cache held for the caller's session token
+ *     tags: [🔐 Authentication]
+ *     security:
+ *       - AwsSession: []
+ *     responses:
+ *       200:
+ *         description: Session ended
+ *       404:
+ *         description: No live session for the token
+ */
+router.delete('/session', (req: Request, res: Response) => {
+  const token = getSessionToken(req);
+
+  if (!token || !sessionService.destroySession(token)) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Session not found or already expired'
+    };
+    return res.status(404).json(response);
+  }
+
+  const response: ApiResponse<{ ended: boolean }> = {
+    success: true,
+    data: { ended: true },
+    message: 'AWS session ended'
+  };
+  res.json(response);
+});
+
+/**
+ * @swagger
+ * /cost/aws/profiles:
+ *   get:
+ *     summary: 🗂️ List server-side AWS profiles
+ *     description: |
+ *       Named profiles from the server's AWS credentials and config files that can be used in place of
+ *       access keys. Only profiles listed in AWS_ALLOWED_PROFILES are returned (none by default).
+ *     tags: [🔐 Authentication]
+ *     responses:
+ *       200:
+ *         description: Allowed profiles
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     profiles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: [cost-reader]
+ */
+router.get('/aws/profiles', (req: Request, res: Response) => {
+  try {
+    const response: ApiResponse<{ profiles: string[] }> = {
+      success: true,
+      data: { profiles: getAllowedAwsProfiles() },
+      message: 'AWS profiles retrieved successfully'
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to list AWS profiles:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to list AWS profiles'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/aws/permissions:
+ *   get:
+ *     summary: 🩺 Diagnose AWS permissions
+ *     description: |
+ *       Calls each AWS API the app uses (STS identity, Cost Explorer usage, dimension values and
+ *       forecasts, and AWS Budgets) and reports which are allowed, with a minimal IAM policy that
+ *       grants the missing ones. The three Cost Explorer probes are billable, so the report is cached
+ *       for 15 minutes unless `refresh=true`.
+ *     tags: [🔐 Authentication]
+ *     security:
+ *       - AwsSession: []
+ *     parameters:
+ *       - in: query
+ *         name: refresh
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Capability matrix
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AwsPermissionReport'
+ *       401:
+ *         description: Missing or expired AWS session
+ */
+router.get('/aws/permissions', requireAwsSession, async (req: Request, res: Response) => {
+  try {
+    const { awsService } = res.locals.awsSession as AwsSession;
+    const report = await awsService.getPermissionReport(req.query.refresh === 'true');
+    const response: ApiResponse<AwsPermissionReport> = {
+      success: true,
+      data: report,
+      message: report.allGranted
+        ? 'All AWS permissions are in place'
+        : `${report.checks.filter(check => check.status !== 'granted').length} AWS capabilities are unavailable`
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('AWS permission diagnostics error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check AWS permissions'
+    };
+    res.status(500).json(response);
+  }
+});
+
 // GET /api/cost/aws/services - Get available AWS services
-router.get('/aws/services', async (req: Request, res: Response) => {
+router.get('/aws/services', requireAwsSession, async (req: Request, res: Response) => {
   try {
+    const { awsService } = res.locals.awsSession as AwsSession;
     const services = await awsService.getAvailableServices();
     const response: ApiResponse<string[]> = {
       success: true,
@@ -323,9 +844,102 @@ router.get('/aws/services', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /cost/aws/accounts:
+ *   get:
+ *     summary: 🏚️ Get linked AWS accounts
+ *     description: List the linked (member) accounts of an AWS Organization that have cost data, so each team can view its own haunted wing
+ *     tags: [👻 Cost Data]
+ *     security:
+ *       - AwsSession: []
+ *     responses:
+ *       200:
+ *         description: Linked accounts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LinkedAccount'
+ *       401:
+ *         description: Missing or expired AWS session
+ *       500:
+ *         description: Cost Explorer error
+ */
+router.get('/aws/accounts', requireAwsSession, async (req: Request, res: Response) => {
+  try {
+    const { awsService } = res.locals.awsSession as AwsSession;
+    const accounts = await awsService.getLinkedAccounts();
+    const response: ApiResponse<typeof accounts> = {
+      success: true,
+      data: accounts,
+      message: 'Linked AWS accounts retrieved successfully'
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to get linked accounts:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve linked accounts'
+    };
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
+  }
+});
+
+// GET /api/cost/aws/tag-keys - Get cost allocation tag keys used for tag breakdowns
+router.get('/aws/tag-keys', requireAwsSession, (req: Request, res: Response) => {
+  const { awsService } = res.locals.awsSession as AwsSession;
+  const response: ApiResponse<{ tagKeys: string[] }> = {
+    success: true,
+    data: { tagKeys: awsService.getCostAllocationTagKeys() },
+    message: 'Cost allocation tag keys retrieved successfully'
+  };
+  res.json(response);
+});
+
+// PUT /api/cost/aws/tag-keys - Set cost allocation tag keys (clears cached cost data)
+router.put('/aws/tag-keys', requireAwsSession, (req: Request, res: Response) => {
+  try {
+    const { awsService } = res.locals.awsSession as AwsSession;
+    const { error, value } = tagKeysSchema.validate(req.body);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    awsService.setCostAllocationTagKeys(value.tagKeys);
+
+    const response: ApiResponse<{ tagKeys: string[] }> = {
+      success: true,
+      data: { tagKeys: awsService.getCostAllocationTagKeys() },
+      message: 'Cost allocation tag keys updated successfully'
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to update cost allocation tag keys:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update cost allocation tag keys'
+    };
+    res.status(500).json(response);
+  }
+});
+
 // POST /api/cost/aws/refresh - Refresh AWS cost data (clear cache)
-router.post('/aws/refresh', async (req: Request, res: Response) => {
+router.post('/aws/refresh', requireAwsSession, async (req: Request, res: Response) => {
   try {
+    const { awsService } = res.locals.awsSession as AwsSession;
     await awsService.refreshCostData();
     const response: ApiResponse<{ refreshed: boolean }> = {
       success: true,
@@ -343,10 +957,14 @@ router.post('/aws/refresh', async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/cost/aws/cache-stats - Get cache statistics
-router.get('/aws/cache-stats', (req: Request, res: Response) => {
+// GET /api/cost/aws/cache-stats - Get cache statistics and the process-wide Cost Explorer request ledger
+router.get('/aws/cache-stats', requireAwsSession, (req: Request, res: Response) => {
   try {
-    const stats = awsService.getCacheStats();
+    const { awsService } = res.locals.awsSession as AwsSession;
+    const stats = {
+      ...awsService.getCacheStats(),
+      requestLedger: awsService.getRequestLedger()
+    };
     const response: ApiResponse<typeof stats> = {
       success: true,
       data: stats,
@@ -364,25 +982,74 @@ router.get('/aws/cache-stats', (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /cost/upload-csv:
- *   post:
- *     summary: 📊 Upload AWS Cost Explorer CSV
- *     description: Upload and process a CSV export from AWS Cost Explorer to populate the haunted mansion
+ * /cost/forecast:
+ *   get:
+ *     summary: 🔮 Forecast cost to the end of the period
+ *     description: |
+ *       Daily cost forecast with prediction intervals and the projected end-of-period spend.
+ *       AWS mode uses Cost Explorer GetCostForecast; demo and CSV modes use a local
+ *       linear regression with weekly seasonality over the daily costs.
  *     tags: [👻 Cost Data]
- *     requestBody:
- *       required: true
- *       content:
- *         multipart/form-data:
- *           schema:
- *             type: object
- *             properties:
- *               csvFile:
- *                 type: string
- *                 format: binary
- *                 description: CSV file exported from AWS Cost Explorer
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [demo, aws, csv]
+ *           default: demo
+ *       - in: query
+ *         name: dataset
+ *         description: Dataset to forecast (csv mode; or give importId)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: importId
+ *         description: Completed upload job to forecast (csv mode, for files not merged into a dataset)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: service
+ *         description: Service key or display name (AWS mode uses the Cost Explorer service name). Omit to forecast the total.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         description: Forecast horizon in days (defaults to the end of the current month)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 90
+ *       - in: query
+ *         name: confidence
+ *         description: Prediction interval level in percent
+ *         schema:
+ *           type: integer
+ *           enum: [80, 90, 95, 99]
+ *           default: 80
+ *       - in: query
+ *         name: accountId
+ *         description: Linked account to forecast (AWS mode only)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: metric
+ *         description: Cost Explorer metric to forecast (AWS mode only)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scenario
+ *         description: Demo scenario (demo mode only)
+ *         schema:
+ *           type: string
+ *           enum: [normal_usage, budget_warning, cost_spike]
+ *       - in: query
+ *         name: seed
+ *         description: Demo data seed (demo mode only)
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
- *         description: CSV processed successfully
+ *         description: Forecast generated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -392,18 +1059,283 @@ router.get('/aws/cache-stats', (req: Request, res: Response) => {
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   $ref: '#/components/schemas/CostData'
- *                 message:
- *                   type: string
- *                   example: "CSV processed successfully. 150 rows processed."
+ *                   $ref: '#/components/schemas/CostForecast'
  *       400:
- *         description: Invalid CSV file or format
- *       500:
- *         description: Processing error
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Service, dataset or import not found
+ *       429:
+ *         description: Daily Cost Explorer request limit reached
  */
-router.post('/upload-csv', upload.single('csvFile'), handleMulterError, async (req: Request, res: Response) => {
+router.get('/forecast', async (req: Request, res: Response) => {
   try {
-    if (!req.file) {
+    const { error, value } = forecastQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    const options = {
+      service: value.service,
+      days: value.days,
+      confidenceLevel: value.confidence
+    };
+    let forecast: CostForecast;
+
+    if (value.mode === 'aws') {
+      const session = getAwsSession(req);
+      if (!session) {
+        return res.status(401).json(sessionRequiredResponse);
+      }
+      forecast = await session.awsService.getCostForecast({
+        ...options,
+        linkedAccountId: value.accountId,
+        metric: value.metric
+      });
+    } else {
+      if (value.mode === 'csv' && !value.dataset && !value.importId) {
+        return res.status(400).json(csvSourceRequiredResponse);
+      }
+      const costData = value.mode === 'csv'
+        ? getCsvCostData(value)
+        : demoDataService.getDemoData({ scenario: value.scenario, seed: value.seed });
+      if (!costData) return csvSourceNotFound(res, value);
+      if (options.service && !costData.services.some(s => s.service === options.service || s.displayName === options.service)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Service not found: ${options.service}`
+        };
+        return res.status(404).json(response);
+      }
+      forecast = forecastService.forecastCostData(costData, value.mode, options);
+    }
+
+    const response: ApiResponse<CostForecast> = {
+      success: true,
+      data: forecast,
+      message: 'Cost forecast generated successfully'
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Cost forecast error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate cost forecast'
+    };
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/anomalies:
+ *   get:
+ *     summary: 🌀 Detect cost anomalies
+ *     description: |
+ *       Scores every service, region and tag cost series against a rolling window of the
+ *       preceding days using the median absolute deviation (default) or z-scores.
+ *       Region and tag series are only available in AWS mode.
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [demo, aws, csv]
+ *           default: demo
+ *       - in: query
+ *         name: dataset
+ *         description: Dataset to scan (csv mode; or give importId)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: importId
+ *         description: Completed upload job to scan (csv mode, for files not merged into a dataset)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: method
+ *         schema:
+ *           type: string
+ *           enum: [mad, zscore]
+ *           default: mad
+ *       - in: query
+ *         name: window
+ *         description: Number of preceding days that form the baseline
+ *         schema:
+ *           type: integer
+ *           default: 14
+ *       - in: query
+ *         name: threshold
+ *         description: Minimum absolute score (defaults to 3.5 for MAD, 3 for z-score)
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: minSeverity
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *       - in: query
+ *         name: service
+ *         description: Only return anomalies for this service key or display name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scenario
+ *         description: Demo scenario (demo mode only)
+ *         schema:
+ *           type: string
+ *           enum: [normal_usage, budget_warning, cost_spike]
+ *       - in: query
+ *         name: seed
+ *         description: Demo data seed (demo mode only)
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Anomalies detected (most severe first)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CostAnomaly'
+ *       400:
+ *         description: Invalid query parameters
+ *       404:
+ *         description: Dataset or import not found
+ */
+router.get('/anomalies', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = anomalyQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    let costData: CostData | null;
+    if (value.mode === 'aws') {
+      const session = getAwsSession(req);
+      if (!session) {
+        return res.status(401).json(sessionRequiredResponse);
+      }
+      costData = await session.awsService.getCostData(undefined, {
+        linkedAccountId: value.accountId,
+        metric: value.metric
+      });
+    } else if (value.mode === 'csv') {
+      if (!value.dataset && !value.importId) {
+        return res.status(400).json(csvSourceRequiredResponse);
+      }
+      costData = getCsvCostData(value);
+    } else {
+      costData = demoDataService.getDemoData({ scenario: value.scenario, seed: value.seed });
+    }
+
+    if (!costData) return csvSourceNotFound(res, value);
+
+    const anomalies = anomalyService
+      .detectCostDataAnomalies(costData, {
+        method: value.method,
+        window: value.window,
+        threshold: value.threshold,
+        minSeverity: value.minSeverity
+      })
+      .filter(anomaly => !value.service || anomaly.service === value.service || anomaly.displayName === value.service);
+
+    const response: ApiResponse<CostAnomaly[]> = {
+      success: true,
+      data: anomalies,
+      message: `${anomalies.length} cost anomalies detected`
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Cost anomaly detection error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to detect cost anomalies'
+    };
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/upload-csv:
+ *   post:
+ *     summary: 📊 Upload a Cost Explorer CSV, Cost and Usage Report, FOCUS file or GCP/Azure billing export
+ *     description: |
+ *       Upload a CSV export from AWS Cost Explorer, a Cost and Usage Report (legacy CUR or CUR 2.0),
+ *       a FOCUS 1.x file from any FinOps tool, a GCP billing export or an Azure cost management export,
+ *       to populate the haunted mansion. Files may be plain, gzipped or zipped and up to
+ *       CSV_UPLOAD_MAX_MB (1024 by default). The header row is checked straight away; the rows are then
+ *       streamed in the background, so poll the returned job for progress and the resulting cost data.
+ *     tags: [👻 Cost Data]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               csvFile:
+ *                 type: string
+ *                 format: binary
+ *                 description: Cost Explorer CSV export, CUR, FOCUS file or GCP/Azure billing export (.csv, .csv.gz or .zip)
+ *               columnMapping:
+ *                 type: string
+ *                 description: JSON CSVColumnMapping for exports with non-standard headers
+ *                 example: '{"service":"Product","cost":"Spend (USD)"}'
+ *               dataset:
+ *                 type: string
+ *                 description: |
+ *                   Merge the file into this named dataset (created on first use). Cells for the same date,
+ *                   service, region and account replace those of earlier files; the job returns the merged data.
+ *                 example: production-2024
+ *               accountId:
+ *                 type: string
+ *                 description: Account the file covers, for exports without an account column. Requires dataset.
+ *               focusCostColumn:
+ *                 type: string
+ *                 enum: [BilledCost, EffectiveCost]
+ *                 description: Cost column read from FOCUS files (BilledCost by default)
+ *     responses:
+ *       202:
+ *         description: Import started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CSVImportJob'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Invalid file or format
+ *       500:
+ *         description: Processing error
+ */
+router.post('/upload-csv', upload.single('csvFile'), handleMulterError, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
       const response: ApiResponse<null> = {
         success: false,
         error: 'No CSV file provided'
@@ -411,9 +1343,30 @@ router.post('/upload-csv', upload.single('csvFile'), handleMulterError, async (r
       return res.status(400).json(response);
     }
 
-    // Validate CSV format first
-    const validation = await csvUploadService.validateCSVFormat(req.file.buffer);
+    const columnMapping = parseColumnMapping(req.body.columnMapping);
+    if (columnMapping.error) {
+      await removeUpload(req.file.path);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: columnMapping.error
+      };
+      return res.status(400).json(response);
+    }
+
+    const { error: fieldsError, value: uploadFields } = uploadFieldsSchema.validate(req.body);
+    if (fieldsError) {
+      await removeUpload(req.file.path);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: fieldsError.details[0].message
+      };
+      return res.status(400).json(response);
+    }
+
+    // Reject unsupported files before queueing a long import
+    const validation = await validateUploadedFile(req.file.path, columnMapping.value);
     if (!validation.valid) {
+      await removeUpload(req.file.path);
       const response: ApiResponse<null> = {
         success: false,
         error: validation.error || 'Invalid CSV format'
@@ -421,34 +1374,622 @@ router.post('/upload-csv', upload.single('csvFile'), handleMulterError, async (r
       return res.status(400).json(response);
     }
 
-    // Process the CSV file
-    const result = await csvUploadService.processCostExplorerCSV(req.file.buffer);
-    
-    if (result.success && result.costData) {
-      const response: ApiResponse<typeof result.costData> = {
-        success: true,
-        data: result.costData,
-        message: `CSV processed successfully. ${result.rowsProcessed} rows processed.`
+    const job = csvImportService.startImport({
+      path: req.file.path,
+      originalName: req.file.originalname,
+      columnMapping: columnMapping.value,
+      dataset: uploadFields.dataset,
+      accountId: uploadFields.accountId,
+      focusCostColumn: uploadFields.focusCostColumn
+    });
+
+    const response: ApiResponse<CSVImportJob> = {
+      success: true,
+      data: toJobResponse(job),
+      message: `Import started. Poll /api/cost/upload-csv/jobs/${job.id} for progress.`
+    };
+    res.status(202).json(response);
+  } catch (error) {
+    console.error('CSV upload error:', error);
+    if (req.file) {
+      await removeUpload(req.file.path);
+    }
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to process CSV upload'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/upload-csv/jobs/{jobId}:
+ *   get:
+ *     summary: ⏳ Get CSV import progress
+ *     description: Progress of a billing file import. The cost data is included once the job has completed.
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CSVImportJob'
+ *       404:
+ *         description: Unknown or expired job
+ */
+router.get('/upload-csv/jobs/:jobId', (req: Request, res: Response) => {
+  const job = csvImportService.getJob(req.params.jobId);
+
+  if (!job) {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Import job not found'
+    };
+    return res.status(404).json(response);
+  }
+
+  const response: ApiResponse<CSVImportJob> = {
+    success: true,
+    data: toJobResponse(job),
+    message: job.status === 'completed'
+      ? `CSV processed successfully. ${job.rowsProcessed} rows processed.`
+      : undefined,
+    error: job.error
+  };
+  res.json(response);
+});
+
+const datasetNotFound = (res: Response, name: string) => {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: `Dataset '${name}' not found`
+  };
+  return res.status(404).json(response);
+};
+
+/**
+ * @swagger
+ * /cost/datasets:
+ *   get:
+ *     summary: 🗂️ List imported datasets
+ *     description: Named datasets built from uploaded billing files, with their import history
+ *     tags: [👻 Cost Data]
+ *     responses:
+ *       200:
+ *         description: Datasets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CostDataset'
+ */
+router.get('/datasets', (req: Request, res: Response) => {
+  const response: ApiResponse<CostDataset[]> = {
+    success: true,
+    data: costDatasetService.listDatasets()
+  };
+  res.json(response);
+});
+
+/**
+ * @swagger
+ * /cost/datasets/{name}:
+ *   get:
+ *     summary: 🗂️ Get a dataset and its import history
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dataset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CostDataset'
+ *       404:
+ *         description: Unknown dataset
+ *   delete:
+ *     summary: 🗑️ Delete a dataset and all of its imports
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dataset deleted
+ *       404:
+ *         description: Unknown dataset
+ */
+router.get('/datasets/:name', (req: Request, res: Response) => {
+  const dataset = costDatasetService.getDataset(req.params.name);
+  if (!dataset) return datasetNotFound(res, req.params.name);
+
+  const response: ApiResponse<CostDataset> = {
+    success: true,
+    data: dataset
+  };
+  res.json(response);
+});
+
+router.delete('/datasets/:name', (req: Request, res: Response) => {
+  if (!costDatasetService.deleteDataset(req.params.name)) {
+    return datasetNotFound(res, req.params.name);
+  }
+
+  const response: ApiResponse<null> = {
+    success: true,
+    message: `Dataset '${req.params.name}' deleted`
+  };
+  res.json(response);
+});
+
+/**
+ * @swagger
+ * /cost/datasets/{name}/cost-data:
+ *   get:
+ *     summary: 📊 Get a dataset's merged cost data
+ *     description: Cost data from the dataset's active imports
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Merged cost data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CostData'
+ *       404:
+ *         description: Unknown dataset
+ */
+router.get('/datasets/:name/cost-data', (req: Request, res: Response) => {
+  try {
+    const costData = costDatasetService.getCostData(req.params.name);
+    if (!costData) return datasetNotFound(res, req.params.name);
+
+    const response: ApiResponse<CostData> = {
+      success: true,
+      data: costData
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Dataset cost data error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load dataset'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/datasets/{name}/imports/{importId}/rollback:
+ *   post:
+ *     summary: ⏪ Roll back one file of a dataset
+ *     description: |
+ *       Removes the file's cells from the dataset; cells it had replaced come back from earlier files.
+ *       The import stays in the history, marked rolled-back. Rolling back twice has no further effect.
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Updated dataset
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CostDataset'
+ *       404:
+ *         description: Unknown dataset or import
+ */
+router.post('/datasets/:name/imports/:importId/rollback', (req: Request, res: Response) => {
+  try {
+    const dataset = costDatasetService.rollbackImport(req.params.name, req.params.importId);
+    if (!dataset) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Dataset or import not found'
       };
-      res.json(response);
+      return res.status(404).json(response);
+    }
+
+    const entry = dataset.imports.find(candidate => candidate.id === req.params.importId)!;
+    const response: ApiResponse<CostDataset> = {
+      success: true,
+      data: dataset,
+      message: `Rolled back ${entry.fileName}`
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Dataset rollback error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll back import'
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/compare:
+ *   get:
+ *     summary: ⚖️ Compare costs between two periods
+ *     description: |
+ *       Per-service, per-region and per-tag changes from the base period to the target period,
+ *       in absolute and percentage terms, plus the services that appeared or disappeared.
+ *       Periods are a calendar month (YYYY-MM) or a range (YYYY-MM-DD..YYYY-MM-DD, end exclusive)
+ *       of at most 366 days.
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: query
+ *         name: base
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 2024-09
+ *       - in: query
+ *         name: target
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: 2024-10
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [demo, aws, csv]
+ *           default: demo
+ *       - in: query
+ *         name: dataset
+ *         description: Dataset to compare (required in csv mode)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: accountId
+ *         description: Restrict to a linked account (AWS mode only)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: metric
+ *         description: Cost Explorer metric (AWS mode only)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scenario
+ *         description: Demo scenario (demo mode only)
+ *         schema:
+ *           type: string
+ *           enum: [normal_usage, budget_warning, cost_spike]
+ *       - in: query
+ *         name: seed
+ *         description: Demo data seed (demo mode only)
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Cost comparison
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CostComparison'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: AWS mode without a session
+ *       404:
+ *         description: Unknown dataset
+ *       429:
+ *         description: Daily Cost Explorer request limit reached
+ */
+router.get('/compare', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = compareQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    const periods = { base: parseComparePeriod(value.base), target: parseComparePeriod(value.target) };
+    if (!periods.base || !periods.target) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${periods.base ? 'target' : 'base'} must be a valid period of at most ${MAX_COMPARE_DAYS} days`
+      };
+      return res.status(400).json(response);
+    }
+
+    let loadPeriod: (period: CostPeriod) => Promise<CostData | null>;
+    if (value.mode === 'aws') {
+      const session = getAwsSession(req);
+      if (!session) {
+        return res.status(401).json(sessionRequiredResponse);
+      }
+      loadPeriod = period => session.awsService.getCostData(
+        { start: new Date(`${period.start}T00:00:00Z`), end: new Date(`${period.end}T00:00:00Z`) },
+        { linkedAccountId: value.accountId, metric: value.metric, granularity: 'DAILY' }
+      );
+    } else if (value.mode === 'csv') {
+      loadPeriod = async period => costDatasetService.getCostData(value.dataset, period);
     } else {
+      loadPeriod = async period => demoDataService.getDemoData({
+        scenario: value.scenario,
+        seed: value.seed,
+        startDate: period.start,
+        endDate: period.end
+      });
+    }
+
+    const base = await loadPeriod(periods.base);
+    const target = await loadPeriod(periods.target);
+    if (!base || !target) return datasetNotFound(res, value.dataset);
+
+    const response: ApiResponse<CostComparison> = {
+      success: true,
+      data: comparisonService.compareCostData(base, target, { base: periods.base, target: periods.target }),
+      message: 'Cost comparison generated successfully'
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Cost comparison error:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare costs'
+    };
+    res.status(error instanceof CostExplorerRequestLimitError ? 429 : 500).json(response);
+  }
+});
+
+/**
+ * @swagger
+ * /cost/history:
+ *   get:
+ *     summary: 📈 Get daily cost history from stored snapshots
+ *     description: |
+ *       Daily costs rebuilt from the snapshots taken of a data source, reaching back further than
+ *       Cost Explorer's window. Each day's cost comes from the latest snapshot that covers it.
+ *       AWS sources are snapshotted in the background for every open session and whenever the
+ *       default cost view is loaded; datasets are snapshotted in the background.
+ *     tags: [👻 Cost Data]
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         description: aws:<accountId> or dataset:<name>; defaults to the session's AWS account
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: service
+ *         description: Only this service key or display name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         description: First day (YYYY-MM-DD); defaults to a year before to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         description: Day after the last (YYYY-MM-DD, exclusive); defaults to tomorrow
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Cost history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/CostHistory'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         description: AWS source requested without a session
+ *       403:
+ *         description: AWS source belongs to a different account than the session
+ *       404:
+ *         description: No snapshots for the source
+ */
+router.get('/history', (req: Request, res: Response) => {
+  try {
+    const { error, value } = historyQuerySchema.validate(req.query);
+
+    if (error) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Validation error: ${error.details[0].message}`
+      };
+      return res.status(400).json(response);
+    }
+
+    const session = getAwsSession(req);
+    const accountId = session?.awsService.getAccountId();
+    const source: string | undefined = value.source || (accountId ? awsSnapshotSource(accountId) : undefined);
+
+    if (!source) {
+      if (!session) {
+        return res.status(401).json(sessionRequiredResponse);
+      }
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Validation error: source is required when the session has no account ID'
+      };
+      return res.status(400).json(response);
+    }
+
+    // AWS history is only shown to sessions signed in to that account
+    if (source.startsWith('aws:')) {
+      if (!session) {
+        return res.status(401).json(sessionRequiredResponse);
+      }
+      if (source !== awsSnapshotSource(accountId || '')) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Cost history for other AWS accounts is not available to this session'
+        };
+        return res.status(403).json(response);
+      }
+    }
+
+    const to: Date = value.to || new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const from: Date = value.from || new Date(Date.UTC(to.getUTCFullYear() - 1, to.getUTCMonth(), to.getUTCDate()));
+    if (from >= to) {
       const response: ApiResponse<null> = {
         success: false,
-        error: result.error || 'Failed to process CSV file'
+        error: 'Validation error: to must be after from'
       };
-      res.status(400).json(response);
+      return res.status(400).json(response);
+    }
+
+    const history = costSnapshotService.getHistory(source, {
+      service: value.service,
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10)
+    });
+    if (!history) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `No cost snapshots for ${source}`
+      };
+      return res.status(404).json(response);
     }
+
+    const response: ApiResponse<CostHistory> = {
+      success: true,
+      data: history
+    };
+    res.json(response);
   } catch (error) {
-    console.error('CSV upload error:', error);
+    console.error('Cost history error:', error);
     const response: ApiResponse<null> = {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to process CSV upload'
+      error: error instanceof Error ? error.message : 'Failed to load cost history'
     };
     res.status(500).json(response);
   }
 });
 
-// POST /api/cost/validate-csv - Validate CSV format without processing
+/**
+ * @swagger
+ * /cost/validate-csv:
+ *   post:
+ *     summary: 🔍 Validate a billing file without importing it
+ *     description: |
+ *       Reads the whole file and reports the rows an import would skip (empty service, non-numeric cost,
+ *       missing date), rows repeating a date and service, and columns the detected format ignores.
+ *     tags: [👻 Cost Data]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               csvFile:
+ *                 type: string
+ *                 format: binary
+ *               columnMapping:
+ *                 type: string
+ *                 description: JSON CSVColumnMapping for exports with non-standard headers
+ *     responses:
+ *       200:
+ *         description: File can be imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     format:
+ *                       type: string
+ *                     report:
+ *                       $ref: '#/components/schemas/CSVValidationReport'
+ *       400:
+ *         description: Unsupported file, format or column mapping
+ */
 router.post('/validate-csv', upload.single('csvFile'), handleMulterError, async (req: Request, res: Response) => {
   try {
     if (!req.file) {
@@ -459,13 +2000,37 @@ router.post('/validate-csv', upload.single('csvFile'), handleMulterError, async
       return res.status(400).json(response);
     }
 
-    const validation = await csvUploadService.validateCSVFormat(req.file.buffer);
+    const columnMapping = parseColumnMapping(req.body.columnMapping);
+    if (columnMapping.error) {
+      await removeUpload(req.file.path);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: columnMapping.error
+      };
+      return res.status(400).json(response);
+    }
+
+    // The header check gives clearer errors; only a usable file is read in full for the report
+    let validation = await validateUploadedFile(req.file.path, columnMapping.value);
+    if (validation.valid) {
+      try {
+        const { stream } = await csvUploadService.openCostFile(req.file.path);
+        validation = await csvUploadService.validateCSVRows(stream, columnMapping.value);
+      } catch (error) {
+        validation = {
+          valid: false,
+          error: error instanceof Error ? error.message : 'Could not read the uploaded file'
+        };
+      }
+    }
+    await removeUpload(req.file.path);
     
-    const response: ApiResponse<{ valid: boolean; format?: string }> = {
+    const response: ApiResponse<{ valid: boolean; format?: CSVFormat; report?: CSVValidationReport }> = {
       success: validation.valid,
       data: {
         valid: validation.valid,
-        format: validation.format
+        format: validation.format,
+        report: validation.report
       },
       message: validation.valid ? 'CSV format is valid' : undefined,
       error: validation.error
@@ -483,8 +2048,9 @@ router.post('/validate-csv', upload.single('csvFile'), handleMulterError, async
 });
 
 // GET /api/cost/aws/test-connection - Test AWS connection
-router.get('/aws/test-connection', async (req: Request, res: Response) => {
+router.get('/aws/test-connection', requireAwsSession, async (req: Request, res: Response) => {
   try {
+    const { awsService } = res.locals.awsSession as AwsSession;
     const isConnected = await awsService.testConnection();
     const response: ApiResponse<{ connected: boolean }> = {
       success: isConnected,
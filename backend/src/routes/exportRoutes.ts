@@ -1,6 +1,6 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
-import { exportService } from '../services/exportService';
+import { exportService, ShareLockedError } from '../services/exportService';
 
 const router = Router();
 
@@ -19,10 +19,24 @@ const shareIdSchema = Joi.object({
   shareId: Joi.string().uuid().required()
 });
 
+// Passwords never travel in the query string, where proxies and browser history would keep them
 const shareAccessSchema = Joi.object({
-  password: Joi.string().optional()
+  password: Joi.forbidden().messages({
+    'any.unknown': 'Send the share password in the X-Share-Password header or POST /share/:shareId/unlock'
+  })
+}).unknown(false);
+
+const shareUnlockSchema = Joi.object({
+  password: Joi.string().max(200).required()
 });
 
+const PASSWORD_HEADER = 'x-share-password';
+
+// Random per-browser key sent as X-Share-Owner; identifies who created a link
+const ownerKeySchema = Joi.string().min(16).max(128);
+
+const OWNER_KEY_HEADER = 'x-share-owner';
+
 /**
  * POST /api/export/share
  * Create a shareable link for mansion data
@@ -41,8 +55,16 @@ router.post('/share', async (req: Request, res: Response) => {
 
     const { snapshot, options } = value;
 
+    const ownerKey = req.header(OWNER_KEY_HEADER);
+    if (ownerKey !== undefined && ownerKeySchema.validate(ownerKey).error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid share owner key'
+      });
+    }
+
     // Create shareable link
-    const shareData = exportService.createShareableLink(snapshot, options);
+    const shareData = exportService.createShareableLink(snapshot, options, ownerKey);
 
     res.json({
       success: true,
@@ -62,9 +84,55 @@ router.post('/share', async (req: Request, res: Response) => {
   }
 });
 
+// Respond with a share's snapshot, mapping password, lockout and view-limit failures to status codes
+const sendSharedData = (req: Request, res: Response, shareId: string, password?: string) => {
+  try {
+    const shareData = exportService.getSharedData(shareId, password, req.ip);
+    
+    if (!shareData) {
+      return res.status(404).json({
+        success: false,
+        error: 'Shared link not found or expired'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        snapshot: shareData.snapshot,
+        viewCount: shareData.viewCount,
+        expiresAt: shareData.expiresAt,
+        createdAt: shareData.createdAt
+      }
+    });
+  } catch (shareError) {
+    if (shareError instanceof ShareLockedError) {
+      res.setHeader('Retry-After', shareError.retryAfterSeconds.toString());
+      return res.status(429).json({
+        success: false,
+        error: 'Too many failed unlock attempts. Try again later.'
+      });
+    }
+    if (shareError instanceof Error) {
+      if (shareError.message === 'Invalid password') {
+        return res.status(401).json({
+          success: false,
+          error: 'Password required or incorrect'
+        });
+      } else if (shareError.message === 'Maximum view limit reached') {
+        return res.status(429).json({
+          success: false,
+          error: 'Maximum view limit reached'
+        });
+      }
+    }
+    throw shareError;
+  }
+};
+
 /**
  * GET /api/export/share/:shareId
- * Get shared mansion data
+ * Get shared mansion data (password, if any, in the X-Share-Password header)
  */
 router.get('/share/:shareId', async (req: Request, res: Response) => {
   try {
@@ -79,58 +147,148 @@ router.get('/share/:shareId', async (req: Request, res: Response) => {
       });
     }
 
-    const { error: queryError, value: query } = shareAccessSchema.validate(req.query);
+    const { error: queryError } = shareAccessSchema.validate(req.query);
     
     if (queryError) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid query parameters'
+        error: queryError.details[0].message
+      });
+    }
+
+    sendSharedData(req, res, params.shareId, req.header(PASSWORD_HEADER));
+  } catch (error) {
+    console.error('Error getting shared data:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve shared data'
+    });
+  }
+});
+
+/**
+ * POST /api/export/share/:shareId/unlock
+ * Get password-protected shared mansion data
+ */
+router.post('/share/:shareId/unlock', async (req: Request, res: Response) => {
+  try {
+    const { error: paramError, value: params } = shareIdSchema.validate({
+      shareId: req.params.shareId
+    });
+
+    if (paramError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid share ID format'
+      });
+    }
+
+    const { error: bodyError, value: body } = shareUnlockSchema.validate(req.body);
+
+    if (bodyError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: bodyError.details
+      });
+    }
+
+    sendSharedData(req, res, params.shareId, body.password);
+  } catch (error) {
+    console.error('Error unlocking shared data:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve shared data'
+    });
+  }
+});
+
+/**
+ * DELETE /api/export/share/:shareId
+ * Revoke a share link before it expires (owner only)
+ */
+router.delete('/share/:shareId', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = shareIdSchema.validate({
+      shareId: req.params.shareId
+    });
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid share ID format'
       });
     }
 
-    const { shareId } = params;
-    const { password } = query;
+    const ownerKey = req.header(OWNER_KEY_HEADER);
+    if (!ownerKey || ownerKeySchema.validate(ownerKey).error) {
+      return res.status(401).json({
+        success: false,
+        error: 'Share owner key required'
+      });
+    }
 
     try {
-      const shareData = exportService.getSharedData(shareId, password);
-      
-      if (!shareData) {
+      const revoked = exportService.revokeShare(value.shareId, ownerKey);
+
+      if (!revoked) {
         return res.status(404).json({
           success: false,
-          error: 'Shared link not found or expired'
+          error: 'Share not found'
         });
       }
+    } catch (revokeError) {
+      if (revokeError instanceof Error && revokeError.message === 'Not the share owner') {
+        return res.status(403).json({
+          success: false,
+          error: 'Only the creator of a share can revoke it'
+        });
+      }
+      throw revokeError;
+    }
 
-      res.json({
-        success: true,
-        data: {
-          snapshot: shareData.snapshot,
-          viewCount: shareData.viewCount,
-          expiresAt: shareData.expiresAt,
-          createdAt: shareData.createdAt
-        }
+    res.json({
+      success: true,
+      message: 'Share link revoked'
+    });
+  } catch (error) {
+    console.error('Error revoking share:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke share'
+    });
+  }
+});
+
+/**
+ * GET /api/export/shares
+ * List the active share links created with the caller's owner key
+ */
+router.get('/shares', async (req: Request, res: Response) => {
+  try {
+    const ownerKey = req.header(OWNER_KEY_HEADER);
+    if (!ownerKey || ownerKeySchema.validate(ownerKey).error) {
+      return res.status(401).json({
+        success: false,
+        error: 'Share owner key required'
       });
-    } catch (shareError) {
-      if (shareError instanceof Error) {
-        if (shareError.message === 'Invalid password') {
-          return res.status(401).json({
-            success: false,
-            error: 'Password required or incorrect'
-          });
-        } else if (shareError.message === 'Maximum view limit reached') {
-          return res.status(429).json({
-            success: false,
-            error: 'Maximum view limit reached'
-          });
-        }
-      }
-      throw shareError;
     }
+
+    const shares = exportService.getSharesByOwner(ownerKey);
+
+    res.json({
+      success: true,
+      data: shares.map(share => ({
+        id: share.id,
+        ...exportService.getShareStatistics(share.id),
+        hasPassword: !!share.passwordHash
+      }))
+    });
   } catch (error) {
-    console.error('Error getting shared data:', error);
+    console.error('Error listing shares:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to retrieve shared data'
+      error: 'Failed to list shares'
     });
   }
 });
@@ -214,6 +372,47 @@ router.post('/csv', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/export/focus
+ * Generate a FOCUS 1.x CSV from cost data
+ */
+router.post('/focus', async (req: Request, res: Response) => {
+  try {
+    const focusSchema = Joi.object({
+      services: Joi.array().items(Joi.object()).required(),
+      providerName: Joi.string().max(100),
+      billingAccountId: Joi.string().max(100),
+      billingPeriod: Joi.object({
+        start: Joi.string().isoDate().required(),
+        end: Joi.string().isoDate().required()
+      })
+    });
+
+    const { error, value } = focusSchema.validate(req.body);
+    
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.details
+      });
+    }
+
+    const { services, ...options } = value;
+    const csvData = exportService.generateFOCUSCSV(services, options);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename="cost-data-focus.csv"');
+    res.send(csvData);
+  } catch (error) {
+    console.error('Error generating FOCUS CSV:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate FOCUS CSV'
+    });
+  }
+});
+
 /**
  * POST /api/export/json
  * Generate JSON export from mansion snapshot
@@ -269,7 +468,7 @@ router.get('/stats', async (req: Request, res: Response) => {
           expiresAt: share.expiresAt,
           viewCount: share.viewCount,
           maxViews: share.options.maxViews,
-          hasPassword: !!share.options.password
+          hasPassword: !!share.passwordHash
         }))
       }
     });
@@ -1,4 +1,6 @@
 import app from './app';
+import { costSnapshotService } from './services/costSnapshotService';
+import { exportService } from './services/exportService';
 
 const PORT = process.env.PORT || 3001;
 
@@ -8,9 +10,13 @@ const server = app.listen(PORT, () => {
   console.log(`👻 Cost API: http://localhost:${PORT}/api/cost`);
 });
 
+costSnapshotService.start();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
+  costSnapshotService.stop();
+  exportService.flushShares();
   server.close(() => {
     console.log('Process terminated');
   });
@@ -18,6 +24,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
+  costSnapshotService.stop();
+  exportService.flushShares();
   server.close(() => {
     console.log('Process terminated');
   });
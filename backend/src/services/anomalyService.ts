@@ -0,0 +1,157 @@
+import {
+  AnomalyMethod,
+  AnomalySeverity,
+  CostAnomaly,
+  CostData,
+  DailyCost
+} from '../types';
+
+export const DEFAULT_ANOMALY_WINDOW = 14;
+
+// Iglewicz & Hoaglin recommend 3.5 for modified z-scores; plain z-scores use 3
+export const DEFAULT_ANOMALY_THRESHOLDS: Record<AnomalyMethod, number> = {
+  mad: 3.5,
+  zscore: 3
+};
+
+// Points need this many earlier observations before they can be scored
+const MIN_HISTORY = 5;
+
+const SEVERITY_ORDER: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2 };
+
+export interface AnomalyDetectionOptions {
+  method?: AnomalyMethod;
+  window?: number; // Number of preceding points that form the baseline
+  threshold?: number; // Minimum |score| to report
+  minImpact?: number; // Minimum |actual - expected| in currency units, filters noise on tiny costs
+  minSeverity?: AnomalySeverity;
+}
+
+export interface SeriesAnomaly {
+  date: string;
+  actual: number;
+  expected: number;
+  deviation: number;
+  score: number;
+  direction: 'spike' | 'drop';
+  severity: AnomalySeverity;
+}
+
+export class AnomalyService {
+  // Scan every service, region and tag series in the cost data
+  public detectCostDataAnomalies(costData: CostData, options: AnomalyDetectionOptions = {}): CostAnomaly[] {
+    const anomalies: CostAnomaly[] = [];
+
+    for (const service of costData.services) {
+      const base = { service: service.service, displayName: service.displayName };
+
+      this.detectSeriesAnomalies(service.dailyCosts, options).forEach(anomaly => {
+        anomalies.push({ id: `service:${service.service}:${anomaly.date}`, scope: 'service', ...base, ...anomaly });
+      });
+
+      for (const region of service.regions) {
+        if (!region.dailyCosts) continue;
+        this.detectSeriesAnomalies(region.dailyCosts, options).forEach(anomaly => {
+          anomalies.push({
+            id: `region:${service.service}:${region.region}:${anomaly.date}`,
+            scope: 'region',
+            ...base,
+            region: region.region,
+            ...anomaly
+          });
+        });
+      }
+
+      for (const tag of service.tags) {
+        if (!tag.dailyCosts) continue;
+        this.detectSeriesAnomalies(tag.dailyCosts, options).forEach(anomaly => {
+          anomalies.push({
+            id: `tag:${service.service}:${tag.key}=${tag.value}:${anomaly.date}`,
+            scope: 'tag',
+            ...base,
+            tag: { key: tag.key, value: tag.value },
+            ...anomaly
+          });
+        });
+      }
+    }
+
+    // Most severe and most recent first
+    return anomalies.sort((a, b) =>
+      SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity] || b.date.localeCompare(a.date)
+    );
+  }
+
+  // Score each point against the rolling window of points before it
+  public detectSeriesAnomalies(dailyCosts: DailyCost[], options: AnomalyDetectionOptions = {}): SeriesAnomaly[] {
+    const method = options.method || 'mad';
+    const window = options.window ?? DEFAULT_ANOMALY_WINDOW;
+    const threshold = options.threshold ?? DEFAULT_ANOMALY_THRESHOLDS[method];
+    const minImpact = options.minImpact ?? 1;
+    const minSeverity = SEVERITY_ORDER[options.minSeverity || 'low'];
+
+    const series = [...dailyCosts].sort((a, b) => a.date.localeCompare(b.date));
+    const anomalies: SeriesAnomaly[] = [];
+
+    for (let i = MIN_HISTORY; i < series.length; i++) {
+      const history = series.slice(Math.max(0, i - window), i).map(point => point.cost);
+      const actual = series[i].cost;
+      const { expected, score } = method === 'mad'
+        ? this.scoreMad(history, actual)
+        : this.scoreZ(history, actual);
+      const deviation = actual - expected;
+
+      if (Math.abs(score) < threshold || Math.abs(deviation) < minImpact) continue;
+
+      const severity = this.getSeverity(Math.abs(score), threshold);
+      if (SEVERITY_ORDER[severity] < minSeverity) continue;
+
+      anomalies.push({
+        date: series[i].date,
+        actual: this.round(actual),
+        expected: this.round(expected),
+        deviation: this.round(deviation),
+        score: this.round(score),
+        direction: deviation > 0 ? 'spike' : 'drop',
+        severity
+      });
+    }
+
+    return anomalies;
+  }
+
+  // Modified z-score: 0.6745 * (x - median) / MAD
+  private scoreMad(history: number[], actual: number): { expected: number; score: number } {
+    const median = this.median(history);
+    const mad = this.median(history.map(value => Math.abs(value - median)));
+    // A flat baseline has MAD 0; fall back to 1% of the median so any real jump still scores
+    const scale = Math.max(mad / 0.6745, Math.abs(median) * 0.01, 0.01);
+    return { expected: median, score: (actual - median) / scale };
+  }
+
+  private scoreZ(history: number[], actual: number): { expected: number; score: number } {
+    const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+    const variance = history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, history.length - 1);
+    const scale = Math.max(Math.sqrt(variance), Math.abs(mean) * 0.01, 0.01);
+    return { expected: mean, score: (actual - mean) / scale };
+  }
+
+  private getSeverity(absScore: number, threshold: number): AnomalySeverity {
+    if (absScore >= threshold * 2) return 'high';
+    if (absScore >= threshold * 1.5) return 'medium';
+    return 'low';
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const anomalyService = new AnomalyService();
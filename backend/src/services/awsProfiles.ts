@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const credentialsFilePath = (): string =>
+  process.env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials');
+
+const configFilePath = (): string =>
+  process.env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config');
+
+// Section names of an ini file; the config file prefixes every profile but "default" with "profile "
+const readSectionNames = (filePath: string, isConfigFile: boolean): string[] => {
+  if (!fs.existsSync(filePath)) return [];
+
+  const names: string[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (!match) continue;
+
+    const section = match[1].trim();
+    if (!isConfigFile) {
+      names.push(section);
+    } else if (section === 'default') {
+      names.push(section);
+    } else if (section.startsWith('profile ')) {
+      names.push(section.slice('profile '.length).trim());
+    }
+  }
+  return names;
+};
+
+/**
+ * Profiles defined in the server's AWS credentials and config files
+ */
+export const listAwsProfiles = (): string[] => {
+  const profiles = new Set([
+    ...readSectionNames(credentialsFilePath(), false),
+    ...readSectionNames(configFilePath(), true)
+  ]);
+  return Array.from(profiles).sort();
+};
+
+/**
+ * Profiles browsers may log in with. Using a profile spends the server's own credentials, so
+ * nothing is allowed unless AWS_ALLOWED_PROFILES lists it (or is "*")
+ */
+export const getAllowedAwsProfiles = (): string[] => {
+  const allowed = (process.env.AWS_ALLOWED_PROFILES || '')
+    .split(',')
+    .map(profile => profile.trim())
+    .filter(profile => profile.length > 0);
+
+  if (allowed.length === 0) return [];
+
+  const available = listAwsProfiles();
+  return allowed.includes('*') ? available : available.filter(profile => allowed.includes(profile));
+};
+
+export const isAwsProfileAllowed = (profile: string): boolean =>
+  getAllowedAwsProfiles().includes(profile);
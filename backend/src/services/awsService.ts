@@ -2,10 +2,18 @@ import {
   CostExplorerClient, 
   GetCostAndUsageCommand,
   GetDimensionValuesCommand,
-  GetCostAndUsageCommandOutput
+  GetCostForecastCommand,
+  GetCostAndUsageCommandInput,
+  GetCostAndUsageCommandOutput,
+  GetDimensionValuesCommandInput,
+  DimensionValuesWithAttributes,
+  ResultByTime,
+  Expression,
+  Metric
 } from '@aws-sdk/client-cost-explorer';
-import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts';
-import { BudgetsClient, DescribeBudgetsCommand } from '@aws-sdk/client-budgets';
+import { STSClient, GetCallerIdentityCommand, AssumeRoleCommand } from '@aws-sdk/client-sts';
+import { fromIni } from '@aws-sdk/credential-provider-ini';
+import { BudgetsClient, DescribeBudgetsCommand, Budget as AWSBudget } from '@aws-sdk/client-budgets';
 import NodeCache from 'node-cache';
 import { 
   AWSCredentials, 
@@ -16,36 +24,238 @@ import {
   CostCacheEntry,
   RegionCost,
   TagCost,
-  DailyCost
+  DailyCost,
+  AccountCost,
+  LinkedAccount,
+  CostMetric,
+  CostExplorerRequestDay,
+  CostExplorerRequestLedger,
+  CostForecast,
+  ForecastPoint,
+  AwsBudgetDefinition,
+  AwsCapability,
+  AwsPermissionCheck,
+  AwsPermissionReport,
+  IamPolicyDocument
 } from '../types';
+import { ForecastOptions, DEFAULT_FORECAST_CONFIDENCE, sumForecastPoints } from './forecastService';
+
+export const UNTAGGED_TAG_VALUE = 'untagged';
+
+export const COST_METRICS: CostMetric[] = [
+  'BlendedCost',
+  'UnblendedCost',
+  'AmortizedCost',
+  'NetAmortizedCost',
+  'NetUnblendedCost'
+];
+
+export const DEFAULT_COST_METRIC: CostMetric = 'BlendedCost';
+
+// GetCostForecast uses its own metric names
+const FORECAST_METRICS: Record<CostMetric, Metric> = {
+  BlendedCost: 'BLENDED_COST',
+  UnblendedCost: 'UNBLENDED_COST',
+  AmortizedCost: 'AMORTIZED_COST',
+  NetAmortizedCost: 'NET_AMORTIZED_COST',
+  NetUnblendedCost: 'NET_UNBLENDED_COST'
+};
+
+// Cost Explorer API pricing: USD 0.01 per paginated request
+export const COST_EXPLORER_REQUEST_PRICE = 0.01;
+
+export const DEFAULT_DAILY_REQUEST_LIMIT = 1000;
+
+const REQUEST_LEDGER_RETENTION_DAYS = 30;
+
+const DEFAULT_ROLE_SESSION_NAME = 'haunted-cost-guard';
+const ASSUMED_ROLE_DURATION_SECONDS = 3600;
+const ASSUMED_ROLE_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface ResolvedCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+type CredentialProvider = () => Promise<ResolvedCredentials>;
+
+const PERMISSION_REPORT_CACHE_KEY = 'permission-report';
+
+// Error names AWS uses when an IAM policy does not allow a call
+const ACCESS_DENIED_ERRORS = new Set(['AccessDeniedException', 'AccessDenied', 'UnauthorizedOperation']);
+
+// Every capability the app relies on, in the order the report lists them
+const AWS_CAPABILITIES: Array<Pick<AwsPermissionCheck, 'capability' | 'label' | 'usedFor' | 'actions'>> = [
+  {
+    capability: 'identity',
+    label: 'STS identity',
+    usedFor: 'Identifying the account the credentials belong to (GetCallerIdentity needs no IAM permission)',
+    actions: []
+  },
+  {
+    capability: 'costAndUsage',
+    label: 'Cost Explorer usage',
+    usedFor: 'Service, region, tag and daily cost data for every room',
+    actions: ['ce:GetCostAndUsage']
+  },
+  {
+    capability: 'dimensionValues',
+    label: 'Cost Explorer dimension values',
+    usedFor: 'Available services and linked account names',
+    actions: ['ce:GetDimensionValues']
+  },
+  {
+    capability: 'forecast',
+    label: 'Cost Explorer forecasts',
+    usedFor: 'End-of-period cost forecasts',
+    actions: ['ce:GetCostForecast']
+  },
+  {
+    capability: 'budgets',
+    label: 'AWS Budgets',
+    usedFor: 'Importing budgets from AWS Budgets',
+    actions: ['budgets:ViewBudget']
+  }
+];
+
+export class CostExplorerRequestLimitError extends Error {
+  constructor(public limit: number) {
+    super(`Daily Cost Explorer request limit of ${limit} reached. Cached data is still available; raise AWS_CE_DAILY_REQUEST_LIMIT to allow more requests.`);
+    this.name = 'CostExplorerRequestLimitError';
+  }
+}
+
+// Cost Explorer bills the caller's AWS account, not the session, so every session shares one
+// ledger and one daily cap
+export class CostExplorerRequestTracker {
+  private requestLedger = new Map<string, number>(); // UTC day -> Cost Explorer requests
+  private dailyRequestLimit: number;
+
+  constructor(dailyRequestLimit?: number) {
+    // Daily cap on billable Cost Explorer requests (0 disables the cap)
+    const envLimit = parseInt(process.env.AWS_CE_DAILY_REQUEST_LIMIT || '', 10);
+    this.dailyRequestLimit = dailyRequestLimit ?? (Number.isNaN(envLimit) ? DEFAULT_DAILY_REQUEST_LIMIT : envLimit);
+  }
+
+  // Record one request, or throw when today's cap has been reached
+  public track(): void {
+    const today = this.getLedgerDate();
+    const requests = this.requestLedger.get(today) || 0;
+
+    if (this.dailyRequestLimit > 0 && requests >= this.dailyRequestLimit) {
+      throw new CostExplorerRequestLimitError(this.dailyRequestLimit);
+    }
+
+    this.requestLedger.set(today, requests + 1);
+    this.pruneRequestLedger();
+  }
+
+  public getLedger(): CostExplorerRequestLedger {
+    const today = this.getLedgerDate();
+    const toDay = (date: string, requests: number): CostExplorerRequestDay => ({
+      date,
+      requests,
+      estimatedCost: Math.round(requests * COST_EXPLORER_REQUEST_PRICE * 100) / 100
+    });
+    const todayEntry = toDay(today, this.requestLedger.get(today) || 0);
+    const hasLimit = this.dailyRequestLimit > 0;
+
+    return {
+      ...todayEntry,
+      dailyLimit: hasLimit ? this.dailyRequestLimit : null,
+      remaining: hasLimit ? Math.max(0, this.dailyRequestLimit - todayEntry.requests) : null,
+      pricePerRequest: COST_EXPLORER_REQUEST_PRICE,
+      history: Array.from(this.requestLedger.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, requests]) => toDay(date, requests))
+    };
+  }
+
+  private getLedgerDate(date: Date = new Date()): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private pruneRequestLedger(): void {
+    const days = Array.from(this.requestLedger.keys()).sort();
+    days.slice(0, Math.max(0, days.length - REQUEST_LEDGER_RETENTION_DAYS))
+      .forEach(day => this.requestLedger.delete(day));
+  }
+}
+
+// Process-wide tracker shared by every AWS session
+export const costExplorerRequestTracker = new CostExplorerRequestTracker();
+
+export interface CostQueryOptions {
+  linkedAccountId?: string; // Restrict cost data to a single linked (member) account
+  metric?: CostMetric; // Cost Explorer metric used for every amount (defaults to BlendedCost)
+  granularity?: 'DAILY' | 'MONTHLY'; // Granularity of the dailyCosts series (defaults to DAILY)
+}
+
+export interface AWSForecastOptions extends ForecastOptions {
+  linkedAccountId?: string;
+  metric?: CostMetric;
+}
 
 export class AWSService {
   private costExplorerClient: CostExplorerClient | null = null;
   private stsClient: STSClient | null = null;
   private budgetsClient: BudgetsClient | null = null;
+  private accountId: string | null = null; // Account the validated credentials belong to
   private cache: NodeCache;
   private credentials: AWSCredentials | null = null;
+  private tagKeys: string[];
+  private requestTracker: CostExplorerRequestTracker;
 
-  constructor() {
+  constructor(tagKeys?: string[], requestTracker: CostExplorerRequestTracker = costExplorerRequestTracker) {
     // Initialize cache with 15 minute TTL for cost data
     this.cache = new NodeCache({ 
       stdTTL: 900, // 15 minutes
       checkperiod: 120, // Check for expired keys every 2 minutes
       useClones: false
     });
+
+    // Cost allocation tag keys to break costs down by (e.g. AWS_COST_ALLOCATION_TAGS=team,env)
+    this.tagKeys = this.normalizeTagKeys(tagKeys ?? (process.env.AWS_COST_ALLOCATION_TAGS || '').split(','));
+
+    this.requestTracker = requestTracker;
+  }
+
+  public getAccountId(): string | null {
+    return this.accountId;
+  }
+
+  public getCostAllocationTagKeys(): string[] {
+    return [...this.tagKeys];
+  }
+
+  public setCostAllocationTagKeys(tagKeys: string[]): void {
+    this.tagKeys = this.normalizeTagKeys(tagKeys);
+    // Cached data was built with the previous tag keys
+    this.cache.flushAll();
+  }
+
+  private normalizeTagKeys(tagKeys: string[]): string[] {
+    const keys = tagKeys
+      .map(key => key.trim())
+      .filter(key => key.length > 0);
+
+    return Array.from(new Set(keys));
   }
 
   public async validateCredentials(credentials: AWSCredentials): Promise<boolean> {
     try {
       const region = credentials.region || 'us-east-1';
+      const credentialProvider = this.createCredentialProvider(credentials, region);
+
+      // Resolve up front so a bad profile or refused AssumeRole fails validation instead of the first query
+      await credentialProvider();
       
       // Initialize STS client for credential validation
       this.stsClient = new STSClient({
         region,
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey
-        }
+        credentials: credentialProvider
       });
 
       // Test credentials by getting caller identity
@@ -55,19 +265,13 @@ export class AWSService {
       // Initialize Cost Explorer client (must be in us-east-1)
       this.costExplorerClient = new CostExplorerClient({
         region: 'us-east-1',
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey
-        }
+        credentials: credentialProvider
       });
 
       // Initialize Budgets client
       this.budgetsClient = new BudgetsClient({
         region: 'us-east-1',
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey
-        }
+        credentials: credentialProvider
       });
 
       // Test Cost Explorer access with a simple query
@@ -80,7 +284,7 @@ export class AWSService {
           Granularity: 'DAILY',
           Metrics: ['BlendedCost']
         });
-        await this.costExplorerClient.send(testCommand);
+        await this.trackCostExplorerRequest(() => this.costExplorerClient!.send(testCommand));
       } catch (costError: any) {
         if (costError.name === 'AccessDeniedException') {
           console.warn('Cost Explorer access denied. This account may be a member account in AWS Organizations or lacks Cost Explorer permissions.');
@@ -91,6 +295,7 @@ export class AWSService {
       }
 
       this.credentials = credentials;
+      this.accountId = identity.Account || null;
       console.log(`AWS credentials validated for account: ${identity.Account}`);
       return true;
     } catch (error) {
@@ -99,17 +304,64 @@ export class AWSService {
       this.stsClient = null;
       this.budgetsClient = null;
       this.credentials = null;
+      this.accountId = null;
       return false;
     }
   }
 
-  public async getCostData(timeRange?: { start: Date; end: Date }): Promise<CostData> {
+  // Access keys (temporary when a session token is given) or a named profile from the server's
+  // credentials/config files, optionally used to assume a role in another account
+  private createCredentialProvider(credentials: AWSCredentials, region: string): CredentialProvider {
+    const baseProvider: CredentialProvider = credentials.profile
+      ? fromIni({ profile: credentials.profile })
+      : async () => ({
+          accessKeyId: credentials.accessKeyId!,
+          secretAccessKey: credentials.secretAccessKey!,
+          ...(credentials.sessionToken && { sessionToken: credentials.sessionToken })
+        });
+
+    if (!credentials.roleArn) {
+      return baseProvider;
+    }
+
+    const stsClient = new STSClient({ region, credentials: baseProvider });
+    let assumed: ResolvedCredentials | null = null;
+
+    // Role credentials expire after an hour; assume the role again shortly before they do
+    return async () => {
+      const refreshBefore = Date.now() + ASSUMED_ROLE_REFRESH_MARGIN_MS;
+      if (assumed?.expiration && assumed.expiration.getTime() > refreshBefore) {
+        return assumed;
+      }
+
+      const response = await stsClient.send(new AssumeRoleCommand({
+        RoleArn: credentials.roleArn,
+        RoleSessionName: credentials.roleSessionName || DEFAULT_ROLE_SESSION_NAME,
+        DurationSeconds: ASSUMED_ROLE_DURATION_SECONDS,
+        ...(credentials.externalId && { ExternalId: credentials.externalId })
+      }));
+
+      if (!response.Credentials?.AccessKeyId || !response.Credentials.SecretAccessKey) {
+        throw new Error(`AssumeRole returned no credentials for ${credentials.roleArn}`);
+      }
+
+      assumed = {
+        accessKeyId: response.Credentials.AccessKeyId,
+        secretAccessKey: response.Credentials.SecretAccessKey,
+        sessionToken: response.Credentials.SessionToken,
+        expiration: response.Credentials.Expiration
+      };
+      return assumed;
+    };
+  }
+
+  public async getCostData(timeRange?: { start: Date; end: Date }, options: CostQueryOptions = {}): Promise<CostData> {
     if (!this.costExplorerClient) {
       throw new Error('AWS credentials not validated. Please validate credentials first.');
     }
 
     // Check cache first
-    const cacheKey = `cost-data-${timeRange?.start?.toISOString() || 'default'}-${timeRange?.end?.toISOString() || 'default'}`;
+    const cacheKey = `cost-data-${timeRange?.start?.toISOString() || 'default'}-${timeRange?.end?.toISOString() || 'default'}-${this.tagKeys.join(',')}-${options.linkedAccountId || 'all-accounts'}-${options.metric || DEFAULT_COST_METRIC}-${options.granularity || 'DAILY'}`;
     const cachedData = this.cache.get<CostData>(cacheKey);
     
     if (cachedData) {
@@ -121,25 +373,47 @@ export class AWSService {
       const endDate = timeRange?.end || new Date();
       const startDate = timeRange?.start || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Last 30 days
 
+      const filter = this.buildAccountFilter(options.linkedAccountId);
+      const metric = options.metric || DEFAULT_COST_METRIC;
+
       // Get cost data grouped by service
-      const serviceCostData = await this.getCostByService(startDate, endDate);
+      const serviceCostData = await this.getCostByService(startDate, endDate, metric, filter);
       
-      // Get regional breakdown
-      const regionalData = await this.getCostByRegion(startDate, endDate);
+      // Get regional breakdown (per period, so each region also gets a cost series)
+      const regionalData = await this.getCostByRegion(startDate, endDate, metric, filter, options.granularity);
       
       // Get daily costs for trend analysis
-      const dailyCostData = await this.getDailyCosts(startDate, endDate);
+      const dailyCostData = await this.getDailyCosts(startDate, endDate, metric, filter, options.granularity);
+
+      // Get linked account (AWS Organizations) breakdown
+      const accountData = await this.getCostByAccount(startDate, endDate, metric, filter);
+
+      // Get cost allocation tag breakdowns (one query per tag key)
+      const tagData = new Map<string, GetCostAndUsageCommandOutput>();
+      for (const tagKey of this.tagKeys) {
+        tagData.set(tagKey, await this.getCostByTag(startDate, endDate, tagKey, metric, filter, options.granularity));
+      }
 
       // Transform and combine data
-      const services = await this.transformToServiceCosts(serviceCostData, regionalData, dailyCostData);
+      const services = await this.transformToServiceCosts(serviceCostData, regionalData, dailyCostData, metric, tagData);
       const totalCost = services.reduce((sum, service) => sum + service.totalCost, 0);
+      const accounts = this.addAccountBreakdown(services, accountData, totalCost, metric);
 
       const costData: CostData = {
         services,
         totalCost,
         currency: 'USD',
         lastUpdated: new Date(),
-        budgetAlerts: [] // Will be populated by budget service
+        budgetAlerts: [], // Will be populated by budget service
+        metric,
+        timePeriod: {
+          start: startDate.toISOString().split('T')[0],
+          end: endDate.toISOString().split('T')[0],
+          granularity: options.granularity || 'DAILY'
+        },
+        accounts,
+        ...(options.linkedAccountId && { linkedAccountId: options.linkedAccountId }),
+        provider: 'aws'
       };
 
       // Cache the result
@@ -148,6 +422,10 @@ export class AWSService {
       return costData;
     } catch (error: any) {
       console.error('Failed to fetch AWS cost data:', error);
+
+      if (error instanceof CostExplorerRequestLimitError) {
+        throw error;
+      }
       
       // Handle specific AWS permission errors
       if (error.name === 'AccessDeniedException') {
@@ -162,40 +440,45 @@ export class AWSService {
       if (this.shouldRetry(error)) {
         console.log('Retrying cost data fetch...');
         await this.delay(1000); // Wait 1 second before retry
-        return this.getCostData(timeRange);
+        return this.getCostData(timeRange, options);
       }
       
       throw new Error(`Failed to retrieve cost data from AWS: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async getCostByService(startDate: Date, endDate: Date): Promise<GetCostAndUsageCommandOutput> {
-    const command = new GetCostAndUsageCommand({
+  private async getCostByService(startDate: Date, endDate: Date, metric: CostMetric, filter?: Expression): Promise<GetCostAndUsageCommandOutput> {
+    return this.getAllCostAndUsagePages({
       TimePeriod: {
         Start: startDate.toISOString().split('T')[0],
         End: endDate.toISOString().split('T')[0]
       },
       Granularity: 'MONTHLY',
-      Metrics: ['BlendedCost', 'UnblendedCost', 'UsageQuantity'],
+      Metrics: [metric],
       GroupBy: [
         {
           Type: 'DIMENSION',
           Key: 'SERVICE'
         }
-      ]
+      ],
+      Filter: filter
     });
-
-    return await this.costExplorerClient!.send(command);
   }
 
-  private async getCostByRegion(startDate: Date, endDate: Date): Promise<GetCostAndUsageCommandOutput> {
-    const command = new GetCostAndUsageCommand({
+  private async getCostByRegion(
+    startDate: Date,
+    endDate: Date,
+    metric: CostMetric,
+    filter?: Expression,
+    granularity: 'DAILY' | 'MONTHLY' = 'DAILY'
+  ): Promise<GetCostAndUsageCommandOutput> {
+    return this.getAllCostAndUsagePages({
       TimePeriod: {
         Start: startDate.toISOString().split('T')[0],
         End: endDate.toISOString().split('T')[0]
       },
-      Granularity: 'MONTHLY',
-      Metrics: ['BlendedCost'],
+      Granularity: granularity,
+      Metrics: [metric],
       GroupBy: [
         {
           Type: 'DIMENSION',
@@ -205,35 +488,172 @@ export class AWSService {
           Type: 'DIMENSION',
           Key: 'SERVICE'
         }
-      ]
+      ],
+      Filter: filter
     });
+  }
 
-    return await this.costExplorerClient!.send(command);
+  private async getDailyCosts(
+    startDate: Date,
+    endDate: Date,
+    metric: CostMetric,
+    filter?: Expression,
+    granularity: 'DAILY' | 'MONTHLY' = 'DAILY'
+  ): Promise<GetCostAndUsageCommandOutput> {
+    return this.getAllCostAndUsagePages({
+      TimePeriod: {
+        Start: startDate.toISOString().split('T')[0],
+        End: endDate.toISOString().split('T')[0]
+      },
+      Granularity: granularity,
+      Metrics: [metric],
+      GroupBy: [
+        {
+          Type: 'DIMENSION',
+          Key: 'SERVICE'
+        }
+      ],
+      Filter: filter
+    });
   }
 
-  private async getDailyCosts(startDate: Date, endDate: Date): Promise<GetCostAndUsageCommandOutput> {
-    const command = new GetCostAndUsageCommand({
+  private async getCostByAccount(startDate: Date, endDate: Date, metric: CostMetric, filter?: Expression): Promise<GetCostAndUsageCommandOutput> {
+    return this.getAllCostAndUsagePages({
       TimePeriod: {
         Start: startDate.toISOString().split('T')[0],
         End: endDate.toISOString().split('T')[0]
       },
-      Granularity: 'DAILY',
-      Metrics: ['BlendedCost'],
+      Granularity: 'MONTHLY',
+      Metrics: [metric],
       GroupBy: [
+        {
+          Type: 'DIMENSION',
+          Key: 'LINKED_ACCOUNT'
+        },
         {
           Type: 'DIMENSION',
           Key: 'SERVICE'
         }
-      ]
+      ],
+      Filter: filter
     });
+  }
+
+  // Cost Explorer returns at most one page of groups per call; follow NextPageToken until done
+  private async getAllCostAndUsagePages(input: GetCostAndUsageCommandInput): Promise<GetCostAndUsageCommandOutput> {
+    let result: GetCostAndUsageCommandOutput | undefined;
+    let nextPageToken: string | undefined;
+
+    do {
+      const command = new GetCostAndUsageCommand({
+        ...input,
+        ...(nextPageToken && { NextPageToken: nextPageToken })
+      });
+      const page = await this.trackCostExplorerRequest(() => this.costExplorerClient!.send(command));
 
-    return await this.costExplorerClient!.send(command);
+      if (!result) {
+        result = { ...page };
+      } else {
+        result.ResultsByTime = this.mergeResultsByTime(result.ResultsByTime || [], page.ResultsByTime || []);
+        // Each page only describes the dimension values it contains
+        const knownValues = new Set((result.DimensionValueAttributes || []).map(attribute => attribute.Value));
+        const newAttributes = (page.DimensionValueAttributes || []).filter(attribute => !knownValues.has(attribute.Value));
+        if (newAttributes.length > 0) {
+          result.DimensionValueAttributes = [...(result.DimensionValueAttributes || []), ...newAttributes];
+        }
+      }
+      nextPageToken = page.NextPageToken;
+    } while (nextPageToken);
+
+    return { ...result!, NextPageToken: undefined };
+  }
+
+  // Later pages may continue a time period from the previous page, so append their groups to it
+  private mergeResultsByTime(existing: ResultByTime[], page: ResultByTime[]): ResultByTime[] {
+    const merged = existing.map(result => ({ ...result }));
+
+    for (const result of page) {
+      const match = merged.find(r => r.TimePeriod?.Start === result.TimePeriod?.Start);
+      if (match) {
+        match.Groups = [...(match.Groups || []), ...(result.Groups || [])];
+      } else {
+        merged.push(result);
+      }
+    }
+
+    return merged;
+  }
+
+  private async getAllDimensionValues(input: GetDimensionValuesCommandInput): Promise<DimensionValuesWithAttributes[]> {
+    const values: DimensionValuesWithAttributes[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const command = new GetDimensionValuesCommand({
+        ...input,
+        ...(nextPageToken && { NextPageToken: nextPageToken })
+      });
+      const page = await this.trackCostExplorerRequest(() => this.costExplorerClient!.send(command));
+
+      values.push(...(page.DimensionValues || []));
+      nextPageToken = page.NextPageToken;
+    } while (nextPageToken);
+
+    return values;
+  }
+
+  // Every Cost Explorer call is billed, so record it and enforce the daily cap before sending
+  private async trackCostExplorerRequest<T>(send: () => Promise<T>): Promise<T> {
+    this.requestTracker.track();
+    return send();
+  }
+
+  private buildAccountFilter(linkedAccountId?: string): Expression | undefined {
+    if (!linkedAccountId) return undefined;
+
+    return {
+      Dimensions: {
+        Key: 'LINKED_ACCOUNT',
+        Values: [linkedAccountId]
+      }
+    };
+  }
+
+  private async getCostByTag(
+    startDate: Date,
+    endDate: Date,
+    tagKey: string,
+    metric: CostMetric,
+    filter?: Expression,
+    granularity: 'DAILY' | 'MONTHLY' = 'DAILY'
+  ): Promise<GetCostAndUsageCommandOutput> {
+    return this.getAllCostAndUsagePages({
+      TimePeriod: {
+        Start: startDate.toISOString().split('T')[0],
+        End: endDate.toISOString().split('T')[0]
+      },
+      Granularity: granularity,
+      Metrics: [metric],
+      GroupBy: [
+        {
+          Type: 'TAG',
+          Key: tagKey
+        },
+        {
+          Type: 'DIMENSION',
+          Key: 'SERVICE'
+        }
+      ],
+      Filter: filter
+    });
   }
 
   private async transformToServiceCosts(
     serviceCostData: GetCostAndUsageCommandOutput,
     regionalData: GetCostAndUsageCommandOutput,
-    dailyCostData: GetCostAndUsageCommandOutput
+    dailyCostData: GetCostAndUsageCommandOutput,
+    metric: CostMetric = DEFAULT_COST_METRIC,
+    tagData: Map<string, GetCostAndUsageCommandOutput> = new Map()
   ): Promise<ServiceCost[]> {
     const serviceMap = new Map<string, ServiceCost>();
 
@@ -243,7 +663,7 @@ export class AWSService {
         if (timeResult.Groups) {
           for (const group of timeResult.Groups) {
             const serviceName = group.Keys?.[0] || 'Unknown';
-            const cost = parseFloat(group.Metrics?.['BlendedCost']?.Amount || '0');
+            const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
             
             if (!serviceMap.has(serviceName)) {
               serviceMap.set(serviceName, {
@@ -255,7 +675,8 @@ export class AWSService {
                 regions: [],
                 tags: [],
                 dailyCosts: [],
-                trend: 'stable'
+                trend: 'stable',
+                provider: 'aws'
               });
             }
             
@@ -267,18 +688,154 @@ export class AWSService {
     }
 
     // Add regional breakdown
-    this.addRegionalBreakdown(serviceMap, regionalData);
+    this.addRegionalBreakdown(serviceMap, regionalData, metric);
     
     // Add daily costs and calculate trends
-    this.addDailyCostsAndTrends(serviceMap, dailyCostData);
+    this.addDailyCostsAndTrends(serviceMap, dailyCostData, metric);
+
+    // Add cost allocation tag breakdown
+    this.addTagBreakdown(serviceMap, tagData, metric);
 
     return Array.from(serviceMap.values()).filter(service => service.totalCost > 0);
   }
 
-  private addRegionalBreakdown(serviceMap: Map<string, ServiceCost>, regionalData: GetCostAndUsageCommandOutput): void {
+  private addAccountBreakdown(
+    services: ServiceCost[],
+    accountData: GetCostAndUsageCommandOutput | undefined,
+    totalCost: number,
+    metric: CostMetric
+  ): AccountCost[] {
+    if (!accountData?.ResultsByTime) return [];
+
+    // Account names come back as dimension attributes when grouping by LINKED_ACCOUNT
+    const accountNames = new Map<string, string>();
+    for (const attribute of accountData.DimensionValueAttributes || []) {
+      if (attribute.Value && attribute.Attributes?.description) {
+        accountNames.set(attribute.Value, attribute.Attributes.description);
+      }
+    }
+
+    const serviceAccounts = new Map<string, Map<string, number>>();
+    const accountTotals = new Map<string, number>();
+
+    for (const timeResult of accountData.ResultsByTime) {
+      if (!timeResult.Groups) continue;
+
+      for (const group of timeResult.Groups) {
+        const [accountId, serviceName] = group.Keys || [];
+        const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
+
+        if (!accountId || !serviceName || cost <= 0) continue;
+
+        if (!serviceAccounts.has(serviceName)) {
+          serviceAccounts.set(serviceName, new Map());
+        }
+
+        const accounts = serviceAccounts.get(serviceName)!;
+        accounts.set(accountId, (accounts.get(accountId) || 0) + cost);
+        accountTotals.set(accountId, (accountTotals.get(accountId) || 0) + cost);
+      }
+    }
+
+    const toAccountCosts = (costs: Map<string, number>, total: number): AccountCost[] =>
+      Array.from(costs.entries())
+        .map(([accountId, cost]) => ({
+          accountId,
+          ...(accountNames.has(accountId) && { accountName: accountNames.get(accountId) }),
+          cost,
+          percentage: total > 0 ? (cost / total) * 100 : 0
+        }))
+        .filter(account => account.cost > 0.01)
+        .sort((a, b) => b.cost - a.cost);
+
+    for (const service of services) {
+      const accounts = serviceAccounts.get(service.displayName);
+      if (accounts) {
+        service.accounts = toAccountCosts(accounts, service.totalCost);
+      }
+    }
+
+    return toAccountCosts(accountTotals, totalCost);
+  }
+
+  private addTagBreakdown(serviceMap: Map<string, ServiceCost>, tagData: Map<string, GetCostAndUsageCommandOutput>, metric: CostMetric): void {
+    for (const [tagKey, tagResult] of tagData) {
+      if (!tagResult?.ResultsByTime) continue;
+
+      // serviceName -> tag value -> date -> cost
+      const tagMap = new Map<string, Map<string, Map<string, number>>>();
+
+      for (const timeResult of tagResult.ResultsByTime) {
+        if (!timeResult.Groups) continue;
+        const date = timeResult.TimePeriod?.Start || '';
+
+        for (const group of timeResult.Groups) {
+          const [tagGroupKey, serviceName] = group.Keys || [];
+          const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
+
+          if (!serviceName || !tagGroupKey || cost <= 0) continue;
+
+          const value = this.parseTagValue(tagKey, tagGroupKey);
+
+          if (!tagMap.has(serviceName)) {
+            tagMap.set(serviceName, new Map());
+          }
+
+          const serviceTags = tagMap.get(serviceName)!;
+          if (!serviceTags.has(value)) {
+            serviceTags.set(value, new Map());
+          }
+          this.addToSeries(serviceTags.get(value)!, date, cost);
+        }
+      }
+
+      for (const [serviceName, values] of tagMap) {
+        const service = serviceMap.get(serviceName);
+        if (!service) continue;
+
+        const totalServiceCost = service.totalCost;
+        const tagCosts: TagCost[] = Array.from(values.entries())
+          .map(([value, series]) => {
+            const dailyCosts = this.toDailyCosts(series);
+            const cost = dailyCosts.reduce((sum, day) => sum + day.cost, 0);
+            return {
+              key: tagKey,
+              value,
+              cost,
+              percentage: totalServiceCost > 0 ? (cost / totalServiceCost) * 100 : 0,
+              dailyCosts
+            };
+          })
+          .filter(tag => tag.cost > 0.01)
+          .sort((a, b) => b.cost - a.cost);
+
+        service.tags.push(...tagCosts);
+      }
+    }
+  }
+
+  private addToSeries(series: Map<string, number>, date: string, cost: number): void {
+    series.set(date, (series.get(date) || 0) + cost);
+  }
+
+  private toDailyCosts(series: Map<string, number>): DailyCost[] {
+    return Array.from(series.entries())
+      .map(([date, cost]) => ({ date, cost }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private parseTagValue(tagKey: string, tagGroupKey: string): string {
+    // Cost Explorer returns tag groups as "key$value"; an empty value means the resource is untagged
+    const prefix = `${tagKey}$`;
+    const value = tagGroupKey.startsWith(prefix) ? tagGroupKey.slice(prefix.length) : tagGroupKey;
+    return value.trim() === '' ? UNTAGGED_TAG_VALUE : value;
+  }
+
+  private addRegionalBreakdown(serviceMap: Map<string, ServiceCost>, regionalData: GetCostAndUsageCommandOutput, metric: CostMetric): void {
     if (!regionalData.ResultsByTime) return;
 
-    const regionMap = new Map<string, Map<string, number>>();
+    // serviceName -> region -> date -> cost
+    const regionMap = new Map<string, Map<string, Map<string, number>>>();
     
     // 글로벌 서비스 목록 (리전별 분석이 의미없는 서비스들)
     const globalServices = new Set([
@@ -342,10 +899,12 @@ export class AWSService {
     ]);
 
     for (const timeResult of regionalData.ResultsByTime) {
+      const date = timeResult.TimePeriod?.Start || '';
+
       if (timeResult.Groups) {
         for (const group of timeResult.Groups) {
           const [region, serviceName] = group.Keys || [];
-          const cost = parseFloat(group.Metrics?.['BlendedCost']?.Amount || '0');
+          const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
           
           if (serviceName && region && cost > 0) {
             // 글로벌 서비스는 리전별 분석에서 제외
@@ -379,8 +938,10 @@ export class AWSService {
             }
             
             const serviceRegions = regionMap.get(serviceName)!;
-            const currentCost = serviceRegions.get(region) || 0;
-            serviceRegions.set(region, currentCost + cost);
+            if (!serviceRegions.has(region)) {
+              serviceRegions.set(region, new Map());
+            }
+            this.addToSeries(serviceRegions.get(region)!, date, cost);
           }
         }
       }
@@ -392,18 +953,23 @@ export class AWSService {
       if (service && regions.size > 0) {
         const totalServiceCost = service.totalCost;
         service.regions = Array.from(regions.entries())
-          .map(([region, cost]) => ({
-            region,
-            cost,
-            percentage: totalServiceCost > 0 ? (cost / totalServiceCost) * 100 : 0
-          }))
+          .map(([region, series]) => {
+            const dailyCosts = this.toDailyCosts(series);
+            const cost = dailyCosts.reduce((sum, day) => sum + day.cost, 0);
+            return {
+              region,
+              cost,
+              percentage: totalServiceCost > 0 ? (cost / totalServiceCost) * 100 : 0,
+              dailyCosts
+            };
+          })
           .filter(regionData => regionData.cost > 0.01) // 1센트 이상인 것만
           .sort((a, b) => b.cost - a.cost); // Sort by cost
       }
     }
   }
 
-  private addDailyCostsAndTrends(serviceMap: Map<string, ServiceCost>, dailyCostData: GetCostAndUsageCommandOutput): void {
+  private addDailyCostsAndTrends(serviceMap: Map<string, ServiceCost>, dailyCostData: GetCostAndUsageCommandOutput, metric: CostMetric): void {
     if (!dailyCostData.ResultsByTime) return;
 
     const dailyMap = new Map<string, DailyCost[]>();
@@ -414,7 +980,7 @@ export class AWSService {
       if (timeResult.Groups) {
         for (const group of timeResult.Groups) {
           const serviceName = group.Keys?.[0];
-          const cost = parseFloat(group.Metrics?.['BlendedCost']?.Amount || '0');
+          const cost = parseFloat(group.Metrics?.[metric]?.Amount || '0');
           
           if (serviceName && cost >= 0) {
             if (!dailyMap.has(serviceName)) {
@@ -468,7 +1034,7 @@ export class AWSService {
     }
 
     try {
-      const command = new GetDimensionValuesCommand({
+      const dimensionValues = await this.getAllDimensionValues({
         TimePeriod: {
           Start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
           End: new Date().toISOString().split('T')[0]
@@ -476,14 +1042,290 @@ export class AWSService {
         Dimension: 'SERVICE'
       });
 
-      const result = await this.costExplorerClient.send(command);
-      return result.DimensionValues?.map(dim => dim.Value || '') || [];
+      return dimensionValues.map(dim => dim.Value || '');
     } catch (error) {
       console.error('Failed to get available services:', error);
       return [];
     }
   }
 
+  public async getLinkedAccounts(): Promise<LinkedAccount[]> {
+    if (!this.costExplorerClient) {
+      throw new Error('AWS credentials not validated');
+    }
+
+    const dimensionValues = await this.getAllDimensionValues({
+      TimePeriod: {
+        Start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        End: new Date().toISOString().split('T')[0]
+      },
+      Dimension: 'LINKED_ACCOUNT'
+    });
+
+    return dimensionValues
+      .filter(dim => !!dim.Value)
+      .map(dim => ({
+        accountId: dim.Value!,
+        ...(dim.Attributes?.description && { accountName: dim.Attributes.description })
+      }));
+  }
+
+  // Read every budget defined in AWS Budgets for the validated account
+  public async getAwsBudgets(): Promise<AwsBudgetDefinition[]> {
+    if (!this.budgetsClient || !this.accountId) {
+      throw new Error('AWS credentials not validated');
+    }
+
+    const budgets: AWSBudget[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const command = new DescribeBudgetsCommand({
+        AccountId: this.accountId,
+        MaxResults: 100,
+        ...(nextToken && { NextToken: nextToken })
+      });
+      const response = await this.budgetsClient.send(command);
+      budgets.push(...(response.Budgets || []));
+      nextToken = response.NextToken;
+    } while (nextToken);
+
+    return budgets.map(budget => this.transformAwsBudget(budget));
+  }
+
+  private transformAwsBudget(budget: AWSBudget): AwsBudgetDefinition {
+    const { Service: serviceNames = [], ...costFilters } = budget.CostFilters || {};
+    const limit = budget.BudgetLimit || this.getCurrentPlannedLimit(budget.PlannedBudgetLimits);
+
+    return {
+      name: budget.BudgetName || 'Unnamed budget',
+      budgetType: budget.BudgetType || 'COST',
+      timeUnit: budget.TimeUnit || 'MONTHLY',
+      ...(limit?.Amount && {
+        limit: { amount: parseFloat(limit.Amount), currency: limit.Unit || 'USD' }
+      }),
+      costFilters,
+      services: Array.from(new Set(serviceNames.map(name => this.normalizeServiceName(name))))
+    };
+  }
+
+  // Planned budgets are keyed by period start (epoch seconds); use the latest one already started
+  private getCurrentPlannedLimit(plannedLimits?: AWSBudget['PlannedBudgetLimits']): AWSBudget['BudgetLimit'] {
+    if (!plannedLimits) return undefined;
+
+    const now = Date.now() / 1000;
+    const current = Object.keys(plannedLimits)
+      .filter(start => Number(start) <= now)
+      .sort((a, b) => Number(b) - Number(a))[0];
+
+    return current ? plannedLimits[current] : undefined;
+  }
+
+  // Forecast from today to the end of the month (or the requested number of days)
+  public async getCostForecast(options: AWSForecastOptions = {}): Promise<CostForecast> {
+    if (!this.costExplorerClient) {
+      throw new Error('AWS credentials not validated');
+    }
+
+    const metric = options.metric || DEFAULT_COST_METRIC;
+    const confidenceLevel = options.confidenceLevel ?? DEFAULT_FORECAST_CONFIDENCE;
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = options.days
+      ? new Date(start.getTime() + options.days * 24 * 60 * 60 * 1000)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+    const cacheKey = `forecast-${formatDate(start)}-${formatDate(end)}-${options.service || 'all-services'}-${options.linkedAccountId || 'all-accounts'}-${metric}-${confidenceLevel}`;
+    const cachedForecast = this.cache.get<CostForecast>(cacheKey);
+    if (cachedForecast) {
+      return cachedForecast;
+    }
+
+    const filter = this.buildForecastFilter(options.service, options.linkedAccountId);
+    const forecastCommand = new GetCostForecastCommand({
+      TimePeriod: { Start: formatDate(start), End: formatDate(end) },
+      Metric: FORECAST_METRICS[metric],
+      Granularity: 'DAILY',
+      PredictionIntervalLevel: confidenceLevel,
+      Filter: filter
+    });
+    const forecast = await this.trackCostExplorerRequest(() => this.costExplorerClient!.send(forecastCommand));
+
+    // Spend already incurred this month (nothing yet on the 1st)
+    let actualToDate = 0;
+    if (periodStart < start) {
+      const actual = await this.getAllCostAndUsagePages({
+        TimePeriod: { Start: formatDate(periodStart), End: formatDate(start) },
+        Granularity: 'MONTHLY',
+        Metrics: [metric],
+        Filter: filter
+      });
+      actualToDate = (actual.ResultsByTime || [])
+        .reduce((sum, result) => sum + parseFloat(result.Total?.[metric]?.Amount || '0'), 0);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const points: ForecastPoint[] = (forecast.ForecastResultsByTime || []).map(result => {
+      const mean = parseFloat(result.MeanValue || '0');
+      return {
+        date: result.TimePeriod?.Start || '',
+        mean: round(mean),
+        lower: round(parseFloat(result.PredictionIntervalLowerBound || String(mean))),
+        upper: round(parseFloat(result.PredictionIntervalUpperBound || String(mean)))
+      };
+    });
+    const forecastTotal = sumForecastPoints(points, parseFloat(forecast.Total?.Amount || '0'));
+
+    const costForecast: CostForecast = {
+      mode: 'aws',
+      method: 'aws-cost-explorer',
+      ...(options.service && { service: options.service }),
+      currency: forecast.Total?.Unit || 'USD',
+      confidenceLevel,
+      periodStart: formatDate(periodStart),
+      periodEnd: formatDate(end),
+      actualToDate: round(actualToDate),
+      points,
+      forecastTotal,
+      projectedPeriodTotal: {
+        mean: round(actualToDate + forecastTotal.mean),
+        lower: round(actualToDate + forecastTotal.lower),
+        upper: round(actualToDate + forecastTotal.upper)
+      }
+    };
+
+    this.cache.set(cacheKey, costForecast);
+    return costForecast;
+  }
+
+  private buildForecastFilter(service?: string, linkedAccountId?: string): Expression | undefined {
+    const filters: Expression[] = [];
+    if (service) {
+      filters.push({ Dimensions: { Key: 'SERVICE', Values: [service] } });
+    }
+    const accountFilter = this.buildAccountFilter(linkedAccountId);
+    if (accountFilter) {
+      filters.push(accountFilter);
+    }
+
+    if (filters.length === 0) return undefined;
+    return filters.length === 1 ? filters[0] : { And: filters };
+  }
+
+  /**
+   * Call each API the app uses once and report which are allowed. The three Cost Explorer probes are
+   * billable requests, so the report is cached like cost data unless a refresh is forced
+   */
+  public async getPermissionReport(forceRefresh = false): Promise<AwsPermissionReport> {
+    if (!this.stsClient || !this.costExplorerClient || !this.budgetsClient) {
+      throw new Error('AWS credentials not validated. Please validate credentials first.');
+    }
+
+    const cached = this.cache.get<AwsPermissionReport>(PERMISSION_REPORT_CACHE_KEY);
+    if (cached && !forceRefresh) {
+      return cached;
+    }
+
+    const day = 24 * 60 * 60 * 1000;
+    const yesterday = new Date(Date.now() - day).toISOString().split('T')[0];
+    const today = new Date().toISOString().split('T')[0];
+    const tomorrow = new Date(Date.now() + day).toISOString().split('T')[0];
+
+    const probes: Record<AwsCapability, () => Promise<unknown>> = {
+      identity: () => this.stsClient!.send(new GetCallerIdentityCommand({})),
+      costAndUsage: () => this.trackCostExplorerRequest(() => this.costExplorerClient!.send(new GetCostAndUsageCommand({
+        TimePeriod: { Start: yesterday, End: today },
+        Granularity: 'DAILY',
+        Metrics: ['BlendedCost']
+      }))),
+      dimensionValues: () => this.trackCostExplorerRequest(() => this.costExplorerClient!.send(new GetDimensionValuesCommand({
+        TimePeriod: { Start: yesterday, End: today },
+        Dimension: 'SERVICE',
+        MaxResults: 1
+      }))),
+      forecast: () => this.trackCostExplorerRequest(() => this.costExplorerClient!.send(new GetCostForecastCommand({
+        TimePeriod: { Start: today, End: tomorrow },
+        Granularity: 'DAILY',
+        Metric: 'BLENDED_COST'
+      }))),
+      budgets: () => this.budgetsClient!.send(new DescribeBudgetsCommand({
+        AccountId: this.accountId || undefined,
+        MaxResults: 1
+      }))
+    };
+
+    // Sequential so a shared rate limit is not hit by the probes themselves
+    const checks: AwsPermissionCheck[] = [];
+    for (const capability of AWS_CAPABILITIES) {
+      checks.push({ ...capability, ...await this.runPermissionProbe(capability.capability, probes[capability.capability]) });
+    }
+
+    const missingActions = checks
+      .filter(check => check.status === 'denied')
+      .flatMap(check => check.actions);
+
+    const report: AwsPermissionReport = {
+      accountId: this.accountId,
+      checkedAt: new Date(),
+      checks,
+      allGranted: checks.every(check => check.status === 'granted'),
+      missingActions,
+      minimalPolicy: this.buildMinimalPolicy(missingActions)
+    };
+
+    this.cache.set(PERMISSION_REPORT_CACHE_KEY, report);
+    return report;
+  }
+
+  private async runPermissionProbe(
+    capability: AwsCapability,
+    probe: () => Promise<unknown>
+  ): Promise<Pick<AwsPermissionCheck, 'status' | 'error'>> {
+    try {
+      await probe();
+      return { status: 'granted' };
+    } catch (error: any) {
+      // A new account has nothing to forecast yet, but the call itself was allowed
+      if (capability === 'forecast' && error?.name === 'DataUnavailableException') {
+        return { status: 'granted' };
+      }
+      if (ACCESS_DENIED_ERRORS.has(error?.name) || /not authorized/i.test(error?.message || '')) {
+        return { status: 'denied', error: error.message };
+      }
+      return { status: 'error', error: error?.message || 'Unknown error' };
+    }
+  }
+
+  private buildMinimalPolicy(missingActions: string[]): IamPolicyDocument | null {
+    if (missingActions.length === 0) return null;
+
+    const statements: IamPolicyDocument['Statement'] = [];
+    const costExplorerActions = missingActions.filter(action => action.startsWith('ce:'));
+    const budgetActions = missingActions.filter(action => action.startsWith('budgets:'));
+
+    // Cost Explorer has no resource-level permissions
+    if (costExplorerActions.length > 0) {
+      statements.push({
+        Sid: 'HauntedCostGuardCostExplorer',
+        Effect: 'Allow',
+        Action: costExplorerActions,
+        Resource: '*'
+      });
+    }
+    if (budgetActions.length > 0) {
+      statements.push({
+        Sid: 'HauntedCostGuardBudgets',
+        Effect: 'Allow',
+        Action: budgetActions,
+        Resource: this.accountId ? `arn:aws:budgets::${this.accountId}:budget/*` : '*'
+      });
+    }
+
+    return { Version: '2012-10-17', Statement: statements };
+  }
+
   public async testConnection(): Promise<boolean> {
     try {
       if (!this.costExplorerClient) {
@@ -500,7 +1342,7 @@ export class AWSService {
         Metrics: ['BlendedCost']
       });
 
-      await this.costExplorerClient.send(command);
+      await this.trackCostExplorerRequest(() => this.costExplorerClient!.send(command));
       return true;
     } catch (error) {
       console.error('AWS connection test failed:', error);
@@ -514,6 +1356,11 @@ export class AWSService {
     console.log('Cost data cache cleared, next request will fetch fresh data');
   }
 
+  // Stop the cache's expiry timer once the owning session ends
+  public dispose(): void {
+    this.cache.close();
+  }
+
   private shouldRetry(error: any): boolean {
     // Retry on throttling or temporary network errors
     if (error?.name === 'ThrottlingException' || 
@@ -537,4 +1384,9 @@ export class AWSService {
       misses: stats.misses
     };
   }
-}
\ No newline at end of file
+
+  public getRequestLedger(): CostExplorerRequestLedger {
+    return this.requestTracker.getLedger();
+  }
+}
+
@@ -0,0 +1,86 @@
+import { Budget, CostPeriod } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks in each month of a 4-4-5 quarter
+const WEEKS_445 = [4, 4, 5];
+
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+type BudgetCalendarSettings = Pick<Budget, 'period' | 'fiscalYearStartMonth' | 'calendar'>;
+
+const parseDate = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+const formatDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Whole days from start up to (not including) end
+ */
+export const daysBetween = (start: string, end: string): number =>
+  Math.max(0, Math.round((parseDate(end) - parseDate(start)) / DAY_MS));
+
+export const addDays = (date: string, days: number): string => formatDate(parseDate(date) + days * DAY_MS);
+
+/**
+ * The budget period containing a day, end exclusive. Quarters and years start on the budget's
+ * fiscal year start month; 4-4-5 budgets use the retail calendar instead of calendar months
+ */
+export const getBudgetPeriod = (budget: BudgetCalendarSettings, asOf: string): CostPeriod => {
+  const startMonth = budget.fiscalYearStartMonth ?? DEFAULT_FISCAL_YEAR_START_MONTH;
+  return budget.calendar === '4-4-5'
+    ? getRetailPeriod(budget.period, startMonth, parseDate(asOf))
+    : getGregorianPeriod(budget.period, startMonth, new Date(parseDate(asOf)));
+};
+
+const getGregorianPeriod = (period: Budget['period'], startMonth: number, date: Date): CostPeriod => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const monthsIntoYear = (month - (startMonth - 1) + 12) % 12;
+
+  // Date.UTC rolls month overflow into the neighbouring years
+  const [firstMonth, length] = period === 'monthly'
+    ? [month, 1]
+    : period === 'quarterly'
+      ? [month - (monthsIntoYear % 3), 3]
+      : [month - monthsIntoYear, 12];
+
+  return {
+    start: formatDate(Date.UTC(year, firstMonth, 1)),
+    end: formatDate(Date.UTC(year, firstMonth + length, 1))
+  };
+};
+
+// A 4-4-5 fiscal year starts on the Sunday nearest the first of its start month, so it runs
+// 52 weeks, or 53 when the drift adds up; the extra week goes to the last month
+const getRetailYearStart = (year: number, startMonth: number): number => {
+  const first = Date.UTC(year, startMonth - 1, 1);
+  const weekday = new Date(first).getUTCDay();
+  return first + (weekday <= 3 ? -weekday : 7 - weekday) * DAY_MS;
+};
+
+const getRetailPeriod = (period: Budget['period'], startMonth: number, time: number): CostPeriod => {
+  let year = new Date(time).getUTCFullYear();
+  if (time < getRetailYearStart(year, startMonth)) year--;
+  else if (time >= getRetailYearStart(year + 1, startMonth)) year++;
+
+  const yearStart = getRetailYearStart(year, startMonth);
+  const yearEnd = getRetailYearStart(year + 1, startMonth);
+  if (period === 'yearly') {
+    return { start: formatDate(yearStart), end: formatDate(yearEnd) };
+  }
+
+  const extraWeek = Math.round((yearEnd - yearStart) / DAY_MS) > 52 * 7 ? 1 : 0;
+  const monthWeeks = Array.from({ length: 12 }, (_, index) => WEEKS_445[index % 3] + (index === 11 ? extraWeek : 0));
+  const monthsPerPeriod = period === 'quarterly' ? 3 : 1;
+
+  let start = yearStart;
+  for (let index = 0; index < 12; index += monthsPerPeriod) {
+    const weeks = monthWeeks.slice(index, index + monthsPerPeriod).reduce((sum, count) => sum + count, 0);
+    const end = start + weeks * 7 * DAY_MS;
+    if (time < end) {
+      return { start: formatDate(start), end: formatDate(end) };
+    }
+    start = end;
+  }
+  return { start: formatDate(yearStart), end: formatDate(yearEnd) };
+};
@@ -1,24 +1,51 @@
-import { Budget, BudgetUtilization, BudgetNotification, ServiceCost } from '../types';
+import {
+  Budget,
+  BudgetUtilization,
+  BudgetNotification,
+  ServiceCost,
+  AwsBudgetDefinition,
+  BudgetImportItem,
+  BudgetImportResult,
+  BudgetPeriodWindow,
+  CostPeriod
+} from '../types';
+import { forecastService } from './forecastService';
+import { addDays, daysBetween, getBudgetPeriod } from './budgetPeriods';
+import { BudgetStore, createBudgetStore } from './budgetStore';
+
+const AWS_BUDGET_PERIODS: Record<string, Budget['period']> = {
+  MONTHLY: 'monthly',
+  QUARTERLY: 'quarterly',
+  ANNUALLY: 'yearly'
+};
+
+const DEFAULT_ALERT_THRESHOLDS = [50, 80, 100];
+
+export interface BudgetUtilizationOptions {
+  asOf?: string; // YYYY-MM-DD day whose budget period is measured; defaults to the last day of cost data
+  costPeriod?: CostPeriod; // Window the cost data covers; without it the costs are taken as complete
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
 
 export class BudgetService {
-  private budgets: Map<string, Budget> = new Map();
-  private notifications: BudgetNotification[] = [];
+  constructor(private store: BudgetStore = createBudgetStore()) {}
 
   // Get all budgets for an account
   public getBudgets(accountId: string): Budget[] {
-    return Array.from(this.budgets.values())
+    return this.store.getBudgets()
       .filter(budget => budget.accountId === accountId);
   }
 
   // Get budget for a specific service
   public getBudgetByService(accountId: string, service: string): Budget | null {
-    return Array.from(this.budgets.values())
+    return this.store.getBudgets()
       .find(budget => budget.accountId === accountId && budget.service === service) || null;
   }
 
   // Create or update a budget
   public saveBudget(budget: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Budget {
-    const existingBudget = Array.from(this.budgets.values())
+    const existingBudget = this.store.getBudgets()
       .find(b => b.accountId === budget.accountId && b.service === budget.service);
 
     if (existingBudget) {
@@ -28,7 +55,7 @@ export class BudgetService {
         ...budget,
         updatedAt: new Date()
       };
-      this.budgets.set(updatedBudget.id, updatedBudget);
+      this.store.putBudget(updatedBudget);
       return updatedBudget;
     } else {
       // Create new budget
@@ -38,35 +65,119 @@ export class BudgetService {
         createdAt: new Date(),
         updatedAt: new Date()
       };
-      this.budgets.set(newBudget.id, newBudget);
+      this.store.putBudget(newBudget);
       return newBudget;
     }
   }
 
   // Delete a budget
   public deleteBudget(budgetId: string): boolean {
-    return this.budgets.delete(budgetId);
+    return this.store.deleteBudget(budgetId);
   }
 
-  // Calculate budget utilization for services
-  public calculateUtilization(services: ServiceCost[], accountId: string): BudgetUtilization[] {
+  // Map AWS Budgets onto budgets for an account; a dry run only previews the changes
+  public importAwsBudgets(awsBudgets: AwsBudgetDefinition[], accountId: string, dryRun = false): BudgetImportResult {
+    const items: BudgetImportItem[] = [];
+    const claimedServices = new Set<string>();
+
+    for (const awsBudget of awsBudgets) {
+      const skip = (reason: string) => items.push({ budgetName: awsBudget.name, status: 'skipped', reason });
+      const period = AWS_BUDGET_PERIODS[awsBudget.timeUnit];
+
+      if (awsBudget.budgetType !== 'COST') {
+        skip(`${awsBudget.budgetType} budgets are not supported, only COST budgets`);
+        continue;
+      }
+      if (!period) {
+        skip(`${awsBudget.timeUnit} budgets are not supported`);
+        continue;
+      }
+      if (!awsBudget.limit) {
+        skip('Budget has no current limit');
+        continue;
+      }
+      // Utilization is measured per service, so anything wider or narrower would never be evaluated
+      if (awsBudget.services.length === 0) {
+        skip('Account-wide budgets are not supported; only single-service budgets can be imported');
+        continue;
+      }
+      if (awsBudget.services.length > 1) {
+        skip(`Budget covers ${awsBudget.services.length} services; only single-service budgets can be imported`);
+        continue;
+      }
+      const filterKeys = Object.keys(awsBudget.costFilters);
+      if (filterKeys.length > 0) {
+        skip(`Cost filters other than Service are not supported (${filterKeys.join(', ')})`);
+        continue;
+      }
+
+      // Budgets are unique per service, so the first AWS budget for a service wins
+      const service = awsBudget.services[0];
+      if (claimedServices.has(service)) {
+        skip(`Another AWS budget already maps to ${service}`);
+        continue;
+      }
+      claimedServices.add(service);
+
+      // Keep the alert thresholds of a budget that is being replaced
+      const existing = this.store.getBudgets()
+        .find(b => b.accountId === accountId && b.service === service);
+      const budget: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'> = {
+        accountId,
+        service,
+        amount: awsBudget.limit.amount,
+        currency: awsBudget.limit.currency,
+        period,
+        alertThresholds: existing?.alertThresholds || DEFAULT_ALERT_THRESHOLDS,
+        name: awsBudget.name,
+        source: 'aws-budgets'
+      };
+
+      items.push({
+        budgetName: awsBudget.name,
+        status: existing ? 'updated' : 'created',
+        budget: dryRun ? budget : this.saveBudget(budget)
+      });
+    }
+
+    return {
+      accountId,
+      dryRun,
+      created: items.filter(item => item.status === 'created').length,
+      updated: items.filter(item => item.status === 'updated').length,
+      skipped: items.filter(item => item.status === 'skipped').length,
+      items
+    };
+  }
+
+  // Calculate budget utilization for services over each budget's current period
+  public calculateUtilization(
+    services: ServiceCost[],
+    accountId: string,
+    options: BudgetUtilizationOptions = {}
+  ): BudgetUtilization[] {
     const budgets = this.getBudgets(accountId);
     const utilizations: BudgetUtilization[] = [];
+    const asOf = options.asOf || this.getLastCostDate(services, options.costPeriod);
 
     for (const service of services) {
       const budget = budgets.find(b => b.service === service.service);
       
       if (budget) {
-        const utilizationPercentage = (service.totalCost / budget.amount) * 100;
+        const budgetPeriod = this.getPeriodWindow(budget, asOf, options.costPeriod);
+        const currentCost = this.getCostInPeriod(service, budgetPeriod, options.costPeriod);
+        const budgetAmount = roundCents(budget.amount * budgetPeriod.prorationFactor);
+        const utilizationPercentage = budgetAmount > 0 ? (currentCost / budgetAmount) * 100 : 0;
         const alertLevel = this.determineAlertLevel(utilizationPercentage, budget.alertThresholds);
         
         utilizations.push({
           service: service.service,
-          currentCost: service.totalCost,
-          budgetAmount: budget.amount,
+          currentCost,
+          budgetAmount,
           utilizationPercentage,
           alertLevel,
-          projectedCost: this.calculateProjectedCost(service)
+          projectedCost: this.calculateProjectedCost(service, currentCost, budgetPeriod),
+          budgetPeriod
         });
       } else {
         // No budget set - use default thresholds
@@ -83,35 +194,41 @@ export class BudgetService {
     return utilizations;
   }
 
-  // Generate budget alerts based on current utilization
-  public generateAlerts(utilizations: BudgetUtilization[]): BudgetNotification[] {
+  // Generate budget alerts based on current utilization of an account's budgets. Each budget alerts
+  // once per threshold per period, so reloading utilization returns only newly crossed thresholds
+  public generateAlerts(utilizations: BudgetUtilization[], accountId: string): BudgetNotification[] {
+    const existing = new Set(this.store.getNotifications().map(notification => this.getNotificationKey(notification)));
     const alerts: BudgetNotification[] = [];
 
     for (const utilization of utilizations) {
       if (utilization.alertLevel !== 'safe') {
-        const budget = Array.from(this.budgets.values())
-          .find(b => b.service === utilization.service);
+        const budget = this.getBudgetByService(accountId, utilization.service);
 
         if (budget) {
-          const message = this.generateAlertMessage(utilization);
-          const severity = utilization.alertLevel === 'critical' || utilization.alertLevel === 'over_budget' 
-            ? 'critical' : 'warning';
-
-          alerts.push({
+          const alert: BudgetNotification = {
             id: this.generateId(),
             budgetId: budget.id,
             service: utilization.service,
-            message,
-            severity,
+            periodStart: utilization.budgetPeriod?.start || getBudgetPeriod(budget, new Date().toISOString().slice(0, 10)).start,
+            threshold: this.getCrossedThreshold(utilization.utilizationPercentage, budget.alertThresholds),
+            message: this.generateAlertMessage(utilization),
+            severity: utilization.alertLevel === 'critical' || utilization.alertLevel === 'over_budget'
+              ? 'critical' : 'warning',
             timestamp: new Date(),
             acknowledged: false
-          });
+          };
+
+          const key = this.getNotificationKey(alert);
+          if (!existing.has(key)) {
+            existing.add(key);
+            alerts.push(alert);
+          }
         }
       }
     }
 
     // Store new notifications
-    this.notifications.push(...alerts);
+    this.store.putNotifications(alerts);
     return alerts;
   }
 
@@ -120,16 +237,16 @@ export class BudgetService {
     const budgets = this.getBudgets(accountId);
     const budgetIds = budgets.map(b => b.id);
     
-    return this.notifications.filter(notification => 
+    return this.store.getNotifications().filter(notification => 
       budgetIds.includes(notification.budgetId)
     );
   }
 
   // Acknowledge a notification
   public acknowledgeNotification(notificationId: string): boolean {
-    const notification = this.notifications.find(n => n.id === notificationId);
+    const notification = this.store.getNotifications().find(n => n.id === notificationId);
     if (notification) {
-      notification.acknowledged = true;
+      this.store.putNotification({ ...notification, acknowledged: true });
       return true;
     }
     return false;
@@ -195,6 +312,17 @@ export class BudgetService {
     demoBudgets.forEach(budget => this.saveBudget(budget));
   }
 
+  // The highest alert threshold the utilization reached, matching determineAlertLevel
+  private getCrossedThreshold(utilizationPercentage: number, thresholds: number[]): number {
+    if (utilizationPercentage >= 100) return 100;
+    return [thresholds[2] || 100, thresholds[1] || 80, thresholds[0] || 50]
+      .find(threshold => utilizationPercentage >= threshold) ?? 0;
+  }
+
+  private getNotificationKey(notification: BudgetNotification): string {
+    return [notification.budgetId, notification.periodStart, notification.threshold].join('|');
+  }
+
   private determineAlertLevel(utilizationPercentage: number, thresholds: number[]): 'safe' | 'warning' | 'critical' | 'over_budget' {
     if (utilizationPercentage >= 100) return 'over_budget';
     if (utilizationPercentage >= (thresholds[2] || 100)) return 'critical';
@@ -203,23 +331,51 @@ export class BudgetService {
     return 'safe';
   }
 
-  private calculateProjectedCost(service: ServiceCost): number {
-    // Simple projection based on trend
-    const currentCost = service.totalCost;
-    const dailyCosts = service.dailyCosts;
-    
-    if (dailyCosts.length < 2) return currentCost;
-    
-    // Calculate average daily growth
-    const recentCosts = dailyCosts.slice(-7); // Last 7 days
-    const avgDailyGrowth = recentCosts.reduce((sum, cost, index) => {
-      if (index === 0) return 0;
-      return sum + (cost.cost - recentCosts[index - 1].cost);
-    }, 0) / (recentCosts.length - 1);
-
-    // Project for rest of month (assuming 30 days)
-    const daysRemaining = 30 - dailyCosts.length;
-    return currentCost + (avgDailyGrowth * daysRemaining);
+  private calculateProjectedCost(service: ServiceCost, currentCost: number, budgetPeriod: BudgetPeriodWindow): number {
+    // Project to the end of the budget period using the forecast model
+    const history = service.dailyCosts.filter(day => day.date < budgetPeriod.costEnd);
+    return forecastService.projectThrough(currentCost, history, budgetPeriod.end);
+  }
+
+  // The day the budget periods are measured at: the end of the cost window, else the latest daily cost
+  private getLastCostDate(services: ServiceCost[], costPeriod?: CostPeriod): string {
+    if (costPeriod) return addDays(costPeriod.end, -1);
+
+    const dates = services.flatMap(service => service.dailyCosts.map(day => day.date)).sort();
+    return dates.length > 0 ? dates[dates.length - 1] : new Date().toISOString().slice(0, 10);
+  }
+
+  // Clip the budget period to the cost data. When the data starts after the period does, the
+  // missing days are unknown rather than free, so only that share of the budget is compared against
+  private getPeriodWindow(budget: Budget, asOf: string, costPeriod?: CostPeriod): BudgetPeriodWindow {
+    const period = getBudgetPeriod(budget, asOf);
+    const dataEnd = costPeriod?.end || addDays(asOf, 1);
+    const costStart = costPeriod && costPeriod.start > period.start ? costPeriod.start : period.start;
+    const costEnd = dataEnd < period.end ? dataEnd : period.end;
+    const coveredDays = daysBetween(costStart, costEnd);
+
+    return {
+      start: period.start,
+      end: period.end,
+      costStart,
+      costEnd: costEnd > costStart ? costEnd : costStart,
+      prorationFactor: costStart > period.start ? coveredDays / daysBetween(period.start, period.end) : 1
+    };
+  }
+
+  // Sum the daily costs inside the window; services with only a total get the overlapping share of it
+  private getCostInPeriod(service: ServiceCost, budgetPeriod: BudgetPeriodWindow, costPeriod?: CostPeriod): number {
+    if (service.dailyCosts.length > 0) {
+      return roundCents(service.dailyCosts
+        .filter(day => day.date >= budgetPeriod.costStart && day.date < budgetPeriod.costEnd)
+        .reduce((sum, day) => sum + day.cost, 0));
+    }
+    if (!costPeriod) return service.totalCost;
+
+    const costDays = daysBetween(costPeriod.start, costPeriod.end);
+    return costDays > 0
+      ? roundCents(service.totalCost * daysBetween(budgetPeriod.costStart, budgetPeriod.costEnd) / costDays)
+      : 0;
   }
 
   private generateAlertMessage(utilization: BudgetUtilization): string {
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { Budget, BudgetNotification } from '../types';
+
+// Storage behind BudgetService; implementations must return copies, not live objects
+export interface BudgetStore {
+  getBudgets(): Budget[];
+  putBudget(budget: Budget): void;
+  deleteBudget(budgetId: string): boolean;
+  getNotifications(): BudgetNotification[];
+  putNotification(notification: BudgetNotification): void;
+  putNotifications(notifications: BudgetNotification[]): void; // One write for the whole batch
+}
+
+export interface BudgetStoreFile {
+  version: number;
+  budgets: Budget[];
+  notifications: BudgetNotification[];
+}
+
+// Migration i upgrades a file from version i to version i + 1
+export const BUDGET_STORE_MIGRATIONS: Array<(data: any) => any> = [
+  // 0 -> 1: unversioned files held a bare array of budgets
+  (data) => ({
+    budgets: Array.isArray(data) ? data : data?.budgets || [],
+    notifications: data?.notifications || []
+  }),
+  // 1 -> 2: budgets created before AWS Budgets import have no source
+  (data) => ({
+    ...data,
+    budgets: data.budgets.map((budget: Budget) => ({ source: 'manual', ...budget }))
+  })
+];
+
+export const BUDGET_STORE_VERSION = BUDGET_STORE_MIGRATIONS.length;
+
+export const DEFAULT_BUDGET_STORE_PATH = path.join('data', 'budgets.json');
+
+export class InMemoryBudgetStore implements BudgetStore {
+  protected budgets: Map<string, Budget> = new Map();
+  protected notifications: BudgetNotification[] = [];
+
+  public getBudgets(): Budget[] {
+    return Array.from(this.budgets.values()).map(budget => ({ ...budget }));
+  }
+
+  public putBudget(budget: Budget): void {
+    this.budgets.set(budget.id, { ...budget });
+  }
+
+  public deleteBudget(budgetId: string): boolean {
+    return this.budgets.delete(budgetId);
+  }
+
+  public getNotifications(): BudgetNotification[] {
+    return this.notifications.map(notification => ({ ...notification }));
+  }
+
+  public putNotification(notification: BudgetNotification): void {
+    this.upsertNotification(notification);
+  }
+
+  public putNotifications(notifications: BudgetNotification[]): void {
+    notifications.forEach(notification => this.upsertNotification(notification));
+  }
+
+  protected upsertNotification(notification: BudgetNotification): void {
+    const index = this.notifications.findIndex(n => n.id === notification.id);
+    if (index >= 0) {
+      this.notifications[index] = { ...notification };
+    } else {
+      this.notifications.push({ ...notification });
+    }
+  }
+}
+
+// Keeps everything in memory and rewrites the JSON file after every change
+export class JsonFileBudgetStore extends InMemoryBudgetStore {
+  constructor(private filePath: string = DEFAULT_BUDGET_STORE_PATH) {
+    super();
+    this.load();
+  }
+
+  public putBudget(budget: Budget): void {
+    super.putBudget(budget);
+    this.persist();
+  }
+
+  public deleteBudget(budgetId: string): boolean {
+    const deleted = super.deleteBudget(budgetId);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  public putNotification(notification: BudgetNotification): void {
+    super.putNotification(notification);
+    this.persist();
+  }
+
+  public putNotifications(notifications: BudgetNotification[]): void {
+    if (notifications.length === 0) return;
+    super.putNotifications(notifications);
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    const { data, migrated } = this.migrate(raw);
+
+    data.budgets.forEach(budget => this.budgets.set(budget.id, {
+      ...budget,
+      createdAt: new Date(budget.createdAt),
+      updatedAt: new Date(budget.updatedAt)
+    }));
+    this.notifications = data.notifications.map(notification => ({
+      ...notification,
+      timestamp: new Date(notification.timestamp)
+    }));
+
+    if (migrated) this.persist();
+  }
+
+  private migrate(raw: any): { data: BudgetStoreFile; migrated: boolean } {
+    const fromVersion = typeof raw?.version === 'number' ? raw.version : 0;
+    if (fromVersion > BUDGET_STORE_VERSION) {
+      throw new Error(`Budget store ${this.filePath} has version ${fromVersion}; this build supports up to ${BUDGET_STORE_VERSION}`);
+    }
+
+    let data = raw;
+    for (let version = fromVersion; version < BUDGET_STORE_VERSION; version++) {
+      data = BUDGET_STORE_MIGRATIONS[version](data);
+    }
+
+    return {
+      data: { ...data, version: BUDGET_STORE_VERSION },
+      migrated: fromVersion !== BUDGET_STORE_VERSION
+    };
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  private persist(): void {
+    const file: BudgetStoreFile = {
+      version: BUDGET_STORE_VERSION,
+      budgets: Array.from(this.budgets.values()),
+      notifications: this.notifications
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Tests and BUDGET_STORE=memory use the in-memory store; everything else persists to disk
+export const createBudgetStore = (): BudgetStore => {
+  if (process.env.NODE_ENV === 'test' || process.env.BUDGET_STORE === 'memory') {
+    return new InMemoryBudgetStore();
+  }
+  return new JsonFileBudgetStore(process.env.BUDGET_STORE_PATH || DEFAULT_BUDGET_STORE_PATH);
+};
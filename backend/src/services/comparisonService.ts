@@ -0,0 +1,103 @@
+import {
+  CostComparison,
+  CostData,
+  CostDelta,
+  CostPeriod,
+  RegionCostDelta,
+  ServiceCostDelta,
+  TagCostDelta
+} from '../types';
+
+type CostEntry = { cost: number };
+
+const tagKey = (tag: { key: string; value: string }): string => `${tag.key}=${tag.value}`;
+
+export class ComparisonService {
+  /**
+   * Per-service, per-region and per-tag changes between two periods' cost data
+   */
+  public compareCostData(base: CostData, target: CostData, periods: { base: CostPeriod; target: CostPeriod }): CostComparison {
+    const baseServices = new Map(base.services.map(service => [service.service, service]));
+    const targetServices = new Map(target.services.map(service => [service.service, service]));
+    const keys = Array.from(new Set([...baseServices.keys(), ...targetServices.keys()]));
+
+    const services: ServiceCostDelta[] = keys.map(key => {
+      const before = baseServices.get(key);
+      const after = targetServices.get(key);
+      const delta = this.delta(before?.totalCost || 0, after?.totalCost || 0);
+
+      return {
+        service: key,
+        displayName: (after || before)!.displayName,
+        ...delta,
+        status: this.getStatus(delta),
+        regions: this.compareEntries(before?.regions || [], after?.regions || [], region => region.region)
+          .map(([region, entry]): RegionCostDelta => ({ region, ...entry })),
+        tags: this.compareEntries(before?.tags || [], after?.tags || [], tagKey)
+          .map(([, entry, tag]): TagCostDelta => ({ key: tag.key, value: tag.value, ...entry }))
+      };
+    }).sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+    const allRegions = (data: CostData) => data.services.flatMap(service => service.regions);
+    const allTags = (data: CostData) => data.services.flatMap(service => service.tags);
+
+    return {
+      base: periods.base,
+      target: periods.target,
+      currency: target.currency,
+      total: this.delta(base.totalCost, target.totalCost),
+      services,
+      regions: this.compareEntries(allRegions(base), allRegions(target), region => region.region)
+        .map(([region, entry]): RegionCostDelta => ({ region, ...entry })),
+      tags: this.compareEntries(allTags(base), allTags(target), tagKey)
+        .map(([, entry, tag]): TagCostDelta => ({ key: tag.key, value: tag.value, ...entry })),
+      newServices: services.filter(service => service.status === 'new').map(service => service.service),
+      disappearedServices: services.filter(service => service.status === 'disappeared').map(service => service.service)
+    };
+  }
+
+  // Sum entries sharing a key on each side, then diff them, largest absolute change first
+  private compareEntries<T extends CostEntry>(
+    before: T[],
+    after: T[],
+    getKey: (entry: T) => string
+  ): Array<[string, CostDelta, T]> {
+    const totals = new Map<string, { base: number; target: number; sample: T }>();
+    const add = (entries: T[], side: 'base' | 'target') => entries.forEach(entry => {
+      const key = getKey(entry);
+      const total = totals.get(key) || { base: 0, target: 0, sample: entry };
+      total[side] += entry.cost;
+      totals.set(key, total);
+    });
+    add(before, 'base');
+    add(after, 'target');
+
+    return Array.from(totals.entries())
+      .map(([key, total]): [string, CostDelta, T] => [key, this.delta(total.base, total.target), total.sample])
+      .sort((a, b) => Math.abs(b[1].change) - Math.abs(a[1].change));
+  }
+
+  private delta(baseCost: number, targetCost: number): CostDelta {
+    const change = targetCost - baseCost;
+    return {
+      baseCost: this.round(baseCost),
+      targetCost: this.round(targetCost),
+      change: this.round(change),
+      changePercentage: baseCost > 0 ? this.round((change / baseCost) * 100) : null
+    };
+  }
+
+  // Cents that round away are not a change worth flagging
+  private getStatus(delta: CostDelta): ServiceCostDelta['status'] {
+    if (delta.baseCost === 0 && delta.targetCost > 0) return 'new';
+    if (delta.baseCost > 0 && delta.targetCost === 0) return 'disappeared';
+    return delta.change === 0 ? 'unchanged' : 'changed';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const comparisonService = new ComparisonService();
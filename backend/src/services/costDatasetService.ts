@@ -0,0 +1,132 @@
+import { CSVFormat, CostData, CostDataset, CostPeriod, CostRecord, DatasetImport } from '../types';
+import { CSVUploadService } from './csvUploadService';
+import { DatasetStore, createDatasetStore } from './datasetStore';
+
+export interface DatasetImportDetails {
+  id: string;
+  fileName: string;
+  format: CSVFormat;
+  rowsProcessed: number;
+  currency: string;
+  accountId?: string; // For files that do not say which account they cover
+}
+
+// The cell a record belongs to. A file may hold several records per cell, one for each set of tags
+const recordKey = (record: CostRecord): string =>
+  [record.date, record.service, record.region, record.accountId].join('|');
+
+// Merges billing files into named datasets. Files are layered in import order: where two files
+// cover the same date, service, region and account, the later one replaces all of the earlier
+// one's records for that cell, so re-uploading a month or overlapping exports never double count
+// even when the tags changed in between
+export class CostDatasetService {
+  constructor(
+    private store: DatasetStore = createDatasetStore(),
+    private csvUploadService: CSVUploadService = new CSVUploadService()
+  ) {}
+
+  public listDatasets(): CostDataset[] {
+    return this.store.list().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public getDataset(name: string): CostDataset | null {
+    return this.store.get(name);
+  }
+
+  /**
+   * Add an imported file's cells to a dataset, creating the dataset if needed
+   */
+  public addImport(name: string, details: DatasetImportDetails, records: CostRecord[]): DatasetImport {
+    const now = new Date();
+    const dataset = this.store.get(name) || { name, createdAt: now, updatedAt: now, imports: [] };
+
+    const fileRecords = records.map(record => ({
+      ...record,
+      accountId: record.accountId || details.accountId || ''
+    }));
+
+    const existingKeys = new Set(this.mergeRecords(dataset).map(recordKey));
+    const dates = fileRecords.map(record => record.date).filter(date => date).sort();
+
+    const entry: DatasetImport = {
+      id: details.id,
+      fileName: details.fileName,
+      format: details.format,
+      status: 'active',
+      importedAt: now,
+      ...(details.accountId && { accountId: details.accountId }),
+      currency: details.currency,
+      rowsProcessed: details.rowsProcessed,
+      recordCount: fileRecords.length,
+      totalCost: fileRecords.reduce((sum, record) => sum + record.cost, 0),
+      ...(dates.length > 0 && { dateRange: { start: dates[0], end: dates[dates.length - 1] } }),
+      replacedRecords: fileRecords.filter(record => existingKeys.has(recordKey(record))).length
+    };
+
+    this.store.putRecords(entry.id, fileRecords);
+    dataset.imports.push(entry);
+    dataset.updatedAt = now;
+    this.store.put(dataset);
+
+    return entry;
+  }
+
+  /**
+   * Take a file back out of a dataset. Cells it had replaced come back from the earlier files;
+   * the entry stays in the history. Returns null if the dataset or import does not exist
+   */
+  public rollbackImport(name: string, importId: string): CostDataset | null {
+    const dataset = this.store.get(name);
+    const entry = dataset?.imports.find(candidate => candidate.id === importId);
+    if (!dataset || !entry) return null;
+
+    if (entry.status === 'active') {
+      const now = new Date();
+      entry.status = 'rolled-back';
+      entry.rolledBackAt = now;
+      dataset.updatedAt = now;
+      this.store.put(dataset);
+      this.store.deleteRecords(importId);
+    }
+
+    return dataset;
+  }
+
+  public deleteDataset(name: string): boolean {
+    return this.store.delete(name);
+  }
+
+  /**
+   * Cost data for the dataset's active imports, optionally limited to a period,
+   * or null if there is no such dataset
+   */
+  public getCostData(name: string, period?: CostPeriod): CostData | null {
+    const dataset = this.store.get(name);
+    if (!dataset) return null;
+
+    const active = dataset.imports.filter(entry => entry.status === 'active');
+    const currency = active.length > 0 ? active[active.length - 1].currency : 'USD';
+    const records = this.mergeRecords(dataset)
+      .filter(record => !period || (record.date >= period.start && record.date < period.end));
+    return this.csvUploadService.buildCostDataFromRecords(records, currency);
+  }
+
+  // Layer the active imports oldest first so later files win whole cells
+  private mergeRecords(dataset: CostDataset): CostRecord[] {
+    const merged = new Map<string, CostRecord[]>();
+    for (const entry of dataset.imports) {
+      if (entry.status !== 'active') continue;
+      const cells = new Map<string, CostRecord[]>();
+      for (const record of this.store.getRecords(entry.id)) {
+        const key = recordKey(record);
+        if (!cells.has(key)) cells.set(key, []);
+        cells.get(key)!.push(record);
+      }
+      cells.forEach((records, key) => merged.set(key, records));
+    }
+    return Array.from(merged.values()).flat();
+  }
+}
+
+// Singleton instance
+export const costDatasetService = new CostDatasetService();
@@ -0,0 +1,198 @@
+import { CostData, CostHistory, CostSnapshot, DailyCost } from '../types';
+import { SnapshotStore, createSnapshotStore } from './snapshotStore';
+import { sessionService } from './sessionService';
+import { costDatasetService } from './costDatasetService';
+
+// Gathers the cost data to snapshot; each entry's source names where it came from
+export type SnapshotCollector = () => Promise<Array<{ source: string; costData: CostData }>>;
+
+export interface CostHistoryOptions {
+  service?: string; // Service key or display name
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, exclusive
+}
+
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_RETENTION_DAYS = 400;
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isNaN(value) ? fallback : value;
+};
+
+export const awsSnapshotSource = (accountId: string): string => `aws:${accountId}`;
+
+export const datasetSnapshotSource = (name: string): string => `dataset:${name}`;
+
+// Cost Explorer only looks back about a year and the response cache lasts minutes, so this keeps one
+// snapshot per data source and day. History is rebuilt from them: each day's cost comes from the latest
+// snapshot that covers it, so late-arriving charges and refunds replace what earlier snapshots saw
+export class CostSnapshotService {
+  private timer: NodeJS.Timeout | null = null;
+  private retentionDays: number;
+
+  constructor(
+    private store: SnapshotStore = createSnapshotStore(),
+    private collectors: SnapshotCollector[] = [],
+    retentionDays?: number
+  ) {
+    this.retentionDays = retentionDays ?? envNumber('COST_SNAPSHOT_RETENTION_DAYS', DEFAULT_RETENTION_DAYS);
+  }
+
+  public addCollector(collector: SnapshotCollector): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Store today's snapshot of a source, replacing any taken earlier the same day.
+   * Monthly data is skipped because history is kept per day
+   */
+  public recordSnapshot(source: string, costData: CostData, takenAt: Date = new Date()): CostSnapshot | null {
+    if (costData.timePeriod?.granularity === 'MONTHLY') return null;
+
+    const snapshot: CostSnapshot = {
+      source,
+      date: toDateString(takenAt),
+      takenAt,
+      currency: costData.currency,
+      ...(costData.metric && { metric: costData.metric }),
+      totalCost: costData.totalCost,
+      services: costData.services.map(service => ({
+        service: service.service,
+        displayName: service.displayName,
+        totalCost: service.totalCost,
+        dailyCosts: service.dailyCosts
+      }))
+    };
+
+    this.store.put(snapshot);
+    if (this.retentionDays > 0) {
+      this.store.prune(addDays(snapshot.date, -this.retentionDays));
+    }
+    return snapshot;
+  }
+
+  /**
+   * Run every collector and snapshot what they return; a failing collector is logged and skipped
+   */
+  public async captureAll(takenAt: Date = new Date()): Promise<number> {
+    let recorded = 0;
+    for (const collector of this.collectors) {
+      try {
+        const results = await collector();
+        results.forEach(({ source, costData }) => {
+          if (this.recordSnapshot(source, costData, takenAt)) recorded++;
+        });
+      } catch (error) {
+        console.error('Cost snapshot collection error:', error);
+      }
+    }
+    return recorded;
+  }
+
+  /**
+   * Capture on a timer; COST_SNAPSHOT_INTERVAL_HOURS=0 turns background snapshots off
+   */
+  public start(intervalHours: number = envNumber('COST_SNAPSHOT_INTERVAL_HOURS', DEFAULT_INTERVAL_HOURS)): void {
+    this.stop();
+    if (intervalHours <= 0) return;
+
+    this.timer = setInterval(() => {
+      void this.captureAll();
+    }, intervalHours * 60 * 60 * 1000);
+    // Never keep the process alive just to take snapshots
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public listSources(): string[] {
+    return this.store.sources();
+  }
+
+  /**
+   * Daily costs for a source (or one of its services) between from and to,
+   * or null if the source has never been snapshotted
+   */
+  public getHistory(source: string, options: CostHistoryOptions): CostHistory | null {
+    const snapshots = this.store.list(source);
+    if (snapshots.length === 0) return null;
+
+    const matchesService = (service: CostSnapshot['services'][number]): boolean =>
+      !options.service || service.service === options.service || service.displayName === options.service;
+
+    // Later snapshots overwrite the days they cover; a service missing from a snapshot cost nothing there
+    const costs = new Map<string, number>();
+    for (const snapshot of snapshots) {
+      const covered = new Map<string, number>();
+      snapshot.services.forEach(service => {
+        service.dailyCosts.forEach(day => {
+          covered.set(day.date, (covered.get(day.date) || 0) + (matchesService(service) ? day.cost : 0));
+        });
+      });
+      covered.forEach((cost, date) => costs.set(date, cost));
+    }
+
+    const points: DailyCost[] = Array.from(costs.entries())
+      .filter(([date]) => date >= options.from && date < options.to)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, cost]) => ({ date, cost: Math.round(cost * 100) / 100 }));
+
+    return {
+      source,
+      ...(options.service && { service: options.service }),
+      from: options.from,
+      to: options.to,
+      currency: snapshots[snapshots.length - 1].currency,
+      points,
+      snapshots: snapshots
+        .filter(snapshot => snapshot.date >= options.from && snapshot.date < options.to)
+        .map(snapshot => ({
+          date: snapshot.date,
+          takenAt: snapshot.takenAt,
+          totalCost: snapshot.services.filter(matchesService).reduce((sum, service) => sum + service.totalCost, 0)
+        }))
+    };
+  }
+}
+
+// Each open AWS session's default view, once per account
+const collectAwsSessions: SnapshotCollector = async () => {
+  const results: Array<{ source: string; costData: CostData }> = [];
+  const seen = new Set<string>();
+
+  for (const { awsService } of sessionService.listSessions()) {
+    const accountId = awsService.getAccountId();
+    if (!accountId || seen.has(accountId)) continue;
+    seen.add(accountId);
+
+    try {
+      results.push({ source: awsSnapshotSource(accountId), costData: await awsService.getCostData() });
+    } catch (error) {
+      console.error(`Cost snapshot error for AWS account ${accountId}:`, error);
+    }
+  }
+  return results;
+};
+
+const collectDatasets: SnapshotCollector = async () =>
+  costDatasetService.listDatasets().flatMap(dataset => {
+    const costData = costDatasetService.getCostData(dataset.name);
+    return costData ? [{ source: datasetSnapshotSource(dataset.name), costData }] : [];
+  });
+
+// Singleton instance
+export const costSnapshotService = new CostSnapshotService(createSnapshotStore(), [collectAwsSessions, collectDatasets]);
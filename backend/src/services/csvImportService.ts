@@ -0,0 +1,138 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { CSVColumnMapping, CSVImportJob, CostData, FocusCostColumn } from '../types';
+import { CSVUploadService } from './csvUploadService';
+import { CostDatasetService, costDatasetService as defaultDatasetService } from './costDatasetService';
+
+export interface UploadedCostFile {
+  path: string; // Temporary file written by the upload; removed once the import finishes
+  originalName: string;
+  columnMapping?: CSVColumnMapping; // For exports whose headers the importer does not recognise
+  dataset?: string; // Merge into this named dataset instead of replacing the cost data
+  accountId?: string; // Account the file covers, for dataset files without an account column
+  focusCostColumn?: FocusCostColumn;
+}
+
+const DEFAULT_JOB_RETENTION_MINUTES = 60;
+
+// Runs billing file imports in the background and keeps their progress for clients to poll
+export class CSVImportService {
+  private jobs: Map<string, CSVImportJob> = new Map();
+  private retentionMs: number;
+
+  constructor(
+    private csvUploadService: CSVUploadService = new CSVUploadService(),
+    retentionMinutes: number = DEFAULT_JOB_RETENTION_MINUTES,
+    private costDatasetService: CostDatasetService = defaultDatasetService
+  ) {
+    this.retentionMs = retentionMinutes * 60 * 1000;
+  }
+
+  /**
+   * Start importing an uploaded file; returns immediately with a job to poll
+   */
+  public startImport(file: UploadedCostFile, onComplete?: (costData: CostData) => void): CSVImportJob {
+    this.pruneFinished();
+
+    const now = new Date();
+    const job: CSVImportJob = {
+      id: uuidv4(),
+      fileName: file.originalName,
+      status: 'processing',
+      bytesTotal: 0,
+      bytesProcessed: 0,
+      rowsProcessed: 0,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+      ...(file.dataset && { dataset: file.dataset })
+    };
+
+    this.jobs.set(job.id, job);
+    void this.runImport(job, file, onComplete);
+    return job;
+  }
+
+  public getJob(jobId: string): CSVImportJob | null {
+    return this.jobs.get(jobId) || null;
+  }
+
+  private async runImport(
+    job: CSVImportJob,
+    file: UploadedCostFile,
+    onComplete?: (costData: CostData) => void
+  ): Promise<void> {
+    let outcome: Partial<CSVImportJob>;
+
+    try {
+      const { stream, totalBytes } = await this.csvUploadService.openCostFile(file.path, bytes => {
+        job.bytesProcessed += bytes;
+        // Parsing trails the disk reads slightly, so hold 100% back for completion
+        job.progress = job.bytesTotal > 0
+          ? Math.min(99, Math.floor((job.bytesProcessed / job.bytesTotal) * 100))
+          : 0;
+        job.updatedAt = new Date();
+      });
+      job.bytesTotal = totalBytes;
+
+      const result = await this.csvUploadService.processStream(stream, {
+        columnMapping: file.columnMapping,
+        collectRecords: Boolean(file.dataset),
+        focusCostColumn: file.focusCostColumn,
+        onProgress: rowsProcessed => {
+          job.rowsProcessed = rowsProcessed;
+          job.updatedAt = new Date();
+        }
+      });
+
+      outcome = {
+        status: 'completed',
+        format: result.format,
+        rowsProcessed: result.rowsProcessed ?? job.rowsProcessed,
+        progress: 100,
+        costData: result.costData,
+        report: result.report
+      };
+
+      // Dataset imports hand back the merged data rather than this file's alone
+      if (file.dataset && result.records && result.format) {
+        const entry = this.costDatasetService.addImport(file.dataset, {
+          id: job.id,
+          fileName: file.originalName,
+          format: result.format,
+          rowsProcessed: outcome.rowsProcessed!,
+          currency: result.costData?.currency || 'USD',
+          accountId: file.accountId
+        }, result.records);
+        outcome.datasetImportId = entry.id;
+        outcome.costData = this.costDatasetService.getCostData(file.dataset) || result.costData;
+      }
+    } catch (error) {
+      console.error(`CSV import ${job.id} failed:`, error);
+      outcome = {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error processing CSV'
+      };
+    }
+
+    // Clean up before reporting the job finished
+    await fs.promises.unlink(file.path).catch(() => undefined);
+
+    Object.assign(job, outcome, { completedAt: new Date(), updatedAt: new Date() });
+    if (job.status === 'completed' && job.costData) {
+      onComplete?.(job.costData);
+    }
+  }
+
+  private pruneFinished(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.completedAt && job.completedAt.getTime() < cutoff) {
+        this.jobs.delete(job.id);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const csvImportService = new CSVImportService();
@@ -1,25 +1,241 @@
 import csv from 'csv-parser';
-import { Readable } from 'stream';
+import fs from 'fs';
+import { Readable, pipeline } from 'stream';
+import { createGunzip, gunzipSync } from 'zlib';
 import { 
   CostData, 
   ServiceCost, 
   CSVUploadResult, 
+  CSVFormat,
   DailyCost, 
-  RegionCost 
+  RegionCost,
+  TagCost,
+  AccountCost,
+  ResourceCost,
+  UsageTypeCost,
+  CSVColumnMapping,
+  CSVValidationReport,
+  CostRecord,
+  CostMetric,
+  FocusCostColumn,
+  CloudProvider
 } from '../types';
+import { UNTAGGED_TAG_VALUE } from './awsService';
+import { CSVReportBuilder } from './csvValidationReport';
+import { ZIP_SIGNATURE, listZipEntries, openZipEntry } from './zipArchive';
+
+// Legacy CUR headers look like "lineItem/UnblendedCost"; CUR 2.0 flattens them to "line_item_unblended_cost"
+const CUR_COLUMNS = {
+  cost: ['lineItem/UnblendedCost', 'line_item_unblended_cost'],
+  usageStart: ['lineItem/UsageStartDate', 'line_item_usage_start_date'],
+  productCode: ['lineItem/ProductCode', 'line_item_product_code'],
+  productName: ['product/ProductName', 'product_product_name'],
+  region: ['product/region', 'product_region_code'],
+  availabilityZone: ['lineItem/AvailabilityZone', 'line_item_availability_zone'],
+  usageType: ['lineItem/UsageType', 'line_item_usage_type'],
+  usageAmount: ['lineItem/UsageAmount', 'line_item_usage_amount'],
+  pricingUnit: ['pricing/unit', 'pricing_unit'],
+  resourceId: ['lineItem/ResourceId', 'line_item_resource_id'],
+  accountId: ['lineItem/UsageAccountId', 'line_item_usage_account_id'],
+  currency: ['lineItem/CurrencyCode', 'line_item_currency_code']
+};
+
+const LEGACY_TAG_PREFIX = 'resourceTags/';
+
+// CUR columns are grouped by category prefix; anything outside these is not from AWS
+const CUR_COLUMN_PREFIXES = [
+  'identity/', 'bill/', 'lineItem/', 'product/', 'pricing/', 'reservation/', 'savingsPlan/',
+  'discount/', 'splitLineItem/', 'costCategory/', LEGACY_TAG_PREFIX,
+  'identity_', 'bill_', 'line_item_', 'product_', 'pricing_', 'reservation_', 'savings_plan_',
+  'discount_', 'split_line_item_', 'cost_category', 'resource_tags'
+];
+const CUR_MAP_COLUMNS = ['product', 'discount'];
+
+// Lower-cased headers the Cost Explorer transforms read for each field a column mapping can set
+const MAPPABLE_COLUMN_ALIASES: Record<keyof CSVColumnMapping, string[]> = {
+  service: ['service'],
+  cost: ['blendedcost', 'cost', 'amount'],
+  date: ['date'],
+  region: ['region']
+};
+
+// FOCUS 1.x columns; x_ columns are provider extensions the specification allows
+const FOCUS_COLUMNS = [
+  'AvailabilityZone', 'BilledCost', 'BillingAccountId', 'BillingAccountName', 'BillingAccountType',
+  'BillingCurrency', 'BillingPeriodEnd', 'BillingPeriodStart', 'CapacityReservationId',
+  'CapacityReservationStatus', 'ChargeCategory', 'ChargeClass', 'ChargeDescription', 'ChargeFrequency',
+  'ChargePeriodEnd', 'ChargePeriodStart', 'CommitmentDiscountCategory', 'CommitmentDiscountId',
+  'CommitmentDiscountName', 'CommitmentDiscountQuantity', 'CommitmentDiscountStatus',
+  'CommitmentDiscountType', 'CommitmentDiscountUnit', 'ConsumedQuantity', 'ConsumedUnit', 'ContractedCost',
+  'ContractedUnitPrice', 'EffectiveCost', 'InvoiceId', 'InvoiceIssuerName', 'ListCost', 'ListUnitPrice',
+  'PricingCategory', 'PricingCurrency', 'PricingCurrencyContractedUnitPrice', 'PricingCurrencyEffectiveCost',
+  'PricingCurrencyListUnitPrice', 'PricingQuantity', 'PricingUnit', 'ProviderName', 'PublisherName',
+  'RegionId', 'RegionName', 'ResourceId', 'ResourceName', 'ResourceType', 'ServiceCategory', 'ServiceName',
+  'ServiceProviderName', 'HostProviderName', 'ServiceSubcategory', 'SkuId', 'SkuMeter', 'SkuPriceDetails',
+  'SkuPriceId', 'SubAccountId', 'SubAccountName', 'SubAccountType', 'Tags'
+];
+
+const FOCUS_COST_METRICS: Record<FocusCostColumn, CostMetric> = {
+  BilledCost: 'UnblendedCost',
+  EffectiveCost: 'AmortizedCost'
+};
+
+// GCP billing export columns, lower-cased: the BigQuery export flattened to CSV ("service.description")
+// or the console cost table ("Service description"). Preferred names come first
+const GCP_COLUMNS = {
+  cost: ['unrounded cost', 'cost'],
+  credits: ['credits'],
+  service: ['service.description', 'service_description', 'service description'],
+  usageStart: ['usage_start_time', 'usage start date'],
+  region: ['location.region', 'location_region', 'location.location', 'location_location'],
+  projectId: ['project.id', 'project_id', 'project id'],
+  sku: ['sku.description', 'sku_description', 'sku description'],
+  usageAmount: ['usage.amount', 'usage_amount', 'usage amount'],
+  usageUnit: ['usage.unit', 'usage_unit', 'usage unit'],
+  resourceId: ['resource.global_name', 'resource_global_name', 'resource.name', 'resource_name'],
+  currency: ['currency'],
+  labels: ['labels']
+};
+
+// Azure cost management export columns, lower-cased; EA, MCA and pay-as-you-go exports name them differently
+const AZURE_COLUMNS = {
+  cost: ['costinbillingcurrency', 'cost', 'pretaxcost', 'costinusd'],
+  service: ['metercategory', 'servicename', 'consumedservice'],
+  date: ['date', 'usagedatetime'],
+  region: ['resourcelocation', 'meterregion'],
+  subscriptionId: ['subscriptionid', 'subscriptionguid'],
+  resourceId: ['resourceid', 'instanceid'],
+  meter: ['metername', 'metersubcategory'],
+  quantity: ['quantity', 'consumedquantity'],
+  unit: ['unitofmeasure'],
+  currency: ['billingcurrencycode', 'billingcurrency', 'currency'],
+  tags: ['tags']
+};
+
+type ProviderColumns<T> = Record<keyof T, string | undefined>;
+
+// Provider of every row in files that only ever come from one cloud
+const FORMAT_PROVIDERS: Partial<Record<CSVFormat, CloudProvider>> = {
+  'cur': 'aws',
+  'gcp-billing': 'gcp',
+  'azure-cost': 'azure',
+  'cost-and-usage': 'aws',
+  'daily-costs': 'aws',
+  'service-costs': 'aws'
+};
+
+// Columns each Cost Explorer shape reads; anything else in the file is reported as unknown
+const KNOWN_COLUMNS: Record<Exclude<CSVFormat, 'cur' | 'focus' | 'gcp-billing' | 'azure-cost'>, string[]> = {
+  'cost-and-usage': ['Service', 'service', 'SERVICE', 'BlendedCost', 'Cost', 'Amount', 'Region', 'region', 'REGION', 'Date', 'date', 'DATE'],
+  'daily-costs': ['Service', 'service', 'Cost', 'Amount', 'Date', 'date'],
+  'service-costs': ['Service', 'service', 'Amount', 'Cost']
+};
+
+// Resource IDs can run into the hundreds of thousands; keep the costliest per service
+const MAX_RESOURCES_PER_SERVICE = 50;
+
+const GZIP_SIGNATURE = Buffer.from([0x1f, 0x8b]);
+
+// How often processStream reports progress while reading rows
+const PROGRESS_INTERVAL_ROWS = 5000;
+
+export interface CostFileStream {
+  stream: Readable; // Decompressed CSV text
+  totalBytes: number; // Bytes that will be read from disk, for progress reporting
+}
+
+export interface CSVValidationResult {
+  valid: boolean;
+  format?: CSVFormat;
+  report?: CSVValidationReport; // Only from a full read, see validateCSVRows
+  error?: string;
+}
+
+export interface ProcessStreamOptions {
+  onProgress?: (rowsProcessed: number) => void;
+  columnMapping?: CSVColumnMapping;
+  collectRecords?: boolean; // Also return the date/service/region cells, for merging into a dataset
+  focusCostColumn?: FocusCostColumn; // Cost read from FOCUS files (BilledCost by default)
+}
+
+// Sums rows into date/service/region/account cells while they are transformed. Line items with
+// different tags stay separate records within a cell so datasets keep the tag breakdown
+class CostRecordCollector {
+  private records: Map<string, CostRecord> = new Map();
+
+  public add(
+    date: string,
+    service: string,
+    region: string,
+    accountId: string,
+    cost: number,
+    provider?: CloudProvider,
+    tags: Array<[string, string]> = []
+  ): void {
+    const sortedTags = [...tags].sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA.localeCompare(keyB) || valueA.localeCompare(valueB));
+    const key = [date, service, region, accountId, JSON.stringify(sortedTags)].join('|');
+    const record = this.records.get(key);
+    if (record) {
+      record.cost += cost;
+    } else {
+      this.records.set(key, {
+        date, service, region, accountId, cost,
+        ...(provider && { provider }),
+        ...(sortedTags.length > 0 && { tags: sortedTags })
+      });
+    }
+  }
+
+  public addLineItem(item: LineItem): void {
+    this.add(item.date, item.service, item.region, item.accountId, item.cost, item.provider, item.tags);
+  }
+
+  public toArray(): CostRecord[] {
+    return Array.from(this.records.values());
+  }
+}
+
+// One billing line item, read from a CUR, FOCUS, GCP or Azure row
+interface LineItem {
+  provider?: CloudProvider;
+  service: string;
+  cost: number;
+  currency: string;
+  region: string;
+  date: string;
+  accountId: string;
+  resourceId: string;
+  usageType: string;
+  usageAmount: number;
+  unit: string;
+  tags: Array<[string, string]>;
+}
+
+// Running totals for one service while line items are read
+interface LineItemServiceTotals {
+  service: ServiceCost;
+  regions: Map<string, number>;
+  daily: Map<string, number>;
+  accounts: Map<string, number>;
+  resources: Map<string, number>;
+  usageTypes: Map<string, { cost: number; usageAmount: number; unit?: string }>;
+  tags: Map<string, Map<string, number>>; // tag key -> value -> cost
+}
+
+interface LineItemTotals {
+  services: Map<string, LineItemServiceTotals>;
+  tagKeys: Set<string>;
+  currency: string;
+  firstDate: string;
+  lastDate: string;
+}
 
 export class CSVUploadService {
   
   public async processCostExplorerCSV(fileBuffer: Buffer): Promise<CSVUploadResult> {
     try {
-      const csvData = await this.parseCSV(fileBuffer);
-      const costData = this.transformCSVToCostData(csvData);
-      
-      return {
-        success: true,
-        costData,
-        rowsProcessed: csvData.length
-      };
+      return await this.processStream(Readable.from(this.decompress(fileBuffer)));
     } catch (error) {
       console.error('CSV processing failed:', error);
       return {
@@ -29,41 +245,280 @@ export class CSVUploadService {
     }
   }
 
-  private async parseCSV(fileBuffer: Buffer): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      const stream = Readable.from(fileBuffer);
-      
-      stream
-        .pipe(csv())
-        .on('data', (data) => results.push(data))
-        .on('end', () => resolve(results))
-        .on('error', (error) => reject(error));
+  /**
+   * Read rows from a decompressed CSV stream and aggregate them as they arrive, so memory use
+   * depends on the number of services, regions and resources rather than on the file size
+   */
+  public async processStream(source: Readable, options: ProcessStreamOptions = {}): Promise<CSVUploadResult> {
+    const iterator = this.readRows(source);
+    const first = await iterator.next();
+    if (first.done) {
+      throw new Error('CSV file is empty');
+    }
+
+    const fileHeaders = Object.keys(first.value);
+    let renames: Map<string, string>;
+    try {
+      renames = this.resolveColumnMapping(fileHeaders, options.columnMapping);
+    } catch (error) {
+      await iterator.return(undefined);
+      throw error;
+    }
+
+    const headers = this.renameHeaders(fileHeaders, renames);
+    const format = this.detectCSVFormat(headers);
+    if (format === 'unknown') {
+      await iterator.return(undefined);
+      throw new Error('Unsupported CSV format. Please use a Cost Explorer export, a Cost and Usage Report, a FOCUS file or a GCP or Azure billing export.');
+    }
+
+    const report = new CSVReportBuilder(options.columnMapping);
+    const renameRow = (row: any) => renames.size > 0 ? this.renameRow(row, renames) : row;
+    let rowsProcessed = 0;
+    const rows = (async function* () {
+      let next: IteratorResult<any, void> = first;
+      while (!next.done) {
+        report.startRow();
+        yield renameRow(next.value);
+        rowsProcessed++;
+        if (rowsProcessed % PROGRESS_INTERVAL_ROWS === 0) {
+          options.onProgress?.(rowsProcessed);
+        }
+        next = await iterator.next();
+      }
+    })();
+
+    const records = options.collectRecords ? new CostRecordCollector() : undefined;
+    const costData = this.labelProvider(
+      await this.transformRows(format, rows, headers, report, records, options.focusCostColumn),
+      FORMAT_PROVIDERS[format]
+    );
+    options.onProgress?.(rowsProcessed);
+
+    const provider = FORMAT_PROVIDERS[format];
+    return {
+      success: true,
+      costData,
+      ...(records && {
+        records: records.toArray().map(record => record.provider || !provider ? record : { ...record, provider })
+      }),
+      rowsProcessed,
+      format,
+      report: report.build(this.findUnknownColumns(format, fileHeaders, renames))
+    };
+  }
+
+  /**
+   * Work out how to rename the columns of a non-standard export so the usual format detection
+   * applies. Returns file header -> importer header; throws if a mapped column is missing
+   */
+  private resolveColumnMapping(headers: string[], mapping?: CSVColumnMapping): Map<string, string> {
+    const renames = new Map<string, string>();
+    if (!mapping) return renames;
+
+    const mapped: Array<[keyof CSVColumnMapping, string]> = [];
+    for (const field of ['service', 'cost', 'date', 'region'] as const) {
+      const column = mapping[field]?.trim();
+      if (!column) continue;
+      if (!headers.includes(column)) {
+        throw new Error(`Mapped ${field} column '${column}' not found in the CSV header`);
+      }
+      mapped.push([field, column]);
+    }
+
+    const hasField = (field: keyof CSVColumnMapping) =>
+      mapped.some(([mappedField]) => mappedField === field)
+      || headers.some(header => MAPPABLE_COLUMN_ALIASES[field].includes(header.toLowerCase()));
+
+    // The cost column's name is what tells the Cost Explorer shapes apart
+    const costHeader = hasField('region') && hasField('service')
+      ? 'BlendedCost'
+      : hasField('date') ? 'Cost' : 'Amount';
+    const canonical: Record<keyof CSVColumnMapping, string> = {
+      service: 'Service',
+      cost: costHeader,
+      date: 'Date',
+      region: 'Region'
+    };
+
+    for (const [field, column] of mapped) {
+      renames.set(column, canonical[field]);
+    }
+
+    // Unmapped columns the transforms would also read for a mapped field could shadow it, so drop them
+    const shadowed = mapped.flatMap(([field]) => MAPPABLE_COLUMN_ALIASES[field]);
+    for (const header of headers) {
+      if (!renames.has(header) && shadowed.includes(header.toLowerCase())) {
+        renames.set(header, '');
+      }
+    }
+
+    return renames;
+  }
+
+  private renameHeaders(headers: string[], renames: Map<string, string>): string[] {
+    return headers
+      .map(header => renames.has(header) ? renames.get(header)! : header)
+      .filter(header => header !== '');
+  }
+
+  private renameRow(row: any, renames: Map<string, string>): any {
+    const renamed: any = {};
+    for (const [header, value] of Object.entries(row)) {
+      const target = renames.has(header) ? renames.get(header)! : header;
+      if (target) renamed[target] = value;
+    }
+    return renamed;
+  }
+
+  // Columns the detected format never reads, under their names in the file
+  private findUnknownColumns(format: CSVFormat, headers: string[], renames: Map<string, string>): string[] {
+    return headers.filter(header => {
+      const target = renames.has(header) ? renames.get(header)! : header;
+      if (!target) return true;
+      if (format === 'cur') {
+        return !CUR_MAP_COLUMNS.includes(target) && !CUR_COLUMN_PREFIXES.some(prefix => target.startsWith(prefix));
+      }
+      if (format === 'focus') {
+        return !FOCUS_COLUMNS.includes(target) && !target.startsWith('x_');
+      }
+      // GCP and Azure exports carry dozens of documented columns the importer has no use for
+      if (format === 'gcp-billing' || format === 'azure-cost') {
+        return false;
+      }
+      return !KNOWN_COLUMNS[format].includes(target);
     });
   }
 
-  private transformCSVToCostData(csvData: any[]): CostData {
-    if (csvData.length === 0) {
-      throw new Error('CSV file is empty');
+  /**
+   * Open an uploaded file as a CSV stream. Plain, gzip and zip files are recognised by their
+   * first bytes; a zip must contain exactly one CSV
+   */
+  public async openCostFile(filePath: string, onBytesRead?: (bytes: number) => void): Promise<CostFileStream> {
+    const signature = await this.readSignature(filePath);
+
+    if (signature.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+      const csvEntries = (await listZipEntries(filePath))
+        .filter(entry => /\.csv(\.gz)?$/i.test(entry.name) && !entry.name.startsWith('__MACOSX/'));
+      if (csvEntries.length !== 1) {
+        throw new Error(csvEntries.length === 0
+          ? 'The zip archive does not contain a CSV file'
+          : 'The zip archive contains more than one CSV file; upload them one at a time');
+      }
+
+      const [entry] = csvEntries;
+      const entryStream = await openZipEntry(filePath, entry, onBytesRead);
+      return {
+        stream: /\.gz$/i.test(entry.name) ? this.gunzip(entryStream) : entryStream,
+        totalBytes: entry.compressedSize
+      };
     }
 
-    // Detect CSV format based on headers
-    const headers = Object.keys(csvData[0]);
-    const format = this.detectCSVFormat(headers);
-    
+    const { size } = await fs.promises.stat(filePath);
+    const file = fs.createReadStream(filePath);
+    if (onBytesRead) {
+      file.on('data', chunk => onBytesRead(chunk.length));
+    }
+
+    return {
+      stream: signature.subarray(0, GZIP_SIGNATURE.length).equals(GZIP_SIGNATURE) ? this.gunzip(file) : file,
+      totalBytes: size
+    };
+  }
+
+  private async readSignature(filePath: string): Promise<Buffer> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(4);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // pipeline passes read errors on, so they surface from the parser rather than going unhandled
+  private gunzip(source: Readable): Readable {
+    return pipeline(source, createGunzip(), () => undefined);
+  }
+
+  // CUR is delivered gzipped; accept either form based on the gzip magic bytes
+  private decompress(fileBuffer: Buffer): Buffer {
+    if (fileBuffer.length >= 2 && fileBuffer[0] === 0x1f && fileBuffer[1] === 0x8b) {
+      try {
+        return gunzipSync(fileBuffer);
+      } catch (error) {
+        throw new Error('Could not decompress the gzip file');
+      }
+    }
+    return fileBuffer;
+  }
+
+  private createParser() {
+    // Spreadsheet exports often start with a byte order mark
+    return csv({ mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim() });
+  }
+
+  private async *readRows(source: Readable): AsyncGenerator<any, void, undefined> {
+    const parser = pipeline(source, this.createParser(), () => undefined);
+    try {
+      for await (const row of parser) {
+        yield row;
+      }
+    } catch (error: any) {
+      // zlib errors carry codes such as Z_DATA_ERROR and Z_BUF_ERROR
+      if (typeof error?.code === 'string' && error.code.startsWith('Z_')) {
+        throw new Error(`Could not decompress the file: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private transformRows(
+    format: CSVFormat,
+    rows: AsyncIterable<any>,
+    headers: string[],
+    report: CSVReportBuilder,
+    records?: CostRecordCollector,
+    focusCostColumn: FocusCostColumn = 'BilledCost'
+  ): Promise<CostData> {
     switch (format) {
+      case 'cur':
+        return this.transformCURCSV(rows, headers, report, records);
+      case 'focus':
+        return this.transformFOCUSCSV(rows, report, focusCostColumn, records);
+      case 'gcp-billing':
+        return this.transformGCPBillingCSV(rows, headers, report, records);
+      case 'azure-cost':
+        return this.transformAzureCostCSV(rows, headers, report, records);
       case 'cost-and-usage':
-        return this.transformCostAndUsageCSV(csvData);
+        return this.transformCostAndUsageCSV(rows, report, records);
       case 'daily-costs':
-        return this.transformDailyCostsCSV(csvData);
+        return this.transformDailyCostsCSV(rows, report, records);
       case 'service-costs':
-        return this.transformServiceCostsCSV(csvData);
-      default:
-        throw new Error('Unsupported CSV format. Please use a Cost Explorer export.');
+        return this.transformServiceCostsCSV(rows, report, records);
     }
   }
 
-  private detectCSVFormat(headers: string[]): string {
+  private detectCSVFormat(headers: string[]): CSVFormat | 'unknown' {
+    // CUR and FOCUS headers also contain "cost", so check for them before the looser Cost Explorer shapes
+    if (CUR_COLUMNS.cost.some(column => headers.includes(column))) {
+      return 'cur';
+    }
+    // BilledCost and ChargePeriodStart are mandatory in every FOCUS version
+    if (headers.includes('BilledCost') && headers.includes('ChargePeriodStart')) {
+      return 'focus';
+    }
+    // Both also have date and cost columns the Cost Explorer checks below would match
+    const gcpColumns = this.resolveProviderColumns(headers, GCP_COLUMNS);
+    if (gcpColumns.service && gcpColumns.cost) {
+      return 'gcp-billing';
+    }
+    const azureColumns = this.resolveProviderColumns(headers, AZURE_COLUMNS);
+    if (azureColumns.service && azureColumns.cost && azureColumns.subscriptionId) {
+      return 'azure-cost';
+    }
+
     const headerStr = headers.join(',').toLowerCase();
     
     if (headerStr.includes('service') && headerStr.includes('blendedcost')) {
@@ -79,18 +534,32 @@ export class CSVUploadService {
     return 'unknown';
   }
 
-  private transformCostAndUsageCSV(csvData: any[]): CostData {
+  private async transformCostAndUsageCSV(
+    rows: AsyncIterable<any>,
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
     const serviceMap = new Map<string, ServiceCost>();
     const regionMap = new Map<string, Map<string, number>>();
     const dailyMap = new Map<string, DailyCost[]>();
 
-    for (const row of csvData) {
+    for await (const row of rows) {
       const serviceName = row.Service || row.service || row.SERVICE;
-      const cost = parseFloat(row.BlendedCost || row.Cost || row.Amount || '0');
+      const rawCost = row.BlendedCost || row.Cost || row.Amount || '0';
+      const cost = parseFloat(rawCost);
       const region = row.Region || row.region || row.REGION || 'us-east-1';
       const date = row.Date || row.date || row.DATE;
 
-      if (!serviceName || isNaN(cost)) continue;
+      if (!serviceName) {
+        report.skip('missing-service', 'Service is empty');
+        continue;
+      }
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+      report.checkDuplicate({ date, service: serviceName, region });
+      records?.add(date || '', serviceName, region, '', cost);
 
       // Initialize service if not exists
       if (!serviceMap.has(serviceName)) {
@@ -168,15 +637,498 @@ export class CSVUploadService {
     };
   }
 
-  private transformDailyCostsCSV(csvData: any[]): CostData {
+  private async transformCURCSV(
+    rows: AsyncIterable<any>,
+    headers: string[],
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
+    const totals = this.createLineItemTotals();
+    const legacyTagColumns = headers.filter(header => header.startsWith(LEGACY_TAG_PREFIX));
+
+    for await (const row of rows) {
+      // CUR has many legitimate line items per resource and hour, so only bad costs are reported
+      const rawCost = this.curValue(row, 'cost');
+      const cost = parseFloat(rawCost);
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+
+      const productCode = this.curValue(row, 'productCode');
+      // Global services have no product region; fall back to the availability zone's region
+      const availabilityZone = this.curValue(row, 'availabilityZone');
+
+      const item: LineItem = {
+        service: this.curValue(row, 'productName')
+          || this.parseMapColumn(row.product).product_name
+          || productCode
+          || 'Unknown',
+        cost,
+        currency: this.curValue(row, 'currency'),
+        region: this.curValue(row, 'region')
+          || this.parseMapColumn(row.product).region
+          || (availabilityZone ? availabilityZone.replace(/[a-z]$/, '') : 'global'),
+        date: this.curValue(row, 'usageStart').slice(0, 10),
+        accountId: this.curValue(row, 'accountId'),
+        resourceId: this.curValue(row, 'resourceId'),
+        usageType: this.curValue(row, 'usageType'),
+        usageAmount: parseFloat(this.curValue(row, 'usageAmount')) || 0,
+        unit: this.curValue(row, 'pricingUnit'),
+        tags: this.readCurTags(row, legacyTagColumns)
+      };
+
+      this.addLineItem(totals, item);
+      records?.addLineItem(item);
+    }
+
+    return this.summarizeLineItems(totals, 'UnblendedCost');
+  }
+
+  private async transformFOCUSCSV(
+    rows: AsyncIterable<any>,
+    report: CSVReportBuilder,
+    costColumn: FocusCostColumn,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
+    const totals = this.createLineItemTotals();
+
+    for await (const row of rows) {
+      const rawCost = String(row[costColumn] ?? '').trim();
+      const cost = parseFloat(rawCost);
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+
+      const serviceName = String(row.ServiceName || '').trim();
+      if (!serviceName) {
+        report.skip('missing-service', 'ServiceName is empty');
+        continue;
+      }
+
+      const item: LineItem = {
+        provider: this.providerFromName(String(row.ProviderName || row.ServiceProviderName || '')),
+        service: serviceName,
+        cost,
+        currency: String(row.BillingCurrency || '').trim(),
+        region: String(row.RegionId || row.RegionName || '').trim() || 'global',
+        date: String(row.ChargePeriodStart || '').trim().slice(0, 10),
+        accountId: String(row.SubAccountId || '').trim(),
+        resourceId: String(row.ResourceId || '').trim(),
+        usageType: String(row.SkuId || '').trim(),
+        usageAmount: parseFloat(row.ConsumedQuantity) || 0,
+        unit: String(row.ConsumedUnit || row.PricingUnit || '').trim(),
+        tags: Object.entries(this.parseMapColumn(row.Tags))
+          .filter(([, value]) => value !== null && String(value).trim())
+          .map(([key, value]): [string, string] => [key, String(value).trim()])
+      };
+
+      this.addLineItem(totals, item);
+      records?.addLineItem(item);
+    }
+
+    return this.summarizeLineItems(totals, FOCUS_COST_METRICS[costColumn]);
+  }
+
+  private async transformGCPBillingCSV(
+    rows: AsyncIterable<any>,
+    headers: string[],
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
+    const totals = this.createLineItemTotals();
+    const columns = this.resolveProviderColumns(headers, GCP_COLUMNS);
+    const value = (row: any, column: keyof typeof GCP_COLUMNS) => this.providerValue(row, columns, column);
+
+    for await (const row of rows) {
+      const rawCost = value(row, 'cost');
+      const grossCost = parseFloat(rawCost);
+      if (isNaN(grossCost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+
+      const service = value(row, 'service');
+      if (!service) {
+        report.skip('missing-service', 'Service description is empty');
+        continue;
+      }
+
+      // The console shows costs net of credits (sustained use, committed use, free tier)
+      const cost = grossCost + this.parseGCPCredits(value(row, 'credits'));
+      const item: LineItem = {
+        provider: 'gcp',
+        service,
+        cost,
+        currency: value(row, 'currency'),
+        region: value(row, 'region') || 'global',
+        date: value(row, 'usageStart').slice(0, 10),
+        accountId: value(row, 'projectId'),
+        resourceId: value(row, 'resourceId'),
+        usageType: value(row, 'sku'),
+        usageAmount: parseFloat(value(row, 'usageAmount')) || 0,
+        unit: value(row, 'usageUnit'),
+        tags: this.parseGCPLabels(value(row, 'labels'))
+      };
+
+      this.addLineItem(totals, item);
+      records?.addLineItem(item);
+    }
+
+    return this.summarizeLineItems(totals, 'UnblendedCost');
+  }
+
+  private async transformAzureCostCSV(
+    rows: AsyncIterable<any>,
+    headers: string[],
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
+    const totals = this.createLineItemTotals();
+    const columns = this.resolveProviderColumns(headers, AZURE_COLUMNS);
+    const value = (row: any, column: keyof typeof AZURE_COLUMNS) => this.providerValue(row, columns, column);
+
+    for await (const row of rows) {
+      const rawCost = value(row, 'cost');
+      const cost = parseFloat(rawCost);
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+
+      const service = value(row, 'service');
+      if (!service) {
+        report.skip('missing-service', 'MeterCategory is empty');
+        continue;
+      }
+
+      // Locations come as "EastUS", "eastus" or "Unassigned" depending on the export
+      const location = value(row, 'region').toLowerCase().replace(/\s+/g, '');
+      const item: LineItem = {
+        provider: 'azure',
+        service,
+        cost,
+        currency: value(row, 'currency'),
+        region: location && location !== 'unassigned' ? location : 'global',
+        date: this.parseAzureDate(value(row, 'date')),
+        accountId: value(row, 'subscriptionId'),
+        resourceId: value(row, 'resourceId'),
+        usageType: value(row, 'meter'),
+        usageAmount: parseFloat(value(row, 'quantity')) || 0,
+        unit: value(row, 'unit'),
+        tags: this.parseAzureTags(value(row, 'tags'))
+      };
+
+      this.addLineItem(totals, item);
+      records?.addLineItem(item);
+    }
+
+    return this.summarizeLineItems(totals, 'UnblendedCost');
+  }
+
+  private createLineItemTotals(): LineItemTotals {
+    return { services: new Map(), tagKeys: new Set(), currency: 'USD', firstDate: '', lastDate: '' };
+  }
+
+  private addLineItem(totals: LineItemTotals, item: LineItem): void {
+    if (!totals.services.has(item.service)) {
+      totals.services.set(item.service, {
+        service: {
+          service: this.normalizeServiceName(item.service),
+          displayName: item.service,
+          totalCost: 0,
+          currency: 'USD',
+          budgetUtilization: 0,
+          regions: [],
+          tags: [],
+          dailyCosts: [],
+          trend: 'stable',
+          ...(item.provider && { provider: item.provider })
+        },
+        regions: new Map(),
+        daily: new Map(),
+        accounts: new Map(),
+        resources: new Map(),
+        usageTypes: new Map(),
+        tags: new Map()
+      });
+    }
+
+    const entry = totals.services.get(item.service)!;
+    const { cost } = item;
+    entry.service.totalCost += cost;
+    totals.currency = item.currency || totals.currency;
+
+    this.addCost(entry.regions, item.region, cost);
+
+    if (item.date) {
+      this.addCost(entry.daily, item.date, cost);
+      if (!totals.firstDate || item.date < totals.firstDate) totals.firstDate = item.date;
+      if (!totals.lastDate || item.date > totals.lastDate) totals.lastDate = item.date;
+    }
+
+    if (item.accountId) this.addCost(entry.accounts, item.accountId, cost);
+    if (item.resourceId) this.addCost(entry.resources, item.resourceId, cost);
+
+    if (item.usageType) {
+      const usage = entry.usageTypes.get(item.usageType) || { cost: 0, usageAmount: 0 };
+      usage.cost += cost;
+      usage.usageAmount += item.usageAmount;
+      usage.unit = usage.unit || item.unit || undefined;
+      entry.usageTypes.set(item.usageType, usage);
+    }
+
+    for (const [key, value] of item.tags) {
+      totals.tagKeys.add(key);
+      if (!entry.tags.has(key)) entry.tags.set(key, new Map());
+      this.addCost(entry.tags.get(key)!, value, cost);
+    }
+  }
+
+  private summarizeLineItems(totals: LineItemTotals, metric: CostMetric): CostData {
+    const { currency, firstDate, lastDate } = totals;
+    const services: ServiceCost[] = [];
+    const accountTotals = new Map<string, number>();
+
+    for (const entry of totals.services.values()) {
+      const service = entry.service;
+      const totalServiceCost = service.totalCost;
+      const share = (cost: number) => totalServiceCost > 0 ? (cost / totalServiceCost) * 100 : 0;
+
+      service.currency = currency;
+      service.regions = this.toBreakdown(entry.regions)
+        .map(([region, cost]): RegionCost => ({ region, cost, percentage: share(cost) }));
+      service.dailyCosts = Array.from(entry.daily.entries())
+        .map(([date, cost]) => ({ date, cost }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      service.trend = this.calculateTrend(service.dailyCosts);
+      service.accounts = this.toBreakdown(entry.accounts)
+        .map(([accountId, cost]): AccountCost => ({ accountId, cost, percentage: share(cost) }));
+      service.resources = this.toBreakdown(entry.resources)
+        .slice(0, MAX_RESOURCES_PER_SERVICE)
+        .map(([resourceId, cost]): ResourceCost => ({ resourceId, cost, percentage: share(cost) }));
+      service.usageTypes = Array.from(entry.usageTypes.entries())
+        .filter(([, usage]) => usage.cost > 0.01)
+        .sort(([, a], [, b]) => b.cost - a.cost)
+        .map(([usageType, usage]): UsageTypeCost => ({
+          usageType,
+          cost: usage.cost,
+          percentage: share(usage.cost),
+          usageAmount: usage.usageAmount,
+          ...(usage.unit && { unit: usage.unit })
+        }));
+
+      // Cost not carrying a tag key is reported as "untagged", as Cost Explorer does
+      for (const key of totals.tagKeys) {
+        const values = new Map<string, number>(entry.tags.get(key) || []);
+        const tagged = Array.from(values.values()).reduce((sum, cost) => sum + cost, 0);
+        this.addCost(values, UNTAGGED_TAG_VALUE, totalServiceCost - tagged);
+        service.tags.push(...this.toBreakdown(values)
+          .map(([value, cost]): TagCost => ({ key, value, cost, percentage: share(cost) })));
+      }
+
+      for (const [accountId, cost] of entry.accounts) {
+        this.addCost(accountTotals, accountId, cost);
+      }
+
+      if (service.totalCost > 0) {
+        services.push(service);
+      }
+    }
+
+    const totalCost = services.reduce((sum, service) => sum + service.totalCost, 0);
+    const accounts = this.toBreakdown(accountTotals)
+      .map(([accountId, cost]): AccountCost => ({
+        accountId,
+        cost,
+        percentage: totalCost > 0 ? (cost / totalCost) * 100 : 0
+      }));
+
+    return {
+      services,
+      totalCost,
+      currency,
+      lastUpdated: new Date(),
+      budgetAlerts: [],
+      metric,
+      ...(firstDate && {
+        timePeriod: {
+          start: firstDate,
+          end: new Date(Date.parse(lastDate) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+          granularity: 'DAILY' as const
+        }
+      }),
+      ...(accounts.length > 1 && { accounts })
+    };
+  }
+
+  // Match provider columns by lower-cased name, ignoring a currency suffix such as "Cost ($)"
+  private resolveProviderColumns<T extends Record<string, string[]>>(headers: string[], aliases: T): ProviderColumns<T> {
+    const byName = new Map<string, string>();
+    for (const header of headers) {
+      const name = header.toLowerCase().replace(/\s*\([^)]*\)$/, '').trim();
+      if (!byName.has(name)) byName.set(name, header);
+    }
+
+    const columns = {} as ProviderColumns<T>;
+    for (const field of Object.keys(aliases) as Array<keyof T>) {
+      columns[field] = aliases[field].map(alias => byName.get(alias)).find(header => header !== undefined);
+    }
+    return columns;
+  }
+
+  private providerValue<T>(row: any, columns: ProviderColumns<T>, column: keyof T): string {
+    const header = columns[column];
+    return header ? String(row[header] ?? '').trim() : '';
+  }
+
+  // FOCUS names the provider in free text, e.g. "AWS", "Google Cloud" or "Microsoft"
+  private providerFromName(name: string): CloudProvider | undefined {
+    if (/\b(aws|amazon)\b/i.test(name)) return 'aws';
+    if (/\b(gcp|google)\b/i.test(name)) return 'gcp';
+    if (/\b(azure|microsoft)\b/i.test(name)) return 'azure';
+    return undefined;
+  }
+
+  // The BigQuery export writes credits as a JSON array of { name, amount } with negative amounts
+  private parseGCPCredits(value: string): number {
+    if (!value.startsWith('[')) return 0;
+    try {
+      const credits = JSON.parse(value);
+      return Array.isArray(credits)
+        ? credits.reduce((sum, credit) => sum + (parseFloat(credit?.amount) || 0), 0)
+        : 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  // Labels are a JSON array of { key, value } in the BigQuery export
+  private parseGCPLabels(value: string): Array<[string, string]> {
+    if (!value.startsWith('[')) {
+      return Object.entries(this.parseMapColumn(value))
+        .filter(([, label]) => label !== null && String(label).trim())
+        .map(([key, label]): [string, string] => [key, String(label).trim()]);
+    }
+    try {
+      const labels = JSON.parse(value);
+      return Array.isArray(labels)
+        ? labels
+          .filter(label => label?.key && String(label.value ?? '').trim())
+          .map((label): [string, string] => [String(label.key), String(label.value).trim()])
+        : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // Older exports write tags without the surrounding braces: "env": "prod","team": "web"
+  private parseAzureTags(value: string): Array<[string, string]> {
+    const json = value && !value.startsWith('{') ? `{${value}}` : value;
+    return Object.entries(this.parseMapColumn(json))
+      .filter(([, tag]) => tag !== null && String(tag).trim())
+      .map(([key, tag]): [string, string] => [key, String(tag).trim()]);
+  }
+
+  // Azure writes dates as MM/DD/YYYY or ISO 8601 depending on the export type
+  private parseAzureDate(value: string): string {
+    const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (match) {
+      return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+    }
+    return value.slice(0, 10);
+  }
+
+  // Fill in the provider of services the transform could not attribute, and of the data as a whole
+  private labelProvider(costData: CostData, provider?: CloudProvider): CostData {
+    if (provider) {
+      costData.services.forEach(service => {
+        service.provider = service.provider || provider;
+      });
+    }
+
+    const providers = new Set(costData.services.map(service => service.provider));
+    const [only] = Array.from(providers);
+    if (providers.size === 1 && only) {
+      costData.provider = only;
+    }
+    return costData;
+  }
+
+  private curValue(row: any, column: keyof typeof CUR_COLUMNS): string {
+    for (const header of CUR_COLUMNS[column]) {
+      const value = row[header];
+      if (value !== undefined && value !== '') return String(value).trim();
+    }
+    return '';
+  }
+
+  // CUR 2.0 writes map columns such as "product" and "resource_tags" as JSON objects
+  private parseMapColumn(value: unknown): Record<string, string> {
+    if (typeof value !== 'string' || !value.trim().startsWith('{')) return {};
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  // User-defined tags lose their "user:" (legacy) or "user_" (CUR 2.0) prefix to match Cost Explorer tag keys
+  private readCurTags(row: any, legacyTagColumns: string[]): Array<[string, string]> {
+    const tags: Array<[string, string]> = [];
+
+    for (const column of legacyTagColumns) {
+      const value = String(row[column] || '').trim();
+      if (value) {
+        tags.push([column.slice(LEGACY_TAG_PREFIX.length).replace(/^user:/, ''), value]);
+      }
+    }
+
+    for (const [key, value] of Object.entries(this.parseMapColumn(row.resource_tags))) {
+      if (value !== null && String(value).trim()) {
+        tags.push([key.replace(/^user_/, ''), String(value).trim()]);
+      }
+    }
+
+    return tags;
+  }
+
+  private addCost(costs: Map<string, number>, key: string, cost: number): void {
+    costs.set(key, (costs.get(key) || 0) + cost);
+  }
+
+  // Entries worth showing, costliest first
+  private toBreakdown(costs: Map<string, number>): Array<[string, number]> {
+    return Array.from(costs.entries())
+      .filter(([, cost]) => cost > 0.01)
+      .sort(([, a], [, b]) => b - a);
+  }
+
+  private async transformDailyCostsCSV(
+    rows: AsyncIterable<any>,
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
     const serviceMap = new Map<string, ServiceCost>();
 
-    for (const row of csvData) {
+    for await (const row of rows) {
       const serviceName = row.Service || row.service || 'Total';
-      const cost = parseFloat(row.Cost || row.Amount || '0');
+      const rawCost = row.Cost || row.Amount || '0';
+      const cost = parseFloat(rawCost);
       const date = row.Date || row.date;
 
-      if (isNaN(cost) || !date) continue;
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+      if (!date) {
+        report.skip('missing-date', 'Date is empty');
+        continue;
+      }
+      report.checkDuplicate({ date, service: serviceName });
+      records?.add(date, serviceName, '', '', cost);
 
       if (!serviceMap.has(serviceName)) {
         serviceMap.set(serviceName, {
@@ -215,14 +1167,28 @@ export class CSVUploadService {
     };
   }
 
-  private transformServiceCostsCSV(csvData: any[]): CostData {
+  private async transformServiceCostsCSV(
+    rows: AsyncIterable<any>,
+    report: CSVReportBuilder,
+    records?: CostRecordCollector
+  ): Promise<CostData> {
     const services: ServiceCost[] = [];
 
-    for (const row of csvData) {
+    for await (const row of rows) {
       const serviceName = row.Service || row.service;
-      const cost = parseFloat(row.Amount || row.Cost || '0');
+      const rawCost = row.Amount || row.Cost || '0';
+      const cost = parseFloat(rawCost);
 
-      if (!serviceName || isNaN(cost)) continue;
+      if (!serviceName) {
+        report.skip('missing-service', 'Service is empty');
+        continue;
+      }
+      if (isNaN(cost)) {
+        report.skip('invalid-cost', this.invalidCostMessage(rawCost));
+        continue;
+      }
+      report.checkDuplicate({ service: serviceName });
+      records?.add('', serviceName, '', '', cost);
 
       services.push({
         service: this.normalizeServiceName(serviceName),
@@ -248,6 +1214,121 @@ export class CSVUploadService {
     };
   }
 
+  /**
+   * Build cost data from date/service/region cells, e.g. the merged cells of a dataset
+   */
+  public buildCostDataFromRecords(records: CostRecord[], currency: string = 'USD'): CostData {
+    const serviceMap = new Map<string, {
+      service: ServiceCost;
+      regions: Map<string, number>;
+      daily: Map<string, number>;
+      accounts: Map<string, number>;
+      tags: Map<string, Map<string, number>>; // tag key -> value -> cost
+    }>();
+    const accountTotals = new Map<string, number>();
+    const tagKeys = new Set<string>();
+    let firstDate = '';
+    let lastDate = '';
+
+    for (const record of records) {
+      if (!serviceMap.has(record.service)) {
+        serviceMap.set(record.service, {
+          service: {
+            service: this.normalizeServiceName(record.service),
+            displayName: record.service,
+            totalCost: 0,
+            currency,
+            budgetUtilization: 0,
+            regions: [],
+            tags: [],
+            dailyCosts: [],
+            trend: 'stable',
+            ...(record.provider && { provider: record.provider })
+          },
+          regions: new Map(),
+          daily: new Map(),
+          accounts: new Map(),
+          tags: new Map()
+        });
+      }
+
+      const entry = serviceMap.get(record.service)!;
+      entry.service.totalCost += record.cost;
+      if (record.region) this.addCost(entry.regions, record.region, record.cost);
+      if (record.accountId) {
+        this.addCost(entry.accounts, record.accountId, record.cost);
+        this.addCost(accountTotals, record.accountId, record.cost);
+      }
+      if (record.date) {
+        this.addCost(entry.daily, record.date, record.cost);
+        if (!firstDate || record.date < firstDate) firstDate = record.date;
+        if (!lastDate || record.date > lastDate) lastDate = record.date;
+      }
+      for (const [key, value] of record.tags || []) {
+        tagKeys.add(key);
+        if (!entry.tags.has(key)) entry.tags.set(key, new Map());
+        this.addCost(entry.tags.get(key)!, value, record.cost);
+      }
+    }
+
+    const services: ServiceCost[] = [];
+    for (const entry of serviceMap.values()) {
+      const service = entry.service;
+      const share = (cost: number) => service.totalCost > 0 ? (cost / service.totalCost) * 100 : 0;
+
+      service.regions = this.toBreakdown(entry.regions)
+        .map(([region, cost]): RegionCost => ({ region, cost, percentage: share(cost) }));
+      service.dailyCosts = Array.from(entry.daily.entries())
+        .map(([date, cost]) => ({ date, cost }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+      service.trend = this.calculateTrend(service.dailyCosts);
+      if (entry.accounts.size > 0) {
+        service.accounts = this.toBreakdown(entry.accounts)
+          .map(([accountId, cost]): AccountCost => ({ accountId, cost, percentage: share(cost) }));
+      }
+      // Same untagged bucket as line item uploads, so a dataset and a plain upload of a file agree
+      for (const key of tagKeys) {
+        const values = new Map<string, number>(entry.tags.get(key) || []);
+        const tagged = Array.from(values.values()).reduce((sum, cost) => sum + cost, 0);
+        this.addCost(values, UNTAGGED_TAG_VALUE, service.totalCost - tagged);
+        service.tags.push(...this.toBreakdown(values)
+          .map(([value, cost]): TagCost => ({ key, value, cost, percentage: share(cost) })));
+      }
+
+      if (service.totalCost > 0) {
+        services.push(service);
+      }
+    }
+
+    const totalCost = services.reduce((sum, service) => sum + service.totalCost, 0);
+    const accounts = this.toBreakdown(accountTotals)
+      .map(([accountId, cost]): AccountCost => ({
+        accountId,
+        cost,
+        percentage: totalCost > 0 ? (cost / totalCost) * 100 : 0
+      }));
+
+    return this.labelProvider({
+      services,
+      totalCost,
+      currency,
+      lastUpdated: new Date(),
+      budgetAlerts: [],
+      ...(firstDate && {
+        timePeriod: {
+          start: firstDate,
+          end: new Date(Date.parse(lastDate) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+          granularity: 'DAILY' as const
+        }
+      }),
+      ...(accounts.length > 1 && { accounts })
+    });
+  }
+
+  private invalidCostMessage(rawCost: string): string {
+    return rawCost ? `Cost '${rawCost}' is not a number` : 'Cost is empty';
+  }
+
   private calculateTrend(dailyCosts: DailyCost[]): 'increasing' | 'decreasing' | 'stable' {
     if (dailyCosts.length < 2) return 'stable';
 
@@ -274,45 +1355,80 @@ export class CSVUploadService {
       .replace(/[^a-z0-9]/g, '');
   }
 
-  public validateCSVFormat(fileBuffer: Buffer): Promise<{ valid: boolean; format?: string; error?: string }> {
-    return new Promise((resolve) => {
+  public async validateCSVFormat(fileBuffer: Buffer, columnMapping?: CSVColumnMapping): Promise<CSVValidationResult> {
+    try {
+      return await this.validateCSVStream(Readable.from(this.decompress(fileBuffer)), columnMapping);
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Unknown validation error'
+      };
+    }
+  }
+
+  /**
+   * Check the header row of a CSV stream; only the first row is read
+   */
+  public async validateCSVStream(source: Readable, columnMapping?: CSVColumnMapping): Promise<CSVValidationResult> {
+    const iterator = this.readRows(source);
+    try {
+      const first = await iterator.next();
+      // A file with a header line but no rows never yields one
+      if (first.done) {
+        return {
+          valid: false,
+          error: 'CSV file contains no data rows'
+        };
+      }
+
+      const headers = Object.keys(first.value);
+      let renames: Map<string, string>;
       try {
-        const stream = Readable.from(fileBuffer);
-        let headersParsed = false;
-        
-        stream
-          .pipe(csv())
-          .on('data', (data) => {
-            if (!headersParsed) {
-              const headers = Object.keys(data);
-              const format = this.detectCSVFormat(headers);
-              
-              if (format === 'unknown') {
-                resolve({
-                  valid: false,
-                  error: 'Unsupported CSV format. Expected Cost Explorer export with Service and Cost columns.'
-                });
-              } else {
-                resolve({
-                  valid: true,
-                  format
-                });
-              }
-              headersParsed = true;
-            }
-          })
-          .on('error', (error) => {
-            resolve({
-              valid: false,
-              error: `CSV parsing error: ${error.message}`
-            });
-          });
+        renames = this.resolveColumnMapping(headers, columnMapping);
       } catch (error) {
-        resolve({
+        return {
           valid: false,
-          error: error instanceof Error ? error.message : 'Unknown validation error'
-        });
+          error: error instanceof Error ? error.message : 'Invalid column mapping'
+        };
       }
-    });
+
+      const format = this.detectCSVFormat(this.renameHeaders(headers, renames));
+      if (format === 'unknown') {
+        return {
+          valid: false,
+          error: 'Unsupported CSV format. Expected a Cost Explorer export with Service and Cost columns, a Cost and Usage Report, a FOCUS file or a GCP or Azure billing export.'
+        };
+      }
+      return {
+        valid: true,
+        format
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        error: `CSV parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    } finally {
+      await iterator.return(undefined);
+    }
+  }
+
+  /**
+   * Read every row without keeping the result, to report the rows an import would skip or double count
+   */
+  public async validateCSVRows(source: Readable, columnMapping?: CSVColumnMapping): Promise<CSVValidationResult> {
+    try {
+      const result = await this.processStream(source, { columnMapping });
+      return {
+        valid: true,
+        format: result.format,
+        report: result.report
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Unknown validation error'
+      };
+    }
   }
-}
\ No newline at end of file
+}
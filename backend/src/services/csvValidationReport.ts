@@ -0,0 +1,68 @@
+import {
+  CSVColumnMapping,
+  CSVDuplicateRow,
+  CSVSkipReason,
+  CSVSkippedRow,
+  CSVValidationReport
+} from '../types';
+
+// A bad export can have millions of bad rows; list the first ones and count the rest
+export const MAX_REPORTED_ROWS = 100;
+
+// Collects skipped and duplicate rows while an import streams through the transforms
+export class CSVReportBuilder {
+  private currentRow = 0;
+  private rowsSkipped = 0;
+  private skippedRows: CSVSkippedRow[] = [];
+  private duplicateCount = 0;
+  private duplicates: CSVDuplicateRow[] = [];
+  private firstRows: Map<string, number> = new Map();
+
+  constructor(private columnMapping?: CSVColumnMapping) {}
+
+  // Called as each row is read so transforms can report without tracking row numbers
+  public startRow(): void {
+    this.currentRow++;
+  }
+
+  public skip(reason: CSVSkipReason, message: string): void {
+    this.rowsSkipped++;
+    if (this.skippedRows.length < MAX_REPORTED_ROWS) {
+      this.skippedRows.push({ row: this.currentRow, reason, message });
+    }
+  }
+
+  // Record the row under its date/service key and report it if an earlier row had the same key
+  public checkDuplicate(details: Omit<CSVDuplicateRow, 'row' | 'firstRow'>): void {
+    const key = [details.date, details.service, details.region].join('|');
+    const firstRow = this.firstRows.get(key);
+
+    if (firstRow === undefined) {
+      this.firstRows.set(key, this.currentRow);
+      return;
+    }
+
+    this.duplicateCount++;
+    if (this.duplicates.length < MAX_REPORTED_ROWS) {
+      this.duplicates.push({
+        row: this.currentRow,
+        firstRow,
+        ...details
+      });
+    }
+  }
+
+  public build(unknownColumns: string[]): CSVValidationReport {
+    return {
+      rowsRead: this.currentRow,
+      rowsImported: this.currentRow - this.rowsSkipped,
+      rowsSkipped: this.rowsSkipped,
+      skippedRows: this.skippedRows,
+      duplicateCount: this.duplicateCount,
+      duplicates: this.duplicates,
+      unknownColumns,
+      ...(this.columnMapping && { columnMapping: this.columnMapping }),
+      truncated: this.rowsSkipped > this.skippedRows.length || this.duplicateCount > this.duplicates.length
+    };
+  }
+}
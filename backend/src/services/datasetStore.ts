@@ -0,0 +1,142 @@
+import fs from 'fs';
+import path from 'path';
+import { CostDataset, CostRecord, DatasetImport } from '../types';
+
+// Storage behind CostDatasetService; implementations must return copies, not live objects
+export interface DatasetStore {
+  get(name: string): CostDataset | null;
+  put(dataset: CostDataset): void;
+  delete(name: string): boolean;
+  list(): CostDataset[];
+  getRecords(importId: string): CostRecord[];
+  putRecords(importId: string, records: CostRecord[]): void;
+  deleteRecords(importId: string): void;
+}
+
+export interface DatasetStoreFile {
+  version: number;
+  datasets: CostDataset[];
+  records: Record<string, CostRecord[]>; // Keyed by import ID
+}
+
+export const DATASET_STORE_VERSION = 1;
+
+export const DEFAULT_DATASET_STORE_PATH = path.join('data', 'datasets.json');
+
+const copyDataset = (dataset: CostDataset): CostDataset => ({
+  ...dataset,
+  imports: dataset.imports.map(entry => ({
+    ...entry,
+    ...(entry.dateRange && { dateRange: { ...entry.dateRange } })
+  }))
+});
+
+export class InMemoryDatasetStore implements DatasetStore {
+  protected datasets: Map<string, CostDataset> = new Map();
+  protected records: Map<string, CostRecord[]> = new Map();
+
+  public get(name: string): CostDataset | null {
+    const dataset = this.datasets.get(name);
+    return dataset ? copyDataset(dataset) : null;
+  }
+
+  public put(dataset: CostDataset): void {
+    this.datasets.set(dataset.name, copyDataset(dataset));
+  }
+
+  public delete(name: string): boolean {
+    const dataset = this.datasets.get(name);
+    if (!dataset) return false;
+
+    dataset.imports.forEach(entry => this.records.delete(entry.id));
+    return this.datasets.delete(name);
+  }
+
+  public list(): CostDataset[] {
+    return Array.from(this.datasets.keys()).map(name => this.get(name)!);
+  }
+
+  public getRecords(importId: string): CostRecord[] {
+    return (this.records.get(importId) || []).map(record => ({ ...record }));
+  }
+
+  public putRecords(importId: string, records: CostRecord[]): void {
+    this.records.set(importId, records.map(record => ({ ...record })));
+  }
+
+  public deleteRecords(importId: string): void {
+    this.records.delete(importId);
+  }
+}
+
+// Keeps datasets in memory and rewrites the JSON file after every change
+export class JsonFileDatasetStore extends InMemoryDatasetStore {
+  constructor(private filePath: string = DEFAULT_DATASET_STORE_PATH) {
+    super();
+    this.load();
+  }
+
+  public put(dataset: CostDataset): void {
+    super.put(dataset);
+    this.persist();
+  }
+
+  public delete(name: string): boolean {
+    const deleted = super.delete(name);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  public putRecords(importId: string, records: CostRecord[]): void {
+    super.putRecords(importId, records);
+    this.persist();
+  }
+
+  public deleteRecords(importId: string): void {
+    super.deleteRecords(importId);
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data: DatasetStoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (data.version > DATASET_STORE_VERSION) {
+      throw new Error(`Dataset store ${this.filePath} has version ${data.version}; this build supports up to ${DATASET_STORE_VERSION}`);
+    }
+
+    data.datasets.forEach(dataset => this.datasets.set(dataset.name, {
+      ...dataset,
+      createdAt: new Date(dataset.createdAt),
+      updatedAt: new Date(dataset.updatedAt),
+      imports: dataset.imports.map((entry): DatasetImport => ({
+        ...entry,
+        importedAt: new Date(entry.importedAt),
+        ...(entry.rolledBackAt && { rolledBackAt: new Date(entry.rolledBackAt) })
+      }))
+    }));
+    Object.entries(data.records).forEach(([importId, records]) => this.records.set(importId, records));
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  private persist(): void {
+    const file: DatasetStoreFile = {
+      version: DATASET_STORE_VERSION,
+      datasets: Array.from(this.datasets.values()),
+      records: Object.fromEntries(this.records)
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(file));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Tests and DATASET_STORE=memory use the in-memory store; everything else persists to disk
+export const createDatasetStore = (): DatasetStore => {
+  if (process.env.NODE_ENV === 'test' || process.env.DATASET_STORE === 'memory') {
+    return new InMemoryDatasetStore();
+  }
+  return new JsonFileDatasetStore(process.env.DATASET_STORE_PATH || DEFAULT_DATASET_STORE_PATH);
+};
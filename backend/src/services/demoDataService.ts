@@ -1,215 +1,197 @@
-import { ServiceCost, CostData, BudgetAlert } from '../types';
+import { ServiceCost, CostData, BudgetAlert, DailyCost, DemoDataOptions, DemoScenario, DemoScenarioId } from '../types';
 import { budgetService } from './budgetService';
 
+interface DemoServiceTemplate {
+  service: string;
+  displayName: string;
+  dailyCost: number; // Typical weekday cost in USD
+  global?: boolean; // Global services have no regional breakdown
+  tagKey: string;
+  tagValues: string[];
+}
+
+// Ordered so that small demos still show the familiar services
+const DEMO_SERVICES: DemoServiceTemplate[] = [
+  { service: 'ec2', displayName: 'EC2', dailyCost: 180, tagKey: 'Environment', tagValues: ['Production', 'Staging', 'Development'] },
+  { service: 's3', displayName: 'S3', dailyCost: 48, tagKey: 'DataType', tagValues: ['Media', 'Backup', 'Logs'] },
+  { service: 'rds', displayName: 'RDS', dailyCost: 127, tagKey: 'Application', tagValues: ['WebApp', 'Analytics', 'Reporting'] },
+  { service: 'lambda', displayName: 'Lambda', dailyCost: 22, tagKey: 'Function', tagValues: ['API', 'Processing', 'Triggers'] },
+  { service: 'cloudfront', displayName: 'CloudFront', dailyCost: 300, global: true, tagKey: 'Content', tagValues: ['Static', 'Dynamic', 'Streaming'] },
+  { service: 'route53', displayName: 'Route 53', dailyCost: 6.4, global: true, tagKey: 'Domain', tagValues: ['Production', 'Staging', 'Development'] },
+  { service: 'vpc', displayName: 'VPC', dailyCost: 33, tagKey: 'Environment', tagValues: ['Production', 'Staging', 'Development'] },
+  { service: 'dynamodb', displayName: 'DynamoDB', dailyCost: 40, tagKey: 'Table', tagValues: ['Orders', 'Sessions', 'Events'] },
+  { service: 'ecs', displayName: 'ECS', dailyCost: 75, tagKey: 'Cluster', tagValues: ['web', 'workers', 'batch'] },
+  { service: 'cloudwatch', displayName: 'CloudWatch', dailyCost: 18, tagKey: 'Environment', tagValues: ['Production', 'Staging', 'Development'] },
+  { service: 'elasticache', displayName: 'ElastiCache', dailyCost: 55, tagKey: 'Application', tagValues: ['WebApp', 'Analytics'] },
+  { service: 'sqs', displayName: 'SQS', dailyCost: 5, tagKey: 'Queue', tagValues: ['orders', 'notifications', 'dead-letter'] },
+  { service: 'sns', displayName: 'SNS', dailyCost: 3, tagKey: 'Topic', tagValues: ['alerts', 'marketing'] },
+  { service: 'redshift', displayName: 'Redshift', dailyCost: 150, tagKey: 'Team', tagValues: ['Analytics', 'Finance', 'Marketing'] },
+  { service: 'eks', displayName: 'EKS', dailyCost: 90, tagKey: 'Cluster', tagValues: ['web', 'workers', 'batch'] },
+  { service: 'kms', displayName: 'KMS', dailyCost: 2, global: true, tagKey: 'Environment', tagValues: ['Production', 'Staging'] }
+];
+
+const DEMO_REGIONS = ['us-east-1', 'us-west-2', 'eu-west-1', 'ap-northeast-1'];
+
+interface ScenarioProfile {
+  utilization: [number, number]; // Budget utilization of ordinary services
+  pressuredShare: number; // Share of services close to their budget
+  pressuredUtilization: [number, number];
+  dailyGrowth: [number, number];
+  spikes: number;
+}
+
+const SCENARIO_PROFILES: Record<DemoScenarioId, ScenarioProfile> = {
+  normal_usage: { utilization: [0.2, 0.65], pressuredShare: 0, pressuredUtilization: [0, 0], dailyGrowth: [-0.003, 0.005], spikes: 0 },
+  budget_warning: { utilization: [0.3, 0.75], pressuredShare: 0.35, pressuredUtilization: [0.82, 0.98], dailyGrowth: [0, 0.012], spikes: 0 },
+  cost_spike: { utilization: [0.3, 0.8], pressuredShare: 0.15, pressuredUtilization: [0.82, 0.98], dailyGrowth: [0, 0.01], spikes: 2 }
+};
+
+// Spiked services blow through their budget whatever the scenario
+const SPIKED_UTILIZATION: [number, number] = [1.1, 1.6];
+
+export const DEMO_SCENARIOS: DemoScenario[] = [
+  {
+    id: 'normal_usage',
+    name: 'Normal Usage',
+    description: 'All services within budget, normal operation'
+  },
+  {
+    id: 'budget_warning',
+    name: 'Budget Warning',
+    description: 'Some services approaching budget limits'
+  },
+  {
+    id: 'cost_spike',
+    name: 'Cost Spike',
+    description: 'Multiple services over budget, immediate attention required'
+  }
+];
+
+export const DEFAULT_DEMO_SEED = 42;
+export const DEFAULT_DEMO_SERVICE_COUNT = 8;
+export const MAX_DEMO_SERVICES = DEMO_SERVICES.length;
+const DEFAULT_DEMO_DAYS = 14;
+const DEFAULT_DEMO_SEASONALITY = 0.15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+// mulberry32: tiny and fast, and plenty for synthetic costs
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Synthetic cost data for demo mode. The scenario decides how close services run to their
+// budgets; the seed makes every run with the same options produce the same costs
 export class DemoDataService {
-  private generateDemoServices(): ServiceCost[] {
-    return [
-      {
-        service: 'ec2',
-        displayName: 'EC2',
-        totalCost: 1250,
-        currency: 'USD',
-        budgetUtilization: 0.85,
-        regions: [
-          { region: 'us-east-1', cost: 500, percentage: 40 },
-          { region: 'us-west-2', cost: 375, percentage: 30 },
-          { region: 'eu-west-1', cost: 250, percentage: 20 },
-          { region: 'ap-northeast-1', cost: 125, percentage: 10 }
-        ],
-        tags: [
-          { key: 'Environment', value: 'Production', cost: 750, percentage: 60 },
-          { key: 'Environment', value: 'Staging', cost: 375, percentage: 30 },
-          { key: 'Environment', value: 'Development', cost: 125, percentage: 10 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 120 },
-          { date: '2024-11-13', cost: 135 },
-          { date: '2024-11-14', cost: 98 },
-          { date: '2024-11-15', cost: 156 },
-          { date: '2024-11-16', cost: 189 },
-          { date: '2024-11-17', cost: 234 },
-          { date: '2024-11-18', cost: 318 }
-        ],
-        trend: 'increasing'
-      },
-      {
-        service: 's3',
-        displayName: 'S3',
-        totalCost: 340,
-        currency: 'USD',
-        budgetUtilization: 0.34,
-        regions: [
-          { region: 'us-east-1', cost: 136, percentage: 40 },
-          { region: 'us-west-2', cost: 102, percentage: 30 },
-          { region: 'eu-west-1', cost: 68, percentage: 20 },
-          { region: 'ap-northeast-1', cost: 34, percentage: 10 }
-        ],
-        tags: [
-          { key: 'DataType', value: 'Media', cost: 170, percentage: 50 },
-          { key: 'DataType', value: 'Backup', cost: 102, percentage: 30 },
-          { key: 'DataType', value: 'Logs', cost: 68, percentage: 20 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 45 },
-          { date: '2024-11-13', cost: 48 },
-          { date: '2024-11-14', cost: 52 },
-          { date: '2024-11-15', cost: 49 },
-          { date: '2024-11-16', cost: 51 },
-          { date: '2024-11-17', cost: 47 },
-          { date: '2024-11-18', cost: 48 }
-        ],
-        trend: 'stable'
-      },
-      {
-        service: 'rds',
-        displayName: 'RDS',
-        totalCost: 890,
-        currency: 'USD',
-        budgetUtilization: 0.67,
-        regions: [
-          { region: 'us-east-1', cost: 356, percentage: 40 },
-          { region: 'us-west-2', cost: 267, percentage: 30 },
-          { region: 'eu-west-1', cost: 178, percentage: 20 },
-          { region: 'ap-northeast-1', cost: 89, percentage: 10 }
-        ],
-        tags: [
-          { key: 'Application', value: 'WebApp', cost: 445, percentage: 50 },
-          { key: 'Application', value: 'Analytics', cost: 267, percentage: 30 },
-          { key: 'Application', value: 'Reporting', cost: 178, percentage: 20 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 125 },
-          { date: '2024-11-13', cost: 118 },
-          { date: '2024-11-14', cost: 132 },
-          { date: '2024-11-15', cost: 128 },
-          { date: '2024-11-16', cost: 135 },
-          { date: '2024-11-17', cost: 142 },
-          { date: '2024-11-18', cost: 110 }
-        ],
-        trend: 'increasing'
-      },
-      {
-        service: 'lambda',
-        displayName: 'Lambda',
-        totalCost: 156,
-        currency: 'USD',
-        budgetUtilization: 0.26,
-        regions: [
-          { region: 'us-east-1', cost: 62, percentage: 40 },
-          { region: 'us-west-2', cost: 47, percentage: 30 },
-          { region: 'eu-west-1', cost: 31, percentage: 20 },
-          { region: 'ap-northeast-1', cost: 16, percentage: 10 }
-        ],
-        tags: [
-          { key: 'Function', value: 'API', cost: 78, percentage: 50 },
-          { key: 'Function', value: 'Processing', cost: 47, percentage: 30 },
-          { key: 'Function', value: 'Triggers', cost: 31, percentage: 20 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 18 },
-          { date: '2024-11-13', cost: 22 },
-          { date: '2024-11-14', cost: 19 },
-          { date: '2024-11-15', cost: 25 },
-          { date: '2024-11-16', cost: 21 },
-          { date: '2024-11-17', cost: 23 },
-          { date: '2024-11-18', cost: 28 }
-        ],
-        trend: 'stable'
-      },
-      {
-        service: 'cloudfront',
-        displayName: 'CloudFront',
-        totalCost: 2100,
-        currency: 'USD',
-        budgetUtilization: 1.4, // Over budget!
-        regions: [], // CloudFront는 글로벌 서비스이므로 리전별 데이터 없음
-        tags: [
-          { key: 'Content', value: 'Static', cost: 1050, percentage: 50 },
-          { key: 'Content', value: 'Dynamic', cost: 630, percentage: 30 },
-          { key: 'Content', value: 'Streaming', cost: 420, percentage: 20 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 280 },
-          { date: '2024-11-13', cost: 295 },
-          { date: '2024-11-14', cost: 310 },
-          { date: '2024-11-15', cost: 325 },
-          { date: '2024-11-16', cost: 340 },
-          { date: '2024-11-17', cost: 365 },
-          { date: '2024-11-18', cost: 185 }
-        ],
-        trend: 'increasing'
-      },
-      {
-        service: 'route53',
-        displayName: 'Route 53',
-        totalCost: 45,
-        currency: 'USD',
-        budgetUtilization: 0.15,
-        regions: [], // Route 53은 글로벌 서비스
-        tags: [
-          { key: 'Domain', value: 'Production', cost: 27, percentage: 60 },
-          { key: 'Domain', value: 'Staging', cost: 13.5, percentage: 30 },
-          { key: 'Domain', value: 'Development', cost: 4.5, percentage: 10 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 6.2 },
-          { date: '2024-11-13', cost: 6.5 },
-          { date: '2024-11-14', cost: 6.1 },
-          { date: '2024-11-15', cost: 6.8 },
-          { date: '2024-11-16', cost: 6.4 },
-          { date: '2024-11-17', cost: 6.7 },
-          { date: '2024-11-18', cost: 6.3 }
-        ],
-        trend: 'stable'
-      },
-      {
-        service: 'iam',
-        displayName: 'IAM',
-        totalCost: 0,
-        currency: 'USD',
-        budgetUtilization: 0,
-        regions: [], // IAM은 글로벌 서비스이며 무료
-        tags: [],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 0 },
-          { date: '2024-11-13', cost: 0 },
-          { date: '2024-11-14', cost: 0 },
-          { date: '2024-11-15', cost: 0 },
-          { date: '2024-11-16', cost: 0 },
-          { date: '2024-11-17', cost: 0 },
-          { date: '2024-11-18', cost: 0 }
-        ],
-        trend: 'stable'
-      },
-      {
-        service: 'vpc',
-        displayName: 'VPC',
-        totalCost: 234,
-        currency: 'USD',
-        budgetUtilization: 0.39,
-        regions: [
-          { region: 'us-east-1', cost: 93.6, percentage: 40 },
-          { region: 'us-west-2', cost: 70.2, percentage: 30 },
-          { region: 'eu-west-1', cost: 46.8, percentage: 20 },
-          { region: 'ap-northeast-1', cost: 23.4, percentage: 10 }
-        ],
-        tags: [
-          { key: 'Environment', value: 'Production', cost: 140.4, percentage: 60 },
-          { key: 'Environment', value: 'Staging', cost: 70.2, percentage: 30 },
-          { key: 'Environment', value: 'Development', cost: 23.4, percentage: 10 }
-        ],
-        dailyCosts: [
-          { date: '2024-11-12', cost: 32 },
-          { date: '2024-11-13', cost: 35 },
-          { date: '2024-11-14', cost: 31 },
-          { date: '2024-11-15', cost: 38 },
-          { date: '2024-11-16', cost: 34 },
-          { date: '2024-11-17', cost: 36 },
-          { date: '2024-11-18', cost: 28 }
-        ],
-        trend: 'stable'
+  private generateDemoServices(options: DemoDataOptions, dates: string[]): ServiceCost[] {
+    const scenario = SCENARIO_PROFILES[options.scenario || 'normal_usage'];
+    const random = createRandom(options.seed ?? DEFAULT_DEMO_SEED);
+    const between = ([min, max]: [number, number]) => min + random() * (max - min);
+
+    const templates = DEMO_SERVICES.slice(0, options.serviceCount ?? DEFAULT_DEMO_SERVICE_COUNT);
+    const seasonality = options.seasonality ?? DEFAULT_DEMO_SEASONALITY;
+    const indices = this.shuffle(random, templates.map((_, index) => index));
+    const spiked = new Set(indices.slice(0, Math.min(options.spikes ?? scenario.spikes, templates.length)));
+    const pressured = new Set(indices.slice(spiked.size, spiked.size + Math.round(templates.length * scenario.pressuredShare)));
+
+    return templates.map((template, index): ServiceCost => {
+      const scale = between([0.7, 1.3]);
+      const growth = between(scenario.dailyGrowth);
+
+      const dailyCosts: DailyCost[] = dates.map((date, day) => {
+        const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+        const season = weekday === 0 || weekday === 6 ? 1 - seasonality : 1 + seasonality * 0.4;
+        const noise = 0.95 + random() * 0.1;
+        return { date, cost: template.dailyCost * scale * Math.pow(1 + growth, day) * season * noise };
+      });
+
+      // A spike starts in the last few days and lasts to the end, so it stands out against the history
+      if (spiked.has(index) && dailyCosts.length > 0) {
+        const factor = between([2.5, 4]);
+        const start = dailyCosts.length - 1 - Math.floor(random() * Math.min(3, dailyCosts.length));
+        dailyCosts.slice(start).forEach(day => { day.cost *= factor; });
       }
-    ];
+      dailyCosts.forEach(day => { day.cost = roundCents(day.cost); });
+
+      const totalCost = roundCents(dailyCosts.reduce((sum, day) => sum + day.cost, 0));
+      const utilization = spiked.has(index)
+        ? SPIKED_UTILIZATION
+        : pressured.has(index) ? scenario.pressuredUtilization : scenario.utilization;
+
+      return {
+        service: template.service,
+        displayName: template.displayName,
+        totalCost,
+        currency: 'USD',
+        budgetUtilization: Math.round(between(utilization) * 100) / 100,
+        regions: template.global
+          ? []
+          : this.split(random, DEMO_REGIONS, totalCost).map(([region, cost, percentage]) => ({ region, cost, percentage })),
+        tags: this.split(random, template.tagValues, totalCost)
+          .map(([value, cost, percentage]) => ({ key: template.tagKey, value, cost, percentage })),
+        dailyCosts,
+        trend: this.calculateTrend(dailyCosts),
+        provider: 'aws'
+      };
+    });
+  }
+
+  // Days from startDate up to (not including) endDate
+  private resolveDates(options: DemoDataOptions): string[] {
+    const today = new Date().toISOString().slice(0, 10);
+    const end = Date.parse(`${options.endDate || today}T00:00:00Z`);
+    const start = options.startDate ? Date.parse(`${options.startDate}T00:00:00Z`) : end - DEFAULT_DEMO_DAYS * DAY_MS;
+
+    const dates: string[] = [];
+    for (let time = start; time < end; time += DAY_MS) {
+      dates.push(new Date(time).toISOString().slice(0, 10));
+    }
+    return dates;
+  }
+
+  // Share a total among keys, the first ones getting the most
+  private split(random: () => number, keys: string[], total: number): Array<[string, number, number]> {
+    const weights = keys.map((_, index) => (keys.length - index) * (0.75 + random() * 0.5));
+    const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+    return keys.map((key, index): [string, number, number] => [
+      key,
+      roundCents(total * weights[index] / weightTotal),
+      Math.round(weights[index] / weightTotal * 1000) / 10
+    ]);
+  }
+
+  private shuffle<T>(random: () => number, items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  // Compare the last third of the period with the first
+  private calculateTrend(dailyCosts: DailyCost[]): ServiceCost['trend'] {
+    const third = Math.floor(dailyCosts.length / 3);
+    if (third === 0) return 'stable';
+
+    const average = (days: DailyCost[]) => days.reduce((sum, day) => sum + day.cost, 0) / days.length;
+    const first = average(dailyCosts.slice(0, third));
+    const last = average(dailyCosts.slice(-third));
+    if (first === 0) return 'stable';
+
+    const change = (last - first) / first;
+    if (change > 0.05) return 'increasing';
+    if (change < -0.05) return 'decreasing';
+    return 'stable';
   }
 
   private generateBudgetAlerts(services: ServiceCost[]): BudgetAlert[] {
@@ -220,45 +202,40 @@ export class DemoDataService {
         currentCost: service.totalCost,
         budgetLimit: service.totalCost / service.budgetUtilization,
         utilizationPercentage: service.budgetUtilization * 100,
-        severity: service.budgetUtilization > 1.0 ? 'critical' : 'warning'
+        severity: service.budgetUtilization > 1.0 ? 'critical' as const : 'warning' as const
       }));
   }
 
-  public getDemoData(): CostData {
-    const services = this.generateDemoServices();
+  public getDemoData(options: DemoDataOptions = {}): CostData {
+    const dates = this.resolveDates(options);
+    const services = this.generateDemoServices(options, dates);
     const totalCost = services.reduce((sum, service) => sum + service.totalCost, 0);
     const budgetAlerts = this.generateBudgetAlerts(services);
 
+    const timePeriod = dates.length > 0
+      ? {
+        start: dates[0],
+        end: new Date(Date.parse(`${dates[dates.length - 1]}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10),
+        granularity: 'DAILY' as const
+      }
+      : undefined;
+
     // Generate budget utilizations and alerts
-    const utilizations = budgetService.calculateUtilization(services, 'demo');
-    budgetService.generateAlerts(utilizations);
+    const utilizations = budgetService.calculateUtilization(services, 'demo', { costPeriod: timePeriod });
+    budgetService.generateAlerts(utilizations, 'demo');
 
     return {
       services,
       totalCost,
       currency: 'USD',
       lastUpdated: new Date(),
-      budgetAlerts
+      budgetAlerts,
+      ...(timePeriod && { timePeriod }),
+      provider: 'aws'
     };
   }
 
-  public getDemoScenarios() {
-    return [
-      {
-        id: 'normal_usage',
-        name: 'Normal Usage',
-        description: 'All services within budget, normal operation'
-      },
-      {
-        id: 'budget_warning',
-        name: 'Budget Warning',
-        description: 'Some services approaching budget limits'
-      },
-      {
-        id: 'cost_spike',
-        name: 'Cost Spike',
-        description: 'Multiple services over budget, immediate attention required'
-      }
-    ];
+  public getDemoScenarios(): DemoScenario[] {
+    return DEMO_SCENARIOS;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,14 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import NodeCache from 'node-cache';
+import { ShareStore, createShareStore } from './shareStore';
+import { UnlockThrottle } from './unlockThrottle';
+import { UNTAGGED_TAG_VALUE } from './awsService';
+
+export interface ShareUnlockFailure {
+  at: Date;
+  ip: string; // Masked client address
+  reason: 'invalid_password' | 'locked_out';
+}
 
 export interface ShareData {
   id: string;
@@ -8,23 +17,81 @@ export interface ShareData {
     expirationHours: number;
     maxViews?: number;
     includeData: boolean;
-    password?: string;
+    password?: string; // Only present on shares stored before passwords were hashed
   };
   createdAt: Date;
   expiresAt: Date;
   viewCount: number;
+  ownerKeyHash?: string; // SHA-256 of the creator's owner key; lets them list and revoke the link
+  passwordHash?: string; // scrypt$<salt>$<hash>
+  failedUnlockCount?: number;
+  failedUnlocks?: ShareUnlockFailure[]; // Most recent failures, newest last
 }
 
-class ExportService {
-  private shareCache: NodeCache;
+export interface FocusExportOptions {
+  providerName?: string; // Defaults to AWS
+  billingAccountId?: string;
+  billingPeriod?: { start: string; end: string }; // YYYY-MM-DD, end exclusive; derived from the dates otherwise
+}
 
-  constructor() {
-    // Cache with TTL cleanup
-    this.shareCache = new NodeCache({ 
-      stdTTL: 24 * 60 * 60, // 24 hours default
-      checkperiod: 60 * 60, // Check for expired keys every hour
-      useClones: false
-    });
+// Columns written by generateFOCUSCSV, in order
+export const FOCUS_EXPORT_COLUMNS = [
+  'BillingAccountId',
+  'BillingCurrency',
+  'BillingPeriodStart',
+  'BillingPeriodEnd',
+  'ChargePeriodStart',
+  'ChargePeriodEnd',
+  'ChargeCategory',
+  'ChargeClass',
+  'ChargeDescription',
+  'ChargeFrequency',
+  'BilledCost',
+  'EffectiveCost',
+  'ListCost',
+  'ContractedCost',
+  'ProviderName',
+  'PublisherName',
+  'InvoiceIssuerName',
+  'ServiceName',
+  'ServiceCategory',
+  'RegionId',
+  'SubAccountId',
+  'Tags'
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ShareLockedError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super('Too many failed unlock attempts');
+    this.name = 'ShareLockedError';
+  }
+}
+
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+const UNLOCK_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_FAILED_UNLOCKS_PER_SHARE = 5;
+const MAX_FAILED_UNLOCKS_PER_IP = 20;
+const FAILED_UNLOCK_HISTORY = 50;
+
+export class ExportService {
+  private shareStore: ShareStore;
+  private stats = { hits: 0, misses: 0 };
+  private shareThrottle = new UnlockThrottle({
+    maxAttempts: MAX_FAILED_UNLOCKS_PER_SHARE,
+    windowMs: UNLOCK_WINDOW_MS,
+    lockoutMs: UNLOCK_LOCKOUT_MS
+  });
+  private ipThrottle = new UnlockThrottle({
+    maxAttempts: MAX_FAILED_UNLOCKS_PER_IP,
+    windowMs: UNLOCK_WINDOW_MS,
+    lockoutMs: UNLOCK_LOCKOUT_MS
+  });
+
+  constructor(shareStore: ShareStore = createShareStore()) {
+    this.shareStore = shareStore;
+    this.hashLegacyPasswords();
   }
 
   /**
@@ -35,46 +102,68 @@ class ExportService {
     maxViews?: number;
     includeData: boolean;
     password?: string;
-  }): ShareData {
+  }, ownerKey?: string): ShareData {
     const id = uuidv4();
     const createdAt = new Date();
     const expiresAt = new Date(createdAt.getTime() + options.expirationHours * 60 * 60 * 1000);
+    const { password, ...storedOptions } = options;
 
     const shareData: ShareData = {
       id,
       snapshot,
-      options,
+      options: storedOptions,
+      ...(password && { passwordHash: this.hashPassword(password) }),
       createdAt,
       expiresAt,
-      viewCount: 0
+      viewCount: 0,
+      ...(ownerKey && { ownerKeyHash: this.hashOwnerKey(ownerKey) })
     };
 
-    // Store in cache with TTL
-    const ttlSeconds = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
-    this.shareCache.set(id, shareData, ttlSeconds);
+    this.shareStore.put(shareData);
 
     return shareData;
   }
 
   /**
-   * Get shared data by ID
+   * Get shared data by ID; failed password attempts are throttled per share and per client IP
    */
-  getSharedData(shareId: string, password?: string): ShareData | null {
-    const shareData = this.shareCache.get<ShareData>(shareId);
+  getSharedData(shareId: string, password?: string, clientIp: string = 'unknown'): ShareData | null {
+    const shareData = this.shareStore.get(shareId);
     
     if (!shareData) {
+      this.stats.misses++;
       return null;
     }
 
     // Check if expired
     if (shareData.expiresAt < new Date()) {
-      this.shareCache.del(shareId);
+      this.shareStore.delete(shareId);
+      this.stats.misses++;
       return null;
     }
 
+    this.stats.hits++;
+
     // Check password if required
-    if (shareData.options.password && shareData.options.password !== password) {
-      throw new Error('Invalid password');
+    if (shareData.passwordHash) {
+      const retryAfterMs = Math.max(
+        this.shareThrottle.getRetryAfterMs(shareId),
+        this.ipThrottle.getRetryAfterMs(clientIp)
+      );
+
+      if (retryAfterMs > 0) {
+        this.recordFailedUnlock(shareData, clientIp, 'locked_out');
+        throw new ShareLockedError(Math.ceil(retryAfterMs / 1000));
+      }
+
+      if (!password || !this.verifyPassword(password, shareData.passwordHash)) {
+        this.shareThrottle.recordFailure(shareId);
+        this.ipThrottle.recordFailure(clientIp);
+        this.recordFailedUnlock(shareData, clientIp, 'invalid_password');
+        throw new Error('Invalid password');
+      }
+
+      this.shareThrottle.reset(shareId);
     }
 
     // Check view limit
@@ -84,7 +173,7 @@ class ExportService {
 
     // Increment view count
     shareData.viewCount++;
-    this.shareCache.set(shareId, shareData);
+    this.shareStore.putCounters(shareData);
 
     return shareData;
   }
@@ -97,10 +186,13 @@ class ExportService {
     maxViews?: number;
     expiresAt: Date;
     createdAt: Date;
+    failedUnlockCount: number;
+    recentFailedUnlocks: ShareUnlockFailure[];
+    lockedUntil: Date | null;
   } | null {
-    const shareData = this.shareCache.get<ShareData>(shareId);
+    const shareData = this.shareStore.get(shareId);
     
-    if (!shareData) {
+    if (!shareData || shareData.expiresAt < new Date()) {
       return null;
     }
 
@@ -108,22 +200,51 @@ class ExportService {
       viewCount: shareData.viewCount,
       maxViews: shareData.options.maxViews,
       expiresAt: shareData.expiresAt,
-      createdAt: shareData.createdAt
+      createdAt: shareData.createdAt,
+      failedUnlockCount: shareData.failedUnlockCount || 0,
+      recentFailedUnlocks: shareData.failedUnlocks || [],
+      lockedUntil: this.shareThrottle.getLockedUntil(shareId)
     };
   }
 
+  /**
+   * Get the active shares created with an owner key, newest first
+   */
+  getSharesByOwner(ownerKey: string): ShareData[] {
+    const ownerKeyHash = this.hashOwnerKey(ownerKey);
+
+    return this.getAllActiveShares()
+      .filter(share => share.ownerKeyHash === ownerKeyHash)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Revoke a share before it expires; only its owner may do so
+   */
+  revokeShare(shareId: string, ownerKey: string): boolean {
+    const shareData = this.shareStore.get(shareId);
+
+    if (!shareData) {
+      return false;
+    }
+
+    if (!shareData.ownerKeyHash || shareData.ownerKeyHash !== this.hashOwnerKey(ownerKey)) {
+      throw new Error('Not the share owner');
+    }
+
+    return this.shareStore.delete(shareId);
+  }
+
   /**
    * Delete expired shares (cleanup)
    */
   cleanupExpiredShares(): number {
-    const keys = this.shareCache.keys();
     let deletedCount = 0;
     const now = new Date();
 
-    for (const key of keys) {
-      const shareData = this.shareCache.get<ShareData>(key);
-      if (shareData && shareData.expiresAt < now) {
-        this.shareCache.del(key);
+    for (const shareData of this.shareStore.list()) {
+      if (shareData.expiresAt < now) {
+        this.shareStore.delete(shareData.id);
         deletedCount++;
       }
     }
@@ -135,18 +256,8 @@ class ExportService {
    * Get all active shares (for admin purposes)
    */
   getAllActiveShares(): ShareData[] {
-    const keys = this.shareCache.keys();
-    const activeShares: ShareData[] = [];
     const now = new Date();
-
-    for (const key of keys) {
-      const shareData = this.shareCache.get<ShareData>(key);
-      if (shareData && shareData.expiresAt > now) {
-        activeShares.push(shareData);
-      }
-    }
-
-    return activeShares;
+    return this.shareStore.list().filter(shareData => shareData.expiresAt > now);
   }
 
   /**
@@ -273,6 +384,100 @@ class ExportService {
       .join('\n');
   }
 
+  /**
+   * Generate a FOCUS 1.x CSV so other FinOps tools can read the mansion's data. Services with a
+   * daily breakdown get one row per day, others one row per region over the billing period; all
+   * four cost columns carry the service's cost, as the mansion only keeps one metric
+   */
+  generateFOCUSCSV(services: any[], options: FocusExportOptions = {}): string {
+    const provider = options.providerName || 'AWS';
+    const dates = services
+      .flatMap(service => (service.dailyCosts || []).map((day: any) => day.date as string))
+      .sort();
+    const billingPeriod = options.billingPeriod || this.billingPeriodFor(dates[0], dates[dates.length - 1]);
+    const timestamp = (date: string) => `${date}T00:00:00Z`;
+    const nextDay = (date: string) => new Date(Date.parse(date) + DAY_MS).toISOString().slice(0, 10);
+
+    const rows: string[][] = [FOCUS_EXPORT_COLUMNS];
+
+    services.forEach(service => {
+      const regions: any[] = service.regions || [];
+      const dailyCosts: any[] = service.dailyCosts || [];
+      const accounts: any[] = service.accounts || [];
+      const dailyTotal = dailyCosts.reduce((sum, day) => sum + day.cost, 0);
+
+      // A breakdown is only usable if it adds up to the service total; daily rows lose the regions
+      const charges: Array<{ start: string; end: string; cost: number; region: string }> =
+        dailyCosts.length > 0 && Math.abs(dailyTotal - service.totalCost) <= Math.max(0.01, service.totalCost * 0.005)
+          ? dailyCosts.map(day => ({
+            start: day.date,
+            end: nextDay(day.date),
+            cost: day.cost,
+            region: regions.length === 1 ? regions[0].region : ''
+          }))
+          : regions.length > 0
+            ? regions.map(region => ({ start: billingPeriod.start, end: billingPeriod.end, cost: region.cost, region: region.region }))
+            : [{ start: billingPeriod.start, end: billingPeriod.end, cost: service.totalCost, region: '' }];
+
+      const tags = JSON.stringify(this.focusTags(service.tags || []));
+
+      charges.forEach(charge => {
+        const cost = charge.cost.toString();
+        rows.push([
+          options.billingAccountId || '',
+          service.currency || 'USD',
+          timestamp(billingPeriod.start),
+          timestamp(billingPeriod.end),
+          timestamp(charge.start),
+          timestamp(charge.end),
+          'Usage',
+          '',
+          `${service.displayName} usage`,
+          'Usage-Based',
+          cost,
+          cost,
+          cost,
+          cost,
+          provider,
+          provider,
+          provider,
+          service.displayName,
+          'Other',
+          charge.region,
+          accounts.length === 1 ? accounts[0].accountId : '',
+          tags
+        ]);
+      });
+    });
+
+    return rows
+      .map(row => row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+  }
+
+  // Calendar months covering the charges, as FOCUS billing periods are invoice months
+  private billingPeriodFor(firstDate?: string, lastDate?: string): { start: string; end: string } {
+    const first = firstDate ? new Date(`${firstDate}T00:00:00Z`) : new Date();
+    const last = lastDate ? new Date(`${lastDate}T00:00:00Z`) : first;
+    const start = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(last.getUTCFullYear(), last.getUTCMonth() + 1, 1));
+    return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+  }
+
+  // Rows carry the whole service, so only tags covering all of its cost can be attached
+  private focusTags(tags: any[]): Record<string, string> {
+    const byKey = new Map<string, any[]>();
+    tags.forEach(tag => byKey.set(tag.key, [...(byKey.get(tag.key) || []), tag]));
+
+    const result: Record<string, string> = {};
+    for (const [key, values] of byKey) {
+      if (values.length === 1 && values[0].value !== UNTAGGED_TAG_VALUE && values[0].percentage >= 99.99) {
+        result[key] = values[0].value;
+      }
+    }
+    return result;
+  }
+
   /**
    * Generate JSON export with metadata
    */
@@ -296,16 +501,75 @@ class ExportService {
   }
 
   /**
-   * Get cache statistics
+   * Write view and failed unlock counters the share store has not saved yet
+   */
+  flushShares(): void {
+    this.shareStore.flush();
+  }
+
+  /**
+   * Get share lookup statistics
    */
   getCacheStats(): {
     keys: number;
     hits: number;
     misses: number;
-    ksize: number;
-    vsize: number;
   } {
-    return this.shareCache.getStats();
+    return {
+      keys: this.shareStore.list().length,
+      ...this.stats
+    };
+  }
+
+  private hashOwnerKey(ownerKey: string): string {
+    return createHash('sha256').update(ownerKey).digest('hex');
+  }
+
+  private hashPassword(password: string): string {
+    const salt = randomBytes(16);
+    const hash = scryptSync(password, salt, 64);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  private verifyPassword(password: string, passwordHash: string): boolean {
+    const [algorithm, saltHex, hashHex] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  // Shares stored before hashing kept the password in plain text
+  private hashLegacyPasswords(): void {
+    for (const shareData of this.shareStore.list()) {
+      if (!shareData.options.password) continue;
+
+      const { password, ...options } = shareData.options;
+      this.shareStore.put({ ...shareData, options, passwordHash: this.hashPassword(password) });
+    }
+  }
+
+  private recordFailedUnlock(shareData: ShareData, clientIp: string, reason: ShareUnlockFailure['reason']): void {
+    const failure: ShareUnlockFailure = { at: new Date(), ip: this.maskIp(clientIp), reason };
+
+    this.shareStore.putCounters({
+      ...shareData,
+      failedUnlockCount: (shareData.failedUnlockCount || 0) + 1,
+      failedUnlocks: [...(shareData.failedUnlocks || []), failure].slice(-FAILED_UNLOCK_HISTORY)
+    });
+  }
+
+  // Keep enough of the address to spot a pattern without storing who it was
+  private maskIp(ip: string): string {
+    const address = ip.replace(/^::ffff:/, '');
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(address)) {
+      return address.replace(/\.\d+$/, '.x');
+    }
+    if (address.includes(':')) {
+      return `${address.split(':').slice(0, 4).join(':')}:x`;
+    }
+    return address;
   }
 }
 
@@ -0,0 +1,250 @@
+import {
+  CostData,
+  CostForecast,
+  DailyCost,
+  ForecastInterval,
+  ForecastMode,
+  ForecastPoint
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-sided z-scores for the supported prediction interval levels
+export const FORECAST_CONFIDENCE_Z: Record<number, number> = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+  99: 2.5758
+};
+
+export const DEFAULT_FORECAST_CONFIDENCE = 80;
+
+// Seasonality needs at least two observations per weekday
+const MIN_DAYS_FOR_SEASONALITY = 14;
+
+export interface ForecastOptions {
+  service?: string; // Service key or display name; omitted forecasts the total
+  days?: number; // Horizon in days; defaults to the end of the current month
+  confidenceLevel?: number;
+}
+
+interface LocalModel {
+  intercept: number;
+  slope: number;
+  weekdayOffsets: number[]; // Indexed by UTC day of week, zero when seasonality is off
+  sigma: number; // Residual standard error
+  n: number;
+  meanT: number;
+  sxx: number;
+}
+
+/**
+ * Interval for the total of daily forecasts. Daily errors add up in variance, not in width, so
+ * the total's half-width is the root of the summed squared daily half-widths. The upper bound is
+ * used for each day's half-width because lower bounds are clipped at zero. mean overrides the
+ * summed means, for sources that report their own total
+ */
+export const sumForecastPoints = (
+  points: ForecastPoint[],
+  mean: number = points.reduce((sum, p) => sum + p.mean, 0)
+): ForecastInterval => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const spread = Math.sqrt(points.reduce((sum, p) => sum + (p.upper - p.mean) ** 2, 0));
+  return {
+    mean: round(mean),
+    lower: round(Math.max(0, mean - spread)),
+    upper: round(mean + spread)
+  };
+};
+
+export class ForecastService {
+  // Forecast demo or CSV cost data with the local model
+  public forecastCostData(costData: CostData, mode: ForecastMode, options: ForecastOptions = {}): CostForecast {
+    const services = options.service
+      ? costData.services.filter(s => s.service === options.service || s.displayName === options.service)
+      : costData.services;
+
+    if (options.service && services.length === 0) {
+      throw new Error(`Service not found: ${options.service}`);
+    }
+
+    const series = this.sumDailyCosts(services.flatMap(s => s.dailyCosts));
+    const forecast = this.forecastDailyCosts(series, options);
+
+    return {
+      ...forecast,
+      mode,
+      currency: costData.currency,
+      ...(options.service && { service: options.service })
+    };
+  }
+
+  // Linear trend plus weekday seasonality, fitted on a gap-free daily series
+  public forecastDailyCosts(
+    dailyCosts: DailyCost[],
+    options: Omit<ForecastOptions, 'service'> = {}
+  ): Omit<CostForecast, 'mode' | 'currency' | 'service'> {
+    const confidenceLevel = options.confidenceLevel ?? DEFAULT_FORECAST_CONFIDENCE;
+    const z = FORECAST_CONFIDENCE_Z[confidenceLevel];
+    if (z === undefined) {
+      throw new Error(`Unsupported confidence level: ${confidenceLevel}`);
+    }
+
+    const series = this.fillMissingDays(dailyCosts);
+    if (series.length === 0) {
+      throw new Error('No daily cost data to forecast from');
+    }
+
+    const firstDay = this.parseDate(series[0].date);
+    const lastDay = this.parseDate(series[series.length - 1].date);
+    const forecastStart = new Date(lastDay.getTime() + DAY_MS);
+    const periodStart = new Date(Date.UTC(forecastStart.getUTCFullYear(), forecastStart.getUTCMonth(), 1));
+    const horizon = options.days ?? this.daysUntilMonthEnd(forecastStart);
+
+    const model = this.fitModel(series.map(point => point.cost), firstDay);
+    const points: ForecastPoint[] = [];
+
+    for (let i = 0; i < horizon; i++) {
+      const date = new Date(forecastStart.getTime() + i * DAY_MS);
+      const t = series.length + i;
+      const mean = model.intercept + model.slope * t + model.weekdayOffsets[date.getUTCDay()];
+      const spread = z * model.sigma * Math.sqrt(1 + 1 / model.n + (model.sxx > 0 ? (t - model.meanT) ** 2 / model.sxx : 0));
+
+      points.push({
+        date: this.formatDate(date),
+        mean: this.round(Math.max(0, mean)),
+        lower: this.round(Math.max(0, mean - spread)),
+        upper: this.round(Math.max(0, mean + spread))
+      });
+    }
+
+    const actualToDate = this.round(
+      series
+        .filter(point => this.parseDate(point.date) >= periodStart)
+        .reduce((sum, point) => sum + point.cost, 0)
+    );
+    const forecastTotal = sumForecastPoints(points);
+
+    return {
+      method: 'linear-regression',
+      confidenceLevel,
+      periodStart: this.formatDate(periodStart),
+      periodEnd: this.formatDate(new Date(forecastStart.getTime() + horizon * DAY_MS)),
+      actualToDate,
+      points,
+      forecastTotal,
+      projectedPeriodTotal: {
+        mean: this.round(actualToDate + forecastTotal.mean),
+        lower: this.round(actualToDate + forecastTotal.lower),
+        upper: this.round(actualToDate + forecastTotal.upper)
+      }
+    };
+  }
+
+  // Spend expected by the end of the month of the latest daily cost
+  public projectEndOfMonth(currentCost: number, dailyCosts: DailyCost[]): number {
+    const series = this.fillMissingDays(dailyCosts);
+    if (series.length < 2) return currentCost;
+
+    const lastDay = this.parseDate(series[series.length - 1].date);
+    const monthEnd = new Date(lastDay.getTime() + this.daysUntilMonthEnd(lastDay) * DAY_MS);
+    return this.projectThrough(currentCost, series, this.formatDate(monthEnd));
+  }
+
+  // Spend expected by an exclusive end date, such as the end of a budget period
+  public projectThrough(currentCost: number, dailyCosts: DailyCost[], end: string): number {
+    const series = this.fillMissingDays(dailyCosts);
+    if (series.length < 2) return currentCost;
+
+    const lastDay = this.parseDate(series[series.length - 1].date);
+    const daysRemaining = Math.round((this.parseDate(end).getTime() - lastDay.getTime()) / DAY_MS) - 1;
+    if (daysRemaining <= 0) return currentCost;
+
+    const forecast = this.forecastDailyCosts(series, { days: daysRemaining });
+    return this.round(currentCost + forecast.forecastTotal.mean);
+  }
+
+  private fitModel(values: number[], firstDay: Date): LocalModel {
+    const n = values.length;
+    const meanT = (n - 1) / 2;
+    const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+
+    let sxx = 0;
+    let sxy = 0;
+    values.forEach((y, t) => {
+      sxx += (t - meanT) ** 2;
+      sxy += (t - meanT) * (y - meanY);
+    });
+
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    const intercept = meanY - slope * meanT;
+    const residuals = values.map((y, t) => y - (intercept + slope * t));
+
+    const weekdayOffsets = new Array(7).fill(0);
+    if (n >= MIN_DAYS_FOR_SEASONALITY) {
+      const sums = new Array(7).fill(0);
+      const counts = new Array(7).fill(0);
+      residuals.forEach((residual, t) => {
+        const weekday = (firstDay.getUTCDay() + t) % 7;
+        sums[weekday] += residual;
+        counts[weekday]++;
+      });
+      for (let d = 0; d < 7; d++) {
+        weekdayOffsets[d] = counts[d] > 0 ? sums[d] / counts[d] : 0;
+      }
+    }
+
+    const fitted = residuals.map((residual, t) => residual - weekdayOffsets[(firstDay.getUTCDay() + t) % 7]);
+    const dof = n - 2 - (n >= MIN_DAYS_FOR_SEASONALITY ? 6 : 0);
+    const sse = fitted.reduce((sum, r) => sum + r * r, 0);
+    const sigma = dof > 0 ? Math.sqrt(sse / dof) : 0;
+
+    return { intercept, slope, weekdayOffsets, sigma, n, meanT, sxx };
+  }
+
+  private sumDailyCosts(dailyCosts: DailyCost[]): DailyCost[] {
+    const totals = new Map<string, number>();
+    dailyCosts.forEach(day => totals.set(day.date, (totals.get(day.date) || 0) + day.cost));
+    return Array.from(totals.entries()).map(([date, cost]) => ({ date, cost }));
+  }
+
+  // Days without a row had no spend
+  private fillMissingDays(dailyCosts: DailyCost[]): DailyCost[] {
+    const valid = dailyCosts
+      .filter(day => !isNaN(this.parseDate(day.date).getTime()))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (valid.length === 0) return [];
+
+    const byDate = new Map(valid.map(day => [this.formatDate(this.parseDate(day.date)), day.cost]));
+    const first = this.parseDate(valid[0].date);
+    const last = this.parseDate(valid[valid.length - 1].date);
+    const series: DailyCost[] = [];
+
+    for (let time = first.getTime(); time <= last.getTime(); time += DAY_MS) {
+      const date = this.formatDate(new Date(time));
+      series.push({ date, cost: byDate.get(date) || 0 });
+    }
+
+    return series;
+  }
+
+  private daysUntilMonthEnd(date: Date): number {
+    const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    return Math.round((nextMonth - date.getTime()) / DAY_MS);
+  }
+
+  private parseDate(date: string): Date {
+    return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const forecastService = new ForecastService();
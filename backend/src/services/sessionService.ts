@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+import { AWSService } from './awsService';
+
+export interface AwsSession {
+  token: string;
+  awsService: AWSService; // Holds this session's credentials and cache; Cost Explorer requests count against the process-wide ledger
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 60;
+const DEFAULT_MAX_SESSIONS = 100;
+
+// Maps opaque session tokens to per-browser AWSService instances so users never share credentials
+export class SessionService {
+  private sessions: Map<string, AwsSession> = new Map();
+  private idleTimeoutMs: number;
+  private maxSessions: number;
+
+  constructor(idleTimeoutMinutes?: number, maxSessions?: number) {
+    const envTimeout = parseInt(process.env.AWS_SESSION_IDLE_MINUTES || '', 10);
+    const envMax = parseInt(process.env.AWS_SESSION_MAX || '', 10);
+    this.idleTimeoutMs = (idleTimeoutMinutes ?? (Number.isNaN(envTimeout) ? DEFAULT_IDLE_TIMEOUT_MINUTES : envTimeout)) * 60 * 1000;
+    this.maxSessions = maxSessions ?? (Number.isNaN(envMax) ? DEFAULT_MAX_SESSIONS : envMax);
+  }
+
+  /**
+   * Start a session for an AWSService whose credentials have already been validated
+   */
+  public createSession(awsService: AWSService): AwsSession {
+    this.pruneExpired();
+
+    // Make room by dropping the least recently used session
+    if (this.sessions.size >= this.maxSessions) {
+      const [oldest] = Array.from(this.sessions.values())
+        .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime());
+      this.destroySession(oldest.token);
+    }
+
+    const now = new Date();
+    const session: AwsSession = {
+      token: randomBytes(32).toString('hex'),
+      awsService,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + this.idleTimeoutMs)
+    };
+
+    this.sessions.set(session.token, session);
+    return session;
+  }
+
+  /**
+   * Look up a session and extend its idle timeout; returns null for unknown or expired tokens
+   */
+  public getSession(token: string | undefined): AwsSession | null {
+    if (!token) return null;
+
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    const now = new Date();
+    if (session.expiresAt <= now) {
+      this.destroySession(token);
+      return null;
+    }
+
+    session.lastUsedAt = now;
+    session.expiresAt = new Date(now.getTime() + this.idleTimeoutMs);
+    return session;
+  }
+
+  public destroySession(token: string): boolean {
+    const session = this.sessions.get(token);
+    if (!session) return false;
+
+    session.awsService.dispose();
+    return this.sessions.delete(token);
+  }
+
+  /**
+   * Live sessions, without extending their idle timeouts
+   */
+  public listSessions(): AwsSession[] {
+    this.pruneExpired();
+    return Array.from(this.sessions.values());
+  }
+
+  public getSessionCount(): number {
+    this.pruneExpired();
+    return this.sessions.size;
+  }
+
+  private pruneExpired(): void {
+    const now = new Date();
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.expiresAt <= now) {
+        this.destroySession(session.token);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const sessionService = new SessionService();
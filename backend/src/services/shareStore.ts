@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import type { ShareData } from './exportService';
+
+// Storage behind ExportService share links; implementations must return copies, not live objects
+export interface ShareStore {
+  get(shareId: string): ShareData | null;
+  put(share: ShareData): void;
+  putCounters(share: ShareData): void; // Only views or failed unlocks changed; may be written later
+  delete(shareId: string): boolean;
+  list(): ShareData[];
+  flush(): void; // Write anything putCounters left pending
+}
+
+export interface ShareStoreFile {
+  version: number;
+  shares: ShareData[];
+}
+
+export const SHARE_STORE_VERSION = 1;
+
+export const DEFAULT_SHARE_STORE_PATH = path.join('data', 'shares.json');
+
+// Counter changes are batched into one rewrite of the file at most this often
+export const SHARE_COUNTER_WRITE_DELAY_MS = 5000;
+
+export class InMemoryShareStore implements ShareStore {
+  protected shares: Map<string, ShareData> = new Map();
+
+  public get(shareId: string): ShareData | null {
+    const share = this.shares.get(shareId);
+    return share ? { ...share, options: { ...share.options } } : null;
+  }
+
+  public put(share: ShareData): void {
+    this.setShare(share);
+  }
+
+  public putCounters(share: ShareData): void {
+    this.setShare(share);
+  }
+
+  public delete(shareId: string): boolean {
+    return this.shares.delete(shareId);
+  }
+
+  public list(): ShareData[] {
+    return Array.from(this.shares.keys()).map(shareId => this.get(shareId)!);
+  }
+
+  public flush(): void {}
+
+  protected setShare(share: ShareData): void {
+    this.shares.set(share.id, { ...share, options: { ...share.options } });
+  }
+}
+
+// Keeps shares in memory and rewrites the JSON file after every change; view and failed unlock
+// counters are batched so reading a share does not rewrite every snapshot
+export class JsonFileShareStore extends InMemoryShareStore {
+  private pendingWrite: NodeJS.Timeout | null = null;
+
+  constructor(private filePath: string = DEFAULT_SHARE_STORE_PATH) {
+    super();
+    this.load();
+  }
+
+  public put(share: ShareData): void {
+    super.put(share);
+    this.persist();
+  }
+
+  public putCounters(share: ShareData): void {
+    super.putCounters(share);
+    if (this.pendingWrite) return;
+
+    this.pendingWrite = setTimeout(() => {
+      try {
+        this.persist();
+      } catch (error) {
+        console.error('Failed to save share counters:', error);
+      }
+    }, SHARE_COUNTER_WRITE_DELAY_MS);
+    this.pendingWrite.unref();
+  }
+
+  public delete(shareId: string): boolean {
+    const deleted = super.delete(shareId);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  public flush(): void {
+    if (this.pendingWrite) this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data: ShareStoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (data.version > SHARE_STORE_VERSION) {
+      throw new Error(`Share store ${this.filePath} has version ${data.version}; this build supports up to ${SHARE_STORE_VERSION}`);
+    }
+
+    data.shares.forEach(share => this.shares.set(share.id, {
+      ...share,
+      createdAt: new Date(share.createdAt),
+      expiresAt: new Date(share.expiresAt),
+      ...(share.failedUnlocks && {
+        failedUnlocks: share.failedUnlocks.map(failure => ({ ...failure, at: new Date(failure.at) }))
+      })
+    }));
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  private persist(): void {
+    // A full write also covers any pending counter changes
+    if (this.pendingWrite) {
+      clearTimeout(this.pendingWrite);
+      this.pendingWrite = null;
+    }
+
+    const file: ShareStoreFile = {
+      version: SHARE_STORE_VERSION,
+      shares: Array.from(this.shares.values())
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(file));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Tests and SHARE_STORE=memory use the in-memory store; everything else persists to disk
+export const createShareStore = (): ShareStore => {
+  if (process.env.NODE_ENV === 'test' || process.env.SHARE_STORE === 'memory') {
+    return new InMemoryShareStore();
+  }
+  return new JsonFileShareStore(process.env.SHARE_STORE_PATH || DEFAULT_SHARE_STORE_PATH);
+};
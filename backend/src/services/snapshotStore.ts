@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { CostSnapshot } from '../types';
+
+// Storage behind CostSnapshotService; implementations must return copies, not live objects
+export interface SnapshotStore {
+  put(snapshot: CostSnapshot): void; // Replaces the source's snapshot for the same date
+  list(source: string): CostSnapshot[]; // Oldest first
+  sources(): string[];
+  prune(before: string): void; // Drop snapshots dated before YYYY-MM-DD
+}
+
+export interface SnapshotStoreFile {
+  version: number;
+  snapshots: CostSnapshot[];
+}
+
+export const SNAPSHOT_STORE_VERSION = 1;
+
+export const DEFAULT_SNAPSHOT_STORE_PATH = path.join('data', 'snapshots.json');
+
+const copySnapshot = (snapshot: CostSnapshot): CostSnapshot => ({
+  ...snapshot,
+  services: snapshot.services.map(service => ({
+    ...service,
+    dailyCosts: service.dailyCosts.map(day => ({ ...day }))
+  }))
+});
+
+export class InMemorySnapshotStore implements SnapshotStore {
+  protected snapshots: Map<string, Map<string, CostSnapshot>> = new Map(); // source -> date -> snapshot
+
+  public put(snapshot: CostSnapshot): void {
+    if (!this.snapshots.has(snapshot.source)) {
+      this.snapshots.set(snapshot.source, new Map());
+    }
+    this.snapshots.get(snapshot.source)!.set(snapshot.date, copySnapshot(snapshot));
+  }
+
+  public list(source: string): CostSnapshot[] {
+    return Array.from(this.snapshots.get(source)?.values() || [])
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(copySnapshot);
+  }
+
+  public sources(): string[] {
+    return Array.from(this.snapshots.keys()).sort();
+  }
+
+  public prune(before: string): void {
+    for (const [source, byDate] of this.snapshots) {
+      for (const date of Array.from(byDate.keys())) {
+        if (date < before) byDate.delete(date);
+      }
+      if (byDate.size === 0) this.snapshots.delete(source);
+    }
+  }
+}
+
+// Keeps snapshots in memory and rewrites the JSON file after every change
+export class JsonFileSnapshotStore extends InMemorySnapshotStore {
+  constructor(private filePath: string = DEFAULT_SNAPSHOT_STORE_PATH) {
+    super();
+    this.load();
+  }
+
+  public put(snapshot: CostSnapshot): void {
+    super.put(snapshot);
+    this.persist();
+  }
+
+  public prune(before: string): void {
+    super.prune(before);
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const data: SnapshotStoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (data.version > SNAPSHOT_STORE_VERSION) {
+      throw new Error(`Snapshot store ${this.filePath} has version ${data.version}; this build supports up to ${SNAPSHOT_STORE_VERSION}`);
+    }
+
+    data.snapshots.forEach(snapshot => super.put({ ...snapshot, takenAt: new Date(snapshot.takenAt) }));
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  private persist(): void {
+    const file: SnapshotStoreFile = {
+      version: SNAPSHOT_STORE_VERSION,
+      snapshots: Array.from(this.snapshots.values()).flatMap(byDate => Array.from(byDate.values()))
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(file));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+// Tests and SNAPSHOT_STORE=memory use the in-memory store; everything else persists to disk
+export const createSnapshotStore = (): SnapshotStore => {
+  if (process.env.NODE_ENV === 'test' || process.env.SNAPSHOT_STORE === 'memory') {
+    return new InMemorySnapshotStore();
+  }
+  return new JsonFileSnapshotStore(process.env.SNAPSHOT_STORE_PATH || DEFAULT_SNAPSHOT_STORE_PATH);
+};
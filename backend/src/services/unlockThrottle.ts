@@ -0,0 +1,75 @@
+export interface UnlockThrottleOptions {
+  maxAttempts: number; // Failed attempts allowed inside the window before locking out
+  windowMs: number;
+  lockoutMs: number;
+}
+
+interface AttemptWindow {
+  failures: number;
+  windowStart: number;
+  lockedUntil?: number;
+}
+
+// Counts failed unlock attempts per key (share ID or client IP) and locks the key out after too many
+export class UnlockThrottle {
+  private attempts: Map<string, AttemptWindow> = new Map();
+  private lastPrunedAt = 0;
+
+  constructor(private options: UnlockThrottleOptions) {}
+
+  // Milliseconds until the key may try again, 0 when it is not locked out
+  public getRetryAfterMs(key: string, now: number = Date.now()): number {
+    const entry = this.attempts.get(key);
+    if (!entry?.lockedUntil) return 0;
+    if (entry.lockedUntil <= now) {
+      this.attempts.delete(key);
+      return 0;
+    }
+    return entry.lockedUntil - now;
+  }
+
+  public getLockedUntil(key: string, now: number = Date.now()): Date | null {
+    const retryAfterMs = this.getRetryAfterMs(key, now);
+    return retryAfterMs > 0 ? new Date(now + retryAfterMs) : null;
+  }
+
+  // Record a failure; returns true when this failure triggered a lockout
+  public recordFailure(key: string, now: number = Date.now()): boolean {
+    this.pruneExpired(now);
+
+    let entry = this.attempts.get(key);
+    if (!entry || now - entry.windowStart > this.options.windowMs) {
+      entry = { failures: 0, windowStart: now };
+      this.attempts.set(key, entry);
+    }
+
+    entry.failures++;
+    if (entry.failures >= this.options.maxAttempts) {
+      entry.lockedUntil = now + this.options.lockoutMs;
+      return true;
+    }
+    return false;
+  }
+
+  public reset(key: string): void {
+    this.attempts.delete(key);
+  }
+
+  public get size(): number {
+    return this.attempts.size;
+  }
+
+  // Forget keys whose window has passed without a lockout still running, so clients that never
+  // reach the limit do not pile up; sweeps at most once per window
+  private pruneExpired(now: number): void {
+    if (now - this.lastPrunedAt < this.options.windowMs) return;
+    this.lastPrunedAt = now;
+
+    for (const [key, entry] of Array.from(this.attempts.entries())) {
+      const lockedOut = entry.lockedUntil !== undefined && entry.lockedUntil > now;
+      if (!lockedOut && now - entry.windowStart > this.options.windowMs) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { createInflateRaw } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_RECORD_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+export const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+const readAt = async (handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+/**
+ * List the files in a zip archive from its central directory, without reading any file data
+ */
+export const listZipEntries = async (filePath: string): Promise<ZipEntry[]> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+
+    // The end record sits at the very end, followed only by an optional comment
+    const tailLength = Math.min(size, END_RECORD_SIZE + MAX_COMMENT_LENGTH);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+    let endOffset = -1;
+    for (let i = tail.length - END_RECORD_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Not a valid zip archive');
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    if (directoryOffset === ZIP64_MARKER) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt zip central directory');
+      }
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const entry: ZipEntry = {
+        name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        uncompressedSize: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42)
+      };
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted zip entries are not supported (${entry.name})`);
+      }
+      if (entry.compressedSize === ZIP64_MARKER || entry.localHeaderOffset === ZIP64_MARKER) {
+        throw new Error('ZIP64 archives are not supported');
+      }
+
+      entries.push(entry);
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Stream one entry's uncompressed contents straight from disk; onBytesRead sees the compressed bytes
+ */
+export const openZipEntry = async (
+  filePath: string,
+  entry: ZipEntry,
+  onBytesRead?: (bytes: number) => void
+): Promise<Readable> => {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`Unsupported zip compression method ${entry.method} (${entry.name})`);
+  }
+
+  // The local header repeats the name and may carry a different extra field, so read its lengths
+  const handle = await fs.promises.open(filePath, 'r');
+  let dataOffset: number;
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error('Corrupt zip local file header');
+    }
+    dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+
+  const data = fs.createReadStream(filePath, {
+    start: dataOffset,
+    end: dataOffset + entry.compressedSize - 1
+  });
+  if (onBytesRead) {
+    data.on('data', chunk => onBytesRead(chunk.length));
+  }
+  if (entry.method === 0) {
+    return data;
+  }
+
+  const inflate = createInflateRaw();
+  data.on('error', error => inflate.destroy(error));
+  return data.pipe(inflate);
+};
@@ -73,6 +73,34 @@ const options: swaggerJSDoc.Options = {
             budgetAlerts: {
               type: 'array',
               items: { $ref: '#/components/schemas/BudgetAlert' }
+            },
+            metric: {
+              type: 'string',
+              enum: ['BlendedCost', 'UnblendedCost', 'AmortizedCost', 'NetAmortizedCost', 'NetUnblendedCost'],
+              description: 'Cost Explorer metric the amounts are expressed in (AWS mode only)'
+            },
+            timePeriod: {
+              type: 'object',
+              description: 'Period the costs cover (AWS mode only, end is exclusive)',
+              properties: {
+                start: { type: 'string', format: 'date' },
+                end: { type: 'string', format: 'date' },
+                granularity: { type: 'string', enum: ['DAILY', 'MONTHLY'] }
+              }
+            },
+            accounts: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/AccountCost' },
+              description: 'Total cost per linked account (AWS mode only)'
+            },
+            linkedAccountId: {
+              type: 'string',
+              description: 'Linked account the data is restricted to, if any'
+            },
+            provider: {
+              type: 'string',
+              enum: ['aws', 'gcp', 'azure'],
+              description: 'Cloud every service comes from; unset when the data mixes clouds'
             }
           }
         },
@@ -117,6 +145,42 @@ const options: swaggerJSDoc.Options = {
             trend: {
               type: 'string',
               enum: ['increasing', 'decreasing', 'stable']
+            },
+            accounts: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/AccountCost' },
+              description: 'Linked account breakdown (AWS mode and CUR imports)'
+            },
+            resources: {
+              type: 'array',
+              description: 'Costliest resources (CUR imports only)',
+              items: {
+                type: 'object',
+                properties: {
+                  resourceId: { type: 'string', example: 'i-0abc123def4567890' },
+                  cost: { type: 'number', example: 42.1 },
+                  percentage: { type: 'number', example: 12.5 }
+                }
+              }
+            },
+            usageTypes: {
+              type: 'array',
+              description: 'Usage type breakdown (CUR imports only)',
+              items: {
+                type: 'object',
+                properties: {
+                  usageType: { type: 'string', example: 'USE1-BoxUsage:t3.micro' },
+                  cost: { type: 'number', example: 7.49 },
+                  percentage: { type: 'number', example: 2.2 },
+                  usageAmount: { type: 'number', example: 720 },
+                  unit: { type: 'string', example: 'Hrs' }
+                }
+              }
+            },
+            provider: {
+              type: 'string',
+              enum: ['aws', 'gcp', 'azure'],
+              description: 'Cloud the service runs on'
             }
           }
         },
@@ -158,6 +222,433 @@ const options: swaggerJSDoc.Options = {
             }
           }
         },
+        AccountCost: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              example: '123456789012'
+            },
+            accountName: {
+              type: 'string',
+              example: 'platform-prod'
+            },
+            cost: {
+              type: 'number',
+              example: 420.5
+            },
+            percentage: {
+              type: 'number',
+              example: 35.2
+            }
+          }
+        },
+        CSVImportJob: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            fileName: {
+              type: 'string',
+              example: 'cur-2024-05.csv.gz'
+            },
+            status: {
+              type: 'string',
+              enum: ['processing', 'completed', 'failed']
+            },
+            format: {
+              type: 'string',
+              enum: ['cur', 'focus', 'gcp-billing', 'azure-cost', 'cost-and-usage', 'daily-costs', 'service-costs']
+            },
+            bytesTotal: {
+              type: 'integer',
+              description: 'Size of the file (or zip entry) as stored'
+            },
+            bytesProcessed: {
+              type: 'integer'
+            },
+            rowsProcessed: {
+              type: 'integer',
+              example: 250000
+            },
+            progress: {
+              type: 'integer',
+              minimum: 0,
+              maximum: 100
+            },
+            error: {
+              type: 'string'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            completedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            costData: {
+              $ref: '#/components/schemas/CostData',
+              description: 'Present once the import has completed'
+            },
+            report: {
+              $ref: '#/components/schemas/CSVValidationReport',
+              description: 'Present once the import has completed'
+            },
+            dataset: {
+              type: 'string',
+              description: 'Dataset the file is merged into; costData is then the merged dataset'
+            },
+            datasetImportId: {
+              type: 'string',
+              description: 'Entry in the dataset import history, for rollback'
+            }
+          }
+        },
+        DatasetImport: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid'
+            },
+            fileName: {
+              type: 'string',
+              example: 'costs-2024-05.csv'
+            },
+            format: {
+              type: 'string',
+              enum: ['cur', 'focus', 'gcp-billing', 'azure-cost', 'cost-and-usage', 'daily-costs', 'service-costs']
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'rolled-back']
+            },
+            importedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            rolledBackAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            accountId: {
+              type: 'string',
+              example: '123456789012'
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            rowsProcessed: {
+              type: 'integer'
+            },
+            recordCount: {
+              type: 'integer',
+              description: 'Date/service/region/account cells in the file'
+            },
+            totalCost: {
+              type: 'number'
+            },
+            dateRange: {
+              type: 'object',
+              properties: {
+                start: {
+                  type: 'string',
+                  format: 'date'
+                },
+                end: {
+                  type: 'string',
+                  format: 'date'
+                }
+              }
+            },
+            replacedRecords: {
+              type: 'integer',
+              description: 'Cells of earlier files this file replaced when it was imported'
+            }
+          }
+        },
+        CostDataset: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              example: 'production-2024'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            imports: {
+              type: 'array',
+              description: 'Oldest first; later imports win where they overlap',
+              items: {
+                $ref: '#/components/schemas/DatasetImport'
+              }
+            }
+          }
+        },
+        CSVColumnMapping: {
+          type: 'object',
+          description: 'File column names to read in place of the standard Cost Explorer headers',
+          properties: {
+            service: {
+              type: 'string',
+              example: 'Product'
+            },
+            cost: {
+              type: 'string',
+              example: 'Spend (USD)'
+            },
+            date: {
+              type: 'string',
+              example: 'Billing Day'
+            },
+            region: {
+              type: 'string',
+              example: 'Location'
+            }
+          }
+        },
+        CSVValidationReport: {
+          type: 'object',
+          properties: {
+            rowsRead: {
+              type: 'integer',
+              example: 1200
+            },
+            rowsImported: {
+              type: 'integer',
+              example: 1195
+            },
+            rowsSkipped: {
+              type: 'integer',
+              example: 5
+            },
+            skippedRows: {
+              type: 'array',
+              description: 'The first 100 skipped rows',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer',
+                    description: '1-based data row, not counting the header'
+                  },
+                  reason: {
+                    type: 'string',
+                    enum: ['missing-service', 'invalid-cost', 'missing-date']
+                  },
+                  message: {
+                    type: 'string',
+                    example: "Cost 'N/A' is not a number"
+                  }
+                }
+              }
+            },
+            duplicateCount: {
+              type: 'integer',
+              description: 'Rows repeating an earlier date and service (and region); their costs are still added'
+            },
+            duplicates: {
+              type: 'array',
+              description: 'The first 100 duplicate rows',
+              items: {
+                type: 'object',
+                properties: {
+                  row: {
+                    type: 'integer'
+                  },
+                  firstRow: {
+                    type: 'integer'
+                  },
+                  date: {
+                    type: 'string'
+                  },
+                  service: {
+                    type: 'string'
+                  },
+                  region: {
+                    type: 'string'
+                  }
+                }
+              }
+            },
+            unknownColumns: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Columns the detected format ignores'
+            },
+            columnMapping: {
+              $ref: '#/components/schemas/CSVColumnMapping'
+            },
+            truncated: {
+              type: 'boolean',
+              description: 'More skipped or duplicate rows exist than are listed'
+            }
+          }
+        },
+        ForecastInterval: {
+          type: 'object',
+          properties: {
+            mean: {
+              type: 'number',
+              example: 1520.4
+            },
+            lower: {
+              type: 'number',
+              example: 1380.1
+            },
+            upper: {
+              type: 'number',
+              example: 1660.7
+            }
+          }
+        },
+        CostForecast: {
+          type: 'object',
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['aws', 'demo', 'csv']
+            },
+            method: {
+              type: 'string',
+              enum: ['aws-cost-explorer', 'linear-regression']
+            },
+            service: {
+              type: 'string',
+              example: 'ec2'
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            confidenceLevel: {
+              type: 'number',
+              example: 80
+            },
+            periodStart: {
+              type: 'string',
+              format: 'date'
+            },
+            periodEnd: {
+              type: 'string',
+              format: 'date',
+              description: 'Exclusive end of the forecast'
+            },
+            actualToDate: {
+              type: 'number',
+              example: 1250
+            },
+            points: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/ForecastInterval' },
+                  {
+                    type: 'object',
+                    properties: {
+                      date: { type: 'string', format: 'date' }
+                    }
+                  }
+                ]
+              }
+            },
+            forecastTotal: {
+              $ref: '#/components/schemas/ForecastInterval'
+            },
+            projectedPeriodTotal: {
+              $ref: '#/components/schemas/ForecastInterval'
+            }
+          }
+        },
+        CostAnomaly: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: 'service:ec2:2024-11-18'
+            },
+            scope: {
+              type: 'string',
+              enum: ['service', 'region', 'tag']
+            },
+            service: {
+              type: 'string',
+              example: 'ec2'
+            },
+            displayName: {
+              type: 'string',
+              example: 'EC2'
+            },
+            region: {
+              type: 'string',
+              example: 'us-east-1'
+            },
+            tag: {
+              type: 'object',
+              properties: {
+                key: { type: 'string' },
+                value: { type: 'string' }
+              }
+            },
+            date: {
+              type: 'string',
+              format: 'date'
+            },
+            actual: {
+              type: 'number',
+              example: 318
+            },
+            expected: {
+              type: 'number',
+              example: 145.5
+            },
+            deviation: {
+              type: 'number',
+              example: 172.5
+            },
+            score: {
+              type: 'number',
+              example: 4.2
+            },
+            direction: {
+              type: 'string',
+              enum: ['spike', 'drop']
+            },
+            severity: {
+              type: 'string',
+              enum: ['low', 'medium', 'high']
+            }
+          }
+        },
+        LinkedAccount: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              example: '123456789012'
+            },
+            accountName: {
+              type: 'string',
+              example: 'platform-prod'
+            }
+          }
+        },
         DailyCost: {
           type: 'object',
           properties: {
@@ -171,6 +662,148 @@ const options: swaggerJSDoc.Options = {
             }
           }
         },
+        CostDelta: {
+          type: 'object',
+          properties: {
+            baseCost: {
+              type: 'number',
+              example: 1200
+            },
+            targetCost: {
+              type: 'number',
+              example: 1500
+            },
+            change: {
+              type: 'number',
+              example: 300
+            },
+            changePercentage: {
+              type: 'number',
+              nullable: true,
+              example: 25,
+              description: 'Null when the base cost is zero'
+            }
+          }
+        },
+        CostComparison: {
+          type: 'object',
+          properties: {
+            base: {
+              type: 'object',
+              properties: {
+                start: { type: 'string', format: 'date' },
+                end: { type: 'string', format: 'date' }
+              }
+            },
+            target: {
+              type: 'object',
+              properties: {
+                start: { type: 'string', format: 'date' },
+                end: { type: 'string', format: 'date' }
+              }
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            total: {
+              $ref: '#/components/schemas/CostDelta'
+            },
+            services: {
+              type: 'array',
+              description: 'Largest absolute change first',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/CostDelta' },
+                  {
+                    type: 'object',
+                    properties: {
+                      service: { type: 'string', example: 'ec2' },
+                      displayName: { type: 'string', example: 'EC2' },
+                      status: { type: 'string', enum: ['new', 'disappeared', 'changed', 'unchanged'] },
+                      regions: { type: 'array', items: { type: 'object' } },
+                      tags: { type: 'array', items: { type: 'object' } }
+                    }
+                  }
+                ]
+              }
+            },
+            regions: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/CostDelta' },
+                  { type: 'object', properties: { region: { type: 'string', example: 'us-east-1' } } }
+                ]
+              }
+            },
+            tags: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/CostDelta' },
+                  {
+                    type: 'object',
+                    properties: {
+                      key: { type: 'string', example: 'Environment' },
+                      value: { type: 'string', example: 'production' }
+                    }
+                  }
+                ]
+              }
+            },
+            newServices: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            disappearedServices: {
+              type: 'array',
+              items: { type: 'string' }
+            }
+          }
+        },
+        CostHistory: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              example: 'aws:123456789012'
+            },
+            service: {
+              type: 'string',
+              example: 'ec2'
+            },
+            from: {
+              type: 'string',
+              format: 'date'
+            },
+            to: {
+              type: 'string',
+              format: 'date',
+              description: 'Exclusive'
+            },
+            currency: {
+              type: 'string',
+              example: 'USD'
+            },
+            points: {
+              type: 'array',
+              description: 'Daily costs, each taken from the latest snapshot that covers the day',
+              items: { $ref: '#/components/schemas/DailyCost' }
+            },
+            snapshots: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  date: { type: 'string', format: 'date' },
+                  takenAt: { type: 'string', format: 'date-time' },
+                  totalCost: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
         Budget: {
           type: 'object',
           properties: {
@@ -200,6 +833,20 @@ const options: swaggerJSDoc.Options = {
               type: 'string',
               enum: ['monthly', 'quarterly', 'yearly']
             },
+            fiscalYearStartMonth: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 12,
+              default: 1,
+              example: 4,
+              description: 'Month quarterly and yearly periods start from'
+            },
+            calendar: {
+              type: 'string',
+              enum: ['gregorian', '4-4-5'],
+              default: 'gregorian',
+              description: '4-4-5 splits each 13-week quarter into 4, 4 and 5 week months; the fiscal year starts on the Sunday nearest the first of its start month'
+            },
             alertThresholds: {
               type: 'array',
               items: {
@@ -207,6 +854,103 @@ const options: swaggerJSDoc.Options = {
               },
               example: [50, 80, 100],
               description: 'Alert thresholds as percentages'
+            },
+            name: {
+              type: 'string',
+              example: 'Monthly EC2 budget'
+            },
+            source: {
+              type: 'string',
+              enum: ['manual', 'aws-budgets']
+            }
+          }
+        },
+        BudgetUtilization: {
+          type: 'object',
+          properties: {
+            service: {
+              type: 'string',
+              example: 'ec2'
+            },
+            currentCost: {
+              type: 'number',
+              example: 812.4,
+              description: 'Costs within the budget period'
+            },
+            budgetAmount: {
+              type: 'number',
+              example: 1000,
+              description: 'Budget amount, prorated to the part of the period the costs cover'
+            },
+            utilizationPercentage: {
+              type: 'number',
+              example: 81.24
+            },
+            alertLevel: {
+              type: 'string',
+              enum: ['safe', 'warning', 'critical', 'over_budget']
+            },
+            projectedCost: {
+              type: 'number',
+              example: 1304.5,
+              description: 'Projected spend by the end of the budget period'
+            },
+            budgetPeriod: {
+              type: 'object',
+              description: 'Period the budget was measured over; omitted for services without a budget',
+              properties: {
+                start: { type: 'string', format: 'date', example: '2024-10-01' },
+                end: { type: 'string', format: 'date', example: '2024-11-01', description: 'Exclusive' },
+                costStart: { type: 'string', format: 'date', example: '2024-10-01' },
+                costEnd: { type: 'string', format: 'date', example: '2024-10-20', description: 'Exclusive' },
+                prorationFactor: {
+                  type: 'number',
+                  example: 1,
+                  description: 'Share of the budget compared against; below 1 when the costs start after the period does'
+                }
+              }
+            }
+          }
+        },
+        BudgetImportResult: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              example: 'aws'
+            },
+            dryRun: {
+              type: 'boolean'
+            },
+            created: {
+              type: 'number',
+              example: 3
+            },
+            updated: {
+              type: 'number',
+              example: 1
+            },
+            skipped: {
+              type: 'number',
+              example: 2
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  budgetName: { type: 'string' },
+                  status: {
+                    type: 'string',
+                    enum: ['created', 'updated', 'skipped']
+                  },
+                  reason: {
+                    type: 'string',
+                    example: 'USAGE budgets are not supported, only COST budgets'
+                  },
+                  budget: { $ref: '#/components/schemas/Budget' }
+                }
+              }
             }
           }
         },
@@ -222,6 +966,11 @@ const options: swaggerJSDoc.Options = {
             service: {
               type: 'string'
             },
+            periodStart: {
+              type: 'string',
+              format: 'date',
+              description: 'Start of the budget period the alert was raised in; a budget alerts once per threshold per period'
+            },
             threshold: {
               type: 'number',
               description: 'Threshold percentage that was exceeded'
@@ -259,9 +1008,97 @@ const options: swaggerJSDoc.Options = {
               type: 'string',
               nullable: true,
               description: 'Optional session token for temporary credentials'
+            },
+            profile: {
+              type: 'string',
+              description: 'Server-side named profile to use instead of access keys (see /cost/aws/profiles)'
+            },
+            roleArn: {
+              type: 'string',
+              example: 'arn:aws:iam::123456789012:role/CostReader',
+              description: 'Role to assume with STS AssumeRole after authenticating'
+            },
+            externalId: {
+              type: 'string',
+              description: 'External ID required by the role trust policy'
+            },
+            roleSessionName: {
+              type: 'string',
+              example: 'haunted-cost-guard'
             }
           },
-          required: ['accessKeyId', 'secretAccessKey', 'region']
+          description: 'Provide either accessKeyId and secretAccessKey, or profile'
+        },
+        AwsPermissionReport: {
+          type: 'object',
+          properties: {
+            accountId: {
+              type: 'string',
+              nullable: true,
+              example: '123456789012'
+            },
+            checkedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            checks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  capability: {
+                    type: 'string',
+                    enum: ['identity', 'costAndUsage', 'dimensionValues', 'forecast', 'budgets']
+                  },
+                  label: { type: 'string', example: 'Cost Explorer forecasts' },
+                  usedFor: { type: 'string' },
+                  actions: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    example: ['ce:GetCostForecast']
+                  },
+                  status: {
+                    type: 'string',
+                    enum: ['granted', 'denied', 'error']
+                  },
+                  error: { type: 'string' }
+                }
+              }
+            },
+            allGranted: { type: 'boolean' },
+            missingActions: {
+              type: 'array',
+              items: { type: 'string' }
+            },
+            minimalPolicy: {
+              type: 'object',
+              nullable: true,
+              description: 'IAM policy document granting exactly the missing actions'
+            }
+          }
+        },
+        AwsSession: {
+          type: 'object',
+          properties: {
+            valid: {
+              type: 'boolean',
+              example: true
+            },
+            sessionToken: {
+              type: 'string',
+              description: 'Opaque token to send as "Authorization: Bearer <token>" on AWS requests'
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When the session ends unless it is used again'
+            },
+            accountId: {
+              type: 'string',
+              nullable: true,
+              example: '123456789012'
+            }
+          }
         },
         ExportRequest: {
           type: 'object',
@@ -313,6 +1150,11 @@ const options: swaggerJSDoc.Options = {
           in: 'header',
           name: 'X-AWS-Credentials',
           description: 'Base64 encoded AWS credentials JSON'
+        },
+        AwsSession: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Session token returned by /cost/validate-credentials (also accepted in X-Session-Token)'
         }
       }
     },
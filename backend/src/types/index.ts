@@ -1,7 +1,14 @@
+// Either an access key pair (optionally temporary, with sessionToken) or a server-side named profile,
+// optionally followed by an STS AssumeRole into another account
 export interface AWSCredentials {
-  accessKeyId: string;
-  secretAccessKey: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  profile?: string;
   region?: string;
+  roleArn?: string;
+  externalId?: string;
+  roleSessionName?: string;
 }
 
 export interface ModeSelectionRequest {
@@ -16,6 +23,8 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+export type CloudProvider = 'aws' | 'gcp' | 'azure';
+
 export interface ServiceCost {
   service: string;
   displayName: string;
@@ -26,12 +35,17 @@ export interface ServiceCost {
   tags: TagCost[];
   dailyCosts: DailyCost[];
   trend: 'increasing' | 'decreasing' | 'stable';
+  accounts?: AccountCost[];
+  resources?: ResourceCost[]; // Costliest resources (CUR imports only)
+  usageTypes?: UsageTypeCost[]; // CUR imports only
+  provider?: CloudProvider; // Unset for FOCUS files from other providers
 }
 
 export interface RegionCost {
   region: string;
   cost: number;
   percentage: number;
+  dailyCosts?: DailyCost[]; // Per-period series (AWS mode), used for anomaly detection
 }
 
 export interface TagCost {
@@ -39,6 +53,33 @@ export interface TagCost {
   value: string;
   cost: number;
   percentage: number;
+  dailyCosts?: DailyCost[]; // Per-period series (AWS mode), used for anomaly detection
+}
+
+export interface ResourceCost {
+  resourceId: string; // ARN or ID from lineItem/ResourceId
+  cost: number;
+  percentage: number;
+}
+
+export interface UsageTypeCost {
+  usageType: string; // e.g. USE1-BoxUsage:t3.micro
+  cost: number;
+  percentage: number;
+  usageAmount: number;
+  unit?: string;
+}
+
+export interface AccountCost {
+  accountId: string;
+  accountName?: string;
+  cost: number;
+  percentage: number;
+}
+
+export interface LinkedAccount {
+  accountId: string;
+  accountName?: string;
 }
 
 export interface DailyCost {
@@ -46,22 +87,31 @@ export interface DailyCost {
   cost: number;
 }
 
+export type CostMetric = 'BlendedCost' | 'UnblendedCost' | 'AmortizedCost' | 'NetAmortizedCost' | 'NetUnblendedCost';
+
 export interface CostData {
   services: ServiceCost[];
   totalCost: number;
   currency: string;
   lastUpdated: Date;
   budgetAlerts: BudgetAlert[];
+  metric?: CostMetric;
+  timePeriod?: {
+    start: string; // YYYY-MM-DD, inclusive
+    end: string; // YYYY-MM-DD, exclusive
+    granularity: 'DAILY' | 'MONTHLY';
+  };
+  accounts?: AccountCost[];
+  linkedAccountId?: string;
+  provider?: CloudProvider; // Set when every service comes from the same cloud
 }
 
 export interface BudgetAlert {
-  id: string;
-  budgetName: string;
-  alertType: 'warning' | 'critical';
-  message: string;
-  currentSpend: number;
+  service: string;
+  currentCost: number;
   budgetLimit: number;
   utilizationPercentage: number;
+  severity: 'warning' | 'critical';
 }
 
 export interface CostExplorerParams {
@@ -101,20 +151,363 @@ export interface CostCacheEntry {
   ttl: number;
 }
 
-export interface Budget {
+export type ForecastMode = 'aws' | 'demo' | 'csv';
+
+export type DemoScenarioId = 'normal_usage' | 'budget_warning' | 'cost_spike';
+
+export interface DemoScenario {
+  id: DemoScenarioId;
+  name: string;
+  description: string;
+}
+
+// Inputs to the synthetic demo data; the same options always produce the same costs
+export interface DemoDataOptions {
+  scenario?: DemoScenarioId;
+  seed?: number;
+  serviceCount?: number;
+  startDate?: string; // YYYY-MM-DD, inclusive; defaults to 14 days before endDate
+  endDate?: string; // YYYY-MM-DD, exclusive; defaults to today
+  seasonality?: number; // 0-1, how much cheaper weekends are than weekdays
+  spikes?: number; // Cost spikes to inject; the scenario decides by default
+}
+
+export type CSVFormat = 'cur' | 'focus' | 'gcp-billing' | 'azure-cost' | 'cost-and-usage' | 'daily-costs' | 'service-costs';
+
+// FOCUS files carry both; BilledCost matches the invoice, EffectiveCost amortizes commitments
+export type FocusCostColumn = 'BilledCost' | 'EffectiveCost';
+
+// Maps the columns of a non-standard export onto the fields the importer reads, e.g. { cost: 'Spend' }
+export interface CSVColumnMapping {
+  service?: string;
+  cost?: string;
+  date?: string;
+  region?: string;
+}
+
+export type CSVSkipReason = 'missing-service' | 'invalid-cost' | 'missing-date';
+
+export interface CSVSkippedRow {
+  row: number; // 1-based data row, not counting the header
+  reason: CSVSkipReason;
+  message: string;
+}
+
+export interface CSVDuplicateRow {
+  row: number;
+  firstRow: number; // Earlier row with the same date and service
+  date?: string;
+  service: string;
+  region?: string;
+}
+
+// What happened to each row of an import; duplicates are still summed, skipped rows are not
+export interface CSVValidationReport {
+  rowsRead: number;
+  rowsImported: number;
+  rowsSkipped: number;
+  skippedRows: CSVSkippedRow[]; // First rows only, see truncated
+  duplicateCount: number;
+  duplicates: CSVDuplicateRow[]; // First rows only, see truncated
+  unknownColumns: string[]; // Columns the detected format does not read
+  columnMapping?: CSVColumnMapping;
+  truncated: boolean; // More skipped or duplicate rows than are listed
+}
+
+export type CSVImportJobStatus = 'processing' | 'completed' | 'failed';
+
+// Background import of an uploaded billing file, polled by the client
+export interface CSVImportJob {
   id: string;
+  fileName: string;
+  status: CSVImportJobStatus;
+  format?: CSVFormat;
+  bytesTotal: number;
+  bytesProcessed: number; // Compressed bytes read from disk
+  rowsProcessed: number;
+  progress: number; // 0-100
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  costData?: CostData; // Set once the import completes; the merged dataset when importing into one
+  report?: CSVValidationReport; // Set once the import completes
+  dataset?: string; // Named dataset the file is merged into
+  datasetImportId?: string; // Entry in the dataset's import history, once merged
+}
+
+// One date/service/region/account cell of an imported file; datasets merge files cell by cell
+export interface CostRecord {
+  date: string; // YYYY-MM-DD, or '' for files without dates
+  service: string; // Display name as it appears in the file
+  region: string; // '' for files without regions
+  accountId: string; // '' when neither the file nor the upload names an account
+  cost: number;
+  provider?: CloudProvider;
+  tags?: Array<[string, string]>; // Sorted key/value pairs; unset for untagged line items and summary files
+}
+
+export type DatasetImportStatus = 'active' | 'rolled-back';
+
+export interface DatasetImport {
+  id: string; // Import job that produced it
+  fileName: string;
+  format: CSVFormat;
+  status: DatasetImportStatus;
+  importedAt: Date;
+  rolledBackAt?: Date;
+  accountId?: string; // Applied to rows that do not name an account
+  currency: string;
+  rowsProcessed: number;
+  recordCount: number;
+  totalCost: number;
+  dateRange?: { start: string; end: string };
+  replacedRecords: number; // Cells of earlier imports this file superseded when it was added
+}
+
+// Cost data built up from several billing files, e.g. one per month and account
+export interface CostDataset {
   name: string;
-  limit: number;
-  spent: number;
+  createdAt: Date;
+  updatedAt: Date;
+  imports: DatasetImport[]; // Oldest first; later imports win where cells overlap
+}
+
+export interface CSVUploadResult {
+  success: boolean;
+  costData?: CostData;
+  records?: CostRecord[]; // Only when requested with collectRecords
+  rowsProcessed?: number;
+  format?: CSVFormat;
+  report?: CSVValidationReport;
+  error?: string;
+}
+
+export interface ForecastInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastPoint extends ForecastInterval {
+  date: string; // YYYY-MM-DD
+}
+
+export interface CostForecast {
+  mode: ForecastMode;
+  method: 'aws-cost-explorer' | 'linear-regression';
+  service?: string;
+  currency: string;
+  confidenceLevel: number; // prediction interval in percent, e.g. 80
+  periodStart: string; // YYYY-MM-DD, first day of the projected period
+  periodEnd: string; // YYYY-MM-DD, exclusive
+  actualToDate: number; // spend already incurred in the period
+  points: ForecastPoint[];
+  forecastTotal: ForecastInterval; // remaining (forecast) spend only
+  projectedPeriodTotal: ForecastInterval; // actualToDate + forecastTotal
+}
+
+// One day's view of a data source, trimmed to what trend queries need
+export interface CostSnapshot {
+  source: string; // 'aws:<accountId>' or 'dataset:<name>'
+  date: string; // YYYY-MM-DD (UTC) the snapshot was taken; one per source and day
+  takenAt: Date;
+  currency: string;
+  metric?: CostMetric;
+  totalCost: number;
+  services: Array<Pick<ServiceCost, 'service' | 'displayName' | 'totalCost' | 'dailyCosts'>>;
+}
+
+export interface CostHistory {
+  source: string;
+  service?: string;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, exclusive
+  currency: string;
+  points: DailyCost[]; // Each day taken from the latest snapshot that covers it
+  snapshots: Array<{ date: string; takenAt: Date; totalCost: number }>; // Totals as seen on each snapshot day
+}
+
+export interface CostPeriod {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, exclusive
+}
+
+// Change from a base period to a target period
+export interface CostDelta {
+  baseCost: number;
+  targetCost: number;
+  change: number; // targetCost - baseCost
+  changePercentage: number | null; // Null when the base cost is zero
+}
+
+export interface RegionCostDelta extends CostDelta {
+  region: string;
+}
+
+export interface TagCostDelta extends CostDelta {
+  key: string;
+  value: string;
+}
+
+export interface ServiceCostDelta extends CostDelta {
+  service: string;
+  displayName: string;
+  status: 'new' | 'disappeared' | 'changed' | 'unchanged';
+  regions: RegionCostDelta[];
+  tags: TagCostDelta[];
+}
+
+export interface CostComparison {
+  base: CostPeriod;
+  target: CostPeriod;
+  currency: string;
+  total: CostDelta;
+  services: ServiceCostDelta[]; // Largest absolute change first
+  regions: RegionCostDelta[]; // Summed across services
+  tags: TagCostDelta[]; // Summed across services
+  newServices: string[]; // Service keys with cost only in the target period
+  disappearedServices: string[]; // Service keys with cost only in the base period
+}
+
+export type AnomalyMethod = 'mad' | 'zscore';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface CostAnomaly {
+  id: string;
+  scope: 'service' | 'region' | 'tag';
+  service: string;
+  displayName: string;
+  region?: string;
+  tag?: { key: string; value: string };
+  date: string;
+  actual: number;
+  expected: number; // Rolling median (MAD) or mean (z-score) of the preceding window
+  deviation: number; // actual - expected
+  score: number; // Modified z-score (MAD) or z-score
+  direction: 'spike' | 'drop';
+  severity: AnomalySeverity;
+}
+
+export interface CostExplorerRequestDay {
+  date: string; // YYYY-MM-DD (UTC, matches AWS billing days)
+  requests: number;
+  estimatedCost: number; // USD
+}
+
+export interface CostExplorerRequestLedger extends CostExplorerRequestDay {
+  dailyLimit: number | null; // null when uncapped
+  remaining: number | null;
+  pricePerRequest: number;
+  history: CostExplorerRequestDay[];
+}
+
+export type AwsCapability = 'identity' | 'costAndUsage' | 'dimensionValues' | 'forecast' | 'budgets';
+
+export interface AwsPermissionCheck {
+  capability: AwsCapability;
+  label: string;
+  usedFor: string; // What stops working without it
+  actions: string[]; // IAM actions the capability needs
+  status: 'granted' | 'denied' | 'error';
+  error?: string;
+}
+
+export interface IamPolicyDocument {
+  Version: '2012-10-17';
+  Statement: Array<{
+    Sid: string;
+    Effect: 'Allow';
+    Action: string[];
+    Resource: string | string[];
+  }>;
+}
+
+export interface AwsPermissionReport {
+  accountId: string | null;
+  checkedAt: Date;
+  checks: AwsPermissionCheck[];
+  allGranted: boolean;
+  missingActions: string[];
+  minimalPolicy: IamPolicyDocument | null; // Grants exactly the missing actions; null when nothing is missing
+}
+
+// 4-4-5 budgets follow the retail calendar: 13-week quarters split into 4, 4 and 5 week months
+export type BudgetCalendar = 'gregorian' | '4-4-5';
+
+export interface Budget {
+  id: string;
+  accountId: string;
+  service?: string; // Service key, omitted for an account-wide budget
+  amount: number;
   currency: string;
   period: 'monthly' | 'quarterly' | 'yearly';
+  fiscalYearStartMonth?: number; // 1-12, month quarterly and yearly periods start from; defaults to January
+  calendar?: BudgetCalendar; // Defaults to gregorian
   alertThresholds: number[];
-  services?: string[];
-  tags?: Record<string, string>;
+  name?: string;
+  source?: 'manual' | 'aws-budgets';
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface BudgetUtilization {
+  service: string;
+  currentCost: number; // Costs within the budget period
+  budgetAmount: number; // Prorated to the part of the period the costs cover
+  utilizationPercentage: number;
+  alertLevel: 'safe' | 'warning' | 'critical' | 'over_budget';
+  projectedCost?: number; // Projected to the end of the budget period
+  budgetPeriod?: BudgetPeriodWindow; // Set for services with a budget
+}
+
+export interface BudgetPeriodWindow {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, exclusive
+  costStart: string; // Part of the period the cost data covers, inclusive
+  costEnd: string; // Exclusive
+  prorationFactor: number; // Share of the budget amount compared against; below 1 when the costs start after the period does
+}
+
+export interface BudgetNotification {
+  id: string;
+  budgetId: string;
+  service: string;
+  periodStart?: string; // Budget period the alert was raised in; unset on notifications stored before de-duplication
+  threshold?: number; // Utilization percentage crossed
+  message: string;
+  severity: 'info' | 'warning' | 'critical';
+  timestamp: Date;
+  acknowledged: boolean;
+}
+
+// A budget read from AWS Budgets (DescribeBudgets)
+export interface AwsBudgetDefinition {
+  name: string;
+  budgetType: string; // COST, USAGE, RI_UTILIZATION, ...
+  timeUnit: string; // DAILY, MONTHLY, QUARTERLY, ANNUALLY
+  limit?: { amount: number; currency: string }; // Fixed limit, or the current planned limit
+  costFilters: Record<string, string[]>;
+  services: string[]; // Service keys resolved from the Service cost filter
+}
+
+export interface BudgetImportItem {
+  budgetName: string;
+  status: 'created' | 'updated' | 'skipped';
+  reason?: string; // Why the budget was skipped
+  budget?: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'> & Partial<Pick<Budget, 'id'>>;
+}
+
+export interface BudgetImportResult {
+  accountId: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  items: BudgetImportItem[];
+}
+
 export interface BudgetCreateRequest {
   name: string;
   limit: number;
@@ -5,16 +5,10 @@ import { ErrorBoundary } from './components/ErrorBoundary';
 import { MansionErrorFallback } from './components/MansionErrorFallback';
 import { ErrorNotification } from './components/ErrorNotification';
 import { OfflineIndicator } from './components/OfflineIndicator';
-import { useHauntedStore } from './store/hauntedStore';
+import { useHauntedStore, AWSCredentials } from './store/hauntedStore';
 import './App.css';
 import './styles/pdf-export.css';
 
-interface AWSCredentials {
-  accessKeyId: string;
-  secretAccessKey: string;
-  region: string;
-}
-
 function App() {
   const { 
     isInitialized, 
@@ -8,11 +8,18 @@ interface Budget {
   amount: number;
   currency: string;
   period: 'monthly' | 'quarterly' | 'yearly';
+  fiscalYearStartMonth?: number;
+  calendar?: 'gregorian' | '4-4-5';
   alertThresholds: number[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
 interface BudgetFormProps {
   service: string;
   existingBudget?: Budget;
@@ -32,6 +39,8 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     amount: existingBudget?.amount || 1000,
     currency: existingBudget?.currency || 'USD',
     period: existingBudget?.period || 'monthly' as 'monthly' | 'quarterly' | 'yearly',
+    fiscalYearStartMonth: existingBudget?.fiscalYearStartMonth || 1,
+    calendar: existingBudget?.calendar || 'gregorian' as 'gregorian' | '4-4-5',
     alertThresholds: existingBudget?.alertThresholds || [50, 80, 100]
   });
 
@@ -145,6 +154,37 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
           </select>
         </div>
 
+        {/* Fiscal Calendar */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Fiscal Year Starts
+            </label>
+            <select
+              value={formData.fiscalYearStartMonth}
+              onChange={(e) => setFormData({ ...formData, fiscalYearStartMonth: parseInt(e.target.value) })}
+              className="w-full bg-gray-600 text-white rounded px-3 py-2 border border-gray-500 focus:border-purple-400 focus:outline-none"
+            >
+              {MONTH_NAMES.map((month, index) => (
+                <option key={month} value={index + 1}>{month}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Calendar
+            </label>
+            <select
+              value={formData.calendar}
+              onChange={(e) => setFormData({ ...formData, calendar: e.target.value as 'gregorian' | '4-4-5' })}
+              className="w-full bg-gray-600 text-white rounded px-3 py-2 border border-gray-500 focus:border-purple-400 focus:outline-none"
+            >
+              <option value="gregorian">Calendar months</option>
+              <option value="4-4-5">4-4-5 weeks</option>
+            </select>
+          </div>
+        </div>
+
         {/* Alert Thresholds */}
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { motion } from 'framer-motion';
 import { X, TrendingUp, TrendingDown, Minus, AlertCircle, DollarSign } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot } from 'recharts';
+import { useHauntedStore } from '../store/hauntedStore';
 
 interface CostDetailPanelProps {
   service: {
@@ -15,21 +16,61 @@ interface CostDetailPanelProps {
     regions: Array<{ region: string; cost: number; percentage: number }>;
     tags: Array<{ key: string; value: string; cost: number; percentage: number }>;
     dailyCosts: Array<{ date: string; cost: number }>;
+    resources?: Array<{ resourceId: string; cost: number; percentage: number }>;
+    usageTypes?: Array<{ usageType: string; cost: number; percentage: number; usageAmount: number; unit?: string }>;
   };
   onClose: () => void;
 }
 
+type ChartPoint = {
+  date: string;
+  cost?: number;
+  forecast?: number;
+  band?: [number, number];
+};
+
+const formatChartDate = (date: string) =>
+  new Date(date).toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' });
+
 export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClose }) => {
+  const { costForecast, loadForecast, anomalies } = useHauntedStore();
+
+  useEffect(() => {
+    loadForecast(service);
+  }, [service.service]);
+
   // Use actual daily cost data (default if none)
-  const dailyCosts = service.dailyCosts && service.dailyCosts.length > 0 
+  const dailyCosts: ChartPoint[] = service.dailyCosts && service.dailyCosts.length > 0 
     ? service.dailyCosts.map(item => ({
-        date: new Date(item.date).toLocaleDateString('ko-KR', { month: 'numeric', day: 'numeric' }),
+        date: formatChartDate(item.date),
         cost: Math.round(item.cost * 100) / 100
       }))
     : [
         { date: 'Today', cost: service.totalCost }
       ];
 
+  // Forecast continues from the last actual day as a dashed line inside its confidence band
+  const forecast = costForecast && costForecast.points.length > 0 ? costForecast : null;
+  const chartData: ChartPoint[] = forecast
+    ? [
+        ...dailyCosts.map((point, index) =>
+          index === dailyCosts.length - 1
+            ? { ...point, forecast: point.cost, band: [point.cost!, point.cost!] as [number, number] }
+            : point
+        ),
+        ...forecast.points.map(point => ({
+          date: formatChartDate(point.date),
+          forecast: point.mean,
+          band: [point.lower, point.upper] as [number, number]
+        }))
+      ]
+    : dailyCosts;
+
+  // Daily-level anomalies for this service, marked on the trend line
+  const serviceAnomalies = anomalies.filter(
+    anomaly => anomaly.scope === 'service' && anomaly.service === service.service
+  );
+
   // Use actual region data - only show services with regions
   const regions = service.regions && service.regions.length > 0 
     ? service.regions
@@ -37,6 +78,25 @@ export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClo
         .sort((a, b) => b.cost - a.cost) // Sort by cost
     : [];
 
+  // Group tag costs by tag key (e.g. team, env) - "untagged" values are shown last
+  const tagGroups = (service.tags || []).reduce<Record<string, typeof service.tags>>((groups, tag) => {
+    if (tag.cost <= 0) return groups;
+    (groups[tag.key] = groups[tag.key] || []).push(tag);
+    return groups;
+  }, {});
+
+  Object.values(tagGroups).forEach(tags =>
+    tags.sort((a, b) => {
+      if (a.value === 'untagged') return 1;
+      if (b.value === 'untagged') return -1;
+      return b.cost - a.cost;
+    })
+  );
+
+  // Resource and usage type breakdowns only exist for Cost and Usage Report imports
+  const resources = (service.resources || []).slice(0, 10);
+  const usageTypes = (service.usageTypes || []).slice(0, 10);
+
   const getTrendIcon = () => {
     switch (service.trend) {
       case 'increasing':
@@ -171,7 +231,7 @@ export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClo
             
             <div className="h-32">
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={dailyCosts}>
+                <ComposedChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                   <XAxis 
                     dataKey="date" 
@@ -191,8 +251,23 @@ export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClo
                       color: '#ffffff',
                       fontSize: '12px'
                     }}
-                    formatter={(value) => [`$${value}`, 'Cost']}
+                    formatter={(value, name) => {
+                      if (Array.isArray(value)) return [`$${value[0]} – $${value[1]}`, 'Forecast range'];
+                      return [`$${value}`, name === 'forecast' ? 'Forecast' : 'Cost'];
+                    }}
                   />
+                  {forecast && (
+                    <Area
+                      type="monotone"
+                      dataKey="band"
+                      stroke="#f97316"
+                      strokeDasharray="4 4"
+                      strokeOpacity={0.6}
+                      fill="#f97316"
+                      fillOpacity={0.15}
+                      isAnimationActive={false}
+                    />
+                  )}
                   <Line
                     type="monotone"
                     dataKey="cost"
@@ -201,9 +276,57 @@ export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClo
                     dot={{ fill: '#8b5cf6', strokeWidth: 1, r: 3 }}
                     activeDot={{ r: 4, stroke: '#8b5cf6', strokeWidth: 2 }}
                   />
-                </LineChart>
+                  {forecast && (
+                    <Line
+                      type="monotone"
+                      dataKey="forecast"
+                      stroke="#f97316"
+                      strokeWidth={2}
+                      strokeDasharray="5 5"
+                      dot={false}
+                    />
+                  )}
+                  {serviceAnomalies.map(anomaly => (
+                    <ReferenceDot
+                      key={anomaly.id}
+                      x={formatChartDate(anomaly.date)}
+                      y={anomaly.actual}
+                      r={anomaly.severity === 'high' ? 6 : 5}
+                      fill={anomaly.direction === 'spike' ? '#ef4444' : '#22d3ee'}
+                      stroke="#ffffff"
+                      strokeWidth={1}
+                    />
+                  ))}
+                </ComposedChart>
               </ResponsiveContainer>
             </div>
+
+            {forecast && (
+              <div className="mt-2 text-xs text-orange-200 flex items-center justify-between">
+                <span>🔮 Projected through {formatChartDate(forecast.points[forecast.points.length - 1].date)}</span>
+                <span className="text-right">
+                  <span className="font-bold text-white">${forecast.projectedPeriodTotal.mean.toLocaleString()}</span>
+                  <span className="text-gray-400 ml-1">
+                    (${forecast.projectedPeriodTotal.lower.toLocaleString()}–${forecast.projectedPeriodTotal.upper.toLocaleString()}, {forecast.confidenceLevel}%)
+                  </span>
+                </span>
+              </div>
+            )}
+
+            {serviceAnomalies.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {serviceAnomalies.slice(0, 3).map(anomaly => (
+                  <div key={anomaly.id} className="text-xs flex items-center justify-between">
+                    <span className={anomaly.direction === 'spike' ? 'text-red-300' : 'text-cyan-300'}>
+                      👻 {anomaly.direction === 'spike' ? 'Spike' : 'Drop'} on {formatChartDate(anomaly.date)} ({anomaly.severity})
+                    </span>
+                    <span className="text-gray-400">
+                      ${anomaly.actual.toLocaleString()} vs ${anomaly.expected.toLocaleString()} expected
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </motion.div>
 
           {/* Regional Analysis - Based on Actual Data */}
@@ -286,6 +409,113 @@ export const CostDetailPanel: React.FC<CostDetailPanelProps> = ({ service, onClo
             </motion.div>
           )}
 
+          {/* Tag Cost Breakdown - Cost allocation tags */}
+          {Object.keys(tagGroups).length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="bg-black/40 rounded-lg p-3 border border-purple-500/20"
+            >
+              <h3 className="text-base font-semibold text-white mb-3 flex items-center gap-2">
+                🏷️ Tag Cost Breakdown
+                <span className="text-xs text-gray-400">({Object.keys(tagGroups).length} tag keys)</span>
+              </h3>
+
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {Object.entries(tagGroups).map(([key, tags]) => (
+                  <div key={key}>
+                    <div className="text-xs text-purple-300 font-medium mb-1">{key}</div>
+                    <div className="space-y-1">
+                      {tags.map((tag) => (
+                        <div
+                          key={`${key}-${tag.value}`}
+                          className="flex items-center justify-between p-2 bg-gray-800/50 rounded-md hover:bg-gray-700/50 transition-colors"
+                        >
+                          <div className="flex-1">
+                            <div className={`text-sm font-medium ${tag.value === 'untagged' ? 'text-gray-400 italic' : 'text-white'}`}>
+                              {tag.value}
+                            </div>
+                            <div className="text-xs text-gray-400">{tag.percentage.toFixed(1)}% of total</div>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-sm text-white font-bold">${tag.cost.toLocaleString()}</div>
+                            <div className="w-16 h-1.5 bg-gray-700 rounded-full overflow-hidden mt-1">
+                              <div
+                                className="h-full bg-gradient-to-r from-orange-500 to-purple-500"
+                                style={{ width: `${Math.min(tag.percentage, 100)}%` }}
+                              />
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
+          {/* Resource and Usage Type Breakdown - Cost and Usage Report imports */}
+          {(resources.length > 0 || usageTypes.length > 0) && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.35 }}
+              className="bg-black/40 rounded-lg p-3 border border-purple-500/20"
+            >
+              {resources.length > 0 && (
+                <div className="mb-3">
+                  <h3 className="text-base font-semibold text-white mb-2 flex items-center gap-2">
+                    🧩 Top Resources
+                    <span className="text-xs text-gray-400">({service.resources!.length} resources)</span>
+                  </h3>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {resources.map((resource) => (
+                      <div
+                        key={resource.resourceId}
+                        className="flex items-center justify-between p-2 bg-gray-800/50 rounded-md"
+                      >
+                        <div className="flex-1 min-w-0 mr-2">
+                          <div className="text-sm text-white font-mono truncate" title={resource.resourceId}>
+                            {resource.resourceId}
+                          </div>
+                          <div className="text-xs text-gray-400">{resource.percentage.toFixed(1)}% of total</div>
+                        </div>
+                        <div className="text-sm text-white font-bold">${resource.cost.toLocaleString()}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {usageTypes.length > 0 && (
+                <div>
+                  <h3 className="text-base font-semibold text-white mb-2 flex items-center gap-2">
+                    ⚙️ Usage Types
+                    <span className="text-xs text-gray-400">({service.usageTypes!.length} usage types)</span>
+                  </h3>
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {usageTypes.map((usage) => (
+                      <div
+                        key={usage.usageType}
+                        className="flex items-center justify-between p-2 bg-gray-800/50 rounded-md"
+                      >
+                        <div className="flex-1 min-w-0 mr-2">
+                          <div className="text-sm text-white truncate" title={usage.usageType}>{usage.usageType}</div>
+                          <div className="text-xs text-gray-400">
+                            {usage.usageAmount.toLocaleString()} {usage.unit || 'units'} · {usage.percentage.toFixed(1)}% of total
+                          </div>
+                        </div>
+                        <div className="text-sm text-white font-bold">${usage.cost.toLocaleString()}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          )}
+
           {/* Cost Optimization Suggestions - Based on Actual Data */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
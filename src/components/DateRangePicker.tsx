@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Calendar } from 'lucide-react';
+import {
+  DateRange,
+  DateRangePreset,
+  CostGranularity,
+  DATE_RANGE_PRESET_LABELS,
+  createDateRange,
+  formatDate
+} from '../utils/dateRange';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+type Preset = Exclude<DateRangePreset, 'custom'>;
+
+const addDay = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+};
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Custom inputs show the inclusive last day; the store keeps the exclusive end
+  const [customStart, setCustomStart] = useState(value.start);
+  const [customEnd, setCustomEnd] = useState(addDay(value.end, -1));
+
+  const today = formatDate(new Date());
+  const customInvalid = !customStart || !customEnd || customEnd < customStart || customEnd > today;
+
+  const label = value.preset === 'custom'
+    ? `${value.start} → ${addDay(value.end, -1)}`
+    : DATE_RANGE_PRESET_LABELS[value.preset];
+
+  const selectPreset = (preset: Preset) => {
+    onChange(createDateRange(preset, value.granularity));
+    setIsOpen(false);
+  };
+
+  const applyCustom = () => {
+    if (customInvalid) return;
+    onChange({
+      preset: 'custom',
+      start: customStart,
+      end: addDay(customEnd, 1),
+      granularity: value.granularity
+    });
+    setIsOpen(false);
+  };
+
+  const setGranularity = (granularity: CostGranularity) => {
+    if (granularity !== value.granularity) {
+      onChange({ ...value, granularity });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-black/40 rounded-lg border border-blue-500/30 text-sm text-blue-200 hover:bg-black/60 transition-colors"
+        aria-label="Select cost date range"
+        aria-expanded={isOpen}
+        title="Period used for costs and budget utilization"
+      >
+        <Calendar className="w-4 h-4" />
+        <span className="text-white">{label}</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="absolute right-0 mt-2 w-72 p-4 bg-gray-900/95 border border-blue-500/30 rounded-lg shadow-xl z-50"
+            role="dialog"
+            aria-label="Cost date range"
+          >
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {(Object.keys(DATE_RANGE_PRESET_LABELS) as Preset[]).map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => selectPreset(preset)}
+                  className={`px-2 py-1.5 rounded text-xs transition-colors ${
+                    value.preset === preset
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                  aria-pressed={value.preset === preset}
+                >
+                  {DATE_RANGE_PRESET_LABELS[preset]}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2 mb-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={customStart}
+                  max={today}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                  className="flex-1 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+                  aria-label="Start date"
+                />
+                <span className="text-gray-400 text-xs">→</span>
+                <input
+                  type="date"
+                  value={customEnd}
+                  min={customStart}
+                  max={today}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                  className="flex-1 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+                  aria-label="End date"
+                />
+              </div>
+              <button
+                onClick={applyCustom}
+                disabled={customInvalid}
+                className="w-full px-2 py-1.5 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded text-xs transition-colors"
+              >
+                Apply custom range
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-400">Granularity</span>
+              <div className="flex rounded overflow-hidden border border-gray-600">
+                {(['DAILY', 'MONTHLY'] as CostGranularity[]).map(granularity => (
+                  <button
+                    key={granularity}
+                    onClick={() => setGranularity(granularity)}
+                    className={`px-2 py-1 ${
+                      value.granularity === granularity
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                    aria-pressed={value.granularity === granularity}
+                  >
+                    {granularity === 'DAILY' ? 'Daily' : 'Monthly'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
@@ -15,10 +15,11 @@ import {
   Clock,
   Eye,
   Lock,
-  ExternalLink
+  ExternalLink,
+  Trash2
 } from 'lucide-react';
 import { exportService, ExportOptions, MansionSnapshot } from '../services/exportService';
-import { shareService, ShareOptions, ShareableLink } from '../services/shareService';
+import { shareService, ShareOptions, ShareableLink, OwnedShareLink } from '../services/shareService';
 import { useHauntedStore } from '../store/hauntedStore';
 
 interface ExportPanelProps {
@@ -31,13 +32,17 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose }) =>
     services, 
     viewSettings, 
     budgets, 
-    demoMode
+    demoMode,
+    selectedService,
+    replay
   } = useHauntedStore();
 
   const [activeTab, setActiveTab] = useState<'export' | 'share'>('export');
   const [isExporting, setIsExporting] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [shareLink, setShareLink] = useState<ShareableLink | null>(null);
+  const [myShares, setMyShares] = useState<OwnedShareLink[]>([]);
+  const [revokingShareId, setRevokingShareId] = useState<string | null>(null);
   const [shareOptions, setShareOptions] = useState<ShareOptions>({
     expirationHours: 24,
     includeData: true
@@ -198,6 +203,40 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose }) =>
     }
   };
 
+  const loadMyShares = async () => {
+    try {
+      setMyShares(await shareService.listMyShares());
+    } catch (error) {
+      console.error('Failed to load shared links:', error);
+    }
+  };
+
+  // Refresh "My shared links" whenever the share tab is shown
+  useEffect(() => {
+    if (isOpen && activeTab === 'share') {
+      loadMyShares();
+    }
+  }, [isOpen, activeTab]);
+
+  const handleRevoke = async (shareId: string) => {
+    if (revokingShareId) return;
+
+    setRevokingShareId(shareId);
+
+    try {
+      await shareService.revokeShare(shareId);
+      setMyShares(prev => prev.filter(share => share.id !== shareId));
+      if (shareLink?.id === shareId) {
+        setShareLink(null);
+      }
+      showNotification('success', 'Shared link revoked');
+    } catch (error) {
+      showNotification('error', error instanceof Error ? error.message : 'Failed to revoke shared link');
+    } finally {
+      setRevokingShareId(null);
+    }
+  };
+
   const handleShare = async () => {
     if (isSharing) return;
     
@@ -206,7 +245,10 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose }) =>
     try {
       const snapshot = generateSnapshot();
       const link = await shareService.generateShareableLink(snapshot, shareOptions);
-      setShareLink(link);
+      // View state, including the timeline replay position, travels in the link's query string
+      const viewState = shareService.generateViewStateParams(viewSettings, selectedService?.service, replay).toString();
+      setShareLink(viewState ? { ...link, url: `${link.url}?${viewState}` } : link);
+      loadMyShares();
       showNotification('success', 'Shareable link created successfully!');
     } catch (error) {
       console.error('Share failed:', error);
@@ -671,6 +713,55 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ isOpen, onClose }) =>
                       </button>
                     </>
                   )}
+
+                  {/* My Shared Links */}
+                  {myShares.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        My shared links
+                      </label>
+                      <div className="space-y-2">
+                        {myShares.map(share => (
+                          <div
+                            key={share.id}
+                            className="bg-gray-800 rounded-lg p-3 border border-gray-600 flex items-center justify-between"
+                          >
+                            <div className="min-w-0">
+                              <div className="text-xs text-purple-300 truncate">
+                                {share.hasPassword && <Lock size={10} className="inline mr-1" />}
+                                {share.id.slice(0, 8)}…
+                              </div>
+                              <div className="text-xs text-gray-400">
+                                <Eye size={10} className="inline mr-1" />
+                                {share.viewCount}{share.maxViews ? ` / ${share.maxViews}` : ''} views
+                                <Clock size={10} className="inline ml-2 mr-1" />
+                                Expires {share.expiresAt.toLocaleDateString()}
+                              </div>
+                            </div>
+                            <div className="flex gap-1 ml-2">
+                              <button
+                                onClick={() => shareService.copyToClipboard(share.url)
+                                  .then(() => showNotification('success', 'Link copied to clipboard!'))
+                                  .catch(() => showNotification('error', 'Failed to copy link to clipboard'))}
+                                className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded transition-colors"
+                                aria-label={`Copy link ${share.id}`}
+                              >
+                                <Copy size={12} />
+                              </button>
+                              <button
+                                onClick={() => handleRevoke(share.id)}
+                                disabled={revokingShareId === share.id}
+                                className="bg-red-800 hover:bg-red-700 disabled:bg-gray-600 text-white p-2 rounded transition-colors"
+                                aria-label={`Revoke link ${share.id}`}
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -7,10 +7,13 @@ import { CostDetailPanel } from './CostDetailPanel';
 import { BudgetPanel } from './BudgetPanel';
 import { ExportButton } from './ExportButton';
 import { MansionSkeleton } from './LoadingStates';
-import { useHauntedStore } from '../store/hauntedStore';
+import { DateRangePicker } from './DateRangePicker';
+import { TimelineScrubber } from './TimelineScrubber';
+import { useHauntedStore, COST_METRIC_LABELS, CostMetric, AnomalySeverity } from '../store/hauntedStore';
 import { shareService } from '../services/shareService';
 import { performanceMonitor, PerformanceMetrics, QualitySettings } from '../services/performanceMonitor';
 import { accessibilityService } from '../services/accessibilityService';
+import { getReplayDates, getServicesAtDate } from '../utils/replay';
 
 export const HauntedMansion: React.FC = () => {
   const { 
@@ -22,7 +25,23 @@ export const HauntedMansion: React.FC = () => {
     loadFromShareData,
     shareData,
     isLoading,
-    resetToHome
+    resetToHome,
+    demoMode,
+    linkedAccounts,
+    selectedAccountId,
+    setSelectedAccount,
+    costMetric,
+    setCostMetric,
+    dateRange,
+    setDateRange,
+    anomalies,
+    loadAnomalies,
+    compareMode,
+    setCompareMode,
+    costComparison,
+    loadComparison,
+    replay,
+    setReplay
   } = useHauntedStore();
   const [mansionDimensions, setMansionDimensions] = useState({ width: 1200, height: 800 });
   const [showShareNotification, setShowShareNotification] = useState(false);
@@ -67,6 +86,20 @@ export const HauntedMansion: React.FC = () => {
     }
   }, [services]);
 
+  // Re-scan for cost anomalies whenever the rooms change
+  useEffect(() => {
+    if (services.length > 0) {
+      loadAnomalies();
+    }
+  }, [services]);
+
+  // Keep the comparison in step with the rooms while compare mode is on
+  useEffect(() => {
+    if (compareMode && services.length > 0) {
+      loadComparison();
+    }
+  }, [services]);
+
   // Keyboard navigation setup
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -115,6 +148,10 @@ export const HauntedMansion: React.FC = () => {
       shareService.loadSharedState(shareId)
         .then((snapshot) => {
           loadFromShareData(snapshot);
+          const { replay: sharedReplay } = shareService.parseViewStateFromUrl();
+          if (sharedReplay) {
+            setReplay(sharedReplay);
+          }
           setShowShareNotification(true);
           
           // Auto-hide notification after 5 seconds
@@ -175,6 +212,24 @@ export const HauntedMansion: React.FC = () => {
 
   const hasAlerts = services.some(service => service.budgetUtilization > 1.0);
 
+  // Worst anomaly per service (service, region or tag level) summons a poltergeist
+  const severityRank: Record<AnomalySeverity, number> = { low: 0, medium: 1, high: 2 };
+  const anomalySeverityByService = anomalies.reduce<Record<string, AnomalySeverity>>((byService, anomaly) => {
+    const current = byService[anomaly.service];
+    if (!current || severityRank[anomaly.severity] > severityRank[current]) {
+      byService[anomaly.service] = anomaly.severity;
+    }
+    return byService;
+  }, {});
+
+  // Timeline replay shows each room's cumulative spend up to the chosen day
+  const replayDates = getReplayDates(services);
+  const roomServices = replay ? getServicesAtDate(services, replay.date) : services;
+
+  const costChangeByService = new Map(
+    (compareMode && costComparison ? costComparison.services : []).map(delta => [delta.service, delta])
+  );
+
   // Show loading state
   if (isLoading) {
     return (
@@ -324,6 +379,69 @@ export const HauntedMansion: React.FC = () => {
               </motion.div>
             )}
             
+            {/* Linked Account (haunted wing) selector - AWS Organizations only */}
+            {!demoMode && linkedAccounts.length > 1 && (
+              <label className="flex items-center gap-2 px-3 py-2 bg-black/40 rounded-lg border border-orange-500/30 text-sm text-orange-200">
+                <span className="text-lg" aria-hidden="true">🏚️</span>
+                <span className="sr-only">Linked account</span>
+                <select
+                  value={selectedAccountId ?? ''}
+                  onChange={(e) => setSelectedAccount(e.target.value || null)}
+                  className="bg-transparent text-white focus:outline-none"
+                  aria-label="Filter rooms by linked account"
+                >
+                  <option value="" className="bg-gray-900">All accounts ({linkedAccounts.length})</option>
+                  {linkedAccounts.map(account => (
+                    <option key={account.accountId} value={account.accountId} className="bg-gray-900">
+                      {account.accountName ? `${account.accountName} (${account.accountId})` : account.accountId}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* Cost Metric toggle - AWS mode only (reloads the mansion) */}
+            {!demoMode && (
+              <label className="flex items-center gap-2 px-3 py-2 bg-black/40 rounded-lg border border-purple-500/30 text-sm text-purple-200">
+                <span className="text-lg" aria-hidden="true">🧮</span>
+                <select
+                  value={costMetric}
+                  onChange={(e) => setCostMetric(e.target.value as CostMetric)}
+                  className="bg-transparent text-white focus:outline-none"
+                  aria-label="Cost metric"
+                  title="Cost Explorer metric used for all amounts"
+                >
+                  {(Object.keys(COST_METRIC_LABELS) as CostMetric[]).map(metric => (
+                    <option key={metric} value={metric} className="bg-gray-900">
+                      {COST_METRIC_LABELS[metric]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* Date range picker - AWS mode only */}
+            {!demoMode && (
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+            )}
+
+            {/* Compare mode toggle - rooms show their change since the previous period */}
+            <motion.button
+              onClick={() => setCompareMode(!compareMode)}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg font-medium transition-all shadow-lg border text-white ${
+                compareMode
+                  ? 'bg-gradient-to-r from-red-700 to-red-800 border-red-500/50'
+                  : 'bg-gradient-to-r from-gray-700 to-gray-800 hover:from-gray-600 hover:to-gray-700 border-gray-600/50'
+              }`}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-pressed={compareMode}
+              title="Compare with the previous period"
+            >
+              <span className="text-lg">⚖️</span>
+              <span className="text-sm">Compare</span>
+            </motion.button>
+
             {/* Home Button */}
             <motion.button
               onClick={resetToHome}
@@ -371,6 +489,28 @@ export const HauntedMansion: React.FC = () => {
             </motion.button>
           </div>
         </div>
+
+        {/* Comparison summary - compare mode only */}
+        {compareMode && costComparison && (
+          <div className="flex items-center gap-4 text-sm text-orange-200" role="status">
+            <span>
+              ⚖️ {costComparison.target.start} – {costComparison.target.end} vs {costComparison.base.start} – {costComparison.base.end}
+              <span className="text-orange-300/60"> (end dates exclusive)</span>
+            </span>
+            <span className={costComparison.total.change > 0 ? 'text-red-400' : 'text-green-400'}>
+              Total {costComparison.total.change >= 0 ? '+' : '-'}${Math.abs(costComparison.total.change).toLocaleString()}
+              {costComparison.total.changePercentage !== null && ` (${costComparison.total.changePercentage >= 0 ? '+' : ''}${costComparison.total.changePercentage.toFixed(1)}%)`}
+            </span>
+            {costComparison.newServices.length > 0 && (
+              <span>🆕 {costComparison.newServices.length} new</span>
+            )}
+            {costComparison.disappearedServices.length > 0 && (
+              <span title={costComparison.disappearedServices.join(', ')}>
+                👻 {costComparison.disappearedServices.length} gone
+              </span>
+            )}
+          </div>
+        )}
       </motion.header>
 
       {/* 할로윈 장식 요소들 (Halloween Decoration Elements) */}
@@ -467,7 +607,7 @@ export const HauntedMansion: React.FC = () => {
                   style={{ outline: 'none' }}
                 >
                   <Layer>
-                    {services.map((service, index) => (
+                    {roomServices.map((service, index) => (
                       <ServiceRoom
                         key={service.service}
                         service={service}
@@ -476,16 +616,21 @@ export const HauntedMansion: React.FC = () => {
                           y: Math.floor(index / actualCols) * (roomHeight + gap) + 20
                         }}
                         onSelect={() => {
-                          setSelectedService(service);
+                          setSelectedService(services[index]);
                           setSelectedRoomIndex(index);
                         }}
                         isSelected={selectedService?.service === service.service || selectedRoomIndex === index}
+                        anomalySeverity={anomalySeverityByService[service.service]}
+                        costChange={costChangeByService.get(service.service)}
                       />
                     ))}
                   </Layer>
                 </Stage>
               );
             })()}
+
+            {/* Timeline replay of cumulative spend */}
+            <TimelineScrubber dates={replayDates} replay={replay} onChange={setReplay} />
           </div>
         </motion.div>
 
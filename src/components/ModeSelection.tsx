@@ -1,12 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Cloud, Database, AlertCircle, CheckCircle, ChevronDown } from 'lucide-react';
+import { Cloud, Database, AlertCircle, CheckCircle, ChevronDown, XCircle, Copy, Upload } from 'lucide-react';
+import { useHauntedStore } from '../store/hauntedStore';
+import type { AWSCredentials, AwsPermissionReport, CsvColumnMapping, CsvValidationReport, DemoScenario } from '../store/hauntedStore';
 
-interface AWSCredentials {
-  accessKeyId: string;
-  secretAccessKey: string;
-  region: string;
-}
+type CredentialSource = 'keys' | 'profile';
+
+// Every field of the form; only the ones that apply are sent
+type CredentialForm = Required<AWSCredentials>;
+
+const COLUMN_MAPPING_FIELDS: Array<{ field: keyof CsvColumnMapping; label: string; placeholder: string }> = [
+  { field: 'service', label: 'Service column', placeholder: 'Service' },
+  { field: 'cost', label: 'Cost column', placeholder: 'BlendedCost' },
+  { field: 'date', label: 'Date column', placeholder: 'Date' },
+  { field: 'region', label: 'Region column', placeholder: 'Region' }
+];
 
 interface ModeSelectionProps {
   onModeSelect: (mode: 'demo' | 'aws', credentials?: AWSCredentials) => void;
@@ -60,14 +68,35 @@ const AWS_REGIONS = [
 
 export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) => {
   const [selectedMode, setSelectedMode] = useState<'demo' | 'aws' | null>(null);
-  const [credentials, setCredentials] = useState<AWSCredentials>({
+  const [credentials, setCredentials] = useState<CredentialForm>({
     accessKeyId: '',
     secretAccessKey: '',
-    region: 'us-east-1'
+    sessionToken: '',
+    profile: '',
+    region: 'us-east-1',
+    roleArn: '',
+    externalId: ''
   });
+  const [credentialSource, setCredentialSource] = useState<CredentialSource>('keys');
+  const [assumeRole, setAssumeRole] = useState(false);
+  const [availableProfiles, setAvailableProfiles] = useState<string[] | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [validationSuccess, setValidationSuccess] = useState(false);
+  const [permissionReport, setPermissionReport] = useState<AwsPermissionReport | null>(null);
+  const [policyCopied, setPolicyCopied] = useState(false);
+  const [showFileImport, setShowFileImport] = useState(false);
+  const [costFiles, setCostFiles] = useState<File[]>([]);
+  const [datasetName, setDatasetName] = useState('');
+  const [datasetAccountId, setDatasetAccountId] = useState('');
+  const [expandedDataset, setExpandedDataset] = useState<string | null>(null);
+  const [showColumnMapping, setShowColumnMapping] = useState(false);
+  const [columnMapping, setColumnMapping] = useState<CsvColumnMapping>({});
+  const [fileReports, setFileReports] = useState<Array<{ fileName: string; report: CsvValidationReport }>>([]);
+  const [fileCheckError, setFileCheckError] = useState<string | null>(null);
+  const [isCheckingFile, setIsCheckingFile] = useState(false);
+  const [demoScenarios, setDemoScenarios] = useState<DemoScenario[]>([]);
+  const { csvImport, importCostFiles, datasets, loadDatasets, openDataset, rollbackDatasetImport, demoSettings, setDemoSettings } = useHauntedStore();
   const [isRegionDropdownOpen, setIsRegionDropdownOpen] = useState(false);
   const [regionSearchTerm, setRegionSearchTerm] = useState('');
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -82,6 +111,14 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
     { emoji: '🕸️', delay: 2.5, duration: 4 },
   ];
 
+  // Without the scenario list the demo still opens, with the default scenario
+  useEffect(() => {
+    fetch('http://localhost:3001/api/cost/demo/scenarios')
+      .then(response => response.json())
+      .then(result => setDemoScenarios(result.success ? result.data : []))
+      .catch(() => setDemoScenarios([]));
+  }, []);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
@@ -100,6 +137,7 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
     setSelectedMode(mode);
     setValidationError(null);
     setValidationSuccess(false);
+    setPermissionReport(null);
     
     if (mode === 'demo') {
       // Immediately proceed with demo mode
@@ -107,18 +145,64 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
     }
   };
 
-  const handleCredentialChange = (field: keyof AWSCredentials, value: string) => {
+  const handleCredentialChange = (field: keyof CredentialForm, value: string) => {
     setCredentials(prev => ({
       ...prev,
       [field]: value
     }));
     setValidationError(null);
     setValidationSuccess(false);
+    setPermissionReport(null);
   };
 
+  const handleCredentialSourceChange = async (source: CredentialSource) => {
+    setCredentialSource(source);
+    setValidationError(null);
+    setValidationSuccess(false);
+    setPermissionReport(null);
+
+    // Profiles live on the server; only ask for them once someone wants one
+    if (source === 'profile' && availableProfiles === null) {
+      try {
+        const response = await fetch('http://localhost:3001/api/cost/aws/profiles');
+        const result = await response.json();
+        const profiles: string[] = result.success ? result.data.profiles : [];
+        setAvailableProfiles(profiles);
+        if (profiles.length > 0 && !credentials.profile) {
+          handleCredentialChange('profile', profiles[0]);
+        }
+      } catch (error) {
+        setAvailableProfiles([]);
+      }
+    }
+  };
+
+  const hasRequiredCredentials = (credentialSource === 'keys'
+    ? Boolean(credentials.accessKeyId && credentials.secretAccessKey)
+    : Boolean(credentials.profile))
+    && (!assumeRole || Boolean(credentials.roleArn));
+
+  // Drop fields that do not apply to the chosen source or were left blank
+  const buildCredentials = (): AWSCredentials => ({
+    region: credentials.region,
+    ...(credentialSource === 'keys'
+      ? {
+          accessKeyId: credentials.accessKeyId.trim(),
+          secretAccessKey: credentials.secretAccessKey.trim(),
+          ...(credentials.sessionToken.trim() && { sessionToken: credentials.sessionToken.trim() })
+        }
+      : { profile: credentials.profile }),
+    ...(assumeRole && {
+      roleArn: credentials.roleArn.trim(),
+      ...(credentials.externalId.trim() && { externalId: credentials.externalId.trim() })
+    })
+  });
+
   const validateCredentials = async () => {
-    if (!credentials.accessKeyId || !credentials.secretAccessKey) {
-      setValidationError('Please provide both Access Key ID and Secret Access Key');
+    if (!hasRequiredCredentials) {
+      setValidationError(credentialSource === 'keys'
+        ? 'Please provide both Access Key ID and Secret Access Key'
+        : 'Please choose a profile');
       return;
     }
 
@@ -131,7 +215,7 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(credentials),
+        body: JSON.stringify(buildCredentials()),
       });
 
       const result = await response.json();
@@ -139,6 +223,24 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
       if (result.success && result.data?.valid) {
         setValidationSuccess(true);
         setValidationError(null);
+
+        // Valid keys can still lack Cost Explorer or Budgets access; show what is missing up front
+        const authorization = { Authorization: `Bearer ${result.data.sessionToken}` };
+        try {
+          const permissionsResponse = await fetch('http://localhost:3001/api/cost/aws/permissions', {
+            headers: authorization,
+          });
+          const permissions = await permissionsResponse.json();
+          setPermissionReport(permissions.success ? permissions.data : null);
+        } catch (error) {
+          setPermissionReport(null);
+        }
+
+        // This was only a check; the store starts its own session when AWS mode is chosen
+        fetch('http://localhost:3001/api/cost/session', {
+          method: 'DELETE',
+          headers: authorization,
+        }).catch(() => undefined);
       } else {
         setValidationError(result.error || 'Invalid credentials or insufficient permissions');
         setValidationSuccess(false);
@@ -151,9 +253,90 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
     }
   };
 
+  const copyPolicy = async () => {
+    if (!permissionReport?.minimalPolicy) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(permissionReport.minimalPolicy, null, 2));
+      setPolicyCopied(true);
+      setTimeout(() => setPolicyCopied(false), 2000);
+    } catch (error) {
+      setPolicyCopied(false);
+    }
+  };
+
+  const handleCostFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      setCostFiles(files);
+      setFileReports([]);
+      setFileCheckError(null);
+    }
+    // Allow picking the same file again after a failed import
+    event.target.value = '';
+  };
+
+  // Only the columns the user actually renamed are sent
+  const buildColumnMapping = (): CsvColumnMapping | undefined => {
+    const entries = Object.entries(columnMapping).filter(([, column]) => column && column.trim());
+    return entries.length > 0 ? Object.fromEntries(entries.map(([field, column]) => [field, column!.trim()])) : undefined;
+  };
+
+  // Dry run: the server reads every row and reports what an import would skip or double count
+  const checkCostFiles = async () => {
+    if (costFiles.length === 0) return;
+
+    setIsCheckingFile(true);
+    setFileReports([]);
+    setFileCheckError(null);
+    try {
+      const mapping = buildColumnMapping();
+      for (const file of costFiles) {
+        const formData = new FormData();
+        if (mapping) {
+          formData.append('columnMapping', JSON.stringify(mapping));
+        }
+        formData.append('csvFile', file);
+
+        const response = await fetch('http://localhost:3001/api/cost/validate-csv', {
+          method: 'POST',
+          body: formData
+        });
+        const result = await response.json();
+        if (!result.success || !result.data?.report) {
+          setFileCheckError(`${file.name}: ${result.error || 'The file could not be validated'}`);
+          return;
+        }
+        const report: CsvValidationReport = result.data.report;
+        setFileReports(reports => [...reports, { fileName: file.name, report }]);
+      }
+    } catch (error) {
+      setFileCheckError('Failed to connect to server. Please check if the backend is running.');
+    } finally {
+      setIsCheckingFile(false);
+    }
+  };
+
+  const startCostFileImport = () => {
+    if (costFiles.length === 0) return;
+
+    const dataset = datasetName.trim();
+    importCostFiles(costFiles, {
+      columnMapping: buildColumnMapping(),
+      ...(dataset && { dataset }),
+      ...(dataset && datasetAccountId.trim() && { accountId: datasetAccountId.trim() })
+    });
+  };
+
+  const showCostFileImport = () => {
+    setShowFileImport(true);
+    loadDatasets();
+  };
+
+  const isImporting = Boolean(csvImport && !csvImport.error && csvImport.job?.status !== 'completed');
+
   const proceedWithAWS = () => {
     if (validationSuccess) {
-      onModeSelect('aws', credentials);
+      onModeSelect('aws', buildCredentials());
     }
   };
 
@@ -796,6 +979,44 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
                   <span className="ml-2">Full feature access</span>
                 </div>
               </div>
+
+              {/* Scenario picker; clicks here choose a scenario without entering the mansion */}
+              {demoScenarios.length > 0 && (
+                <div className="mt-4 text-left" onClick={event => event.stopPropagation()}>
+                  <p className="text-xs text-orange-200 mb-2">🎭 Scenario</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {demoScenarios.map(scenario => (
+                      <button
+                        key={scenario.id}
+                        type="button"
+                        title={scenario.description}
+                        aria-pressed={demoSettings.scenario === scenario.id}
+                        onClick={() => setDemoSettings({ scenario: scenario.id })}
+                        className={`text-xs py-1 px-2 rounded border transition-colors ${
+                          demoSettings.scenario === scenario.id
+                            ? 'bg-orange-600 border-orange-400 text-white'
+                            : 'bg-black/40 border-orange-300/30 text-orange-200 hover:border-orange-400'
+                        }`}
+                      >
+                        {scenario.name}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-orange-200">
+                    🎲 Seed
+                    <input
+                      type="number"
+                      min={0}
+                      value={demoSettings.seed}
+                      onChange={event => {
+                        const seed = parseInt(event.target.value, 10);
+                        if (!isNaN(seed) && seed >= 0) setDemoSettings({ seed });
+                      }}
+                      className="w-24 px-2 py-1 bg-gray-800/80 border border-orange-300/30 rounded text-white text-xs focus:outline-none focus:border-orange-400"
+                    />
+                  </label>
+                </div>
+              )}
             </div>
           </motion.div>
 
@@ -865,6 +1086,246 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
           </motion.div>
         </div>
 
+        {/* Billing File Import */}
+        <div className="mt-6 text-center">
+          {!showFileImport ? (
+            <button
+              type="button"
+              onClick={showCostFileImport}
+              className="text-sm text-orange-200 hover:text-orange-100 underline underline-offset-4"
+            >
+              📜 Or import an AWS, GCP, Azure or FOCUS billing file
+            </button>
+          ) : (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-gradient-to-br from-orange-900/30 to-black/60 backdrop-blur-lg rounded-xl p-4 border border-orange-300/30 text-left"
+            >
+              <label className="flex items-center justify-center gap-2 bg-orange-700/60 hover:bg-orange-700 text-white text-sm font-medium py-2 px-4 rounded-lg cursor-pointer transition-colors">
+                <Upload className="w-4 h-4" />
+                {costFiles.length === 0
+                  ? 'Choose .csv, .csv.gz or .zip files'
+                  : costFiles.length === 1 ? costFiles[0].name : `${costFiles.length} files selected`}
+                <input
+                  type="file"
+                  multiple
+                  accept=".csv,.gz,.zip,text/csv,application/gzip,application/zip"
+                  onChange={handleCostFileChange}
+                  disabled={isImporting}
+                  className="hidden"
+                />
+              </label>
+
+              {/* Files imported into a named dataset are merged with its earlier files */}
+              <div className="mt-3 grid grid-cols-2 gap-2">
+                <label className="text-xs text-orange-200">
+                  Dataset (optional)
+                  <input
+                    type="text"
+                    list="cost-datasets"
+                    value={datasetName}
+                    onChange={(e) => setDatasetName(e.target.value)}
+                    placeholder="e.g. production-2024"
+                    disabled={isImporting}
+                    className="mt-1 w-full px-2 py-1 bg-gray-800/80 border border-orange-300/30 rounded text-white text-sm focus:outline-none focus:border-orange-400"
+                  />
+                  <datalist id="cost-datasets">
+                    {datasets.map(dataset => <option key={dataset.name} value={dataset.name} />)}
+                  </datalist>
+                </label>
+                <label className="text-xs text-orange-200">
+                  Account ID (if the files have none)
+                  <input
+                    type="text"
+                    value={datasetAccountId}
+                    onChange={(e) => setDatasetAccountId(e.target.value)}
+                    placeholder="123456789012"
+                    disabled={isImporting || !datasetName.trim()}
+                    className="mt-1 w-full px-2 py-1 bg-gray-800/80 border border-orange-300/30 rounded text-white text-sm focus:outline-none focus:border-orange-400 disabled:opacity-50"
+                  />
+                </label>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => setShowColumnMapping(!showColumnMapping)}
+                className="mt-3 text-xs text-orange-200 hover:text-orange-100 underline underline-offset-2"
+              >
+                {showColumnMapping ? 'Hide column names' : 'My export uses different column names'}
+              </button>
+              {showColumnMapping && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  {COLUMN_MAPPING_FIELDS.map(({ field, label, placeholder }) => (
+                    <label key={field} className="text-xs text-orange-200">
+                      {label}
+                      <input
+                        type="text"
+                        value={columnMapping[field] || ''}
+                        onChange={(e) => setColumnMapping({ ...columnMapping, [field]: e.target.value })}
+                        placeholder={placeholder}
+                        disabled={isImporting}
+                        className="mt-1 w-full px-2 py-1 bg-gray-800/80 border border-orange-300/30 rounded text-white text-sm focus:outline-none focus:border-orange-400"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {costFiles.length > 0 && (
+                <div className="mt-3 flex gap-2">
+                  <button
+                    type="button"
+                    onClick={checkCostFiles}
+                    disabled={isCheckingFile || isImporting}
+                    className="flex-1 bg-gray-700/80 hover:bg-gray-700 disabled:opacity-50 text-white text-sm py-2 px-3 rounded-lg transition-colors"
+                  >
+                    {isCheckingFile ? 'Checking…' : '🔍 Check rows'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={startCostFileImport}
+                    disabled={isCheckingFile || isImporting}
+                    className="flex-1 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white text-sm font-medium py-2 px-3 rounded-lg transition-colors"
+                  >
+                    {isImporting ? 'Importing…' : '📥 Import'}
+                  </button>
+                </div>
+              )}
+
+              {fileCheckError && (
+                <div className="flex items-center text-red-400 text-sm mt-2">
+                  <AlertCircle className="w-4 h-4 mr-2" />
+                  {fileCheckError}
+                </div>
+              )}
+
+              {fileReports.map(({ fileName, report: fileReport }) => (
+                <div key={fileName} className="mt-3 text-xs text-orange-100 space-y-1">
+                  {fileReports.length > 1 && <div className="font-medium text-orange-200">{fileName}</div>}
+                  <div className="flex items-center">
+                    {fileReport.rowsSkipped === 0 && fileReport.duplicateCount === 0 ? (
+                      <CheckCircle className="w-4 h-4 mr-2 text-green-400" />
+                    ) : (
+                      <AlertCircle className="w-4 h-4 mr-2 text-yellow-400" />
+                    )}
+                    {fileReport.rowsImported.toLocaleString()} of {fileReport.rowsRead.toLocaleString()} rows will be imported
+                  </div>
+                  {fileReport.skippedRows.length > 0 && (
+                    <ul className="max-h-24 overflow-y-auto pl-6 text-yellow-200">
+                      {fileReport.skippedRows.map(skipped => (
+                        <li key={skipped.row}>Row {skipped.row}: {skipped.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {fileReport.duplicateCount > 0 && (
+                    <div className="pl-6 text-yellow-200">
+                      {fileReport.duplicateCount.toLocaleString()} rows repeat an earlier date and service and will be added together
+                      {fileReport.duplicates[0] && ` (first: row ${fileReport.duplicates[0].row} repeats row ${fileReport.duplicates[0].firstRow})`}
+                    </div>
+                  )}
+                  {fileReport.unknownColumns.length > 0 && (
+                    <div className="pl-6 text-gray-300">
+                      Ignored columns: {fileReport.unknownColumns.join(', ')}
+                    </div>
+                  )}
+                  {fileReport.truncated && (
+                    <div className="pl-6 text-gray-400">Only the first 100 problem rows are listed</div>
+                  )}
+                </div>
+              ))}
+
+              {csvImport && (
+                <div className="mt-3 text-sm">
+                  <div className="flex justify-between text-orange-200 mb-1">
+                    <span className="truncate mr-2">
+                      {csvImport.fileCount > 1 && `${csvImport.fileIndex}/${csvImport.fileCount} · `}
+                      {csvImport.fileName}
+                    </span>
+                    <span>
+                      {csvImport.job
+                        ? `${csvImport.job.rowsProcessed.toLocaleString()} rows · ${csvImport.job.progress}%`
+                        : `Uploading ${csvImport.uploadProgress}%`}
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-orange-500 to-purple-500 transition-all duration-300"
+                      style={{ width: `${csvImport.job ? csvImport.job.progress : csvImport.uploadProgress}%` }}
+                    />
+                  </div>
+                  {csvImport.error && (
+                    <div className="flex items-center text-red-400 mt-2">
+                      <AlertCircle className="w-4 h-4 mr-2" />
+                      {csvImport.error}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {datasets.length > 0 && (
+                <div className="mt-4 border-t border-orange-300/20 pt-3 text-sm">
+                  <div className="text-orange-200 font-medium mb-2">🗂️ Saved datasets</div>
+                  {datasets.map(dataset => {
+                    const activeImports = dataset.imports.filter(entry => entry.status === 'active');
+                    const isExpanded = expandedDataset === dataset.name;
+                    return (
+                      <div key={dataset.name} className="mb-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedDataset(isExpanded ? null : dataset.name)}
+                            className="flex items-center text-orange-100 hover:text-white truncate"
+                          >
+                            <ChevronDown className={`w-4 h-4 mr-1 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+                            {dataset.name}
+                            <span className="ml-2 text-xs text-gray-400">
+                              {activeImports.length} of {dataset.imports.length} files
+                            </span>
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => openDataset(dataset.name)}
+                            disabled={isImporting || activeImports.length === 0}
+                            className="text-xs bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white py-1 px-2 rounded"
+                          >
+                            Open
+                          </button>
+                        </div>
+                        {isExpanded && (
+                          <ul className="mt-1 pl-5 space-y-1 text-xs">
+                            {dataset.imports.map(entry => (
+                              <li key={entry.id} className="flex items-center justify-between gap-2">
+                                <span className={entry.status === 'rolled-back' ? 'text-gray-500 line-through' : 'text-orange-100'}>
+                                  {entry.fileName}
+                                  {entry.dateRange && ` · ${entry.dateRange.start} – ${entry.dateRange.end}`}
+                                  {entry.accountId && ` · ${entry.accountId}`}
+                                  {` · ${entry.currency} ${entry.totalCost.toFixed(2)}`}
+                                  {entry.replacedRecords > 0 && ` · replaced ${entry.replacedRecords} earlier entries`}
+                                </span>
+                                {entry.status === 'active' && (
+                                  <button
+                                    type="button"
+                                    onClick={() => rollbackDatasetImport(dataset.name, entry.id)}
+                                    disabled={isImporting}
+                                    className="text-red-300 hover:text-red-200 disabled:opacity-50 whitespace-nowrap"
+                                  >
+                                    ⏪ Roll back
+                                  </button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </motion.div>
+          )}
+        </div>
+
         {/* AWS Credentials Form */}
         {selectedMode === 'aws' && (
           <motion.div
@@ -895,31 +1356,136 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
             </h4>
             
             <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-purple-200 mb-2">
-                  Access Key ID
-                </label>
-                <input
-                  type="text"
-                  value={credentials.accessKeyId}
-                  onChange={(e) => handleCredentialChange('accessKeyId', e.target.value)}
-                  className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
-                  placeholder="AKIA..."
-                />
+              <div className="flex rounded-lg overflow-hidden border border-white/20" role="radiogroup" aria-label="Credential source">
+                {([
+                  { value: 'keys', label: 'Access keys' },
+                  { value: 'profile', label: 'Server profile' }
+                ] as const).map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={credentialSource === option.value}
+                    onClick={() => handleCredentialSourceChange(option.value)}
+                    className={`flex-1 px-4 py-2 text-sm transition-colors ${
+                      credentialSource === option.value ? 'bg-purple-600/60 text-white' : 'bg-white/5 text-purple-200 hover:bg-white/10'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
               </div>
-              
+
+              {credentialSource === 'keys' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-purple-200 mb-2">
+                      Access Key ID
+                    </label>
+                    <input
+                      type="text"
+                      value={credentials.accessKeyId}
+                      onChange={(e) => handleCredentialChange('accessKeyId', e.target.value)}
+                      className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
+                      placeholder="AKIA... or ASIA..."
+                    />
+                  </div>
+                  
+                  <div>
+                    <label className="block text-sm font-medium text-purple-200 mb-2">
+                      Secret Access Key
+                    </label>
+                    <input
+                      type="password"
+                      value={credentials.secretAccessKey}
+                      onChange={(e) => handleCredentialChange('secretAccessKey', e.target.value)}
+                      className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
+                      placeholder="Enter your secret access key"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-purple-200 mb-2">
+                      Session Token <span className="text-purple-300/70 font-normal">(temporary credentials only)</span>
+                    </label>
+                    <input
+                      type="password"
+                      value={credentials.sessionToken}
+                      onChange={(e) => handleCredentialChange('sessionToken', e.target.value)}
+                      className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
+                      placeholder="Leave empty for long-lived keys"
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-purple-200 mb-2">
+                    Profile
+                  </label>
+                  {availableProfiles === null ? (
+                    <p className="text-sm text-purple-300">Loading profiles...</p>
+                  ) : availableProfiles.length === 0 ? (
+                    <p className="text-sm text-purple-300">
+                      No profiles are enabled on this server. Ask an administrator to set AWS_ALLOWED_PROFILES.
+                    </p>
+                  ) : (
+                    <select
+                      value={credentials.profile}
+                      onChange={(e) => handleCredentialChange('profile', e.target.value)}
+                      className="w-full px-4 py-2 bg-gray-800 border border-white/20 rounded-lg text-white focus:outline-none focus:border-blue-400"
+                    >
+                      {availableProfiles.map(profile => (
+                        <option key={profile} value={profile}>{profile}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-medium text-purple-200 mb-2">
-                  Secret Access Key
+                <label className="flex items-center text-sm text-purple-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={assumeRole}
+                    onChange={(e) => {
+                      setAssumeRole(e.target.checked);
+                      setValidationSuccess(false);
+                    }}
+                    className="mr-2"
+                  />
+                  Assume a role in another account
                 </label>
-                <input
-                  type="password"
-                  value={credentials.secretAccessKey}
-                  onChange={(e) => handleCredentialChange('secretAccessKey', e.target.value)}
-                  className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
-                  placeholder="Enter your secret access key"
-                />
               </div>
+
+              {assumeRole && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-purple-200 mb-2">
+                      Role ARN
+                    </label>
+                    <input
+                      type="text"
+                      value={credentials.roleArn}
+                      onChange={(e) => handleCredentialChange('roleArn', e.target.value)}
+                      className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
+                      placeholder="arn:aws:iam::123456789012:role/CostReader"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-purple-200 mb-2">
+                      External ID <span className="text-purple-300/70 font-normal">(if the role requires one)</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={credentials.externalId}
+                      onChange={(e) => handleCredentialChange('externalId', e.target.value)}
+                      className="w-full px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-purple-300 focus:outline-none focus:border-blue-400"
+                      placeholder="Optional"
+                    />
+                  </div>
+                </>
+              )}
               
               <div className="relative" ref={dropdownRef}>
                 <label className="block text-sm font-medium text-purple-200 mb-2">
@@ -1016,12 +1582,62 @@ export const ModeSelection: React.FC<ModeSelectionProps> = ({ onModeSelect }) =>
                 </motion.div>
               )}
 
+              {validationSuccess && permissionReport && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="bg-gray-700 border border-gray-600 rounded-lg p-3 text-sm"
+                >
+                  <div className="text-gray-300 font-medium mb-2">
+                    {permissionReport.allGranted
+                      ? '🔓 Every feature is available with these credentials'
+                      : '🔒 Some features will be missing with these credentials'}
+                  </div>
+                  <ul className="space-y-1">
+                    {permissionReport.checks.map(check => (
+                      <li key={check.capability} className="flex items-start" title={check.error}>
+                        {check.status === 'granted' ? (
+                          <CheckCircle className="w-4 h-4 mr-2 mt-0.5 text-green-400 flex-shrink-0" />
+                        ) : check.status === 'denied' ? (
+                          <XCircle className="w-4 h-4 mr-2 mt-0.5 text-red-400 flex-shrink-0" />
+                        ) : (
+                          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 text-yellow-400 flex-shrink-0" />
+                        )}
+                        <span>
+                          <span className="text-white">{check.label}</span>
+                          <span className="text-gray-400"> — {check.usedFor}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {permissionReport.minimalPolicy && (
+                    <div className="mt-3">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className="text-gray-300 text-xs">Attach this policy to grant the missing permissions:</span>
+                        <button
+                          type="button"
+                          onClick={copyPolicy}
+                          className="flex items-center text-xs text-purple-300 hover:text-purple-200"
+                        >
+                          <Copy className="w-3 h-3 mr-1" />
+                          {policyCopied ? 'Copied!' : 'Copy'}
+                        </button>
+                      </div>
+                      <pre className="bg-gray-900 text-gray-200 text-xs rounded p-2 max-h-40 overflow-auto">
+                        {JSON.stringify(permissionReport.minimalPolicy, null, 2)}
+                      </pre>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+
               <div className="flex space-x-4">
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={validateCredentials}
-                  disabled={isValidating || !credentials.accessKeyId || !credentials.secretAccessKey}
+                  disabled={isValidating || !hasRequiredCredentials}
                   className="flex-1 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-all duration-200 shadow-lg"
                 >
                   {isValidating ? (
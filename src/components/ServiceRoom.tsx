@@ -1,9 +1,10 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Rect, Group, Text, Circle } from 'react-konva';
+import { Rect, Group, Text, Circle, Star } from 'react-konva';
 
 import Konva from 'konva';
 import { performanceMonitor, QualitySettings } from '../services/performanceMonitor';
 import { accessibilityService } from '../services/accessibilityService';
+import { CloudProvider, ServiceCostDelta } from '../store/hauntedStore';
 
 interface ServiceRoomProps {
   service: {
@@ -12,20 +13,42 @@ interface ServiceRoomProps {
     totalCost: number;
     budgetUtilization: number;
     trend: 'increasing' | 'decreasing' | 'stable';
+    provider?: CloudProvider;
   };
   position: { x: number; y: number };
   onSelect: () => void;
   isSelected: boolean;
+  anomalySeverity?: 'low' | 'medium' | 'high'; // Worst detected cost anomaly, summons a poltergeist
+  costChange?: Pick<ServiceCostDelta, 'change' | 'changePercentage' | 'status'>; // Compare mode only
 }
 
+const POLTERGEIST_COLORS = {
+  low: '#a78bfa',
+  medium: '#f472b6',
+  high: '#22d3ee'
+};
+
+// 클라우드 배지 - 여러 클라우드의 데이터가 한 저택에 섞일 때 방의 출처를 표시
+const PROVIDER_BADGES: Record<CloudProvider, { label: string; color: string }> = {
+  aws: { label: 'AWS', color: '#f59e0b' },
+  gcp: { label: 'GCP', color: '#34d399' },
+  azure: { label: 'AZURE', color: '#38bdf8' }
+};
+
+// 비교 모드에서 비용이 늘어난 방에 씌우는 어둠의 최대 농도
+const MAX_GROWTH_SHADE = 0.65;
+
 export const ServiceRoom: React.FC<ServiceRoomProps> = ({
   service,
   position,
   onSelect,
-  isSelected
+  isSelected,
+  anomalySeverity,
+  costChange
 }) => {
   const groupRef = useRef<Konva.Group>(null);
   const entityRef = useRef<Konva.Circle>(null);
+  const poltergeistRef = useRef<Konva.Star>(null);
   const [qualitySettings, setQualitySettings] = useState<QualitySettings>(
     performanceMonitor.getQualitySettings()
   );
@@ -122,6 +145,25 @@ export const ServiceRoom: React.FC<ServiceRoomProps> = ({
     }
   };
 
+  // 비교 모드 - 기준 기간보다 비용이 늘어난 방은 늘어난 만큼 어두워진다
+  const getGrowthShade = () => {
+    if (!costChange || costChange.change <= 0) return 0;
+    if (costChange.changePercentage === null) return MAX_GROWTH_SHADE;
+    return Math.min(MAX_GROWTH_SHADE, 0.15 + costChange.changePercentage / 200);
+  };
+
+  const getCostChangeLabel = () => {
+    if (!costChange) return '';
+    if (costChange.status === 'new') return `NEW +$${costChange.change.toLocaleString()}`;
+    if (costChange.change === 0) return '= no change';
+
+    const sign = costChange.change > 0 ? '+' : '-';
+    const percentage = costChange.changePercentage === null ? '' : ` (${sign}${Math.abs(costChange.changePercentage).toFixed(1)}%)`;
+    return `${costChange.change > 0 ? '▲' : '▼'} ${sign}$${Math.abs(costChange.change).toLocaleString()}${percentage}`;
+  };
+
+  const growthShade = getGrowthShade();
+
   // 애니메이션 효과 (performance optimized)
   useEffect(() => {
     if (!entityRef.current || qualitySettings.level === 'low') return;
@@ -149,6 +191,29 @@ export const ServiceRoom: React.FC<ServiceRoomProps> = ({
     };
   }, [entityConfig, qualitySettings]);
 
+  // 폴터가이스트 애니메이션 - 이상 비용이 감지되면 방 안을 불규칙하게 떠돈다
+  useEffect(() => {
+    if (!poltergeistRef.current || !anomalySeverity || qualitySettings.level === 'low') return;
+
+    const poltergeist = poltergeistRef.current;
+    const jitter = anomalySeverity === 'high' ? 6 : anomalySeverity === 'medium' ? 4 : 2;
+
+    const jitterAnimation = new Konva.Animation((frame) => {
+      if (!frame) return;
+
+      const t = frame.time * 0.004 * qualitySettings.animationSpeed;
+      poltergeist.x(225 + Math.sin(t * 3.1) * jitter + Math.sin(t * 7.3) * jitter * 0.5);
+      poltergeist.y(120 + Math.cos(t * 2.7) * jitter + Math.cos(t * 5.9) * jitter * 0.5);
+      poltergeist.rotation((frame.time * 0.2 * qualitySettings.animationSpeed) % 360);
+    }, poltergeist.getLayer());
+
+    jitterAnimation.start();
+
+    return () => {
+      jitterAnimation.stop();
+    };
+  }, [anomalySeverity, qualitySettings]);
+
   // 호버 및 포커스 효과
   const handleMouseEnter = () => {
     if (!groupRef.current || qualitySettings.level === 'low') return;
@@ -215,6 +280,18 @@ export const ServiceRoom: React.FC<ServiceRoomProps> = ({
         shadowOpacity={qualitySettings.shadowQuality ? 0.8 : 0}
       />
 
+      {/* 비교 모드 - 비용 증가에 따른 어둠 */}
+      {growthShade > 0 && (
+        <Rect
+          width={270}
+          height={170}
+          fill="#000000"
+          opacity={growthShade}
+          cornerRadius={12}
+          listening={false}
+        />
+      )}
+
       {/* Room Title - Multi-line Support */}
       {displayNameLines.map((line, index) => (
         <Text
@@ -276,6 +353,71 @@ export const ServiceRoom: React.FC<ServiceRoomProps> = ({
         />
       ))}
 
+      {/* 비용 이상 징후 - 폴터가이스트 */}
+      {anomalySeverity && (
+        <>
+          <Star
+            ref={poltergeistRef}
+            x={225}
+            y={120}
+            numPoints={anomalySeverity === 'high' ? 7 : 5}
+            innerRadius={anomalySeverity === 'high' ? 8 : 6}
+            outerRadius={anomalySeverity === 'high' ? 18 : anomalySeverity === 'medium' ? 14 : 11}
+            fill={POLTERGEIST_COLORS[anomalySeverity]}
+            opacity={0.85}
+            shadowColor={POLTERGEIST_COLORS[anomalySeverity]}
+            shadowBlur={qualitySettings.shadowQuality ? 15 : 0}
+          />
+          <Text
+            x={195}
+            y={145}
+            width={60}
+            align="center"
+            text="POLTERGEIST"
+            fontSize={8}
+            fontFamily="Arial"
+            fill={POLTERGEIST_COLORS[anomalySeverity]}
+          />
+        </>
+      )}
+
+      {/* Change since the comparison base period */}
+      {costChange && (
+        <Text
+          x={10}
+          y={150}
+          text={getCostChangeLabel()}
+          fontSize={11}
+          fontFamily="Arial"
+          fontStyle="bold"
+          fill={costChange.change > 0 ? '#f87171' : costChange.change < 0 ? '#4ade80' : '#9ca3af'}
+        />
+      )}
+
+      {/* Cloud Provider Badge */}
+      {service.provider && (
+        <Group x={200} y={displayNameLines.length > 1 ? 52 : 37}>
+          <Rect
+            width={56}
+            height={16}
+            cornerRadius={8}
+            stroke={PROVIDER_BADGES[service.provider].color}
+            strokeWidth={1}
+            fill="rgba(0, 0, 0, 0.4)"
+          />
+          <Text
+            width={56}
+            y={4}
+            align="center"
+            text={PROVIDER_BADGES[service.provider].label}
+            fontSize={9}
+            fontFamily="Arial"
+            fontStyle="bold"
+            fill={PROVIDER_BADGES[service.provider].color}
+          />
+        </Group>
+      )}
+
       {/* Budget Status Indicator */}
       <Text
         x={240}
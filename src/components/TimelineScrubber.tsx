@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { Play, Pause, SkipBack, SkipForward, RotateCcw } from 'lucide-react';
+import { ReplayState, REPLAY_SPEEDS } from '../utils/replay';
+
+interface TimelineScrubberProps {
+  dates: string[]; // Days in the rooms' daily series, oldest first
+  replay: ReplayState | null;
+  onChange: (replay: Partial<ReplayState> | null) => void;
+}
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ dates, replay, onChange }) => {
+  const lastIndex = dates.length - 1;
+  // A shared replay date may fall between or outside the days we have, so snap to the last day on or before it
+  const index = replay
+    ? Math.max(0, dates.reduce((found, date, i) => (date <= replay.date ? i : found), -1))
+    : lastIndex;
+
+  // 재생 중에는 하루씩 진행하고 마지막 날에 멈춘다
+  useEffect(() => {
+    if (!replay?.playing) return;
+
+    const timer = setTimeout(() => {
+      if (index < lastIndex) {
+        onChange({ date: dates[index + 1] });
+      } else {
+        onChange({ playing: false });
+      }
+    }, 1000 / replay.speed);
+
+    return () => clearTimeout(timer);
+  }, [replay, index, lastIndex]);
+
+  if (dates.length < 2) return null;
+
+  const play = () => {
+    // Playing from the end (or from the totals view) starts over at the first day
+    const restart = !replay || index >= lastIndex;
+    onChange({ ...(restart && { date: dates[0] }), playing: true });
+  };
+
+  const seek = (target: number) => {
+    onChange({ date: dates[Math.min(lastIndex, Math.max(0, target))], playing: false });
+  };
+
+  const buttonClass = 'p-2 rounded-md bg-black/40 border border-orange-500/30 text-orange-200 hover:bg-black/60 disabled:opacity-40 transition-colors';
+
+  return (
+    <div
+      className="flex items-center gap-3 mt-3 px-3 py-2 bg-black/50 rounded-lg border border-orange-500/30 text-sm text-orange-200"
+      role="group"
+      aria-label="Cost timeline replay"
+    >
+      <button
+        onClick={() => seek(index - 1)}
+        className={buttonClass}
+        disabled={!replay || index === 0}
+        aria-label="Previous day"
+      >
+        <SkipBack className="w-4 h-4" />
+      </button>
+
+      {replay?.playing ? (
+        <button onClick={() => onChange({ playing: false })} className={buttonClass} aria-label="Pause replay">
+          <Pause className="w-4 h-4" />
+        </button>
+      ) : (
+        <button onClick={play} className={buttonClass} aria-label="Play replay">
+          <Play className="w-4 h-4" />
+        </button>
+      )}
+
+      <button
+        onClick={() => seek(replay ? index + 1 : 0)}
+        className={buttonClass}
+        disabled={Boolean(replay) && index >= lastIndex}
+        aria-label="Next day"
+      >
+        <SkipForward className="w-4 h-4" />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        value={index}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 accent-orange-500"
+        aria-label="Replay day"
+        aria-valuetext={dates[index]}
+      />
+
+      <span className="w-44 text-right tabular-nums" aria-live="polite">
+        {replay ? `Day ${index + 1} of ${dates.length} · ${dates[index]}` : `Full period · ${dates.length} days`}
+      </span>
+
+      <select
+        value={replay?.speed ?? REPLAY_SPEEDS[0]}
+        onChange={(e) => onChange({ speed: Number(e.target.value), ...(!replay && { date: dates[lastIndex] }) })}
+        className="bg-black/40 border border-orange-500/30 rounded-md px-2 py-1 text-white focus:outline-none"
+        aria-label="Replay speed"
+      >
+        {REPLAY_SPEEDS.map(speed => (
+          <option key={speed} value={speed} className="bg-gray-900">{speed}×</option>
+        ))}
+      </select>
+
+      <button
+        onClick={() => onChange(null)}
+        className={buttonClass}
+        disabled={!replay}
+        aria-label="Show full period totals"
+        title="Show full period totals"
+      >
+        <RotateCcw className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
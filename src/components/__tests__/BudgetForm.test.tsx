@@ -35,7 +35,7 @@ describe('BudgetForm', () => {
       // Add other required store properties
       services: [],
       selectedService: null,
-      awsCredentials: null,
+      awsSessionToken: null,
       isInitialized: true,
       lastUpdated: new Date(),
       budgets: [],
@@ -55,7 +55,7 @@ describe('BudgetForm', () => {
       acknowledgeNotification: vi.fn(),
       setShowBudgetPanel: vi.fn(),
       loadBudgets: vi.fn(),
-      calculateBudgetUtilizations: vi.fn()
+      loadBudgetUtilizations: vi.fn()
     });
   });
 
@@ -87,7 +87,7 @@ describe('BudgetPanel', () => {
       // Add other required store properties with default values
       selectedService: null,
       demoMode: true,
-      awsCredentials: null,
+      awsSessionToken: null,
       isInitialized: true,
       lastUpdated: new Date(),
       budgetNotifications: [],
@@ -104,7 +104,7 @@ describe('BudgetPanel', () => {
       setBudgetNotifications: vi.fn(),
       acknowledgeNotification: vi.fn(),
       loadBudgets: vi.fn(),
-      calculateBudgetUtilizations: vi.fn()
+      loadBudgetUtilizations: vi.fn()
     });
   });
 
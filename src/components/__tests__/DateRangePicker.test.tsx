@@ -0,0 +1,98 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { DateRangePicker } from '../DateRangePicker';
+import { DateRange, getComparisonBaseRange, getPresetRange, getRangeLastDay } from '../../utils/dateRange';
+
+// Mock framer-motion
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, initial, animate, exit, ...props }: any) => <div {...props}>{children}</div>
+  },
+  AnimatePresence: ({ children }: any) => <>{children}</>
+}));
+
+const mtdRange: DateRange = {
+  preset: 'mtd',
+  start: '2024-03-01',
+  end: '2024-03-15',
+  granularity: 'DAILY'
+};
+
+describe('DateRangePicker', () => {
+  it('should show the selected preset label', () => {
+    render(<DateRangePicker value={mtdRange} onChange={vi.fn()} />);
+
+    expect(screen.getByLabelText('Select cost date range')).toHaveTextContent('Month to date');
+  });
+
+  it('should emit the range for a chosen preset', () => {
+    const onChange = vi.fn();
+    render(<DateRangePicker value={mtdRange} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Select cost date range'));
+    fireEvent.click(screen.getByText('Last month'));
+
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({ preset: 'last_month', granularity: 'DAILY' })
+    );
+  });
+
+  it('should convert the inclusive custom end date to an exclusive end', () => {
+    const onChange = vi.fn();
+    render(<DateRangePicker value={mtdRange} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Select cost date range'));
+    fireEvent.change(screen.getByLabelText('Start date'), { target: { value: '2024-01-10' } });
+    fireEvent.change(screen.getByLabelText('End date'), { target: { value: '2024-01-31' } });
+    fireEvent.click(screen.getByText('Apply custom range'));
+
+    expect(onChange).toHaveBeenCalledWith({
+      preset: 'custom',
+      start: '2024-01-10',
+      end: '2024-02-01',
+      granularity: 'DAILY'
+    });
+  });
+
+  it('should switch granularity without changing the period', () => {
+    const onChange = vi.fn();
+    render(<DateRangePicker value={mtdRange} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Select cost date range'));
+    fireEvent.click(screen.getByText('Monthly'));
+
+    expect(onChange).toHaveBeenCalledWith({ ...mtdRange, granularity: 'MONTHLY' });
+  });
+});
+
+describe('dateRange utils', () => {
+  it('should resolve presets with an exclusive end date', () => {
+    const today = new Date(Date.UTC(2024, 2, 15));
+
+    expect(getPresetRange('mtd', today)).toEqual({ start: '2024-03-01', end: '2024-03-15' });
+    expect(getPresetRange('last_month', today)).toEqual({ start: '2024-02-01', end: '2024-03-01' });
+    expect(getPresetRange('ytd', today)).toEqual({ start: '2024-01-01', end: '2024-03-15' });
+    expect(getPresetRange('last_90_days', today)).toEqual({ start: '2023-12-16', end: '2024-03-15' });
+  });
+
+  it('should include today on the first day of the month', () => {
+    expect(getPresetRange('mtd', new Date(Date.UTC(2024, 2, 1)))).toEqual({ start: '2024-03-01', end: '2024-03-02' });
+  });
+
+  it('should resolve presets by the UTC day the backend uses', () => {
+    // Already March 15 east of UTC, still March 14 in UTC
+    expect(getPresetRange('mtd', new Date('2024-03-14T20:00:00Z'))).toEqual({ start: '2024-03-01', end: '2024-03-14' });
+  });
+
+  it('should compare month-aligned ranges with the same days a month earlier', () => {
+    expect(getComparisonBaseRange({ start: '2024-03-01', end: '2024-03-15' })).toEqual({ start: '2024-02-01', end: '2024-02-15' });
+    expect(getComparisonBaseRange({ start: '2024-02-01', end: '2024-03-01' })).toEqual({ start: '2024-01-01', end: '2024-02-01' });
+    expect(getComparisonBaseRange({ start: '2024-03-01', end: '2024-03-31' })).toEqual({ start: '2024-02-01', end: '2024-02-29' });
+    expect(getComparisonBaseRange({ start: '2024-03-10', end: '2024-03-20' })).toEqual({ start: '2024-02-29', end: '2024-03-10' });
+  });
+
+  it('should find the last day of a range with an exclusive end', () => {
+    expect(getRangeLastDay({ end: '2024-03-01' })).toBe('2024-02-29');
+    expect(getRangeLastDay({ end: '2024-01-01' })).toBe('2023-12-31');
+  });
+});
@@ -40,6 +40,8 @@ vi.mock('../services/shareService', () => ({
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       viewCount: 0
     })),
+    listMyShares: vi.fn(() => Promise.resolve([])),
+    revokeShare: vi.fn(() => Promise.resolve()),
     copyToClipboard: vi.fn(() => Promise.resolve()),
     shareViaNativeAPI: vi.fn(() => Promise.resolve()),
     isNativeShareSupported: vi.fn(() => true),
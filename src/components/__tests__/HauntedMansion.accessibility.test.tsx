@@ -140,7 +140,9 @@ const mockStore = {
   budgetNotifications: [],
   loadFromShareData: vi.fn(),
   shareData: null,
-  isLoading: false
+  isLoading: false,
+  anomalies: [],
+  loadAnomalies: vi.fn()
 };
 
 describe('HauntedMansion Accessibility & Performance', () => {
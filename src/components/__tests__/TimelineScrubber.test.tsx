@@ -0,0 +1,86 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TimelineScrubber } from '../TimelineScrubber';
+import { ServiceCost } from '../../store/hauntedStore';
+import { getReplayDates, getServicesAtDate } from '../../utils/replay';
+
+const dates = ['2024-05-01', '2024-05-02', '2024-05-03'];
+
+const service = (key: string, costs: number[], budgetUtilization: number): ServiceCost => ({
+  service: key,
+  displayName: key.toUpperCase(),
+  totalCost: costs.reduce((sum, cost) => sum + cost, 0),
+  currency: 'USD',
+  budgetUtilization,
+  regions: [],
+  tags: [],
+  dailyCosts: costs.map((cost, index) => ({ date: dates[index], cost })),
+  trend: 'stable'
+});
+
+describe('TimelineScrubber', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should show the full period until a replay starts', () => {
+    const onChange = vi.fn();
+    render(<TimelineScrubber dates={dates} replay={null} onChange={onChange} />);
+
+    expect(screen.getByText('Full period · 3 days')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Play replay'));
+    expect(onChange).toHaveBeenCalledWith({ date: '2024-05-01', playing: true });
+  });
+
+  it('should step, pause and seek to a day', () => {
+    const onChange = vi.fn();
+    render(<TimelineScrubber dates={dates} replay={{ date: '2024-05-02', playing: true, speed: 2 }} onChange={onChange} />);
+
+    expect(screen.getByText('Day 2 of 3 · 2024-05-02')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Pause replay'));
+    expect(onChange).toHaveBeenLastCalledWith({ playing: false });
+
+    fireEvent.click(screen.getByLabelText('Previous day'));
+    expect(onChange).toHaveBeenLastCalledWith({ date: '2024-05-01', playing: false });
+
+    fireEvent.change(screen.getByLabelText('Replay day'), { target: { value: '2' } });
+    expect(onChange).toHaveBeenLastCalledWith({ date: '2024-05-03', playing: false });
+
+    fireEvent.change(screen.getByLabelText('Replay speed'), { target: { value: '8' } });
+    expect(onChange).toHaveBeenLastCalledWith({ speed: 8 });
+  });
+
+  it('should advance one day per tick while playing and stop on the last day', () => {
+    vi.useFakeTimers();
+    const onChange = vi.fn();
+    const { rerender } = render(
+      <TimelineScrubber dates={dates} replay={{ date: '2024-05-01', playing: true, speed: 2 }} onChange={onChange} />
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(onChange).toHaveBeenCalledWith({ date: '2024-05-02' });
+
+    rerender(<TimelineScrubber dates={dates} replay={{ date: '2024-05-03', playing: true, speed: 2 }} onChange={onChange} />);
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(onChange).toHaveBeenLastCalledWith({ playing: false });
+  });
+});
+
+describe('replay utils', () => {
+  it('should collect every day across rooms in order', () => {
+    expect(getReplayDates([service('s3', [0, 0, 1], 0), service('ec2', [1, 2], 0)])).toEqual(dates);
+  });
+
+  it('should scale cost and budget utilization to the spend so far', () => {
+    const [ec2] = getServicesAtDate([service('ec2', [30, 30, 60], 1.2)], '2024-05-02');
+
+    expect(ec2.totalCost).toBe(60);
+    expect(ec2.budgetUtilization).toBeCloseTo(0.6);
+  });
+});
@@ -1,4 +1,4 @@
-import { vi } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { networkService, NetworkError } from '../networkService';
 
 // Mock fetch
@@ -275,6 +275,25 @@ describe('NetworkService', () => {
       );
     });
 
+    it('should send the AWS session token once set', async () => {
+      const mockResponse = {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers(),
+        json: vi.fn().mockResolvedValue({})
+      };
+      mockFetch.mockResolvedValue(mockResponse as any);
+
+      networkService.setSessionToken('session-token');
+      await networkService.get('/api/cost/aws');
+      networkService.setSessionToken(null);
+      await networkService.get('/api/cost/aws');
+
+      expect(mockFetch.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer session-token' });
+      expect(mockFetch.mock.calls[1][1].headers).not.toHaveProperty('Authorization');
+    });
+
     it('should set default timeout', () => {
       networkService.setDefaultTimeout(5000);
       
@@ -99,7 +99,8 @@ describe('ShareService', () => {
         expect.objectContaining({
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json'
+            'Content-Type': 'application/json',
+            'X-Share-Owner': expect.any(String)
           },
           body: expect.stringContaining('"snapshot"')
         })
@@ -132,6 +133,65 @@ describe('ShareService', () => {
     });
   });
 
+  describe('owned shares', () => {
+    it('should reuse one owner key per browser', async () => {
+      (fetch as any).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true, data: [] })
+      });
+
+      await shareService.listMyShares();
+      await shareService.listMyShares();
+
+      const [first, second] = (fetch as any).mock.calls.map((call: any[]) => call[1].headers['X-Share-Owner']);
+      expect(first).toBeTruthy();
+      expect(second).toBe(first);
+      expect(localStorage.getItem('haunted-share-owner-key')).toBe(first);
+    });
+
+    it('should list shares with view counts', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          success: true,
+          data: [{
+            id: '123e4567-e89b-12d3-a456-426614174000',
+            viewCount: 4,
+            maxViews: 10,
+            expiresAt: '2030-01-02T00:00:00.000Z',
+            createdAt: '2030-01-01T00:00:00.000Z',
+            hasPassword: true
+          }]
+        })
+      });
+
+      const shares = await shareService.listMyShares();
+
+      expect(fetch).toHaveBeenCalledWith('http://localhost:3001/api/export/shares', expect.anything());
+      expect(shares[0]).toMatchObject({ viewCount: 4, maxViews: 10, hasPassword: true });
+      expect(shares[0].url).toContain('/share/123e4567-e89b-12d3-a456-426614174000');
+      expect(shares[0].expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should revoke a share', async () => {
+      (fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ success: true }) });
+
+      await shareService.revokeShare('123e4567-e89b-12d3-a456-426614174000');
+
+      expect(fetch).toHaveBeenCalledWith(
+        'http://localhost:3001/api/export/share/123e4567-e89b-12d3-a456-426614174000',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('should explain a forbidden revocation', async () => {
+      (fetch as any).mockResolvedValueOnce({ ok: false, status: 403 });
+
+      await expect(shareService.revokeShare('123e4567-e89b-12d3-a456-426614174000'))
+        .rejects.toThrow('Only the creator of a share can revoke it');
+    });
+  });
+
   describe('loadSharedState', () => {
     const shareId = '123e4567-e89b-12d3-a456-426614174000';
 
@@ -173,7 +233,8 @@ describe('ShareService', () => {
       await shareService.loadSharedState(shareId, 'password123');
 
       expect(fetch).toHaveBeenCalledWith(
-        `http://localhost:3001/api/export/share/${shareId}?password=password123`
+        `http://localhost:3001/api/export/share/${shareId}/unlock`,
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ password: 'password123' }) })
       );
     });
 
@@ -209,6 +270,18 @@ describe('ShareService', () => {
         shareService.loadSharedState(shareId)
       ).rejects.toThrow('Maximum view limit reached');
     });
+
+    it('should report unlock lockouts', async () => {
+      (fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        json: () => Promise.resolve({ success: false, error: 'Too many failed unlock attempts. Try again later.' })
+      });
+
+      await expect(
+        shareService.loadSharedState(shareId, 'wrong')
+      ).rejects.toThrow('Too many failed unlock attempts');
+    });
   });
 
   describe('generateViewStateParams', () => {
@@ -239,6 +312,23 @@ describe('ShareService', () => {
 
       expect(params.toString()).toBe('');
     });
+
+    it('should encode the timeline replay position', () => {
+      const viewSettings = {
+        zoom: 1,
+        center: { x: 0, y: 0 },
+        showDetails: false
+      };
+
+      const params = shareService.generateViewStateParams(viewSettings, undefined, {
+        date: '2024-05-10',
+        playing: true,
+        speed: 4
+      });
+
+      expect(params.toString()).toBe('replayDate=2024-05-10&replaySpeed=4&replayPlaying=true');
+      expect(shareService.generateViewStateParams(viewSettings, undefined, null).toString()).toBe('');
+    });
   });
 
   describe('parseViewStateFromUrl', () => {
@@ -253,6 +343,16 @@ describe('ShareService', () => {
       expect(result.selectedService).toBe('ec2');
     });
 
+    it('should parse the timeline replay position', () => {
+      window.location.search = '?replayDate=2024-05-10&replaySpeed=3';
+
+      expect(shareService.parseViewStateFromUrl().replay).toEqual({ date: '2024-05-10', playing: false, speed: 1 });
+
+      window.location.search = '?replayDate=yesterday';
+
+      expect(shareService.parseViewStateFromUrl().replay).toBeUndefined();
+    });
+
     it('should use default values for missing parameters', () => {
       window.location.search = '';
 
@@ -79,6 +79,7 @@ class AccessibilityService {
     totalCost: number;
     budgetUtilization: number;
     trend: 'increasing' | 'decreasing' | 'stable';
+    provider?: 'aws' | 'gcp' | 'azure';
   }): AccessibilityDescription {
     const utilizationPercent = Math.round(service.budgetUtilization * 100);
     const costFormatted = service.totalCost.toLocaleString();
@@ -105,7 +106,7 @@ class AccessibilityService {
 
     return {
       label: `${service.displayName} service room`,
-      description: `${service.displayName} service with ${intensityDescription}. Current cost: $${costFormatted}. Budget utilization: ${utilizationPercent}%. Trend: ${trendDescription}. Alert level: ${alertLevel}.`,
+      description: `${service.displayName} ${service.provider ? `${service.provider.toUpperCase()} ` : ''}service with ${intensityDescription}. Current cost: $${costFormatted}. Budget utilization: ${utilizationPercent}%. Trend: ${trendDescription}. Alert level: ${alertLevel}.`,
       role: 'button',
       state: alertLevel,
       value: `${utilizationPercent}%`
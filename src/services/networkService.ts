@@ -30,6 +30,7 @@ export class NetworkService {
   private static instance: NetworkService;
   private baseURL: string;
   private defaultTimeout: number = 10000; // 10 seconds
+  private sessionToken: string | null = null; // AWS session from /api/cost/validate-credentials
 
   private constructor() {
     this.baseURL = process.env.NODE_ENV === 'development' 
@@ -76,6 +77,7 @@ export class NetworkService {
           signal: options.signal || controller.signal,
           headers: {
             'Content-Type': 'application/json',
+            ...(this.sessionToken && { Authorization: `Bearer ${this.sessionToken}` }),
             ...options.headers
           }
         });
@@ -198,13 +200,18 @@ export class NetworkService {
     options: NetworkRequestOptions & {
       onProgress?: (progress: number) => void;
       fieldName?: string;
+      fields?: Record<string, string>; // Extra form fields sent alongside the file
     } = {}
   ): Promise<NetworkResponse<T>> {
-    const { onProgress, fieldName = 'file', ...requestOptions } = options;
+    const { onProgress, fieldName = 'file', fields = {}, ...requestOptions } = options;
     
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
       const formData = new FormData();
+      // Text fields go first so the server has them before the file arrives
+      for (const [name, value] of Object.entries(fields)) {
+        formData.append(name, value);
+      }
       formData.append(fieldName, file);
 
       // Track upload progress
@@ -231,8 +238,15 @@ export class NetworkService {
             reject(new NetworkError('Invalid JSON response'));
           }
         } else {
+          // Prefer the API's own explanation, e.g. an unsupported file format
+          let serverError: string | undefined;
+          try {
+            serverError = JSON.parse(xhr.responseText).error;
+          } catch (error) {
+            serverError = undefined;
+          }
           reject(new NetworkError(
-            `Upload failed: ${xhr.status} ${xhr.statusText}`,
+            serverError || `Upload failed: ${xhr.status} ${xhr.statusText}`,
             xhr.status
           ));
         }
@@ -249,6 +263,10 @@ export class NetworkService {
       xhr.timeout = requestOptions.timeout || this.defaultTimeout;
       xhr.open('POST', url.startsWith('http') ? url : `${this.baseURL}${url}`);
       
+      if (this.sessionToken) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.sessionToken}`);
+      }
+
       // Add custom headers
       if (requestOptions.headers) {
         Object.entries(requestOptions.headers).forEach(([key, value]) => {
@@ -298,6 +316,13 @@ export class NetworkService {
     this.baseURL = url;
   }
 
+  /**
+   * Set the AWS session token sent with every request (null to stop sending one)
+   */
+  public setSessionToken(token: string | null): void {
+    this.sessionToken = token;
+  }
+
   /**
    * Set default timeout
    */
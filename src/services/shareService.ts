@@ -1,4 +1,5 @@
 import { MansionSnapshot } from './exportService';
+import { ReplayState, REPLAY_SPEEDS } from '../utils/replay';
 
 export interface ShareableLink {
   id: string;
@@ -8,6 +9,17 @@ export interface ShareableLink {
   maxViews?: number;
 }
 
+export interface OwnedShareLink extends ShareableLink {
+  createdAt: Date;
+  hasPassword: boolean;
+}
+
+export interface ShareUnlockFailure {
+  at: Date;
+  ip: string; // Masked by the server, e.g. 192.0.2.x
+  reason: 'invalid_password' | 'locked_out';
+}
+
 export interface ShareOptions {
   expirationHours?: number;
   maxViews?: number;
@@ -15,10 +27,24 @@ export interface ShareOptions {
   password?: string;
 }
 
+const OWNER_KEY_STORAGE_KEY = 'haunted-share-owner-key';
+
 class ShareService {
   private readonly baseUrl = window.location.origin;
   private readonly apiUrl = 'http://localhost:3001/api';
 
+  /**
+   * Random per-browser key that marks the links created here as ours
+   */
+  private getOwnerKey(): string {
+    let ownerKey = localStorage.getItem(OWNER_KEY_STORAGE_KEY);
+    if (!ownerKey) {
+      ownerKey = crypto.randomUUID();
+      localStorage.setItem(OWNER_KEY_STORAGE_KEY, ownerKey);
+    }
+    return ownerKey;
+  }
+
   /**
    * Generate a shareable link for the current mansion state
    */
@@ -41,6 +67,7 @@ class ShareService {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'X-Share-Owner': this.getOwnerKey()
         },
         body: JSON.stringify(shareData)
       });
@@ -68,17 +95,67 @@ class ShareService {
     }
   }
 
+  /**
+   * List the active links created from this browser
+   */
+  async listMyShares(): Promise<OwnedShareLink[]> {
+    const response = await fetch(`${this.apiUrl}/export/shares`, {
+      headers: { 'X-Share-Owner': this.getOwnerKey() }
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to list shared links');
+    }
+
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to list shared links');
+    }
+
+    return result.data.map((share: any) => ({
+      id: share.id,
+      url: `${this.baseUrl}/share/${share.id}`,
+      viewCount: share.viewCount,
+      maxViews: share.maxViews,
+      expiresAt: new Date(share.expiresAt),
+      createdAt: new Date(share.createdAt),
+      hasPassword: share.hasPassword
+    }));
+  }
+
+  /**
+   * Revoke a link created from this browser before it expires
+   */
+  async revokeShare(shareId: string): Promise<void> {
+    const response = await fetch(`${this.apiUrl}/export/share/${shareId}`, {
+      method: 'DELETE',
+      headers: { 'X-Share-Owner': this.getOwnerKey() }
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error('Shared link not found or expired');
+      } else if (response.status === 403) {
+        throw new Error('Only the creator of a share can revoke it');
+      }
+      throw new Error('Failed to revoke shared link');
+    }
+  }
+
   /**
    * Load shared mansion state from a share ID
    */
   async loadSharedState(shareId: string, password?: string): Promise<MansionSnapshot> {
     try {
-      const url = new URL(`${this.apiUrl}/export/share/${shareId}`);
-      if (password) {
-        url.searchParams.set('password', password);
-      }
-
-      const response = await fetch(url.toString());
+      // Passwords go in a POST body so they never end up in URLs, logs or history
+      const response = password
+        ? await fetch(`${this.apiUrl}/export/share/${shareId}/unlock`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ password })
+          })
+        : await fetch(`${this.apiUrl}/export/share/${shareId}`);
 
       if (!response.ok) {
         if (response.status === 404) {
@@ -86,7 +163,9 @@ class ShareService {
         } else if (response.status === 401) {
           throw new Error('Password required or incorrect');
         } else if (response.status === 429) {
-          throw new Error('Maximum view limit reached');
+          // 429 covers both the view limit and a lockout after too many wrong passwords
+          const body = await this.readErrorBody(response);
+          throw new Error(body?.error || 'Maximum view limit reached');
         }
         throw new Error('Failed to load shared state');
       }
@@ -104,10 +183,18 @@ class ShareService {
     }
   }
 
+  private async readErrorBody(response: Response): Promise<{ error?: string } | null> {
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
   /**
-   * Generate URL parameters for view state preservation
+   * Generate URL parameters for view state preservation, including timeline replay position
    */
-  generateViewStateParams(viewSettings: any, selectedService?: string): URLSearchParams {
+  generateViewStateParams(viewSettings: any, selectedService?: string, replay?: ReplayState | null): URLSearchParams {
     const params = new URLSearchParams();
     
     if (viewSettings.zoom !== 1) {
@@ -127,6 +214,14 @@ class ShareService {
       params.set('selectedService', selectedService);
     }
 
+    if (replay?.date) {
+      params.set('replayDate', replay.date);
+      params.set('replaySpeed', replay.speed.toString());
+      if (replay.playing) {
+        params.set('replayPlaying', 'true');
+      }
+    }
+
     return params;
   }
 
@@ -136,6 +231,7 @@ class ShareService {
   parseViewStateFromUrl(): {
     viewSettings: any;
     selectedService?: string;
+    replay?: ReplayState;
   } {
     const params = new URLSearchParams(window.location.search);
     
@@ -150,14 +246,25 @@ class ShareService {
 
     const selectedService = params.get('selectedService') || undefined;
 
-    return { viewSettings, selectedService };
+    // Ignore malformed replay dates and speeds the timeline does not offer
+    const replayDate = params.get('replayDate');
+    const replaySpeed = Number(params.get('replaySpeed'));
+    const replay = replayDate && /^\d{4}-\d{2}-\d{2}$/.test(replayDate)
+      ? {
+          date: replayDate,
+          playing: params.get('replayPlaying') === 'true',
+          speed: REPLAY_SPEEDS.includes(replaySpeed) ? replaySpeed : REPLAY_SPEEDS[0]
+        }
+      : undefined;
+
+    return { viewSettings, selectedService, ...(replay && { replay }) };
   }
 
   /**
    * Update browser URL with current view state
    */
-  updateUrlWithViewState(viewSettings: any, selectedService?: string): void {
-    const params = this.generateViewStateParams(viewSettings, selectedService);
+  updateUrlWithViewState(viewSettings: any, selectedService?: string, replay?: ReplayState | null): void {
+    const params = this.generateViewStateParams(viewSettings, selectedService, replay);
     const newUrl = `${window.location.pathname}${params.toString() ? '?' + params.toString() : ''}`;
     
     // Update URL without triggering navigation
@@ -290,6 +397,9 @@ class ShareService {
     maxViews?: number;
     expiresAt: Date;
     createdAt: Date;
+    failedUnlockCount: number;
+    recentFailedUnlocks: ShareUnlockFailure[];
+    lockedUntil: Date | null;
   }> {
     try {
       const response = await fetch(`${this.apiUrl}/export/share/${shareId}/stats`);
@@ -308,7 +418,13 @@ class ShareService {
         viewCount: result.data.viewCount,
         maxViews: result.data.maxViews,
         expiresAt: new Date(result.data.expiresAt),
-        createdAt: new Date(result.data.createdAt)
+        createdAt: new Date(result.data.createdAt),
+        failedUnlockCount: result.data.failedUnlockCount || 0,
+        recentFailedUnlocks: (result.data.recentFailedUnlocks || []).map((failure: any) => ({
+          ...failure,
+          at: new Date(failure.at)
+        })),
+        lockedUntil: result.data.lockedUntil ? new Date(result.data.lockedUntil) : null
       };
     } catch (error) {
       console.error('Error getting share statistics:', error);
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useHauntedStore } from '../hauntedStore';
+import { networkService } from '../../services/networkService';
+
+describe('useHauntedStore', () => {
+  describe('budget utilizations', () => {
+    beforeEach(() => {
+      useHauntedStore.setState({ demoMode: false, awsSessionToken: 'session-token', csvImport: null, activeDataset: null });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      useHauntedStore.setState({ awsSessionToken: null, budgetUtilizations: [] });
+    });
+
+    it('should measure AWS budgets as of the last day of the selected range', async () => {
+      const get = vi.spyOn(networkService, 'get').mockImplementation(async (url: string) => ({
+        data: url.startsWith('/api/budget/')
+          ? { success: true, data: [{ service: 'ec2', currentCost: 50, budgetAmount: 100, utilizationPercentage: 50, alertLevel: 'safe' }] }
+          : { success: true, data: { services: [] } },
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers()
+      }));
+
+      await useHauntedStore.getState().setDateRange({ preset: 'custom', start: '2024-01-01', end: '2024-03-01', granularity: 'DAILY' });
+      await vi.waitFor(() => expect(useHauntedStore.getState().budgetUtilizations).toHaveLength(1));
+
+      const utilizationUrl = get.mock.calls.map(([url]) => url).find(url => url.startsWith('/api/budget/aws/utilization'));
+      const params = new URLSearchParams(utilizationUrl!.split('?')[1]);
+      expect(params.get('mode')).toBe('aws');
+      expect(params.get('date')).toBe('2024-02-29');
+    });
+  });
+});
@@ -2,6 +2,10 @@ import { create } from 'zustand';
 import { networkService } from '../services/networkService';
 import { cacheService } from '../services/cacheService';
 import { errorRecoveryService } from '../services/errorRecoveryService';
+import { DateRange, createDateRange, getComparisonBaseRange, getRangeLastDay } from '../utils/dateRange';
+import { ReplayState, REPLAY_SPEEDS } from '../utils/replay';
+
+export type CloudProvider = 'aws' | 'gcp' | 'azure';
 
 export interface ServiceCost {
   service: string;
@@ -13,12 +17,223 @@ export interface ServiceCost {
   tags: Array<{ key: string; value: string; cost: number; percentage: number }>;
   dailyCosts: Array<{ date: string; cost: number }>;
   trend: 'increasing' | 'decreasing' | 'stable';
+  accounts?: AccountCost[];
+  resources?: Array<{ resourceId: string; cost: number; percentage: number }>; // CUR imports only
+  usageTypes?: Array<{ usageType: string; cost: number; percentage: number; usageAmount: number; unit?: string }>; // CUR imports only
+  provider?: CloudProvider; // Unset for FOCUS files from other providers
+}
+
+export interface AccountCost {
+  accountId: string;
+  accountName?: string;
+  cost: number;
+  percentage: number;
+}
+
+export interface LinkedAccount {
+  accountId: string;
+  accountName?: string;
+}
+
+export type CostMetric = 'BlendedCost' | 'UnblendedCost' | 'AmortizedCost' | 'NetAmortizedCost' | 'NetUnblendedCost';
+
+export const COST_METRIC_LABELS: Record<CostMetric, string> = {
+  BlendedCost: 'Blended',
+  UnblendedCost: 'Unblended',
+  AmortizedCost: 'Amortized',
+  NetAmortizedCost: 'Net amortized',
+  NetUnblendedCost: 'Net unblended'
+};
+
+export type DemoScenarioId = 'normal_usage' | 'budget_warning' | 'cost_spike';
+
+export interface DemoScenario {
+  id: DemoScenarioId;
+  name: string;
+  description: string;
+}
+
+// Picks the backend's synthetic demo data; the same settings always give the same costs
+export interface DemoSettings {
+  scenario: DemoScenarioId;
+  seed: number;
+}
+
+export const DEFAULT_DEMO_SETTINGS: DemoSettings = { scenario: 'normal_usage', seed: 42 };
+
+export interface ForecastPoint {
+  date: string;
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+export interface CostForecast {
+  mode: 'aws' | 'demo' | 'csv';
+  method: 'aws-cost-explorer' | 'linear-regression';
+  service?: string;
+  currency: string;
+  confidenceLevel: number;
+  periodStart: string;
+  periodEnd: string; // exclusive
+  actualToDate: number;
+  points: ForecastPoint[];
+  forecastTotal: Omit<ForecastPoint, 'date'>;
+  projectedPeriodTotal: Omit<ForecastPoint, 'date'>;
+}
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface CostAnomaly {
+  id: string;
+  scope: 'service' | 'region' | 'tag';
+  service: string;
+  displayName: string;
+  region?: string;
+  tag?: { key: string; value: string };
+  date: string;
+  actual: number;
+  expected: number;
+  deviation: number;
+  score: number;
+  direction: 'spike' | 'drop';
+  severity: AnomalySeverity;
+}
+
+// Change from the comparison base period to the period in view
+export interface CostDelta {
+  baseCost: number;
+  targetCost: number;
+  change: number;
+  changePercentage: number | null; // Null when the base cost is zero
+}
+
+export interface ServiceCostDelta extends CostDelta {
+  service: string;
+  displayName: string;
+  status: 'new' | 'disappeared' | 'changed' | 'unchanged';
+  regions: Array<CostDelta & { region: string }>;
+  tags: Array<CostDelta & { key: string; value: string }>;
 }
 
+export interface CostComparison {
+  base: { start: string; end: string };
+  target: { start: string; end: string };
+  currency: string;
+  total: CostDelta;
+  services: ServiceCostDelta[];
+  regions: Array<CostDelta & { region: string }>;
+  tags: Array<CostDelta & { key: string; value: string }>;
+  newServices: string[];
+  disappearedServices: string[];
+}
+
+// Access keys (temporary with a sessionToken) or a server-side named profile, optionally
+// followed by assuming a role in another account
 export interface AWSCredentials {
-  accessKeyId: string;
-  secretAccessKey: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  profile?: string;
   region: string;
+  roleArn?: string;
+  externalId?: string;
+}
+
+// File column names to read in place of the standard Cost Explorer headers
+export interface CsvColumnMapping {
+  service?: string;
+  cost?: string;
+  date?: string;
+  region?: string;
+}
+
+// Rows an import skipped or double counted, and columns it ignored
+export interface CsvValidationReport {
+  rowsRead: number;
+  rowsImported: number;
+  rowsSkipped: number;
+  skippedRows: Array<{ row: number; reason: 'missing-service' | 'invalid-cost' | 'missing-date'; message: string }>;
+  duplicateCount: number;
+  duplicates: Array<{ row: number; firstRow: number; date?: string; service: string; region?: string }>;
+  unknownColumns: string[];
+  columnMapping?: CsvColumnMapping;
+  truncated: boolean;
+}
+
+// Background import of an uploaded Cost Explorer CSV or Cost and Usage Report
+export interface CsvImportJob {
+  id: string;
+  fileName: string;
+  status: 'processing' | 'completed' | 'failed';
+  format?: 'cur' | 'focus' | 'gcp-billing' | 'azure-cost' | 'cost-and-usage' | 'daily-costs' | 'service-costs';
+  bytesTotal: number;
+  bytesProcessed: number;
+  rowsProcessed: number;
+  progress: number; // 0-100
+  error?: string;
+  report?: CsvValidationReport; // Set once the import completes
+  dataset?: string;
+  datasetImportId?: string;
+}
+
+export interface CsvImportOptions {
+  columnMapping?: CsvColumnMapping;
+  dataset?: string; // Merge the files into this named dataset
+  accountId?: string; // Account the files cover, when they have no account column
+}
+
+// One uploaded file in a dataset's history
+export interface DatasetImport {
+  id: string;
+  fileName: string;
+  format: CsvImportJob['format'];
+  status: 'active' | 'rolled-back';
+  importedAt: string;
+  rolledBackAt?: string;
+  accountId?: string;
+  currency: string;
+  rowsProcessed: number;
+  recordCount: number;
+  totalCost: number;
+  dateRange?: { start: string; end: string };
+  replacedRecords: number;
+}
+
+// Billing files merged on the server; later files replace earlier ones where they overlap
+export interface CostDataset {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  imports: DatasetImport[];
+}
+
+export interface CsvImportState {
+  fileName: string;
+  fileIndex: number; // 1-based position when several files are imported together
+  fileCount: number;
+  uploadProgress: number; // 0-100, while the file is sent
+  job: CsvImportJob | null; // Set once the server has accepted the file
+  error: string | null;
+}
+
+// Result of the backend's probe of each AWS API the app uses
+export interface AwsPermissionCheck {
+  capability: 'identity' | 'costAndUsage' | 'dimensionValues' | 'forecast' | 'budgets';
+  label: string;
+  usedFor: string;
+  actions: string[];
+  status: 'granted' | 'denied' | 'error';
+  error?: string;
+}
+
+export interface AwsPermissionReport {
+  accountId: string | null;
+  checkedAt: string;
+  checks: AwsPermissionCheck[];
+  allGranted: boolean;
+  missingActions: string[];
+  minimalPolicy: Record<string, unknown> | null;
 }
 
 export interface Budget {
@@ -28,7 +243,11 @@ export interface Budget {
   amount: number;
   currency: string;
   period: 'monthly' | 'quarterly' | 'yearly';
+  fiscalYearStartMonth?: number; // 1-12, defaults to January
+  calendar?: 'gregorian' | '4-4-5';
   alertThresholds: number[];
+  name?: string;
+  source?: 'manual' | 'aws-budgets';
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,6 +259,13 @@ export interface BudgetUtilization {
   utilizationPercentage: number;
   alertLevel: 'safe' | 'warning' | 'critical' | 'over_budget';
   projectedCost?: number;
+  budgetPeriod?: {
+    start: string;
+    end: string; // Exclusive
+    costStart: string;
+    costEnd: string;
+    prorationFactor: number;
+  };
 }
 
 interface BudgetNotification {
@@ -56,7 +282,20 @@ interface HauntedStore {
   services: ServiceCost[];
   selectedService: ServiceCost | null;
   demoMode: boolean;
-  awsCredentials: AWSCredentials | null;
+  demoSettings: DemoSettings;
+  awsSessionToken: string | null; // Credentials stay on the server; this token identifies our session
+  linkedAccounts: LinkedAccount[];
+  selectedAccountId: string | null;
+  costMetric: CostMetric;
+  dateRange: DateRange;
+  costForecast: CostForecast | null;
+  anomalies: CostAnomaly[];
+  compareMode: boolean; // Rooms show their change since the previous period
+  costComparison: CostComparison | null;
+  replay: ReplayState | null;
+  csvImport: CsvImportState | null; // Billing file import in progress or last completed
+  datasets: CostDataset[];
+  activeDataset: string | null; // Dataset whose merged data is shown
   isInitialized: boolean;
   lastUpdated: Date;
   
@@ -83,10 +322,24 @@ interface HauntedStore {
   setServices: (services: ServiceCost[]) => void;
   setSelectedService: (service: ServiceCost | null) => void;
   setMode: (mode: 'demo' | 'aws', credentials?: AWSCredentials) => void;
-  setDemoMode: (demoMode: boolean) => void;
+  setDemoMode: (demoMode: boolean) => Promise<void>;
+  setDemoSettings: (settings: Partial<DemoSettings>) => void;
   refreshData: () => void;
   initialize: () => void;
   resetToHome: () => void;
+  loadLinkedAccounts: () => Promise<void>;
+  setSelectedAccount: (accountId: string | null) => Promise<void>;
+  setCostMetric: (metric: CostMetric) => Promise<void>;
+  setDateRange: (range: DateRange) => Promise<void>;
+  loadForecast: (service: ServiceCost) => Promise<void>;
+  loadAnomalies: () => Promise<void>;
+  setCompareMode: (compareMode: boolean) => Promise<void>;
+  loadComparison: () => Promise<void>;
+  setReplay: (replay: Partial<ReplayState> | null) => void;
+  importCostFiles: (files: File[], options?: CsvImportOptions) => Promise<void>;
+  loadDatasets: () => Promise<void>;
+  openDataset: (name: string) => Promise<void>;
+  rollbackDatasetImport: (name: string, importId: string) => Promise<void>;
   
   // Error handling actions
   setError: (error: Error | string | null) => void;
@@ -106,7 +359,7 @@ interface HauntedStore {
   acknowledgeNotification: (notificationId: string) => Promise<void>;
   setShowBudgetPanel: (show: boolean) => void;
   loadBudgets: () => Promise<void>;
-  calculateBudgetUtilizations: () => void;
+  loadBudgetUtilizations: () => Promise<void>;
   
   // Export and sharing actions
   setViewSettings: (settings: Partial<HauntedStore['viewSettings']>) => void;
@@ -115,183 +368,88 @@ interface HauntedStore {
   generateShareableState: () => any;
 }
 
-// 데모 데이터
-const generateDemoData = (): ServiceCost[] => [
-  {
-    service: 'ec2',
-    displayName: 'EC2',
-    totalCost: 1250,
-    currency: 'USD',
-    budgetUtilization: 0.85, // 85% - Warning level
-    regions: [
-      { region: 'us-east-1', cost: 500, percentage: 40 },
-      { region: 'us-west-2', cost: 375, percentage: 30 },
-      { region: 'eu-west-1', cost: 250, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 125, percentage: 10 }
-    ],
-    tags: [
-      { key: 'Environment', value: 'Production', cost: 750, percentage: 60 },
-      { key: 'Environment', value: 'Staging', cost: 375, percentage: 30 },
-      { key: 'Environment', value: 'Development', cost: 125, percentage: 10 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 120 },
-      { date: '11-13', cost: 135 },
-      { date: '11-14', cost: 98 },
-      { date: '11-15', cost: 156 },
-      { date: '11-16', cost: 189 },
-      { date: '11-17', cost: 234 },
-      { date: '11-18', cost: 1250 }
-    ],
-    trend: 'increasing'
-  },
-  {
-    service: 's3',
-    displayName: 'S3',
-    totalCost: 340,
-    currency: 'USD',
-    budgetUtilization: 0.34, // 34% - Safe level
-    regions: [
-      { region: 'us-east-1', cost: 136, percentage: 40 },
-      { region: 'us-west-2', cost: 102, percentage: 30 },
-      { region: 'eu-west-1', cost: 68, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 34, percentage: 10 }
-    ],
-    tags: [
-      { key: 'DataType', value: 'Media', cost: 170, percentage: 50 },
-      { key: 'DataType', value: 'Backup', cost: 102, percentage: 30 },
-      { key: 'DataType', value: 'Logs', cost: 68, percentage: 20 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 45 },
-      { date: '11-13', cost: 48 },
-      { date: '11-14', cost: 52 },
-      { date: '11-15', cost: 49 },
-      { date: '11-16', cost: 51 },
-      { date: '11-17', cost: 47 },
-      { date: '11-18', cost: 340 }
-    ],
-    trend: 'stable'
-  },
-  {
-    service: 'rds',
-    displayName: 'RDS',
-    totalCost: 890,
-    currency: 'USD',
-    budgetUtilization: 0.67, // 67% - Warning level
-    regions: [
-      { region: 'us-east-1', cost: 356, percentage: 40 },
-      { region: 'us-west-2', cost: 267, percentage: 30 },
-      { region: 'eu-west-1', cost: 178, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 89, percentage: 10 }
-    ],
-    tags: [
-      { key: 'Application', value: 'WebApp', cost: 445, percentage: 50 },
-      { key: 'Application', value: 'Analytics', cost: 267, percentage: 30 },
-      { key: 'Application', value: 'Reporting', cost: 178, percentage: 20 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 125 },
-      { date: '11-13', cost: 118 },
-      { date: '11-14', cost: 132 },
-      { date: '11-15', cost: 128 },
-      { date: '11-16', cost: 135 },
-      { date: '11-17', cost: 142 },
-      { date: '11-18', cost: 890 }
-    ],
-    trend: 'increasing'
-  },
-  {
-    service: 'lambda',
-    displayName: 'Lambda',
-    totalCost: 156,
-    currency: 'USD',
-    budgetUtilization: 0.26, // 26% - Safe level
-    regions: [
-      { region: 'us-east-1', cost: 62, percentage: 40 },
-      { region: 'us-west-2', cost: 47, percentage: 30 },
-      { region: 'eu-west-1', cost: 31, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 16, percentage: 10 }
-    ],
-    tags: [
-      { key: 'Function', value: 'API', cost: 78, percentage: 50 },
-      { key: 'Function', value: 'Processing', cost: 47, percentage: 30 },
-      { key: 'Function', value: 'Triggers', cost: 31, percentage: 20 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 18 },
-      { date: '11-13', cost: 22 },
-      { date: '11-14', cost: 19 },
-      { date: '11-15', cost: 25 },
-      { date: '11-16', cost: 21 },
-      { date: '11-17', cost: 23 },
-      { date: '11-18', cost: 156 }
-    ],
-    trend: 'stable'
-  },
-  {
-    service: 'cloudfront',
-    displayName: 'CloudFront',
-    totalCost: 2100,
-    currency: 'USD',
-    budgetUtilization: 1.4, // 140% - Danger! Budget exceeded
-    regions: [
-      { region: 'global', cost: 840, percentage: 40 },
-      { region: 'us-east-1', cost: 630, percentage: 30 },
-      { region: 'eu-west-1', cost: 420, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 210, percentage: 10 }
-    ],
-    tags: [
-      { key: 'Content', value: 'Static', cost: 1050, percentage: 50 },
-      { key: 'Content', value: 'Dynamic', cost: 630, percentage: 30 },
-      { key: 'Content', value: 'Streaming', cost: 420, percentage: 20 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 280 },
-      { date: '11-13', cost: 295 },
-      { date: '11-14', cost: 310 },
-      { date: '11-15', cost: 325 },
-      { date: '11-16', cost: 340 },
-      { date: '11-17', cost: 365 },
-      { date: '11-18', cost: 2100 }
-    ],
-    trend: 'increasing'
-  },
-  {
-    service: 'dynamodb',
-    displayName: 'DynamoDB',
-    totalCost: 445,
-    currency: 'USD',
-    budgetUtilization: 0.48, // 48% - Safe level
-    regions: [
-      { region: 'us-east-1', cost: 178, percentage: 40 },
-      { region: 'us-west-2', cost: 134, percentage: 30 },
-      { region: 'eu-west-1', cost: 89, percentage: 20 },
-      { region: 'ap-northeast-1', cost: 44, percentage: 10 }
-    ],
-    tags: [
-      { key: 'Table', value: 'UserData', cost: 223, percentage: 50 },
-      { key: 'Table', value: 'Sessions', cost: 134, percentage: 30 },
-      { key: 'Table', value: 'Analytics', cost: 88, percentage: 20 }
-    ],
-    dailyCosts: [
-      { date: '11-12', cost: 58 },
-      { date: '11-13', cost: 62 },
-      { date: '11-14', cost: 55 },
-      { date: '11-15', cost: 67 },
-      { date: '11-16', cost: 61 },
-      { date: '11-17', cost: 59 },
-      { date: '11-18', cost: 445 }
-    ],
-    trend: 'stable'
+// AWS cost data URL for the selected linked account, cost metric and date range
+const buildAwsCostUrl = (
+  selectedAccountId: string | null,
+  costMetric: CostMetric,
+  dateRange: DateRange
+): string => {
+  const params = new URLSearchParams({
+    metric: costMetric,
+    start: dateRange.start,
+    end: dateRange.end,
+    granularity: dateRange.granularity
+  });
+  if (selectedAccountId) {
+    params.set('accountId', selectedAccountId);
+  }
+  return `/api/cost/aws?${params.toString()}`;
+};
+
+// Demo rooms come from the backend generator; the last ones fetched are kept for offline use
+const fetchDemoServices = async (settings: DemoSettings): Promise<ServiceCost[]> => {
+  const params = new URLSearchParams({ scenario: settings.scenario, seed: String(settings.seed) });
+  try {
+    const response = await networkService.get(`/api/cost/demo?${params.toString()}`, { retries: 1 });
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to load demo data');
+    }
+    cacheService.setCostData('demo', response.data.data.services);
+    return response.data.data.services;
+  } catch (error) {
+    const cachedServices = cacheService.getCostData('demo');
+    if (cachedServices && cachedServices.length > 0) {
+      console.warn('Using cached demo data:', error);
+      return cachedServices;
+    }
+    throw error;
   }
-];
+};
+
+// Ask the server to forget a session's credentials; failures only mean it expires on its own
+const CSV_IMPORT_POLL_INTERVAL_MS = 1000;
+
+// Large billing files can take a long time to send
+const CSV_UPLOAD_TIMEOUT_MS = 30 * 60 * 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Cost data in view came from an uploaded billing file rather than demo data or an AWS session
+const isCsvData = (state: Pick<HauntedStore, 'demoMode' | 'awsSessionToken' | 'csvImport' | 'activeDataset'>): boolean =>
+  !state.demoMode && !state.awsSessionToken && (state.csvImport?.job?.status === 'completed' || Boolean(state.activeDataset));
+
+// CSV-mode requests name the dataset in view, or the import job for a file not merged into one
+const csvSourceParams = (state: Pick<HauntedStore, 'csvImport' | 'activeDataset'>): Record<string, string> =>
+  state.activeDataset
+    ? { dataset: state.activeDataset }
+    : state.csvImport?.job ? { importId: state.csvImport.job.id } : {};
+
+const endAwsSession = (sessionToken: string | null) => {
+  if (!sessionToken) return;
+  networkService.setSessionToken(null);
+  networkService.delete('/api/cost/session', { retries: 1 }).catch(error => {
+    console.warn('Failed to end AWS session:', error);
+  });
+};
 
 export const useHauntedStore = create<HauntedStore>((set, get) => ({
   services: [],
   selectedService: null,
   demoMode: true,
-  awsCredentials: null,
+  demoSettings: DEFAULT_DEMO_SETTINGS,
+  awsSessionToken: null,
+  linkedAccounts: [],
+  selectedAccountId: null,
+  costMetric: 'BlendedCost',
+  dateRange: createDateRange('mtd'),
+  costForecast: null,
+  anomalies: [],
+  compareMode: false,
+  costComparison: null,
+  replay: null,
+  csvImport: null,
+  datasets: [],
+  activeDataset: null,
   isInitialized: false,
   lastUpdated: new Date(),
   
@@ -322,12 +480,17 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
     set({ isLoading: true, error: null });
     
     try {
+      // Leaving AWS mode or logging in again ends the current server-side session
+      endAwsSession(get().awsSessionToken);
+
       if (mode === 'demo') {
-        const demoData = generateDemoData();
+        const demoData = await fetchDemoServices(get().demoSettings);
         
         set({ 
           demoMode: true,
-          awsCredentials: null,
+          awsSessionToken: null,
+          linkedAccounts: [],
+          selectedAccountId: null,
           services: demoData,
           isInitialized: true,
           lastUpdated: new Date(),
@@ -335,9 +498,6 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
           error: null
         });
         
-        // Cache demo data for offline use
-        cacheService.setCostData('demo', demoData);
-        
         // Initialize demo budgets with error handling
         try {
           const response = await networkService.post('/api/budget/demo/initialize');
@@ -359,10 +519,14 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
           if (!validationResponse.data.success) {
             throw new Error('Invalid AWS credentials');
           }
+
+          const { sessionToken } = validationResponse.data.data;
+          networkService.setSessionToken(sessionToken);
           
-          // Fetch AWS data with retry logic
+          // Fetch AWS data with retry logic (new credentials start with all accounts)
+          set({ awsSessionToken: sessionToken, selectedAccountId: null });
           const response = await errorRecoveryService.retryWithBackoff(
-            () => networkService.get('/api/cost/aws'),
+            () => networkService.get(buildAwsCostUrl(null, get().costMetric, get().dateRange)),
             'aws-cost-fetch'
           );
           
@@ -371,7 +535,6 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
             
             set({
               demoMode: false,
-              awsCredentials: credentials,
               services,
               isInitialized: true,
               lastUpdated: new Date(),
@@ -383,6 +546,7 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
             cacheService.setCostData('aws', services);
             
             await get().loadBudgets();
+            await get().loadLinkedAccounts();
           } else {
             throw new Error(response.data.error || 'Failed to fetch AWS data');
           }
@@ -395,7 +559,6 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
             console.log('Using cached AWS data due to network error');
             set({
               demoMode: false,
-              awsCredentials: credentials,
               services: cachedServices,
               isInitialized: true,
               lastUpdated: cacheService.getLastSync('aws') || new Date(),
@@ -425,11 +588,16 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
     }
   },
   
-  setDemoMode: (demoMode) => set({ 
-    demoMode, 
-    services: demoMode ? generateDemoData() : [],
-    lastUpdated: new Date()
-  }),
+  setDemoMode: async (demoMode) => {
+    const services = demoMode ? await fetchDemoServices(get().demoSettings) : [];
+    set({
+      demoMode,
+      services,
+      lastUpdated: new Date()
+    });
+  },
+
+  setDemoSettings: (settings) => set(state => ({ demoSettings: { ...state.demoSettings, ...settings } })),
   
   initialize: () => {
     set({ isInitialized: false });
@@ -441,29 +609,82 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
       selectedService: null,
       showBudgetPanel: false,
       error: null,
-      shareData: null
+      shareData: null,
+      compareMode: false,
+      costComparison: null,
+      replay: null
     });
   },
   
+  loadLinkedAccounts: async () => {
+    try {
+      const response = await networkService.get('/api/cost/aws/accounts');
+      if (response.data.success) {
+        set({ linkedAccounts: response.data.data });
+      }
+    } catch (error) {
+      console.warn('Failed to load linked AWS accounts:', error);
+      set({ linkedAccounts: [] });
+    }
+  },
+
+  setSelectedAccount: async (accountId) => {
+    set({ selectedAccountId: accountId, selectedService: null });
+    await get().refreshData();
+  },
+
+  setCostMetric: async (metric) => {
+    set({ costMetric: metric, selectedService: null });
+    await get().refreshData();
+  },
+
+  setDateRange: async (range) => {
+    set({ dateRange: range, selectedService: null });
+    await get().refreshData();
+  },
+
+  loadForecast: async (service) => {
+    const { demoMode, demoSettings, selectedAccountId, costMetric } = get();
+    set({ costForecast: null });
+
+    // AWS forecasts filter on the Cost Explorer service name
+    const params = new URLSearchParams(demoMode
+      ? { mode: 'demo', service: service.service, scenario: demoSettings.scenario, seed: String(demoSettings.seed) }
+      : isCsvData(get())
+        ? { mode: 'csv', service: service.service, ...csvSourceParams(get()) }
+        : { mode: 'aws', service: service.displayName, metric: costMetric });
+    if (!demoMode && !isCsvData(get()) && selectedAccountId) {
+      params.set('accountId', selectedAccountId);
+    }
+
+    try {
+      const response = await networkService.get(`/api/cost/forecast?${params.toString()}`, { retries: 1 });
+      // Ignore responses for a room that is no longer selected
+      if (response.data.success && get().selectedService?.service === service.service) {
+        set({ costForecast: response.data.data });
+      }
+    } catch (error) {
+      console.warn('Failed to load cost forecast:', error);
+    }
+  },
+  
   refreshData: async () => {
-    const { demoMode, awsCredentials } = get();
+    const { demoMode, awsSessionToken, selectedAccountId, costMetric, dateRange } = get();
     set({ isLoading: true, error: null });
     
     try {
       if (demoMode) {
-        const demoData = generateDemoData();
+        const demoData = await fetchDemoServices(get().demoSettings);
         set({ 
           services: demoData,
           lastUpdated: new Date(),
           isLoading: false
         });
-        
-        // Update cache
-        cacheService.setCostData('demo', demoData);
-      } else if (awsCredentials) {
+        get().loadBudgetUtilizations();
+      } else if (awsSessionToken) {
         try {
           const response = await errorRecoveryService.retryWithBackoff(
-            () => networkService.get('/api/cost/aws'),
+            () => networkService.get(buildAwsCostUrl(selectedAccountId, costMetric, dateRange)),
             'aws-refresh'
           );
           
@@ -479,6 +700,7 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
             
             // Update cache
             cacheService.setCostData('aws', services);
+            get().loadBudgetUtilizations();
           } else {
             throw new Error(response.data.error || 'Failed to refresh data');
           }
@@ -502,6 +724,9 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
             });
           }
         }
+      } else {
+        // Imported billing data only changes when another file is imported
+        set({ isLoading: false });
       }
     } catch (error) {
       set({
@@ -528,7 +753,7 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
       if (result.success) {
         const { budgets } = get();
         set({ budgets: [...budgets, result.data] });
-        get().calculateBudgetUtilizations();
+        get().loadBudgetUtilizations();
       }
     } catch (error) {
       console.error('Error adding budget:', error);
@@ -550,7 +775,7 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
         const { budgets } = get();
         const updatedBudgets = budgets.map(b => b.id === budget.id ? result.data : b);
         set({ budgets: updatedBudgets });
-        get().calculateBudgetUtilizations();
+        get().loadBudgetUtilizations();
       }
     } catch (error) {
       console.error('Error updating budget:', error);
@@ -568,7 +793,7 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
         const { budgets } = get();
         const updatedBudgets = budgets.filter(b => b.id !== budgetId);
         set({ budgets: updatedBudgets });
-        get().calculateBudgetUtilizations();
+        get().loadBudgetUtilizations();
       }
     } catch (error) {
       console.error('Error deleting budget:', error);
@@ -608,43 +833,220 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
       
       if (result.success) {
         set({ budgets: result.data });
-        get().calculateBudgetUtilizations();
+        get().loadBudgetUtilizations();
       }
     } catch (error) {
       console.error('Error loading budgets:', error);
     }
   },
   
-  calculateBudgetUtilizations: () => {
-    const { services, budgets } = get();
-    const utilizations: BudgetUtilization[] = [];
-    
-    for (const service of services) {
-      const budget = budgets.find(b => b.service === service.service);
-      
-      if (budget) {
-        const utilizationPercentage = (service.totalCost / budget.amount) * 100;
-        let alertLevel: 'safe' | 'warning' | 'critical' | 'over_budget' = 'safe';
-        
-        if (utilizationPercentage >= 100) {
-          alertLevel = 'over_budget';
-        } else if (utilizationPercentage >= (budget.alertThresholds[2] || 100)) {
-          alertLevel = 'critical';
-        } else if (utilizationPercentage >= (budget.alertThresholds[1] || 80)) {
-          alertLevel = 'warning';
-        }
-        
-        utilizations.push({
-          service: service.service,
-          currentCost: service.totalCost,
-          budgetAmount: budget.amount,
-          utilizationPercentage,
-          alertLevel
+  loadBudgetUtilizations: async () => {
+    const { demoMode, demoSettings, awsSessionToken, dateRange } = get();
+    const csvData = isCsvData(get());
+    if (!demoMode && !csvData && !awsSessionToken) {
+      set({ budgetUtilizations: [] });
+      return;
+    }
+
+    // The server measures each budget against the costs of its own budget period; AWS budgets use
+    // the periods containing the last day of the selected range
+    const accountId = demoMode ? 'demo' : 'aws';
+    const params = new URLSearchParams(demoMode
+      ? { mode: 'demo', scenario: demoSettings.scenario, seed: String(demoSettings.seed) }
+      : csvData ? { mode: 'csv', ...csvSourceParams(get()) } : { mode: 'aws', date: getRangeLastDay(dateRange) });
+
+    try {
+      const response = await networkService.get(`/api/budget/${accountId}/utilization?${params.toString()}`, { retries: 1 });
+      if (response.data.success) {
+        set({ budgetUtilizations: response.data.data });
+      }
+    } catch (error) {
+      console.warn('Failed to load budget utilizations:', error);
+    }
+  },
+
+  loadAnomalies: async () => {
+    const { demoMode, demoSettings, selectedAccountId, costMetric } = get();
+    const params = new URLSearchParams(demoMode
+      ? { mode: 'demo', scenario: demoSettings.scenario, seed: String(demoSettings.seed) }
+      : isCsvData(get()) ? { mode: 'csv', ...csvSourceParams(get()) } : { mode: 'aws', metric: costMetric });
+    if (!demoMode && !isCsvData(get()) && selectedAccountId) {
+      params.set('accountId', selectedAccountId);
+    }
+
+    try {
+      const response = await networkService.get(`/api/cost/anomalies?${params.toString()}`, { retries: 1 });
+      if (response.data.success) {
+        set({ anomalies: response.data.data });
+      }
+    } catch (error) {
+      console.warn('Failed to load cost anomalies:', error);
+      set({ anomalies: [] });
+    }
+  },
+
+  setCompareMode: async (compareMode) => {
+    set({ compareMode, costComparison: null });
+    if (compareMode) {
+      await get().loadComparison();
+    }
+  },
+
+  loadComparison: async () => {
+    const { demoMode, demoSettings, selectedAccountId, costMetric, dateRange, activeDataset } = get();
+    const base = getComparisonBaseRange(dateRange);
+    const params = new URLSearchParams({
+      base: `${base.start}..${base.end}`,
+      target: `${dateRange.start}..${dateRange.end}`
+    });
+    if (demoMode) {
+      params.set('scenario', demoSettings.scenario);
+      params.set('seed', String(demoSettings.seed));
+    } else if (isCsvData(get())) {
+      // Single uploads keep no per-day records to re-slice, so only datasets can be compared
+      if (!activeDataset) {
+        set({ costComparison: null });
+        return;
+      }
+      params.set('mode', 'csv');
+      params.set('dataset', activeDataset);
+    } else {
+      params.set('mode', 'aws');
+      params.set('metric', costMetric);
+      if (selectedAccountId) {
+        params.set('accountId', selectedAccountId);
+      }
+    }
+
+    try {
+      const response = await networkService.get(`/api/cost/compare?${params.toString()}`, { retries: 1 });
+      // Compare mode may have been switched off while the request was in flight
+      if (response.data.success && get().compareMode) {
+        set({ costComparison: response.data.data });
+      }
+    } catch (error) {
+      console.warn('Failed to load cost comparison:', error);
+      set({ costComparison: null });
+    }
+  },
+
+  setReplay: (replay) => set(state => ({
+    replay: replay && {
+      ...(state.replay || { date: '', playing: false, speed: REPLAY_SPEEDS[0] }),
+      ...replay
+    }
+  })),
+
+  importCostFiles: async (files, options = {}) => {
+    const updateImport = (update: Partial<CsvImportState>) =>
+      set(state => ({ csvImport: state.csvImport && { ...state.csvImport, ...update } }));
+    const fields: Record<string, string> = {};
+    if (options.columnMapping) fields.columnMapping = JSON.stringify(options.columnMapping);
+    if (options.dataset) fields.dataset = options.dataset;
+    if (options.accountId) fields.accountId = options.accountId;
+
+    // Files go one at a time so each lands in the dataset in the order given
+    let services: ServiceCost[] = [];
+    for (const [index, file] of files.entries()) {
+      set({
+        csvImport: { fileName: file.name, fileIndex: index + 1, fileCount: files.length, uploadProgress: 0, job: null, error: null }
+      });
+
+      try {
+        const response = await networkService.uploadFile('/api/cost/upload-csv', file, {
+          fieldName: 'csvFile',
+          fields,
+          timeout: CSV_UPLOAD_TIMEOUT_MS,
+          onProgress: progress => updateImport({ uploadProgress: Math.round(progress) })
         });
+        if (!response.data.success) {
+          throw new Error(response.data.error || 'Failed to upload billing file');
+        }
+
+        // The server streams the rows in the background; poll until it is done
+        let job: CsvImportJob & { costData?: { services: ServiceCost[] } } = response.data.data;
+        updateImport({ uploadProgress: 100, job });
+        while (job.status === 'processing') {
+          await delay(CSV_IMPORT_POLL_INTERVAL_MS);
+          const poll = await networkService.get(`/api/cost/upload-csv/jobs/${job.id}`, { retries: 2 });
+          job = poll.data.data;
+          const { costData, ...progress } = job;
+          updateImport({ job: progress });
+        }
+
+        if (job.status === 'failed' || !job.costData) {
+          throw new Error(job.error || 'Failed to import billing file');
+        }
+        // Dataset jobs return the merged data, so the last file's data covers them all
+        services = job.costData.services;
+      } catch (error) {
+        console.error('Billing file import failed:', error);
+        updateImport({ error: error instanceof Error ? error.message : 'Failed to import billing file' });
+        return;
       }
     }
-    
-    set({ budgetUtilizations: utilizations });
+
+    endAwsSession(get().awsSessionToken);
+    set({
+      demoMode: false,
+      awsSessionToken: null,
+      linkedAccounts: [],
+      selectedAccountId: null,
+      activeDataset: options.dataset || null,
+      services,
+      isInitialized: true,
+      lastUpdated: new Date(),
+      error: null
+    });
+    get().loadBudgetUtilizations();
+  },
+
+  loadDatasets: async () => {
+    try {
+      const response = await networkService.get('/api/cost/datasets', { retries: 2 });
+      set({ datasets: response.data.data || [] });
+    } catch (error) {
+      console.warn('Failed to load datasets:', error);
+      set({ datasets: [] });
+    }
+  },
+
+  openDataset: async (name) => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await networkService.get(`/api/cost/datasets/${encodeURIComponent(name)}/cost-data`);
+      endAwsSession(get().awsSessionToken);
+      set({
+        demoMode: false,
+        awsSessionToken: null,
+        linkedAccounts: [],
+        selectedAccountId: null,
+        activeDataset: name,
+        services: response.data.data.services,
+        isInitialized: true,
+        isLoading: false,
+        lastUpdated: new Date()
+      });
+      get().loadBudgetUtilizations();
+    } catch (error) {
+      console.error('Failed to open dataset:', error);
+      set({ isLoading: false, error: error instanceof Error ? error.message : 'Failed to open dataset' });
+    }
+  },
+
+  rollbackDatasetImport: async (name, importId) => {
+    try {
+      const response = await networkService.post(
+        `/api/cost/datasets/${encodeURIComponent(name)}/imports/${encodeURIComponent(importId)}/rollback`
+      );
+      const dataset: CostDataset = response.data.data;
+      set(state => ({
+        datasets: state.datasets.map(existing => existing.name === name ? dataset : existing)
+      }));
+    } catch (error) {
+      console.error('Failed to roll back import:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to roll back import' });
+    }
   },
 
   // Error handling actions
@@ -657,12 +1059,10 @@ export const useHauntedStore = create<HauntedStore>((set, get) => ({
   clearError: () => set({ error: null }),
   
   retryLastOperation: async () => {
-    const { demoMode, awsCredentials } = get();
+    const { demoMode, awsSessionToken } = get();
     
-    if (demoMode) {
+    if (demoMode || awsSessionToken) {
       await get().refreshData();
-    } else if (awsCredentials) {
-      await get().setMode('aws', awsCredentials);
     }
   },
   
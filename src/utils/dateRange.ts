@@ -0,0 +1,118 @@
+/**
+ * 비용 조회 기간 유틸리티
+ */
+
+export type DateRangePreset = 'mtd' | 'last_month' | 'last_90_days' | 'ytd' | 'custom';
+
+export type CostGranularity = 'DAILY' | 'MONTHLY';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, exclusive (Cost Explorer semantics)
+  granularity: CostGranularity;
+}
+
+export const DATE_RANGE_PRESET_LABELS: Record<Exclude<DateRangePreset, 'custom'>, string> = {
+  mtd: 'Month to date',
+  last_month: 'Last month',
+  last_90_days: 'Last 90 days',
+  ytd: 'Year to date'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 백엔드와 Cost Explorer가 날짜를 UTC로 해석하므로 모든 날짜 계산은 UTC 기준
+export function formatDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+/**
+ * 기간의 마지막 날 (end는 포함되지 않으므로 하루 전)
+ */
+export function getRangeLastDay(range: Pick<DateRange, 'end'>): string {
+  return formatDate(addDays(parseDate(range.end), -1));
+}
+
+/**
+ * 프리셋을 실제 기간으로 변환 (end는 포함되지 않음)
+ */
+export function getPresetRange(
+  preset: Exclude<DateRangePreset, 'custom'>,
+  today: Date = new Date()
+): { start: string; end: string } {
+  const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  let start: Date;
+
+  switch (preset) {
+    case 'last_month': {
+      const firstOfMonth = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1));
+      return {
+        start: formatDate(new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 1, 1))),
+        end: formatDate(firstOfMonth)
+      };
+    }
+    case 'last_90_days':
+      start = addDays(end, -90);
+      break;
+    case 'ytd':
+      start = new Date(Date.UTC(end.getUTCFullYear(), 0, 1));
+      break;
+    case 'mtd':
+    default:
+      start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1));
+      break;
+  }
+
+  // 기간 첫날에는 오늘 하루를 포함해 빈 기간이 되지 않도록 함
+  const rangeEnd = start.getTime() === end.getTime() ? addDays(end, 1) : end;
+
+  return { start: formatDate(start), end: formatDate(rangeEnd) };
+}
+
+export function createDateRange(
+  preset: Exclude<DateRangePreset, 'custom'>,
+  granularity: CostGranularity = 'DAILY'
+): DateRange {
+  return { preset, ...getPresetRange(preset), granularity };
+}
+
+export function getRangeDays(range: Pick<DateRange, 'start' | 'end'>): number {
+  const start = parseDate(range.start);
+  const end = parseDate(range.end);
+  return Math.max(1, Math.round((end.getTime() - start.getTime()) / DAY_MS));
+}
+
+/**
+ * 비교 기준 기간 - 월 1일에 시작하는 기간은 한 달 전 같은 날짜, 그 외에는 바로 앞의 같은 길이 기간
+ */
+export function getComparisonBaseRange(range: Pick<DateRange, 'start' | 'end'>): { start: string; end: string } {
+  const start = parseDate(range.start);
+  const end = parseDate(range.end);
+
+  if (start.getUTCDate() === 1) {
+    const months = Math.max(1, (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth());
+    // 3월 31일 → 2월 말일처럼 짧은 달에서는 말일로 맞춤
+    const lastDay = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - months + 1, 0)).getUTCDate();
+    return {
+      start: formatDate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - months, 1))),
+      end: formatDate(new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - months, Math.min(end.getUTCDate(), lastDay))))
+    };
+  }
+
+  const days = getRangeDays(range);
+  return { start: formatDate(addDays(start, -days)), end: range.start };
+}
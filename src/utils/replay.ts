@@ -0,0 +1,43 @@
+/**
+ * 타임라인 재생 유틸리티 - 일별 비용을 하루씩 누적해 저택을 다시 그린다
+ */
+
+import { ServiceCost } from '../store/hauntedStore';
+
+/**
+ * 누적 비용 타임라인 재생 상태 - null이면 방은 전체 기간 합계를 보여준다
+ */
+export interface ReplayState {
+  date: string; // Last day included in the rooms' costs
+  playing: boolean;
+  speed: number; // Days per second
+}
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+/**
+ * 모든 방의 일별 비용에 등장하는 날짜 (오름차순)
+ */
+export function getReplayDates(services: Pick<ServiceCost, 'dailyCosts'>[]): string[] {
+  const dates = new Set<string>();
+  services.forEach(service => service.dailyCosts.forEach(day => dates.add(day.date)));
+  return Array.from(dates).sort();
+}
+
+/**
+ * 해당 날짜까지의 누적 비용으로 방을 환산 - 예산 사용률도 누적 비용에 비례해 줄어든다
+ */
+export function getServicesAtDate<T extends ServiceCost>(services: T[], date: string): T[] {
+  return services.map(service => {
+    const cumulativeCost = service.dailyCosts
+      .filter(day => day.date <= date)
+      .reduce((sum, day) => sum + day.cost, 0);
+    const share = service.totalCost > 0 ? cumulativeCost / service.totalCost : 0;
+
+    return {
+      ...service,
+      totalCost: Math.round(cumulativeCost * 100) / 100,
+      budgetUtilization: service.budgetUtilization * share
+    };
+  });
+}